@@ -4,3 +4,4 @@
 
 export * from './redis'
 export * from './memory'
+export * from './tiered'
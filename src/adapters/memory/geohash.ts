@@ -0,0 +1,167 @@
+// =============================================
+// CACHYER - GEOHASH
+// =============================================
+// Redis-compatible geohash scores, distances and geohash strings used by
+// the memory adapter's GEO commands
+// =============================================
+
+import type { GeoCoordinates, GeoUnit } from "../../types/core.types";
+
+/** Latitude limits of Web Mercator, which Redis uses for scores */
+const GEO_LAT_MIN = -85.05112878;
+const GEO_LAT_MAX = 85.05112878;
+const GEO_LONG_MIN = -180;
+const GEO_LONG_MAX = 180;
+
+/** Bits per coordinate: scores are 52-bit integers, exact in a double */
+const GEO_STEP = 26;
+
+/** Earth radius Redis uses for distances */
+const EARTH_RADIUS_IN_METERS = 6372797.560856;
+
+const GEO_UNIT_METERS: Record<GeoUnit, number> = {
+  m: 1,
+  km: 1000,
+  mi: 1609.34,
+  ft: 0.3048,
+};
+
+const GEOHASH_ALPHABET = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+/** Meters per unit */
+export function geoUnitToMeters(unit: GeoUnit = "m"): number {
+  return GEO_UNIT_METERS[unit];
+}
+
+function interleave(even: number, odd: number): number {
+  let result = 0;
+  let weight = 1;
+  for (let i = 0; i < GEO_STEP; i++) {
+    result += ((even >>> i) & 1) * weight + ((odd >>> i) & 1) * weight * 2;
+    weight *= 4;
+  }
+  return result;
+}
+
+function deinterleave(bits: number): [even: number, odd: number] {
+  let even = 0;
+  let odd = 0;
+  for (let i = 0; i < GEO_STEP; i++) {
+    even |= (bits % 2) << i;
+    bits = Math.floor(bits / 2);
+    odd |= (bits % 2) << i;
+    bits = Math.floor(bits / 2);
+  }
+  return [even >>> 0, odd >>> 0];
+}
+
+function encode(
+  { longitude, latitude }: GeoCoordinates,
+  latMin: number,
+  latMax: number,
+): number {
+  const scale = 2 ** GEO_STEP;
+  const latOffset = Math.floor(
+    ((latitude - latMin) / (latMax - latMin)) * scale,
+  );
+  const longOffset = Math.floor(
+    ((longitude - GEO_LONG_MIN) / (GEO_LONG_MAX - GEO_LONG_MIN)) * scale,
+  );
+  // Latitude goes in the even bits, longitude in the odd ones
+  return interleave(
+    Math.min(latOffset, scale - 1),
+    Math.min(longOffset, scale - 1),
+  );
+}
+
+/** Whether a pair is inside the range Redis accepts for GEOADD */
+export function isValidGeoCoordinates({
+  longitude,
+  latitude,
+}: GeoCoordinates): boolean {
+  return (
+    longitude >= GEO_LONG_MIN &&
+    longitude <= GEO_LONG_MAX &&
+    latitude >= GEO_LAT_MIN &&
+    latitude <= GEO_LAT_MAX
+  );
+}
+
+/** Sorted set score of a position, as GEOADD stores it */
+export function geohashScore(coordinates: GeoCoordinates): number {
+  return encode(coordinates, GEO_LAT_MIN, GEO_LAT_MAX);
+}
+
+/** Center of the geohash cell a score stands for, as GEOPOS returns it */
+export function geohashDecode(score: number): GeoCoordinates {
+  const [latBits, longBits] = deinterleave(score);
+  const scale = 2 ** GEO_STEP;
+  const latCell = (GEO_LAT_MAX - GEO_LAT_MIN) / scale;
+  const longCell = (GEO_LONG_MAX - GEO_LONG_MIN) / scale;
+  return {
+    longitude: Math.max(
+      GEO_LONG_MIN,
+      Math.min(GEO_LONG_MAX, GEO_LONG_MIN + (longBits + 0.5) * longCell),
+    ),
+    latitude: Math.max(
+      GEO_LAT_MIN,
+      Math.min(GEO_LAT_MAX, GEO_LAT_MIN + (latBits + 0.5) * latCell),
+    ),
+  };
+}
+
+/**
+ * Standard 11-character geohash string of a score, as GEOHASH returns it.
+ * Unlike scores, these use the full -90..90 latitude range.
+ */
+export function geohashString(score: number): string {
+  const bits = encode(geohashDecode(score), -90, 90);
+  let hash = "";
+  for (let i = 0; i < 11; i++) {
+    // 52 bits fill ten characters; like Redis, the eleventh is always "0"
+    const index =
+      i === 10 ? 0 : Math.floor(bits / 2 ** (52 - (i + 1) * 5)) % 32;
+    hash += GEOHASH_ALPHABET[index];
+  }
+  return hash;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/** Haversine distance in meters */
+export function geoDistance(a: GeoCoordinates, b: GeoCoordinates): number {
+  const lat1 = toRadians(a.latitude);
+  const lat2 = toRadians(b.latitude);
+  const u = Math.sin((lat2 - lat1) / 2);
+  const v = Math.sin(toRadians(b.longitude - a.longitude) / 2);
+  return (
+    2 *
+    EARTH_RADIUS_IN_METERS *
+    Math.asin(Math.sqrt(u * u + Math.cos(lat1) * Math.cos(lat2) * v * v))
+  );
+}
+
+/**
+ * Distance in meters from `center` to `point` if the point lies in a box of
+ * the given size around the center, measured along the earth's surface
+ */
+export function geoDistanceInBox(
+  center: GeoCoordinates,
+  point: GeoCoordinates,
+  widthMeters: number,
+  heightMeters: number,
+): number | undefined {
+  const latDistance =
+    EARTH_RADIUS_IN_METERS *
+    Math.abs(toRadians(point.latitude) - toRadians(center.latitude));
+  if (latDistance > heightMeters / 2) return undefined;
+
+  const longDistance = geoDistance(
+    { longitude: center.longitude, latitude: point.latitude },
+    point,
+  );
+  if (longDistance > widthMeters / 2) return undefined;
+  return geoDistance(center, point);
+}
@@ -2,5 +2,12 @@
 // CACHYER - MEMORY ADAPTER EXPORTS
 // =============================================
 
-export { MemoryAdapter, createMemoryAdapter } from './memory.adapter'
-export type { MemoryAdapterConfig } from './memory.adapter'
+export {
+  MemoryAdapter,
+  MemoryPubSub,
+  createMemoryAdapter,
+} from './memory.adapter'
+export type {
+  MemoryAdapterConfig,
+  MemoryEvictionPolicy,
+} from './memory.adapter'
@@ -4,25 +4,72 @@
 // In-memory adapter for testing and development
 // =============================================
 
+import { createHash } from "node:crypto";
 import type {
   AdapterConfig,
   CacheAdapter,
   CacheLogger,
   ConnectionStatus,
+  KeyspaceEvent,
+  KeyspaceEventHandler,
 } from "../../types/adapter.types";
 import { defaultLogger } from "../../types/adapter.types";
 import type {
+  CacheCommand,
   CacheScanOptions,
   CacheSetOptions,
   CacheStats,
+  GeoCoordinates,
+  GeoMember,
+  GeoSearchOptions,
+  GeoSearchResult,
+  GeoUnit,
+  ListDirection,
+  SortedSetAggregateOptions,
   SortedSetRangeOptions,
+  StreamPendingEntry,
+  StreamPendingSummary,
 } from "../../types/core.types";
+import { CacheError, CacheErrorCode } from "../../types/core.types";
 import type {
   AnyPipelineEntry,
   ExecutorMetrics,
   PipelineResult,
+  ScriptDefinition,
+  ScriptImplementation,
   TransactionResult,
 } from "../../types/operation.types";
+import {
+  geoDistance,
+  geoDistanceInBox,
+  geohashDecode,
+  geohashScore,
+  geohashString,
+  geoUnitToMeters,
+  isValidGeoCoordinates,
+} from "./geohash";
+import {
+  BloomFilter,
+  CountMinSketch,
+  CuckooFilter,
+  HyperLogLog,
+} from "./probabilistic";
+
+/**
+ * Eviction policy applied when a limit is reached, mirroring Redis
+ * `maxmemory-policy`:
+ * - `lru`: least recently used key (allkeys-lru)
+ * - `lfu`: least frequently used key (allkeys-lfu)
+ * - `ttl`: key with the nearest expiry, only keys with a TTL (volatile-ttl)
+ * - `random`: any key (allkeys-random)
+ * - `noeviction`: reject writes that need more room
+ */
+export type MemoryEvictionPolicy =
+  | "lru"
+  | "lfu"
+  | "ttl"
+  | "random"
+  | "noeviction";
 
 /**
  * Memory adapter configuration
@@ -31,8 +78,277 @@ export interface MemoryAdapterConfig extends AdapterConfig {
   /** Maximum entries in cache */
   maxEntries?: number;
 
+  /** Maximum estimated memory in bytes (0 = unlimited) */
+  maxMemoryBytes?: number;
+
+  /** Eviction policy when a limit is reached (default: 'lru') */
+  evictionPolicy?: MemoryEvictionPolicy;
+
+  /**
+   * Keys sampled per eviction, like Redis `maxmemory-samples` (default: 5).
+   * The policy evicts the best candidate among the samples.
+   */
+  evictionSamples?: number;
+
   /** Check interval for TTL expiration (ms) */
   checkInterval?: number;
+
+  /** Pub/sub bus, shared between adapters that should see each other's messages */
+  pubsub?: MemoryPubSub;
+}
+
+/** RedisBloom defaults for filters created implicitly by BF.ADD and CF.ADD */
+const DEFAULT_BLOOM_ERROR_RATE = 0.01;
+const DEFAULT_BLOOM_CAPACITY = 100;
+const DEFAULT_CUCKOO_CAPACITY = 1024;
+
+/** Adapter methods of module commands, which lowercasing doesn't produce */
+const MODULE_COMMAND_METHODS: Record<string, string> = {
+  "BF.RESERVE": "bfReserve",
+  "BF.ADD": "bfAdd",
+  "BF.MADD": "bfMAdd",
+  "BF.EXISTS": "bfExists",
+  "BF.MEXISTS": "bfMExists",
+  "CF.RESERVE": "cfReserve",
+  "CF.ADD": "cfAdd",
+  "CF.DEL": "cfDel",
+  "CF.EXISTS": "cfExists",
+  "CMS.INITBYDIM": "cmsInitByDim",
+  "CMS.INITBYPROB": "cmsInitByProb",
+  "CMS.QUERY": "cmsQuery",
+};
+
+function compareMembers(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Flatten scored members into a Redis WITHSCORES reply */
+function toScoreReply(
+  items: Array<{ member: string; score: number }>,
+): string[] {
+  return items.flatMap(({ member, score }) => [member, String(score)]);
+}
+
+function weightScore(score: number, weight: number): number {
+  const weighted = score * weight;
+  // Like Redis, 0 * inf counts as 0 instead of NaN
+  return Number.isNaN(weighted) ? 0 : weighted;
+}
+
+function aggregateScores(
+  a: number,
+  b: number,
+  aggregate: SortedSetAggregateOptions["aggregate"] = "SUM",
+): number {
+  if (aggregate === "MIN") return Math.min(a, b);
+  if (aggregate === "MAX") return Math.max(a, b);
+  const sum = a + b;
+  // inf + -inf is NaN; Redis stores 0
+  return Number.isNaN(sum) ? 0 : sum;
+}
+
+/** Redis replies with distances rounded to four decimals */
+function roundGeoDistance(distance: number): number {
+  return Math.round(distance * 10_000) / 10_000;
+}
+
+/** Receives messages delivered by a MemoryPubSub bus */
+type PubSubListener = (
+  message: string,
+  channel: string,
+  pattern?: string,
+) => void;
+
+/**
+ * In-process pub/sub bus. Each MemoryAdapter creates its own unless one is
+ * passed in; adapters sharing a bus exchange messages like clients of the
+ * same Redis server.
+ */
+export class MemoryPubSub {
+  private readonly channels: Map<string, Set<PubSubListener>> = new Map();
+  private readonly patterns: Map<
+    string,
+    { regex: RegExp; listeners: Set<PubSubListener> }
+  > = new Map();
+
+  /** Deliver a message, returning how many subscriptions received it */
+  publish(channel: string, message: string): number {
+    let receivers = 0;
+
+    for (const listener of [...(this.channels.get(channel) ?? [])]) {
+      listener(message, channel);
+      receivers++;
+    }
+
+    for (const [pattern, { regex, listeners }] of [...this.patterns]) {
+      if (!regex.test(channel)) continue;
+      for (const listener of [...listeners]) {
+        listener(message, channel, pattern);
+        receivers++;
+      }
+    }
+
+    return receivers;
+  }
+
+  subscribe(channel: string, listener: PubSubListener): void {
+    const listeners = this.channels.get(channel) ?? new Set();
+    listeners.add(listener);
+    this.channels.set(channel, listeners);
+  }
+
+  unsubscribe(channel: string, listener: PubSubListener): void {
+    const listeners = this.channels.get(channel);
+    listeners?.delete(listener);
+    if (listeners?.size === 0) this.channels.delete(channel);
+  }
+
+  /** Subscribe to channels matching a glob-style pattern */
+  psubscribe(pattern: string, listener: PubSubListener): void {
+    const entry = this.patterns.get(pattern) ?? {
+      regex: patternToRegex(pattern),
+      listeners: new Set<PubSubListener>(),
+    };
+    entry.listeners.add(listener);
+    this.patterns.set(pattern, entry);
+  }
+
+  punsubscribe(pattern: string, listener: PubSubListener): void {
+    const entry = this.patterns.get(pattern);
+    entry?.listeners.delete(listener);
+    if (entry?.listeners.size === 0) this.patterns.delete(pattern);
+  }
+
+  /** Number of subscriptions to a channel (PUBSUB NUMSUB) */
+  numsub(channel: string): number {
+    return this.channels.get(channel)?.size ?? 0;
+  }
+
+  /** Number of pattern subscriptions (PUBSUB NUMPAT) */
+  numpat(): number {
+    let count = 0;
+    for (const { listeners } of this.patterns.values()) {
+      count += listeners.size;
+    }
+    return count;
+  }
+}
+
+/** Convert a Redis glob-style pattern (`*`, `?`) to a regex */
+function patternToRegex(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`);
+}
+
+/** SHA1 of a script source, matching Redis script hashes */
+function scriptSha(script: string): string {
+  return createHash("sha1").update(script).digest("hex");
+}
+
+/** Stream entry ID, `<ms>-<seq>` */
+interface StreamId {
+  ms: number;
+  seq: number;
+}
+
+interface StreamEntry extends StreamId {
+  id: string;
+  fields: Record<string, string>;
+}
+
+interface PendingInfo {
+  consumer: string;
+  /** Time of the last delivery, for idle times */
+  deliveredAt: number;
+  deliveries: number;
+}
+
+interface MemoryConsumerGroup {
+  lastDeliveredId: StreamId;
+  /** Delivered but not yet acknowledged entries, by ID */
+  pending: Map<string, PendingInfo>;
+  /** Consumers by name, with the time they were last seen */
+  consumers: Map<string, number>;
+}
+
+interface MemoryStream {
+  /** Entries in ID order */
+  entries: StreamEntry[];
+  /** Last ID ever added, which new IDs must exceed even after deletes */
+  lastId: StreamId;
+  groups: Map<string, MemoryConsumerGroup>;
+}
+
+function parseStreamId(id: string, defaultSeq: number): StreamId {
+  const match = /^(\d+)(?:-(\d+))?$/.exec(id);
+  if (!match) {
+    throw new CacheError(
+      "ERR Invalid stream ID specified as stream command argument",
+      CacheErrorCode.COMMAND_ERROR,
+    );
+  }
+  return {
+    ms: Number(match[1]),
+    seq: match[2] === undefined ? defaultSeq : Number(match[2]),
+  };
+}
+
+/** Parse an XRANGE bound: "-", "+", an ID, or an exclusive "(" ID */
+function parseRangeBound(
+  bound: string,
+  defaultSeq: number,
+): { id: StreamId; exclusive: boolean } {
+  if (bound === "-") return { id: { ms: 0, seq: 0 }, exclusive: false };
+  if (bound === "+") {
+    return {
+      id: { ms: Number.MAX_SAFE_INTEGER, seq: Number.MAX_SAFE_INTEGER },
+      exclusive: false,
+    };
+  }
+  const exclusive = bound.startsWith("(");
+  return {
+    id: parseStreamId(exclusive ? bound.slice(1) : bound, defaultSeq),
+    exclusive,
+  };
+}
+
+function inRange(
+  id: StreamId,
+  from: { id: StreamId; exclusive: boolean },
+  to: { id: StreamId; exclusive: boolean },
+): boolean {
+  const lower = compareStreamIds(id, from.id);
+  const upper = compareStreamIds(id, to.id);
+  return (
+    (from.exclusive ? lower > 0 : lower >= 0) &&
+    (to.exclusive ? upper < 0 : upper <= 0)
+  );
+}
+
+function compareStreamIds(a: StreamId, b: StreamId): number {
+  return a.ms !== b.ms ? a.ms - b.ms : a.seq - b.seq;
+}
+
+function formatStreamId(id: StreamId): string {
+  return `${id.ms}-${id.seq}`;
+}
+
+function toStreamMessage(entry: StreamEntry): {
+  id: string;
+  fields: Record<string, string>;
+} {
+  return { id: entry.id, fields: { ...entry.fields } };
+}
+
+/** A client blocked on one or more lists */
+interface ListWaiter {
+  /** Pop for the client from the key; false if there was nothing to pop */
+  serve(key: string): boolean;
+  /** Give up, resolving with null */
+  cancel(): void;
 }
 
 /**
@@ -41,7 +357,23 @@ export interface MemoryAdapterConfig extends AdapterConfig {
 interface CacheEntry {
   value: any;
   expiresAt?: number;
-  type: "string" | "list" | "set" | "zset" | "hash";
+  type:
+    | "string"
+    | "list"
+    | "set"
+    | "zset"
+    | "hash"
+    | "stream"
+    | "hll"
+    | "bloom"
+    | "cuckoo"
+    | "cms";
+  /** Logical clock of the last access, for LRU */
+  accessedAt?: number;
+  /** Access count, for LFU */
+  frequency?: number;
+  /** Estimated size in bytes, tracked when maxMemoryBytes is set */
+  size?: number;
 }
 
 /**
@@ -50,10 +382,32 @@ interface CacheEntry {
 export class MemoryAdapter implements CacheAdapter {
   readonly name = "memory";
   private readonly store: Map<string, CacheEntry> = new Map();
-  private readonly config: Required<Omit<MemoryAdapterConfig, never>>;
+  /** Keys of the store in an array, for O(1) random sampling */
+  private readonly storeKeys: string[] = [];
+  private readonly storeKeyIndex: Map<string, number> = new Map();
+  private readonly eventHandlers: Map<KeyspaceEvent, Set<KeyspaceEventHandler>> =
+    new Map();
+  private readonly scriptImpls: Map<string, ScriptImplementation> = new Map();
+  private scriptQueue: Promise<unknown> = Promise.resolve();
+  private readonly keyWaiters: Map<string, Set<(written: boolean) => void>> =
+    new Map();
+  private readonly listWaiters: Map<string, ListWaiter[]> = new Map();
+  private readonly pubsub: MemoryPubSub;
+  private readonly channelCallbacks: Map<
+    string,
+    Set<(message: string, channel: string) => void>
+  > = new Map();
+  private readonly patternCallbacks: Map<
+    string,
+    Set<(message: string, channel: string, pattern: string) => void>
+  > = new Map();
+  private readonly config: Required<Omit<MemoryAdapterConfig, "pubsub">>;
   private readonly logger: CacheLogger;
   private checkIntervalId?: NodeJS.Timeout;
   private _status: ConnectionStatus = "disconnected";
+  private accessClock = 0;
+  private usedBytes = 0;
+  private evictions = 0;
   private metrics: ExecutorMetrics = {
     totalOperations: 0,
     successfulOperations: 0,
@@ -71,9 +425,13 @@ export class MemoryAdapter implements CacheAdapter {
       defaultOptions: options?.defaultOptions ?? {},
       enableMetrics: options?.enableMetrics ?? true,
       maxEntries: options?.maxEntries ?? 10000,
+      maxMemoryBytes: options?.maxMemoryBytes ?? 0,
+      evictionPolicy: options?.evictionPolicy ?? "lru",
+      evictionSamples: options?.evictionSamples ?? 5,
       checkInterval: options?.checkInterval ?? 1000,
     };
     this.logger = this.config.logger;
+    this.pubsub = options?.pubsub ?? new MemoryPubSub();
   }
 
   get status(): ConnectionStatus {
@@ -101,6 +459,25 @@ export class MemoryAdapter implements CacheAdapter {
       clearInterval(this.checkIntervalId);
     }
     this.store.clear();
+    this.storeKeys.length = 0;
+    this.storeKeyIndex.clear();
+    this.usedBytes = 0;
+    // Release blocked reads
+    for (const waiters of [...this.keyWaiters.values()]) {
+      for (const wake of [...waiters]) wake(false);
+    }
+    for (const queue of [...this.listWaiters.values()]) {
+      for (const waiter of [...queue]) waiter.cancel();
+    }
+    // Like a closed Redis connection, drop all subscriptions
+    for (const channel of this.channelCallbacks.keys()) {
+      this.pubsub.unsubscribe(channel, this.deliver);
+    }
+    for (const pattern of this.patternCallbacks.keys()) {
+      this.pubsub.punsubscribe(pattern, this.deliver);
+    }
+    this.channelCallbacks.clear();
+    this.patternCallbacks.clear();
     this._status = "disconnected";
     this.logger.info("Disconnected from memory cache");
   }
@@ -128,6 +505,7 @@ export class MemoryAdapter implements CacheAdapter {
 
     if (options?.nx && existing) return null;
     if (options?.xx && !existing) return null;
+    this.ensureCapacity(key);
 
     let expiresAt: number | undefined;
 
@@ -139,8 +517,8 @@ export class MemoryAdapter implements CacheAdapter {
       expiresAt = existing.expiresAt;
     }
 
-    this.store.set(key, { value, expiresAt, type: "string" });
-    this.evictIfNeeded();
+    this.writeEntry(key, { value, expiresAt, type: "string" });
+    this.emit("set", key);
     return "OK";
   }
 
@@ -154,7 +532,9 @@ export class MemoryAdapter implements CacheAdapter {
   async mset(keyValues: Record<string, string>): Promise<"OK"> {
     this.recordOperation("MSET");
     for (const [key, value] of Object.entries(keyValues)) {
-      this.store.set(key, { value, type: "string" });
+      this.ensureCapacity(key);
+      this.writeEntry(key, { value, type: "string" });
+      this.emit("set", key);
     }
     return "OK";
   }
@@ -174,10 +554,11 @@ export class MemoryAdapter implements CacheAdapter {
 
   async incrby(key: string, increment: number): Promise<number> {
     this.recordOperation("INCRBY");
+    this.ensureCapacity(key);
     const entry = this.getEntry(key);
     const current = entry ? parseInt(entry.value, 10) || 0 : 0;
     const newValue = current + increment;
-    this.store.set(key, {
+    this.writeEntry(key, {
       value: String(newValue),
       expiresAt: entry?.expiresAt,
       type: "string",
@@ -199,12 +580,13 @@ export class MemoryAdapter implements CacheAdapter {
 
   async hset(key: string, field: string, value: string): Promise<number> {
     this.recordOperation("HSET");
+    this.ensureCapacity(key);
     const entry = this.getEntry(key);
     const hash: Record<string, string> =
       entry?.type === "hash" ? entry.value : {};
     const isNew = !(field in hash);
     hash[field] = value;
-    this.store.set(key, {
+    this.writeEntry(key, {
       value: hash,
       expiresAt: entry?.expiresAt,
       type: "hash",
@@ -217,13 +599,14 @@ export class MemoryAdapter implements CacheAdapter {
     fieldValues: Record<string, string | number>,
   ): Promise<"OK"> {
     this.recordOperation("HMSET");
+    this.ensureCapacity(key);
     const entry = this.getEntry(key);
     const hash: Record<string, string> =
       entry?.type === "hash" ? entry.value : {};
     for (const [field, value] of Object.entries(fieldValues)) {
       hash[field] = String(value);
     }
-    this.store.set(key, {
+    this.writeEntry(key, {
       value: hash,
       expiresAt: entry?.expiresAt,
       type: "hash",
@@ -263,6 +646,7 @@ export class MemoryAdapter implements CacheAdapter {
         deleted++;
       }
     }
+    this.resize(key);
     return deleted;
   }
 
@@ -279,13 +663,14 @@ export class MemoryAdapter implements CacheAdapter {
     increment: number,
   ): Promise<number> {
     this.recordOperation("HINCRBY");
+    this.ensureCapacity(key);
     const entry = this.getEntry(key);
     const hash: Record<string, string> =
       entry?.type === "hash" ? entry.value : {};
     const current = parseInt(hash[field] || "0", 10);
     const newValue = current + increment;
     hash[field] = String(newValue);
-    this.store.set(key, {
+    this.writeEntry(key, {
       value: hash,
       expiresAt: entry?.expiresAt,
       type: "hash",
@@ -306,44 +691,22 @@ export class MemoryAdapter implements CacheAdapter {
 
   async lpush(key: string, ...values: string[]): Promise<number> {
     this.recordOperation("LPUSH");
-    const entry = this.getEntry(key);
-    const list: string[] = entry?.type === "list" ? entry.value : [];
-    list.unshift(...values.reverse());
-    this.store.set(key, {
-      value: list,
-      expiresAt: entry?.expiresAt,
-      type: "list",
-    });
-    return list.length;
+    return this.pushList(key, "LEFT", values);
   }
 
   async rpush(key: string, ...values: string[]): Promise<number> {
     this.recordOperation("RPUSH");
-    const entry = this.getEntry(key);
-    const list: string[] = entry?.type === "list" ? entry.value : [];
-    list.push(...values);
-    this.store.set(key, {
-      value: list,
-      expiresAt: entry?.expiresAt,
-      type: "list",
-    });
-    return list.length;
+    return this.pushList(key, "RIGHT", values);
   }
 
   async lpop(key: string): Promise<string | null> {
     this.recordOperation("LPOP");
-    const entry = this.getEntry(key);
-    if (!entry || entry.type !== "list" || entry.value.length === 0)
-      return null;
-    return entry.value.shift();
+    return this.popList(key, "LEFT");
   }
 
   async rpop(key: string): Promise<string | null> {
     this.recordOperation("RPOP");
-    const entry = this.getEntry(key);
-    if (!entry || entry.type !== "list" || entry.value.length === 0)
-      return null;
-    return entry.value.pop();
+    return this.popList(key, "RIGHT");
   }
 
   async lrange(key: string, start: number, stop: number): Promise<string[]> {
@@ -369,6 +732,7 @@ export class MemoryAdapter implements CacheAdapter {
       const normalizedStop =
         stop < 0 ? entry.value.length + stop + 1 : stop + 1;
       entry.value = entry.value.slice(start, normalizedStop);
+      this.resize(key);
     }
     return "OK";
   }
@@ -382,19 +746,272 @@ export class MemoryAdapter implements CacheAdapter {
     return list[normalizedIndex] ?? null;
   }
 
+  async lset(key: string, index: number, value: string): Promise<"OK"> {
+    this.recordOperation("LSET");
+    const entry = this.getEntry(key);
+    if (!entry || entry.type !== "list") {
+      throw new CacheError("ERR no such key", CacheErrorCode.COMMAND_ERROR, {
+        command: "LSET",
+        key,
+      });
+    }
+    const list = entry.value as string[];
+    const normalizedIndex = index < 0 ? list.length + index : index;
+    if (normalizedIndex < 0 || normalizedIndex >= list.length) {
+      throw new CacheError(
+        "ERR index out of range",
+        CacheErrorCode.COMMAND_ERROR,
+        { command: "LSET", key },
+      );
+    }
+    list[normalizedIndex] = value;
+    this.resize(key);
+    return "OK";
+  }
+
+  async lrem(key: string, count: number, value: string): Promise<number> {
+    this.recordOperation("LREM");
+    const entry = this.getEntry(key);
+    if (!entry || entry.type !== "list") return 0;
+
+    const list = entry.value as string[];
+    const limit = count === 0 ? Infinity : Math.abs(count);
+    let removed = 0;
+    if (count >= 0) {
+      for (let i = 0; i < list.length && removed < limit; ) {
+        if (list[i] === value) {
+          list.splice(i, 1);
+          removed++;
+        } else i++;
+      }
+    } else {
+      for (let i = list.length - 1; i >= 0 && removed < limit; i--) {
+        if (list[i] === value) {
+          list.splice(i, 1);
+          removed++;
+        }
+      }
+    }
+    this.resize(key);
+    return removed;
+  }
+
+  async linsert(
+    key: string,
+    position: "BEFORE" | "AFTER",
+    pivot: string,
+    value: string,
+  ): Promise<number> {
+    this.recordOperation("LINSERT");
+    const entry = this.getEntry(key);
+    if (!entry || entry.type !== "list") return 0;
+
+    const list = entry.value as string[];
+    const index = list.indexOf(pivot);
+    if (index === -1) return -1;
+    this.ensureCapacity(key);
+    list.splice(
+      position.toUpperCase() === "BEFORE" ? index : index + 1,
+      0,
+      value,
+    );
+    this.resize(key);
+    return list.length;
+  }
+
+  async lpos(
+    key: string,
+    value: string,
+    options?: { rank?: number; maxlen?: number },
+  ): Promise<number | null> {
+    this.recordOperation("LPOS");
+    const rank = options?.rank ?? 1;
+    if (rank === 0) {
+      throw new CacheError(
+        "ERR RANK can't be zero: use 1 to start from the first match, 2 from the second ... or use negative to start from the end of the list",
+        CacheErrorCode.COMMAND_ERROR,
+        { command: "LPOS", key },
+      );
+    }
+
+    const entry = this.getEntry(key);
+    if (!entry || entry.type !== "list") return null;
+    const list = entry.value as string[];
+    const maxlen = options?.maxlen || Infinity;
+    const step = rank > 0 ? 1 : -1;
+    let matches = 0;
+    for (
+      let i = rank > 0 ? 0 : list.length - 1, scanned = 0;
+      i >= 0 && i < list.length && scanned < maxlen;
+      i += step, scanned++
+    ) {
+      if (list[i] === value && ++matches === Math.abs(rank)) return i;
+    }
+    return null;
+  }
+
+  async blpop(
+    keys: string[],
+    timeout: number,
+  ): Promise<{ key: string; value: string } | null> {
+    this.recordOperation("BLPOP");
+    return this.blockOnLists(keys, timeout, (key) => {
+      const value = this.popList(key, "LEFT");
+      return value === null ? null : { key, value };
+    });
+  }
+
+  async brpop(
+    keys: string[],
+    timeout: number,
+  ): Promise<{ key: string; value: string } | null> {
+    this.recordOperation("BRPOP");
+    return this.blockOnLists(keys, timeout, (key) => {
+      const value = this.popList(key, "RIGHT");
+      return value === null ? null : { key, value };
+    });
+  }
+
+  async lmove(
+    source: string,
+    destination: string,
+    from: ListDirection,
+    to: ListDirection,
+  ): Promise<string | null> {
+    this.recordOperation("LMOVE");
+    return this.moveList(source, destination, from, to);
+  }
+
+  async blmove(
+    source: string,
+    destination: string,
+    from: ListDirection,
+    to: ListDirection,
+    timeout: number,
+  ): Promise<string | null> {
+    this.recordOperation("BLMOVE");
+    return this.blockOnLists([source], timeout, () =>
+      this.moveList(source, destination, from, to),
+    );
+  }
+
+  async rpoplpush(source: string, destination: string): Promise<string | null> {
+    this.recordOperation("RPOPLPUSH");
+    return this.moveList(source, destination, "RIGHT", "LEFT");
+  }
+
+  private pushList(key: string, to: ListDirection, values: string[]): number {
+    this.ensureCapacity(key);
+    const entry = this.getEntry(key);
+    const list: string[] = entry?.type === "list" ? entry.value : [];
+    if (to.toUpperCase() === "LEFT") list.unshift(...values.reverse());
+    else list.push(...values);
+    this.writeEntry(key, {
+      value: list,
+      expiresAt: entry?.expiresAt,
+      type: "list",
+    });
+
+    // Like Redis, reply with the length before blocked clients are served
+    const length = list.length;
+    this.serveListWaiters(key);
+    return length;
+  }
+
+  private popList(key: string, from: ListDirection): string | null {
+    const entry = this.getEntry(key);
+    if (!entry || entry.type !== "list" || entry.value.length === 0)
+      return null;
+    const value =
+      from.toUpperCase() === "LEFT" ? entry.value.shift() : entry.value.pop();
+    this.resize(key);
+    return value;
+  }
+
+  private moveList(
+    source: string,
+    destination: string,
+    from: ListDirection,
+    to: ListDirection,
+  ): string | null {
+    const value = this.popList(source, from);
+    if (value !== null) this.pushList(destination, to, [value]);
+    return value;
+  }
+
+  /**
+   * Run `pop` against the first non-empty list, or queue behind other
+   * clients blocked on the same keys until a push serves it or `timeout`
+   * seconds (0 = forever) pass
+   */
+  private blockOnLists<T>(
+    keys: string[],
+    timeout: number,
+    pop: (key: string) => T | null,
+  ): Promise<T | null> {
+    for (const key of keys) {
+      const result = pop(key);
+      if (result !== null) return Promise.resolve(result);
+    }
+
+    return new Promise((resolve) => {
+      let timer: NodeJS.Timeout | undefined;
+
+      const done = (result: T | null): void => {
+        clearTimeout(timer);
+        for (const key of keys) {
+          const queue = this.listWaiters.get(key);
+          const index = queue?.indexOf(waiter) ?? -1;
+          if (index >= 0) queue!.splice(index, 1);
+          if (queue?.length === 0) this.listWaiters.delete(key);
+        }
+        resolve(result);
+      };
+
+      const waiter: ListWaiter = {
+        serve: (key) => {
+          const result = pop(key);
+          if (result === null) return false;
+          done(result);
+          return true;
+        },
+        cancel: () => done(null),
+      };
+
+      if (timeout > 0) timer = setTimeout(() => done(null), timeout * 1000);
+      for (const key of keys) {
+        let queue = this.listWaiters.get(key);
+        if (!queue) {
+          queue = [];
+          this.listWaiters.set(key, queue);
+        }
+        queue.push(waiter);
+      }
+    });
+  }
+
+  /** Hand elements of a list to its blocked clients, longest waiting first */
+  private serveListWaiters(key: string): void {
+    const queue = this.listWaiters.get(key);
+    while (queue && queue.length > 0) {
+      if (!queue[0]!.serve(key)) break;
+    }
+  }
+
   // =============================================
   // SET OPERATIONS
   // =============================================
 
   async sadd(key: string, ...members: string[]): Promise<number> {
     this.recordOperation("SADD");
+    this.ensureCapacity(key);
     const entry = this.getEntry(key);
     const set: Set<string> = entry?.type === "set" ? entry.value : new Set();
     const sizeBefore = set.size;
     for (const member of members) {
       set.add(member);
     }
-    this.store.set(key, {
+    this.writeEntry(key, {
       value: set,
       expiresAt: entry?.expiresAt,
       type: "set",
@@ -410,6 +1027,7 @@ export class MemoryAdapter implements CacheAdapter {
     for (const member of members) {
       if (entry.value.delete(member)) removed++;
     }
+    this.resize(key);
     return removed;
   }
 
@@ -496,6 +1114,7 @@ export class MemoryAdapter implements CacheAdapter {
     options?: { nx?: boolean; xx?: boolean; gt?: boolean; lt?: boolean },
   ): Promise<number> {
     this.recordOperation("ZADD");
+    this.ensureCapacity(key);
     const entry = this.getEntry(key);
     const zset: Map<string, number> =
       entry?.type === "zset" ? entry.value : new Map();
@@ -514,7 +1133,7 @@ export class MemoryAdapter implements CacheAdapter {
       zset.set(member, score);
     }
 
-    this.store.set(key, {
+    this.writeEntry(key, {
       value: zset,
       expiresAt: entry?.expiresAt,
       type: "zset",
@@ -530,6 +1149,7 @@ export class MemoryAdapter implements CacheAdapter {
     for (const member of members) {
       if (entry.value.delete(member)) removed++;
     }
+    this.resize(key);
     return removed;
   }
 
@@ -605,12 +1225,10 @@ export class MemoryAdapter implements CacheAdapter {
     const entry = this.getEntry(key);
     if (!entry || entry.type !== "zset") return 0;
 
-    const minVal = min === "-inf" ? -Infinity : Number(min);
-    const maxVal = max === "+inf" ? Infinity : Number(max);
-
+    const inRange = this.scoreRangeFilter(min, max);
     let count = 0;
     for (const score of entry.value.values()) {
-      if (score >= minVal && score <= maxVal) count++;
+      if (inRange(score)) count++;
     }
     return count;
   }
@@ -621,13 +1239,14 @@ export class MemoryAdapter implements CacheAdapter {
     member: string,
   ): Promise<string> {
     this.recordOperation("ZINCRBY");
+    this.ensureCapacity(key);
     const entry = this.getEntry(key);
     const zset: Map<string, number> =
       entry?.type === "zset" ? entry.value : new Map();
     const current = zset.get(member) ?? 0;
     const newScore = current + increment;
     zset.set(member, newScore);
-    this.store.set(key, {
+    this.writeEntry(key, {
       value: zset,
       expiresAt: entry?.expiresAt,
       type: "zset",
@@ -645,12 +1264,16 @@ export class MemoryAdapter implements CacheAdapter {
     if (!entry || entry.type !== "zset") return 0;
 
     const sorted = this.getSortedZSetEntries(key);
-    const normalizedStop = stop < 0 ? sorted.length + stop + 1 : stop + 1;
-    const toRemove = sorted.slice(start, normalizedStop);
+    // Like Redis, negative ranks count from the end and out-of-range
+    // ranks are clamped, so a stop before the first member removes nothing
+    const from = Math.max(0, start < 0 ? sorted.length + start : start);
+    const to = stop < 0 ? sorted.length + stop : stop;
+    const toRemove = to < from ? [] : sorted.slice(from, to + 1);
 
     for (const [member] of toRemove) {
       entry.value.delete(member);
     }
+    this.resize(key);
     return toRemove.length;
   }
 
@@ -663,12 +1286,10 @@ export class MemoryAdapter implements CacheAdapter {
     const entry = this.getEntry(key);
     if (!entry || entry.type !== "zset") return 0;
 
-    const minVal = min === "-inf" ? -Infinity : Number(min);
-    const maxVal = max === "+inf" ? Infinity : Number(max);
-
+    const inRange = this.scoreRangeFilter(min, max);
     const toRemove: string[] = [];
     for (const [member, score] of entry.value) {
-      if (score >= minVal && score <= maxVal) {
+      if (inRange(score)) {
         toRemove.push(member);
       }
     }
@@ -676,6 +1297,7 @@ export class MemoryAdapter implements CacheAdapter {
     for (const member of toRemove) {
       entry.value.delete(member);
     }
+    this.resize(key);
     return toRemove.length;
   }
 
@@ -686,16 +1308,10 @@ export class MemoryAdapter implements CacheAdapter {
     options?: SortedSetRangeOptions,
   ): Promise<string[] | Array<{ member: string; score: number }>> {
     this.recordOperation("ZRANGEBYSCORE");
-    const sorted = this.getSortedZSetEntries(key);
-    const { minVal, minExclusive } = this.parseScoreBound(min);
-    const { minVal: maxVal, minExclusive: maxExclusive } =
-      this.parseScoreBound(max);
-
-    let filtered = sorted.filter(([, score]) => {
-      const aboveMin = minExclusive ? score > minVal : score >= minVal;
-      const belowMax = maxExclusive ? score < maxVal : score <= maxVal;
-      return aboveMin && belowMax;
-    });
+    const inRange = this.scoreRangeFilter(min, max);
+    let filtered = this.getSortedZSetEntries(key).filter(([, score]) =>
+      inRange(score),
+    );
 
     if (options?.limit) {
       filtered = filtered.slice(
@@ -717,16 +1333,10 @@ export class MemoryAdapter implements CacheAdapter {
     options?: SortedSetRangeOptions,
   ): Promise<string[] | Array<{ member: string; score: number }>> {
     this.recordOperation("ZREVRANGEBYSCORE");
-    const sorted = this.getSortedZSetEntries(key).reverse();
-    const { minVal, minExclusive } = this.parseScoreBound(min);
-    const { minVal: maxVal, minExclusive: maxExclusive } =
-      this.parseScoreBound(max);
-
-    let filtered = sorted.filter(([, score]) => {
-      const aboveMin = minExclusive ? score > minVal : score >= minVal;
-      const belowMax = maxExclusive ? score < maxVal : score <= maxVal;
-      return aboveMin && belowMax;
-    });
+    const inRange = this.scoreRangeFilter(min, max);
+    let filtered = this.getSortedZSetEntries(key)
+      .reverse()
+      .filter(([, score]) => inRange(score));
 
     if (options?.limit) {
       filtered = filtered.slice(
@@ -741,6 +1351,19 @@ export class MemoryAdapter implements CacheAdapter {
     return filtered.map(([member]) => member);
   }
 
+  /** Score test for a min / max pair, which may be exclusive ("(5") */
+  private scoreRangeFilter(
+    min: number | string,
+    max: number | string,
+  ): (score: number) => boolean {
+    const { minVal, minExclusive } = this.parseScoreBound(min);
+    const { minVal: maxVal, minExclusive: maxExclusive } =
+      this.parseScoreBound(max);
+    return (score) =>
+      (minExclusive ? score > minVal : score >= minVal) &&
+      (maxExclusive ? score < maxVal : score <= maxVal);
+  }
+
   private parseScoreBound(bound: number | string): {
     minVal: number;
     minExclusive: boolean;
@@ -754,50 +1377,468 @@ export class MemoryAdapter implements CacheAdapter {
     return { minVal: Number(str), minExclusive: false };
   }
 
-  // =============================================
-  // KEY MANAGEMENT
-  // =============================================
+  async zrangebylex(
+    key: string,
+    min: string,
+    max: string,
+    options?: { limit?: { offset: number; count: number } },
+  ): Promise<string[]> {
+    this.recordOperation("ZRANGEBYLEX");
+    const above = this.parseLexBound(key, min, "min");
+    const below = this.parseLexBound(key, max, "max");
+
+    const members = this.getSortedZSetEntries(key)
+      .map(([member]) => member)
+      .filter((member) => above(member) && below(member));
 
-  async del(...keys: string[]): Promise<number> {
-    this.recordOperation("DEL");
-    let deleted = 0;
-    for (const key of keys) {
-      if (this.store.delete(key)) deleted++;
+    if (options?.limit) {
+      return members.slice(
+        options.limit.offset,
+        options.limit.offset + options.limit.count,
+      );
     }
-    return deleted;
+    return members;
   }
 
-  async exists(...keys: string[]): Promise<number> {
-    this.recordOperation("EXISTS");
-    let count = 0;
-    for (const key of keys) {
-      if (this.getEntry(key)) count++;
+  async zunionstore(
+    destination: string,
+    keys: string[],
+    options?: SortedSetAggregateOptions,
+  ): Promise<number> {
+    this.recordOperation("ZUNIONSTORE");
+    const inputs = this.getAggregateInputs("ZUNIONSTORE", keys, options);
+    const result = new Map<string, number>();
+
+    for (const { zset, weight } of inputs) {
+      for (const [member, score] of zset) {
+        const existing = result.get(member);
+        result.set(
+          member,
+          existing === undefined
+            ? weightScore(score, weight)
+            : aggregateScores(
+                existing,
+                weightScore(score, weight),
+                options?.aggregate,
+              ),
+        );
+      }
     }
-    return count;
+    return this.storeZSet(destination, result);
   }
 
-  async expire(key: string, seconds: number): Promise<0 | 1> {
-    this.recordOperation("EXPIRE");
-    const entry = this.store.get(key);
-    if (!entry) return 0;
-    entry.expiresAt = Date.now() + seconds * 1000;
-    return 1;
+  async zinterstore(
+    destination: string,
+    keys: string[],
+    options?: SortedSetAggregateOptions,
+  ): Promise<number> {
+    this.recordOperation("ZINTERSTORE");
+    const inputs = this.getAggregateInputs("ZINTERSTORE", keys, options);
+    const result = new Map<string, number>();
+
+    const [first, ...rest] = inputs;
+    for (const [member, score] of first?.zset ?? []) {
+      let combined = weightScore(score, first!.weight);
+      let inAll = true;
+      for (const { zset, weight } of rest) {
+        const other = zset.get(member);
+        if (other === undefined) {
+          inAll = false;
+          break;
+        }
+        combined = aggregateScores(
+          combined,
+          weightScore(other, weight),
+          options?.aggregate,
+        );
+      }
+      if (inAll) result.set(member, combined);
+    }
+    return this.storeZSet(destination, result);
   }
 
-  async expireat(key: string, timestamp: number): Promise<0 | 1> {
-    this.recordOperation("EXPIREAT");
-    const entry = this.store.get(key);
-    if (!entry) return 0;
-    entry.expiresAt = timestamp * 1000;
-    return 1;
+  async zdiff(
+    keys: string[],
+    options?: { withScores?: boolean },
+  ): Promise<string[] | Array<{ member: string; score: number }>> {
+    this.recordOperation("ZDIFF");
+    const [first, ...rest] = keys;
+    const others = rest.map((key) => this.getZSet(key));
+    const diff = (first ? this.getSortedZSetEntries(first) : []).filter(
+      ([member]) => !others.some((zset) => zset?.has(member)),
+    );
+
+    if (options?.withScores) {
+      return diff.map(([member, score]) => ({ member, score }));
+    }
+    return diff.map(([member]) => member);
   }
 
-  async ttl(key: string): Promise<number> {
-    this.recordOperation("TTL");
-    const entry = this.store.get(key);
-    if (!entry) return -2;
-    if (!entry.expiresAt) return -1;
-    const remaining = Math.ceil((entry.expiresAt - Date.now()) / 1000);
+  async zpopmin(
+    key: string,
+    count = 1,
+  ): Promise<Array<{ member: string; score: number }>> {
+    this.recordOperation("ZPOPMIN");
+    return this.popZSet(key, count, "min");
+  }
+
+  async zpopmax(
+    key: string,
+    count = 1,
+  ): Promise<Array<{ member: string; score: number }>> {
+    this.recordOperation("ZPOPMAX");
+    return this.popZSet(key, count, "max");
+  }
+
+  async bzpopmin(
+    keys: string[],
+    timeout: number,
+  ): Promise<{ key: string; member: string; score: number } | null> {
+    this.recordOperation("BZPOPMIN");
+    return this.readBlocking(keys, timeout * 1000, () => {
+      for (const key of keys) {
+        const [popped] = this.popZSet(key, 1, "min");
+        if (popped) return { key, ...popped };
+      }
+      return null;
+    });
+  }
+
+  async zrandmember(
+    key: string,
+    count?: number,
+    options?: { withScores?: boolean },
+  ): Promise<string[] | Array<{ member: string; score: number }>> {
+    this.recordOperation("ZRANDMEMBER");
+    const entries = [...(this.getZSet(key) ?? [])];
+    let picked: Array<[string, number]>;
+
+    if (count !== undefined && count < 0) {
+      // Negative counts pick independently, so members may repeat
+      picked = entries.length
+        ? Array.from(
+            { length: -count },
+            () => entries[Math.floor(Math.random() * entries.length)]!,
+          )
+        : [];
+    } else {
+      // Partial Fisher-Yates shuffle for distinct members
+      const wanted = Math.min(count ?? 1, entries.length);
+      for (let i = 0; i < wanted; i++) {
+        const j = i + Math.floor(Math.random() * (entries.length - i));
+        [entries[i], entries[j]] = [entries[j]!, entries[i]!];
+      }
+      picked = entries.slice(0, wanted);
+    }
+
+    if (options?.withScores) {
+      return picked.map(([member, score]) => ({ member, score }));
+    }
+    return picked.map(([member]) => member);
+  }
+
+  async zmscore(
+    key: string,
+    ...members: string[]
+  ): Promise<Array<string | null>> {
+    this.recordOperation("ZMSCORE");
+    const zset = this.getZSet(key);
+    return members.map((member) => {
+      const score = zset?.get(member);
+      return score !== undefined ? String(score) : null;
+    });
+  }
+
+  /** Returns a predicate for members on the inner side of a lex bound */
+  private parseLexBound(
+    key: string,
+    bound: string,
+    side: "min" | "max",
+  ): (member: string) => boolean {
+    if (bound === "-") return () => side === "min";
+    if (bound === "+") return () => side === "max";
+
+    const value = bound.slice(1);
+    const cmp = (member: string) =>
+      side === "min"
+        ? compareMembers(member, value)
+        : compareMembers(value, member);
+    if (bound.startsWith("[")) return (member) => cmp(member) >= 0;
+    if (bound.startsWith("(")) return (member) => cmp(member) > 0;
+
+    throw new CacheError(
+      "ERR min or max not valid string range item",
+      CacheErrorCode.COMMAND_ERROR,
+      { command: "ZRANGEBYLEX", key },
+    );
+  }
+
+  /** Sorted sets (or plain sets, scored 1) with their weights */
+  private getAggregateInputs(
+    command: CacheCommand,
+    keys: string[],
+    options?: SortedSetAggregateOptions,
+  ): Array<{ zset: Map<string, number>; weight: number }> {
+    if (options?.weights && options.weights.length !== keys.length) {
+      throw new CacheError("ERR syntax error", CacheErrorCode.COMMAND_ERROR, {
+        command,
+        key: keys[0],
+      });
+    }
+
+    return keys.map((key, i) => {
+      const entry = this.getEntry(key);
+      const weight = options?.weights?.[i] ?? 1;
+      if (entry?.type === "zset") return { zset: entry.value, weight };
+      if (entry?.type === "set") {
+        const zset = new Map<string, number>();
+        for (const member of entry.value as Set<string>) zset.set(member, 1);
+        return { zset, weight };
+      }
+      return { zset: new Map(), weight };
+    });
+  }
+
+  /** Overwrite destination with a computed sorted set, dropping any TTL */
+  private storeZSet(destination: string, zset: Map<string, number>): number {
+    if (zset.size === 0) {
+      // Redis deletes the destination rather than storing an empty set
+      if (this.removeEntry(destination)) this.emit("del", destination);
+      return 0;
+    }
+    this.ensureCapacity(destination);
+    this.writeEntry(destination, { value: zset, type: "zset" });
+    return zset.size;
+  }
+
+  private popZSet(
+    key: string,
+    count: number,
+    end: "min" | "max",
+  ): Array<{ member: string; score: number }> {
+    const entry = this.getEntry(key);
+    if (!entry || entry.type !== "zset" || entry.value.size === 0) return [];
+
+    const sorted = this.getSortedZSetEntries(key);
+    if (end === "max") sorted.reverse();
+    const popped = sorted.slice(0, Math.max(count, 0));
+    for (const [member] of popped) entry.value.delete(member);
+    this.resize(key);
+    return popped.map(([member, score]) => ({ member, score }));
+  }
+
+  // =============================================
+  // GEO OPERATIONS
+  // =============================================
+
+  async geoadd(
+    key: string,
+    members: GeoMember[],
+    options?: { nx?: boolean; xx?: boolean; ch?: boolean },
+  ): Promise<number> {
+    this.recordOperation("GEOADD");
+    for (const { longitude, latitude } of members) {
+      if (!isValidGeoCoordinates({ longitude, latitude })) {
+        throw new CacheError(
+          `ERR invalid longitude,latitude pair ${longitude.toFixed(6)},${latitude.toFixed(6)}`,
+          CacheErrorCode.COMMAND_ERROR,
+          { command: "GEOADD", key },
+        );
+      }
+    }
+
+    this.ensureCapacity(key);
+    const entry = this.getEntry(key);
+    const zset: Map<string, number> =
+      entry?.type === "zset" ? entry.value : new Map();
+    let changed = 0;
+
+    for (const { member, ...coordinates } of members) {
+      const score = geohashScore(coordinates);
+      const existing = zset.get(member);
+      if (options?.nx && existing !== undefined) continue;
+      if (options?.xx && existing === undefined) continue;
+
+      if (existing === undefined || (options?.ch && existing !== score)) {
+        changed++;
+      }
+      zset.set(member, score);
+    }
+
+    if (zset.size === 0) return 0;
+    this.writeEntry(key, {
+      value: zset,
+      expiresAt: entry?.expiresAt,
+      type: "zset",
+    });
+    return changed;
+  }
+
+  async geopos(
+    key: string,
+    ...members: string[]
+  ): Promise<Array<GeoCoordinates | null>> {
+    this.recordOperation("GEOPOS");
+    const zset = this.getZSet(key);
+    return members.map((member) => {
+      const score = zset?.get(member);
+      return score === undefined ? null : geohashDecode(score);
+    });
+  }
+
+  async geodist(
+    key: string,
+    member1: string,
+    member2: string,
+    unit?: GeoUnit,
+  ): Promise<number | null> {
+    this.recordOperation("GEODIST");
+    const zset = this.getZSet(key);
+    const score1 = zset?.get(member1);
+    const score2 = zset?.get(member2);
+    if (score1 === undefined || score2 === undefined) return null;
+
+    const meters = geoDistance(geohashDecode(score1), geohashDecode(score2));
+    return roundGeoDistance(meters / geoUnitToMeters(unit));
+  }
+
+  async geohash(
+    key: string,
+    ...members: string[]
+  ): Promise<Array<string | null>> {
+    this.recordOperation("GEOHASH");
+    const zset = this.getZSet(key);
+    return members.map((member) => {
+      const score = zset?.get(member);
+      return score === undefined ? null : geohashString(score);
+    });
+  }
+
+  async geosearch(
+    key: string,
+    options: GeoSearchOptions,
+  ): Promise<GeoSearchResult[]> {
+    this.recordOperation("GEOSEARCH");
+    if (options.any && options.count === undefined) {
+      throw new CacheError(
+        "ERR the ANY argument requires COUNT argument",
+        CacheErrorCode.COMMAND_ERROR,
+        { command: "GEOSEARCH", key },
+      );
+    }
+
+    const zset = this.getZSet(key) ?? new Map<string, number>();
+    let center: GeoCoordinates;
+    if ("member" in options.from) {
+      const score = zset.get(options.from.member);
+      if (score === undefined) {
+        throw new CacheError(
+          "ERR could not decode requested zset member",
+          CacheErrorCode.COMMAND_ERROR,
+          { command: "GEOSEARCH", key },
+        );
+      }
+      center = geohashDecode(score);
+    } else {
+      center = options.from;
+    }
+
+    const { by } = options;
+    const unit = geoUnitToMeters(by.unit);
+    const matches: Array<{
+      member: string;
+      score: number;
+      position: GeoCoordinates;
+      distance: number;
+    }> = [];
+
+    for (const [member, score] of zset) {
+      const position = geohashDecode(score);
+      let distance: number | undefined;
+      if ("radius" in by) {
+        distance = geoDistance(center, position);
+        if (distance > by.radius * unit) continue;
+      } else {
+        distance = geoDistanceInBox(
+          center,
+          position,
+          by.width * unit,
+          by.height * unit,
+        );
+        if (distance === undefined) continue;
+      }
+
+      matches.push({ member, score, position, distance });
+      if (options.any && matches.length >= options.count!) break;
+    }
+
+    // Redis sorts when COUNT is given without ANY, so the nearest are kept
+    const order =
+      options.order ??
+      (options.count !== undefined && !options.any ? "ASC" : undefined);
+    if (order === "ASC") matches.sort((a, b) => a.distance - b.distance);
+    if (order === "DESC") matches.sort((a, b) => b.distance - a.distance);
+
+    return matches.slice(0, options.count).map((match) => {
+      const result: GeoSearchResult = { member: match.member };
+      if (options.withDist) {
+        result.distance = roundGeoDistance(match.distance / unit);
+      }
+      if (options.withHash) result.hash = match.score;
+      if (options.withCoord) result.coordinates = match.position;
+      return result;
+    });
+  }
+
+  // =============================================
+  // KEY MANAGEMENT
+  // =============================================
+
+  async del(...keys: string[]): Promise<number> {
+    this.recordOperation("DEL");
+    let deleted = 0;
+    for (const key of keys) {
+      if (this.removeEntry(key)) {
+        deleted++;
+        this.emit("del", key);
+      }
+    }
+    return deleted;
+  }
+
+  async exists(...keys: string[]): Promise<number> {
+    this.recordOperation("EXISTS");
+    let count = 0;
+    for (const key of keys) {
+      if (this.getEntry(key)) count++;
+    }
+    return count;
+  }
+
+  /** With "NX", only sets a TTL on keys that have none */
+  async expire(key: string, seconds: number, mode?: "NX"): Promise<0 | 1> {
+    this.recordOperation("EXPIRE");
+    const entry = this.store.get(key);
+    if (!entry) return 0;
+    if (mode === "NX" && entry.expiresAt) return 0;
+    entry.expiresAt = Date.now() + seconds * 1000;
+    return 1;
+  }
+
+  async expireat(key: string, timestamp: number): Promise<0 | 1> {
+    this.recordOperation("EXPIREAT");
+    const entry = this.store.get(key);
+    if (!entry) return 0;
+    entry.expiresAt = timestamp * 1000;
+    return 1;
+  }
+
+  async ttl(key: string): Promise<number> {
+    this.recordOperation("TTL");
+    const entry = this.store.get(key);
+    if (!entry) return -2;
+    if (!entry.expiresAt) return -1;
+    const remaining = Math.ceil((entry.expiresAt - Date.now()) / 1000);
     return remaining > 0 ? remaining : -2;
   }
 
@@ -822,8 +1863,8 @@ export class MemoryAdapter implements CacheAdapter {
     this.recordOperation("RENAME");
     const entry = this.store.get(key);
     if (!entry) throw new Error(`ERR no such key: ${key}`);
-    this.store.delete(key);
-    this.store.set(newKey, entry);
+    this.removeEntry(key);
+    this.writeEntry(newKey, entry);
     return "OK";
   }
 
@@ -831,12 +1872,13 @@ export class MemoryAdapter implements CacheAdapter {
     this.recordOperation("TYPE");
     const entry = this.getEntry(key);
     if (!entry) return "none";
-    return entry.type;
+    // Redis stores HyperLogLogs as strings
+    return entry.type === "hll" ? "string" : entry.type;
   }
 
   async keys(pattern: string): Promise<string[]> {
     this.recordOperation("KEYS");
-    const regex = this.patternToRegex(pattern);
+    const regex = patternToRegex(pattern);
     const result: string[] = [];
     for (const key of this.store.keys()) {
       if (regex.test(key) && this.getEntry(key)) {
@@ -862,53 +1904,679 @@ export class MemoryAdapter implements CacheAdapter {
   }
 
   // =============================================
-  // HYPERLOGLOG OPERATIONS (Simulated)
+  // HYPERLOGLOG OPERATIONS
+  // =============================================
+
+  async pfadd(key: string, ...elements: string[]): Promise<0 | 1> {
+    this.recordOperation("PFADD");
+    this.ensureCapacity(key);
+    const entry = this.getEntry(key);
+    const hll: HyperLogLog =
+      entry?.type === "hll" ? entry.value : new HyperLogLog();
+    // Like Redis, creating the key counts as a change even with no elements
+    let changed = entry?.type !== "hll";
+    for (const el of elements) {
+      if (hll.add(String(el))) changed = true;
+    }
+    this.writeEntry(key, {
+      value: hll,
+      expiresAt: entry?.expiresAt,
+      type: "hll",
+    });
+    return changed ? 1 : 0;
+  }
+
+  async pfcount(...keys: string[]): Promise<number> {
+    this.recordOperation("PFCOUNT");
+    if (keys.length === 1) {
+      return this.getHyperLogLog(keys[0]!)?.count() ?? 0;
+    }
+    const combined = new HyperLogLog();
+    for (const key of keys) {
+      const hll = this.getHyperLogLog(key);
+      if (hll) combined.merge(hll);
+    }
+    return combined.count();
+  }
+
+  async pfmerge(destKey: string, ...sourceKeys: string[]): Promise<"OK"> {
+    this.recordOperation("PFMERGE");
+    this.ensureCapacity(destKey);
+    const entry = this.getEntry(destKey);
+    const combined: HyperLogLog =
+      entry?.type === "hll" ? entry.value : new HyperLogLog();
+    for (const key of sourceKeys) {
+      const hll = this.getHyperLogLog(key);
+      if (hll && hll !== combined) combined.merge(hll);
+    }
+    this.writeEntry(destKey, {
+      value: combined,
+      expiresAt: entry?.expiresAt,
+      type: "hll",
+    });
+    return "OK";
+  }
+
+  /**
+   * Export a HyperLogLog in Redis' HLL string encoding, the value GET
+   * returns for the key on a Redis server
+   */
+  async exportHyperLogLog(key: string): Promise<Buffer | null> {
+    this.recordOperation("GET");
+    return this.getHyperLogLog(key)?.toRedisEncoding() ?? null;
+  }
+
+  /**
+   * Store a HyperLogLog from Redis' HLL string encoding, replacing any
+   * existing value at the key
+   */
+  async importHyperLogLog(key: string, data: Uint8Array): Promise<"OK"> {
+    this.recordOperation("SET");
+    let hll: HyperLogLog;
+    try {
+      hll = HyperLogLog.fromRedisEncoding(data);
+    } catch {
+      throw new CacheError(
+        "WRONGTYPE Key is not a valid HyperLogLog string value.",
+        CacheErrorCode.COMMAND_ERROR,
+        { command: "SET", key },
+      );
+    }
+    this.ensureCapacity(key);
+    this.writeEntry(key, { value: hll, type: "hll" });
+    return "OK";
+  }
+
+  // =============================================
+  // STREAM OPERATIONS
+  // =============================================
+
+  async xadd(
+    key: string,
+    id: string | "*",
+    fields: Record<string, string>,
+  ): Promise<string> {
+    this.recordOperation("XADD");
+    const entry = this.getEntry(key);
+    const stream: MemoryStream =
+      entry?.type === "stream"
+        ? entry.value
+        : { entries: [], lastId: { ms: 0, seq: 0 }, groups: new Map() };
+    const next = this.nextStreamId(stream, id);
+    this.ensureCapacity(key);
+
+    const streamId = formatStreamId(next);
+    stream.entries.push({ id: streamId, ...next, fields: { ...fields } });
+    stream.lastId = next;
+    this.writeEntry(key, {
+      value: stream,
+      expiresAt: entry?.expiresAt,
+      type: "stream",
+    });
+    return streamId;
+  }
+
+  async xread(options: {
+    streams: string[];
+    ids: string[];
+    count?: number;
+    block?: number;
+  }): Promise<Array<{
+    stream: string;
+    messages: Array<{ id: string; fields: Record<string, string> }>;
+  }> | null> {
+    this.recordOperation("XREAD");
+
+    // "$" means entries added after this call, so resolve it once up front
+    const ids = options.ids.map((id, i) =>
+      id === "$"
+        ? formatStreamId(
+            this.getStream(options.streams[i]!)?.lastId ?? { ms: 0, seq: 0 },
+          )
+        : id,
+    );
+
+    return this.readBlocking(options.streams, options.block, () => {
+      const result: Array<{
+        stream: string;
+        messages: Array<{ id: string; fields: Record<string, string> }>;
+      }> = [];
+
+      options.streams.forEach((key, i) => {
+        const after = parseStreamId(ids[i]!, 0);
+        const messages = (this.getStream(key)?.entries ?? [])
+          .filter((e) => compareStreamIds(e, after) > 0)
+          .slice(0, options.count ?? Infinity)
+          .map(toStreamMessage);
+        if (messages.length > 0) {
+          result.push({ stream: key, messages });
+        }
+      });
+
+      return result.length > 0 ? result : null;
+    });
+  }
+
+  async xrange(
+    key: string,
+    start: string,
+    end: string,
+    count?: number,
+  ): Promise<Array<{ id: string; fields: Record<string, string> }>> {
+    this.recordOperation("XRANGE");
+    return this.streamRange(key, start, end)
+      .slice(0, count ?? Infinity)
+      .map(toStreamMessage);
+  }
+
+  async xrevrange(
+    key: string,
+    end: string,
+    start: string,
+    count?: number,
+  ): Promise<Array<{ id: string; fields: Record<string, string> }>> {
+    this.recordOperation("XREVRANGE");
+    return this.streamRange(key, start, end)
+      .reverse()
+      .slice(0, count ?? Infinity)
+      .map(toStreamMessage);
+  }
+
+  async xlen(key: string): Promise<number> {
+    this.recordOperation("XLEN");
+    return this.getStream(key)?.entries.length ?? 0;
+  }
+
+  async xtrim(
+    key: string,
+    strategy: "MAXLEN" | "MINID",
+    threshold: number | string,
+    _approximate?: boolean,
+  ): Promise<number> {
+    this.recordOperation("XTRIM");
+    const stream = this.getStream(key);
+    if (!stream) return 0;
+
+    // Trimming is always exact, which "~" permits
+    let removed: number;
+    if (strategy === "MAXLEN") {
+      removed = Math.max(0, stream.entries.length - Number(threshold));
+    } else {
+      const minId = parseStreamId(String(threshold), 0);
+      removed = stream.entries.findIndex(
+        (e) => compareStreamIds(e, minId) >= 0,
+      );
+      if (removed === -1) removed = stream.entries.length;
+    }
+
+    stream.entries.splice(0, removed);
+    this.resize(key);
+    return removed;
+  }
+
+  async xdel(key: string, ...ids: string[]): Promise<number> {
+    this.recordOperation("XDEL");
+    const stream = this.getStream(key);
+    if (!stream) return 0;
+
+    const toDelete = new Set(
+      ids.map((id) => formatStreamId(parseStreamId(id, 0))),
+    );
+    const before = stream.entries.length;
+    stream.entries = stream.entries.filter((e) => !toDelete.has(e.id));
+    this.resize(key);
+    return before - stream.entries.length;
+  }
+
+  async xgroupCreate(
+    key: string,
+    group: string,
+    id: string,
+    options?: { mkstream?: boolean },
+  ): Promise<"OK"> {
+    this.recordOperation("XGROUP");
+    let stream = this.getStream(key);
+
+    if (!stream) {
+      if (!options?.mkstream) {
+        throw new CacheError(
+          "ERR The XGROUP subcommand requires the key to exist",
+          CacheErrorCode.COMMAND_ERROR,
+          { command: "XGROUP", key },
+        );
+      }
+      this.ensureCapacity(key);
+      stream = { entries: [], lastId: { ms: 0, seq: 0 }, groups: new Map() };
+      this.writeEntry(key, { value: stream, type: "stream" });
+    }
+
+    if (stream.groups.has(group)) {
+      throw new CacheError(
+        "BUSYGROUP Consumer Group name already exists",
+        CacheErrorCode.COMMAND_ERROR,
+        { command: "XGROUP", key },
+      );
+    }
+
+    stream.groups.set(group, {
+      lastDeliveredId: id === "$" ? { ...stream.lastId } : parseStreamId(id, 0),
+      pending: new Map(),
+      consumers: new Map(),
+    });
+    return "OK";
+  }
+
+  async xgroupDestroy(key: string, group: string): Promise<0 | 1> {
+    this.recordOperation("XGROUP");
+    return this.getStream(key)?.groups.delete(group) ? 1 : 0;
+  }
+
+  async xgroupDelConsumer(
+    key: string,
+    group: string,
+    consumer: string,
+  ): Promise<number> {
+    this.recordOperation("XGROUP");
+    const consumerGroup = this.getConsumerGroup(key, group, "XGROUP");
+
+    let pending = 0;
+    for (const [id, info] of consumerGroup.pending) {
+      if (info.consumer === consumer) {
+        consumerGroup.pending.delete(id);
+        pending++;
+      }
+    }
+    consumerGroup.consumers.delete(consumer);
+    return pending;
+  }
+
+  async xreadgroup(options: {
+    group: string;
+    consumer: string;
+    streams: string[];
+    ids: string[];
+    count?: number;
+    block?: number;
+    noAck?: boolean;
+  }): Promise<Array<{
+    stream: string;
+    messages: Array<{ id: string; fields: Record<string, string> }>;
+  }> | null> {
+    this.recordOperation("XREADGROUP");
+
+    // Blocking only applies when every stream is read with ">"
+    const onlyNew = options.ids.every((id) => id === ">");
+
+    return this.readBlocking(
+      options.streams,
+      onlyNew ? options.block : undefined,
+      () => {
+        const now = Date.now();
+        const limit = options.count ?? Infinity;
+        const result: Array<{
+          stream: string;
+          messages: Array<{ id: string; fields: Record<string, string> }>;
+        }> = [];
+
+        options.streams.forEach((key, i) => {
+          const consumerGroup = this.getConsumerGroup(
+            key,
+            options.group,
+            "XREADGROUP",
+          );
+          const stream = this.getStream(key)!;
+          consumerGroup.consumers.set(options.consumer, now);
+
+          if (options.ids[i] === ">") {
+            const entries = stream.entries
+              .filter(
+                (e) => compareStreamIds(e, consumerGroup.lastDeliveredId) > 0,
+              )
+              .slice(0, limit);
+
+            for (const e of entries) {
+              consumerGroup.lastDeliveredId = { ms: e.ms, seq: e.seq };
+              if (!options.noAck) {
+                consumerGroup.pending.set(e.id, {
+                  consumer: options.consumer,
+                  deliveredAt: now,
+                  deliveries: 1,
+                });
+              }
+            }
+            if (entries.length > 0) {
+              result.push({
+                stream: key,
+                messages: entries.map(toStreamMessage),
+              });
+            }
+            return;
+          }
+
+          // Any other ID re-reads this consumer's pending entries after it
+          const after = parseStreamId(options.ids[i]!, 0);
+          const messages: Array<{
+            id: string;
+            fields: Record<string, string>;
+          }> = [];
+
+          for (const [id, info] of this.sortedPending(consumerGroup)) {
+            if (messages.length >= limit) break;
+            if (info.consumer !== options.consumer) continue;
+            if (compareStreamIds(parseStreamId(id, 0), after) <= 0) continue;
+
+            const e = this.findStreamEntry(stream, id);
+            if (!e) continue;
+            info.deliveredAt = now;
+            info.deliveries++;
+            messages.push(toStreamMessage(e));
+          }
+          result.push({ stream: key, messages });
+        });
+
+        return result.length > 0 ? result : null;
+      },
+    );
+  }
+
+  async xack(key: string, group: string, ...ids: string[]): Promise<number> {
+    this.recordOperation("XACK");
+    const stream = this.getStream(key);
+    const consumerGroup = stream?.groups.get(group);
+    if (!consumerGroup) return 0;
+
+    let acked = 0;
+    for (const id of ids) {
+      if (consumerGroup.pending.delete(formatStreamId(parseStreamId(id, 0)))) {
+        acked++;
+      }
+    }
+    return acked;
+  }
+
+  async xpending(key: string, group: string): Promise<StreamPendingSummary> {
+    this.recordOperation("XPENDING");
+    const pending = this.sortedPending(
+      this.getConsumerGroup(key, group, "XPENDING"),
+    );
+
+    const perConsumer = new Map<string, number>();
+    for (const [, info] of pending) {
+      perConsumer.set(info.consumer, (perConsumer.get(info.consumer) ?? 0) + 1);
+    }
+
+    return {
+      count: pending.length,
+      minId: pending[0]?.[0] ?? null,
+      maxId: pending[pending.length - 1]?.[0] ?? null,
+      consumers: [...perConsumer.entries()]
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([name, count]) => ({ name, pending: count })),
+    };
+  }
+
+  async xpendingRange(
+    key: string,
+    group: string,
+    start: string,
+    end: string,
+    count: number,
+    options?: { consumer?: string; minIdleTime?: number },
+  ): Promise<StreamPendingEntry[]> {
+    this.recordOperation("XPENDING");
+    const consumerGroup = this.getConsumerGroup(key, group, "XPENDING");
+    const from = parseRangeBound(start, 0);
+    const to = parseRangeBound(end, Number.MAX_SAFE_INTEGER);
+    const now = Date.now();
+    const result: StreamPendingEntry[] = [];
+
+    for (const [id, info] of this.sortedPending(consumerGroup)) {
+      if (result.length >= count) break;
+      if (!inRange(parseStreamId(id, 0), from, to)) continue;
+      if (
+        options?.consumer !== undefined &&
+        info.consumer !== options.consumer
+      ) {
+        continue;
+      }
+      const idleMs = now - info.deliveredAt;
+      if (options?.minIdleTime !== undefined && idleMs < options.minIdleTime) {
+        continue;
+      }
+      result.push({
+        id,
+        consumer: info.consumer,
+        idleMs,
+        deliveries: info.deliveries,
+      });
+    }
+    return result;
+  }
+
+  async xclaim(
+    key: string,
+    group: string,
+    consumer: string,
+    minIdleTime: number,
+    ids: string[],
+  ): Promise<Array<{ id: string; fields: Record<string, string> }>> {
+    this.recordOperation("XCLAIM");
+    const consumerGroup = this.getConsumerGroup(key, group, "XCLAIM");
+    const stream = this.getStream(key)!;
+    const now = Date.now();
+    const claimed: Array<{ id: string; fields: Record<string, string> }> = [];
+
+    consumerGroup.consumers.set(consumer, now);
+
+    for (const rawId of ids) {
+      const id = formatStreamId(parseStreamId(rawId, 0));
+      const info = consumerGroup.pending.get(id);
+      if (!info || now - info.deliveredAt < minIdleTime) continue;
+
+      // Like Redis 7, entries deleted from the stream leave the pending list
+      const e = this.findStreamEntry(stream, id);
+      if (!e) {
+        consumerGroup.pending.delete(id);
+        continue;
+      }
+
+      info.consumer = consumer;
+      info.deliveredAt = now;
+      info.deliveries++;
+      claimed.push(toStreamMessage(e));
+    }
+    return claimed;
+  }
+
+  // =============================================
+  // BLOOM FILTER OPERATIONS
+  // =============================================
+
+  async bfReserve(
+    key: string,
+    errorRate: number,
+    capacity: number,
+  ): Promise<"OK"> {
+    this.recordOperation("BF.RESERVE");
+    errorRate = Number(errorRate);
+    capacity = Number(capacity);
+    if (!(errorRate > 0 && errorRate < 1)) {
+      throw new CacheError(
+        "ERR (0 < error rate range < 1)",
+        CacheErrorCode.COMMAND_ERROR,
+        { command: "BF.RESERVE", key },
+      );
+    }
+    if (!(capacity > 0)) {
+      throw new CacheError(
+        "ERR (capacity should be larger than 0)",
+        CacheErrorCode.COMMAND_ERROR,
+        { command: "BF.RESERVE", key },
+      );
+    }
+    this.reserve(key, "BF.RESERVE", "ERR item exists", {
+      value: new BloomFilter(errorRate, capacity),
+      type: "bloom",
+    });
+    return "OK";
+  }
+
+  async bfAdd(key: string, item: string): Promise<0 | 1> {
+    this.recordOperation("BF.ADD");
+    return this.bloomAdd(key, [item])[0]!;
+  }
+
+  async bfMAdd(key: string, ...items: string[]): Promise<Array<0 | 1>> {
+    this.recordOperation("BF.MADD");
+    return this.bloomAdd(key, items);
+  }
+
+  async bfExists(key: string, item: string): Promise<0 | 1> {
+    this.recordOperation("BF.EXISTS");
+    return this.getBloomFilter(key)?.has(String(item)) ? 1 : 0;
+  }
+
+  async bfMExists(key: string, ...items: string[]): Promise<Array<0 | 1>> {
+    this.recordOperation("BF.MEXISTS");
+    const filter = this.getBloomFilter(key);
+    return items.map((item) => (filter?.has(String(item)) ? 1 : 0));
+  }
+
+  // =============================================
+  // CUCKOO FILTER OPERATIONS
+  // =============================================
+
+  async cfReserve(key: string, capacity: number): Promise<"OK"> {
+    this.recordOperation("CF.RESERVE");
+    capacity = Number(capacity);
+    if (!(capacity > 0)) {
+      throw new CacheError(
+        "ERR (capacity should be larger than 0)",
+        CacheErrorCode.COMMAND_ERROR,
+        { command: "CF.RESERVE", key },
+      );
+    }
+    this.reserve(key, "CF.RESERVE", "ERR item exists", {
+      value: new CuckooFilter(capacity),
+      type: "cuckoo",
+    });
+    return "OK";
+  }
+
+  async cfAdd(key: string, item: string): Promise<0 | 1> {
+    this.recordOperation("CF.ADD");
+    this.ensureCapacity(key);
+    const entry = this.getEntry(key);
+    const filter: CuckooFilter =
+      entry?.type === "cuckoo"
+        ? entry.value
+        : new CuckooFilter(DEFAULT_CUCKOO_CAPACITY);
+    filter.add(String(item));
+    this.writeEntry(key, {
+      value: filter,
+      expiresAt: entry?.expiresAt,
+      type: "cuckoo",
+    });
+    return 1;
+  }
+
+  async cfDel(key: string, item: string): Promise<0 | 1> {
+    this.recordOperation("CF.DEL");
+    const filter = this.getCuckooFilter(key);
+    if (!filter) {
+      throw new CacheError("ERR not found", CacheErrorCode.COMMAND_ERROR, {
+        command: "CF.DEL",
+        key,
+      });
+    }
+    return filter.delete(String(item)) ? 1 : 0;
+  }
+
+  async cfExists(key: string, item: string): Promise<0 | 1> {
+    this.recordOperation("CF.EXISTS");
+    return this.getCuckooFilter(key)?.has(String(item)) ? 1 : 0;
+  }
+
+  // =============================================
+  // COUNT-MIN SKETCH OPERATIONS
   // =============================================
 
-  async pfadd(key: string, ...elements: string[]): Promise<0 | 1> {
-    this.recordOperation("PFADD");
-    // Use a Set to simulate HyperLogLog
-    const entry = this.getEntry(key);
-    const set: Set<string> = entry?.type === "set" ? entry.value : new Set();
-    const sizeBefore = set.size;
-    for (const el of elements) {
-      set.add(el);
+  async cmsInitByDim(key: string, width: number, depth: number): Promise<"OK"> {
+    this.recordOperation("CMS.INITBYDIM");
+    width = Number(width);
+    depth = Number(depth);
+    if (!(Number.isInteger(width) && width > 0)) {
+      throw new CacheError("CMS: invalid width", CacheErrorCode.COMMAND_ERROR, {
+        command: "CMS.INITBYDIM",
+        key,
+      });
     }
-    this.store.set(key, {
-      value: set,
-      expiresAt: entry?.expiresAt,
-      type: "set",
+    if (!(Number.isInteger(depth) && depth > 0)) {
+      throw new CacheError("CMS: invalid depth", CacheErrorCode.COMMAND_ERROR, {
+        command: "CMS.INITBYDIM",
+        key,
+      });
+    }
+    this.reserve(key, "CMS.INITBYDIM", "CMS: key already exists", {
+      value: new CountMinSketch(width, depth),
+      type: "cms",
     });
-    return set.size > sizeBefore ? 1 : 0;
+    return "OK";
   }
 
-  async pfcount(...keys: string[]): Promise<number> {
-    this.recordOperation("PFCOUNT");
-    const combined = new Set<string>();
-    for (const key of keys) {
-      const entry = this.getEntry(key);
-      if (entry?.type === "set") {
-        for (const el of entry.value) {
-          combined.add(el);
-        }
-      }
+  async cmsInitByProb(
+    key: string,
+    errorRate: number,
+    probability: number,
+  ): Promise<"OK"> {
+    this.recordOperation("CMS.INITBYPROB");
+    errorRate = Number(errorRate);
+    probability = Number(probability);
+    if (!(errorRate > 0 && errorRate < 1)) {
+      throw new CacheError(
+        "CMS: invalid overestimation value",
+        CacheErrorCode.COMMAND_ERROR,
+        { command: "CMS.INITBYPROB", key },
+      );
+    }
+    if (!(probability > 0 && probability < 1)) {
+      throw new CacheError(
+        "CMS: invalid prob value",
+        CacheErrorCode.COMMAND_ERROR,
+        {
+          command: "CMS.INITBYPROB",
+          key,
+        },
+      );
     }
-    return combined.size;
+    this.reserve(key, "CMS.INITBYPROB", "CMS: key already exists", {
+      value: CountMinSketch.fromProbability(errorRate, probability),
+      type: "cms",
+    });
+    return "OK";
   }
 
-  async pfmerge(destKey: string, ...sourceKeys: string[]): Promise<"OK"> {
-    this.recordOperation("PFMERGE");
-    const combined = new Set<string>();
-    for (const key of sourceKeys) {
-      const entry = this.getEntry(key);
-      if (entry?.type === "set") {
-        for (const el of entry.value) {
-          combined.add(el);
-        }
-      }
+  async cmsIncrBy(
+    key: string,
+    increments: Record<string, number>,
+  ): Promise<number[]> {
+    this.recordOperation("CMS.INCRBY");
+    const sketch = this.requireSketch(key, "CMS.INCRBY");
+    const entries = Object.entries(increments);
+    if (entries.some(([, by]) => !(Number.isInteger(by) && by >= 0))) {
+      throw new CacheError(
+        "CMS: Cannot parse number",
+        CacheErrorCode.COMMAND_ERROR,
+        { command: "CMS.INCRBY", key },
+      );
     }
-    this.store.set(destKey, { value: combined, type: "set" });
-    return "OK";
+    return entries.map(([item, by]) => sketch.increment(item, by));
+  }
+
+  async cmsQuery(key: string, ...items: string[]): Promise<number[]> {
+    this.recordOperation("CMS.QUERY");
+    const sketch = this.requireSketch(key, "CMS.QUERY");
+    return items.map((item) => sketch.query(String(item)));
   }
 
   async executeRaw(
@@ -922,9 +2590,26 @@ export class MemoryAdapter implements CacheAdapter {
     if (cmd === "ZADD") return this._dispatchZadd(args);
     if (cmd === "ZREVRANGE") return this._dispatchZRevRange(args);
     if (cmd === "ZRANGE") return this._dispatchZRange(args);
+    if (cmd === "CMS.INCRBY") return this._dispatchCmsIncrBy(args);
+    if (cmd === "BLPOP" || cmd === "BRPOP") {
+      return this._dispatchBlockingPop(cmd, args);
+    }
+    if (cmd === "LPOS") return this._dispatchLPos(args);
+    if (cmd === "ZRANGEBYLEX") return this._dispatchZRangeByLex(args);
+    if (cmd === "ZUNIONSTORE" || cmd === "ZINTERSTORE") {
+      return this._dispatchZStore(cmd, args);
+    }
+    if (cmd === "ZDIFF") return this._dispatchZDiff(args);
+    if (cmd === "ZPOPMIN" || cmd === "ZPOPMAX") {
+      return this._dispatchZPop(cmd, args);
+    }
+    if (cmd === "BZPOPMIN") return this._dispatchBZPopMin(args);
+    if (cmd === "ZRANDMEMBER") return this._dispatchZRandMember(args);
+    if (cmd === "GEOADD") return this._dispatchGeoAdd(args);
+    if (cmd === "GEOSEARCH") return this._dispatchGeoSearch(args);
 
     // Default: method name = command lowercase, raw args passed through directly
-    const methodName = cmd.toLowerCase();
+    const methodName = MODULE_COMMAND_METHODS[cmd] ?? cmd.toLowerCase();
     const method = (this as Record<string, unknown>)[methodName];
     if (typeof method !== "function") {
       throw new Error(`executeRaw: command ${command} not supported by memory adapter`);
@@ -957,24 +2642,328 @@ export class MemoryAdapter implements CacheAdapter {
     return this.zadd(key, members, Object.keys(opts).length > 0 ? opts : undefined);
   }
 
-  private _dispatchZRevRange(
+  private async _dispatchZRevRange(
     args: (string | number)[],
-  ): Promise<string[] | Array<{ member: string; score: number }>> {
+  ): Promise<string[]> {
     const key = args[0] as string;
     const start = Number(args[1]);
     const stop = Number(args[2]);
-    const withScores = args[3] === "WITHSCORES";
-    return this.zrevrange(key, start, stop, withScores ? { withScores: true } : undefined);
+    if (String(args[3]).toUpperCase() !== "WITHSCORES") {
+      return (await this.zrevrange(key, start, stop)) as string[];
+    }
+    // Redis replies WITHSCORES as a flat member, score list
+    const items = (await this.zrevrange(key, start, stop, {
+      withScores: true,
+    })) as Array<{ member: string; score: number }>;
+    return toScoreReply(items);
   }
 
-  private _dispatchZRange(
-    args: (string | number)[],
-  ): Promise<string[] | Array<{ member: string; score: number }>> {
+  private async _dispatchZRange(args: (string | number)[]): Promise<string[]> {
     const key = args[0] as string;
     const start = Number(args[1]);
     const stop = Number(args[2]);
-    const withScores = args[3] === "WITHSCORES";
-    return this.zrange(key, start, stop, withScores ? { withScores: true } : undefined);
+    if (String(args[3]).toUpperCase() !== "WITHSCORES") {
+      return (await this.zrange(key, start, stop)) as string[];
+    }
+    // Redis replies WITHSCORES as a flat member, score list
+    const items = (await this.zrange(key, start, stop, {
+      withScores: true,
+    })) as Array<{ member: string; score: number }>;
+    return toScoreReply(items);
+  }
+
+  private async _dispatchBlockingPop(
+    cmd: "BLPOP" | "BRPOP",
+    args: (string | number)[],
+  ): Promise<[string, string] | null> {
+    // BLPOP key [...] timeout
+    const keys = args.slice(0, -1).map(String);
+    const timeout = Number(args[args.length - 1]);
+    const popped =
+      cmd === "BLPOP"
+        ? await this.blpop(keys, timeout)
+        : await this.brpop(keys, timeout);
+    return popped ? [popped.key, popped.value] : null;
+  }
+
+  private _dispatchLPos(args: (string | number)[]): Promise<number | null> {
+    // LPOS key element [RANK rank] [MAXLEN len]
+    const options: { rank?: number; maxlen?: number } = {};
+    for (let i = 2; i < args.length; i += 2) {
+      const flag = String(args[i]).toUpperCase();
+      if (flag === "RANK") options.rank = Number(args[i + 1]);
+      else if (flag === "MAXLEN") options.maxlen = Number(args[i + 1]);
+    }
+    return this.lpos(String(args[0]), String(args[1]), options);
+  }
+
+  private _dispatchZRangeByLex(args: (string | number)[]): Promise<string[]> {
+    // ZRANGEBYLEX key min max [LIMIT offset count]
+    const limit =
+      String(args[3]).toUpperCase() === "LIMIT"
+        ? { offset: Number(args[4]), count: Number(args[5]) }
+        : undefined;
+    return this.zrangebylex(
+      String(args[0]),
+      String(args[1]),
+      String(args[2]),
+      limit ? { limit } : undefined,
+    );
+  }
+
+  private _dispatchZStore(
+    cmd: "ZUNIONSTORE" | "ZINTERSTORE",
+    args: (string | number)[],
+  ): Promise<number> {
+    // ZUNIONSTORE destination numkeys key [...] [WEIGHTS w [...]]
+    //   [AGGREGATE SUM|MIN|MAX]
+    const numKeys = Number(args[1]);
+    const keys = args.slice(2, 2 + numKeys).map(String);
+    const options: SortedSetAggregateOptions = {};
+    for (let i = 2 + numKeys; i < args.length; i++) {
+      const flag = String(args[i]).toUpperCase();
+      if (flag === "WEIGHTS") {
+        options.weights = args.slice(i + 1, i + 1 + numKeys).map(Number);
+        i += numKeys;
+      } else if (flag === "AGGREGATE") {
+        options.aggregate = String(args[++i]).toUpperCase() as
+          | "SUM"
+          | "MIN"
+          | "MAX";
+      }
+    }
+    return cmd === "ZUNIONSTORE"
+      ? this.zunionstore(String(args[0]), keys, options)
+      : this.zinterstore(String(args[0]), keys, options);
+  }
+
+  private async _dispatchZDiff(args: (string | number)[]): Promise<string[]> {
+    // ZDIFF numkeys key [...] [WITHSCORES]
+    const numKeys = Number(args[0]);
+    const keys = args.slice(1, 1 + numKeys).map(String);
+    if (String(args[1 + numKeys]).toUpperCase() === "WITHSCORES") {
+      const items = (await this.zdiff(keys, { withScores: true })) as Array<{
+        member: string;
+        score: number;
+      }>;
+      return toScoreReply(items);
+    }
+    return (await this.zdiff(keys)) as string[];
+  }
+
+  private async _dispatchZPop(
+    cmd: "ZPOPMIN" | "ZPOPMAX",
+    args: (string | number)[],
+  ): Promise<string[]> {
+    // ZPOPMIN key [count]
+    const count = args[1] !== undefined ? Number(args[1]) : undefined;
+    const popped =
+      cmd === "ZPOPMIN"
+        ? await this.zpopmin(String(args[0]), count)
+        : await this.zpopmax(String(args[0]), count);
+    return toScoreReply(popped);
+  }
+
+  private async _dispatchBZPopMin(
+    args: (string | number)[],
+  ): Promise<[string, string, string] | null> {
+    // BZPOPMIN key [...] timeout
+    const popped = await this.bzpopmin(
+      args.slice(0, -1).map(String),
+      Number(args[args.length - 1]),
+    );
+    return popped ? [popped.key, popped.member, String(popped.score)] : null;
+  }
+
+  private async _dispatchZRandMember(
+    args: (string | number)[],
+  ): Promise<string | null | string[]> {
+    // ZRANDMEMBER key [count [WITHSCORES]]
+    const key = String(args[0]);
+    if (args[1] === undefined) {
+      const [member] = (await this.zrandmember(key)) as string[];
+      return member ?? null;
+    }
+    if (String(args[2]).toUpperCase() === "WITHSCORES") {
+      const items = (await this.zrandmember(key, Number(args[1]), {
+        withScores: true,
+      })) as Array<{ member: string; score: number }>;
+      return toScoreReply(items);
+    }
+    return (await this.zrandmember(key, Number(args[1]))) as string[];
+  }
+
+  private _dispatchGeoAdd(args: (string | number)[]): Promise<number> {
+    // GEOADD key [NX|XX] [CH] longitude latitude member [...]
+    const key = args[0] as string;
+    const options: { nx?: boolean; xx?: boolean; ch?: boolean } = {};
+    let i = 1;
+    for (; i < args.length; i++) {
+      const flag = String(args[i]).toUpperCase();
+      if (flag === "NX") options.nx = true;
+      else if (flag === "XX") options.xx = true;
+      else if (flag === "CH") options.ch = true;
+      else break;
+    }
+
+    const members: GeoMember[] = [];
+    for (; i + 2 < args.length; i += 3) {
+      members.push({
+        longitude: Number(args[i]),
+        latitude: Number(args[i + 1]),
+        member: String(args[i + 2]),
+      });
+    }
+    return this.geoadd(key, members, options);
+  }
+
+  private async _dispatchGeoSearch(
+    args: (string | number)[],
+  ): Promise<unknown[]> {
+    // GEOSEARCH key FROMMEMBER member | FROMLONLAT lon lat
+    //   BYRADIUS radius unit | BYBOX width height unit
+    //   [ASC|DESC] [COUNT count [ANY]] [WITHCOORD] [WITHDIST] [WITHHASH]
+    const key = args[0] as string;
+    const options: Partial<GeoSearchOptions> = {};
+    for (let i = 1; i < args.length; i++) {
+      switch (String(args[i]).toUpperCase()) {
+        case "FROMMEMBER":
+          options.from = { member: String(args[++i]) };
+          break;
+        case "FROMLONLAT":
+          options.from = {
+            longitude: Number(args[++i]),
+            latitude: Number(args[++i]),
+          };
+          break;
+        case "BYRADIUS":
+          options.by = {
+            radius: Number(args[++i]),
+            unit: String(args[++i]).toLowerCase() as GeoUnit,
+          };
+          break;
+        case "BYBOX":
+          options.by = {
+            width: Number(args[++i]),
+            height: Number(args[++i]),
+            unit: String(args[++i]).toLowerCase() as GeoUnit,
+          };
+          break;
+        case "ASC":
+        case "DESC":
+          options.order = String(args[i]).toUpperCase() as "ASC" | "DESC";
+          break;
+        case "COUNT":
+          options.count = Number(args[++i]);
+          break;
+        case "ANY":
+          options.any = true;
+          break;
+        case "WITHCOORD":
+          options.withCoord = true;
+          break;
+        case "WITHDIST":
+          options.withDist = true;
+          break;
+        case "WITHHASH":
+          options.withHash = true;
+          break;
+      }
+    }
+
+    const results = await this.geosearch(key, options as GeoSearchOptions);
+    if (!options.withCoord && !options.withDist && !options.withHash) {
+      return results.map((r) => r.member);
+    }
+    // Reply in the Redis protocol shape, as parseGeoSearchReply expects
+    return results.map((r) => {
+      const item: unknown[] = [r.member];
+      if (r.distance !== undefined) item.push(r.distance.toFixed(4));
+      if (r.hash !== undefined) item.push(r.hash);
+      if (r.coordinates) {
+        item.push([
+          String(r.coordinates.longitude),
+          String(r.coordinates.latitude),
+        ]);
+      }
+      return item;
+    });
+  }
+
+  private _dispatchCmsIncrBy(args: (string | number)[]): Promise<number[]> {
+    // CMS.INCRBY key item increment [item increment ...]
+    const key = args[0] as string;
+    const increments: Record<string, number> = {};
+    for (let i = 1; i + 1 < args.length; i += 2) {
+      const item = String(args[i]);
+      increments[item] = (increments[item] ?? 0) + Number(args[i + 1]);
+    }
+    return this.cmsIncrBy(key, increments);
+  }
+
+  // =============================================
+  // SCRIPTING
+  // =============================================
+
+  /**
+   * Run a script through its JavaScript implementation: `script.jsImpl`, or
+   * one registered for the script source with `registerScript`. Scripts run
+   * one at a time, so a script never observes another script's partial writes.
+   * Unlike Redis, they are not atomic against direct commands: a command
+   * issued while a script awaits runs between the script's own commands.
+   */
+  async executeScript<TResult>(
+    script: ScriptDefinition<any, any, TResult>,
+    keys: string[],
+    args: (string | number)[],
+  ): Promise<TResult> {
+    this.recordOperation("EVAL");
+
+    const impl = script.jsImpl ?? this.scriptImpls.get(scriptSha(script.script));
+    if (!impl) {
+      throw new CacheError(
+        `No JavaScript implementation for script${script.description ? ` "${script.description}"` : ""}`,
+        CacheErrorCode.ADAPTER_NOT_SUPPORTED,
+        { command: "EVAL" },
+      );
+    }
+
+    const run = this.scriptQueue.then(() => impl(this, keys, args.map(String)));
+    this.scriptQueue = run.catch(() => undefined);
+    const result = await run;
+
+    return script.parseResult
+      ? script.parseResult(result)
+      : (result as TResult);
+  }
+
+  /** Run a script from EVAL arguments: script, numkeys, keys, args */
+  private evalScript(
+    script: ScriptDefinition,
+    args: (string | number)[],
+  ): Promise<unknown> {
+    const end = 2 + Number(args[1]);
+    return this.executeScript(
+      { ...script, parseResult: undefined },
+      args.slice(2, end).map(String),
+      args.slice(end),
+    );
+  }
+
+  /** Returns the SHA1 of the script source, as Redis `SCRIPT LOAD` does */
+  async loadScript(script: string): Promise<string> {
+    this.recordOperation("SCRIPT");
+    return scriptSha(script);
+  }
+
+  /**
+   * Register a JavaScript implementation for a script source, for script
+   * definitions that don't carry a `jsImpl`. Returns the script SHA1.
+   */
+  registerScript(script: string, impl: ScriptImplementation): string {
+    const sha = scriptSha(script);
+    this.scriptImpls.set(sha, impl);
+    return sha;
   }
 
   // =============================================
@@ -988,7 +2977,9 @@ export class MemoryAdapter implements CacheAdapter {
     for (const entry of entries) {
       try {
         const args = entry.operation.buildArgs(entry.params);
-        const result = await this.executeRaw(entry.operation.command, args);
+        const result = entry.operation.script
+          ? await this.evalScript(entry.operation.script, args)
+          : await this.executeRaw(entry.operation.command, args);
         const parsed = entry.operation.parseResult
           ? entry.operation.parseResult(result)
           : result;
@@ -1018,6 +3009,74 @@ export class MemoryAdapter implements CacheAdapter {
     };
   }
 
+  // =============================================
+  // PUB/SUB
+  // =============================================
+
+  async publish(channel: string, message: string): Promise<number> {
+    this.recordOperation("PUBLISH");
+    return this.pubsub.publish(channel, message);
+  }
+
+  async subscribe(
+    channel: string,
+    callback: (message: string, channel: string) => void,
+  ): Promise<void> {
+    this.recordOperation("SUBSCRIBE");
+    const callbacks = this.channelCallbacks.get(channel);
+    if (callbacks) {
+      callbacks.add(callback);
+      return;
+    }
+    this.channelCallbacks.set(channel, new Set([callback]));
+    this.pubsub.subscribe(channel, this.deliver);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    this.recordOperation("UNSUBSCRIBE");
+    if (this.channelCallbacks.delete(channel)) {
+      this.pubsub.unsubscribe(channel, this.deliver);
+    }
+  }
+
+  async psubscribe(
+    pattern: string,
+    callback: (message: string, channel: string, pattern: string) => void,
+  ): Promise<void> {
+    this.recordOperation("PSUBSCRIBE");
+    const callbacks = this.patternCallbacks.get(pattern);
+    if (callbacks) {
+      callbacks.add(callback);
+      return;
+    }
+    this.patternCallbacks.set(pattern, new Set([callback]));
+    this.pubsub.psubscribe(pattern, this.deliver);
+  }
+
+  async punsubscribe(pattern: string): Promise<void> {
+    this.recordOperation("PUNSUBSCRIBE");
+    if (this.patternCallbacks.delete(pattern)) {
+      this.pubsub.punsubscribe(pattern, this.deliver);
+    }
+  }
+
+  // =============================================
+  // KEYSPACE EVENTS
+  // =============================================
+
+  async on(event: KeyspaceEvent, handler: KeyspaceEventHandler): Promise<void> {
+    const handlers = this.eventHandlers.get(event) ?? new Set();
+    handlers.add(handler);
+    this.eventHandlers.set(event, handlers);
+  }
+
+  async off(
+    event: KeyspaceEvent,
+    handler: KeyspaceEventHandler,
+  ): Promise<void> {
+    this.eventHandlers.get(event)?.delete(handler);
+  }
+
   // =============================================
   // METRICS
   // =============================================
@@ -1027,6 +3086,7 @@ export class MemoryAdapter implements CacheAdapter {
   }
 
   resetMetrics(): void {
+    this.evictions = 0;
     this.metrics = {
       totalOperations: 0,
       successfulOperations: 0,
@@ -1046,7 +3106,10 @@ export class MemoryAdapter implements CacheAdapter {
           ? this.metrics.successfulOperations / this.metrics.totalOperations
           : 0,
       size: this.store.size,
+      memoryUsage:
+        this.config.maxMemoryBytes > 0 ? this.usedBytes : undefined,
       avgLatencyMs: this.metrics.avgExecutionTimeMs,
+      evictions: this.evictions,
     };
   }
 
@@ -1059,46 +3122,493 @@ export class MemoryAdapter implements CacheAdapter {
     if (!entry) return undefined;
 
     if (entry.expiresAt && Date.now() > entry.expiresAt) {
-      this.store.delete(key);
+      this.removeEntry(key);
+      this.emit("expired", key);
       return undefined;
     }
 
+    entry.accessedAt = ++this.accessClock;
+    entry.frequency = (entry.frequency ?? 0) + 1;
     return entry;
   }
 
+  private writeEntry(key: string, entry: CacheEntry): void {
+    const existing = this.store.get(key);
+    entry.accessedAt = ++this.accessClock;
+    entry.frequency = existing?.frequency ?? 1;
+
+    if (this.config.maxMemoryBytes > 0) {
+      entry.size = this.estimateSize(key, entry);
+      if (entry.size > this.config.maxMemoryBytes) {
+        throw new CacheError(
+          `OOM value of ${key} alone is larger than 'maxmemory' (${entry.size} > ${this.config.maxMemoryBytes} bytes)`,
+          CacheErrorCode.COMMAND_ERROR,
+          { key },
+        );
+      }
+      this.usedBytes += entry.size - (existing?.size ?? 0);
+    }
+    if (!existing) {
+      this.storeKeyIndex.set(key, this.storeKeys.length);
+      this.storeKeys.push(key);
+    }
+    this.store.set(key, entry);
+
+    // Blocked reads on the key re-run and wait again if it has nothing new
+    for (const wake of [...(this.keyWaiters.get(key) ?? [])]) {
+      wake(true);
+    }
+  }
+
+  private removeEntry(key: string): boolean {
+    const entry = this.store.get(key);
+    if (!entry) return false;
+    this.usedBytes -= entry.size ?? 0;
+
+    // Swap-remove from the sampling array
+    const index = this.storeKeyIndex.get(key)!;
+    const last = this.storeKeys.pop()!;
+    if (last !== key) {
+      this.storeKeys[index] = last;
+      this.storeKeyIndex.set(last, index);
+    }
+    this.storeKeyIndex.delete(key);
+    return this.store.delete(key);
+  }
+
+  private resize(key: string): void {
+    if (this.config.maxMemoryBytes <= 0) return;
+    const entry = this.store.get(key);
+    if (!entry) return;
+    const size = this.estimateSize(key, entry);
+    this.usedBytes += size - (entry.size ?? 0);
+    entry.size = size;
+  }
+
+  private estimateSize(key: string, entry: CacheEntry): number {
+    // Rough UTF-16 string sizes plus a fixed per-entry / per-element overhead
+    let size = 64 + key.length * 2;
+    switch (entry.type) {
+      case "string":
+        size += (entry.value as string).length * 2;
+        break;
+      case "list":
+      case "set":
+        for (const item of entry.value as Iterable<string>) {
+          size += 16 + item.length * 2;
+        }
+        break;
+      case "zset":
+        for (const member of (entry.value as Map<string, number>).keys()) {
+          size += 24 + member.length * 2;
+        }
+        break;
+      case "hash":
+        for (const [field, value] of Object.entries(
+          entry.value as Record<string, string>,
+        )) {
+          size += 16 + (field.length + value.length) * 2;
+        }
+        break;
+      case "hll":
+      case "bloom":
+      case "cuckoo":
+      case "cms":
+        size += (entry.value as { byteSize: number }).byteSize;
+        break;
+      case "stream":
+        for (const e of (entry.value as MemoryStream).entries) {
+          size += 32 + e.id.length * 2;
+          for (const [field, value] of Object.entries(e.fields)) {
+            size += (field.length + value.length) * 2;
+          }
+        }
+        break;
+    }
+    return size;
+  }
+
+  /**
+   * Create a probabilistic structure at `key`, failing if the key exists
+   */
+  private reserve(
+    key: string,
+    command: CacheCommand,
+    existsMessage: string,
+    entry: CacheEntry,
+  ): void {
+    if (this.getEntry(key)) {
+      throw new CacheError(existsMessage, CacheErrorCode.COMMAND_ERROR, {
+        command,
+        key,
+      });
+    }
+    this.ensureCapacity(key);
+    this.writeEntry(key, entry);
+  }
+
+  private bloomAdd(key: string, items: string[]): Array<0 | 1> {
+    this.ensureCapacity(key);
+    const entry = this.getEntry(key);
+    const filter: BloomFilter =
+      entry?.type === "bloom"
+        ? entry.value
+        : new BloomFilter(DEFAULT_BLOOM_ERROR_RATE, DEFAULT_BLOOM_CAPACITY);
+    const added = items.map((item) => (filter.add(String(item)) ? 1 : 0));
+    this.writeEntry(key, {
+      value: filter,
+      expiresAt: entry?.expiresAt,
+      type: "bloom",
+    });
+    return added;
+  }
+
+  private getZSet(key: string): Map<string, number> | undefined {
+    const entry = this.getEntry(key);
+    return entry?.type === "zset" ? entry.value : undefined;
+  }
+
+  private getHyperLogLog(key: string): HyperLogLog | undefined {
+    const entry = this.getEntry(key);
+    return entry?.type === "hll" ? entry.value : undefined;
+  }
+
+  private getBloomFilter(key: string): BloomFilter | undefined {
+    const entry = this.getEntry(key);
+    return entry?.type === "bloom" ? entry.value : undefined;
+  }
+
+  private getCuckooFilter(key: string): CuckooFilter | undefined {
+    const entry = this.getEntry(key);
+    return entry?.type === "cuckoo" ? entry.value : undefined;
+  }
+
+  private requireSketch(key: string, command: CacheCommand): CountMinSketch {
+    const entry = this.getEntry(key);
+    if (entry?.type !== "cms") {
+      throw new CacheError(
+        "CMS: key does not exist",
+        CacheErrorCode.COMMAND_ERROR,
+        { command, key },
+      );
+    }
+    return entry.value;
+  }
+
+  private getStream(key: string): MemoryStream | undefined {
+    const entry = this.getEntry(key);
+    return entry?.type === "stream" ? entry.value : undefined;
+  }
+
+  private getConsumerGroup(
+    key: string,
+    group: string,
+    command: CacheCommand,
+  ): MemoryConsumerGroup {
+    const consumerGroup = this.getStream(key)?.groups.get(group);
+    if (!consumerGroup) {
+      throw new CacheError(
+        `NOGROUP No such key '${key}' or consumer group '${group}'`,
+        CacheErrorCode.COMMAND_ERROR,
+        { command, key },
+      );
+    }
+    return consumerGroup;
+  }
+
+  private nextStreamId(stream: MemoryStream, id: string): StreamId {
+    const last = stream.lastId;
+    let next: StreamId;
+
+    if (id === "*") {
+      const now = Date.now();
+      next =
+        now > last.ms
+          ? { ms: now, seq: 0 }
+          : { ms: last.ms, seq: last.seq + 1 };
+    } else if (id.endsWith("-*")) {
+      const ms = parseStreamId(id.slice(0, -2), 0).ms;
+      next = { ms, seq: ms === last.ms ? last.seq + 1 : ms === 0 ? 1 : 0 };
+    } else {
+      next = parseStreamId(id, 0);
+    }
+
+    if (next.ms === 0 && next.seq === 0) {
+      throw new CacheError(
+        "ERR The ID specified in XADD must be greater than 0-0",
+        CacheErrorCode.COMMAND_ERROR,
+        { command: "XADD" },
+      );
+    }
+    if (compareStreamIds(next, last) <= 0) {
+      throw new CacheError(
+        "ERR The ID specified in XADD is equal or smaller than the target stream top item",
+        CacheErrorCode.COMMAND_ERROR,
+        { command: "XADD" },
+      );
+    }
+    return next;
+  }
+
+  private streamRange(key: string, start: string, end: string): StreamEntry[] {
+    const from = parseRangeBound(start, 0);
+    const to = parseRangeBound(end, Number.MAX_SAFE_INTEGER);
+    return (this.getStream(key)?.entries ?? []).filter((e) =>
+      inRange(e, from, to),
+    );
+  }
+
+  private findStreamEntry(
+    stream: MemoryStream,
+    id: string,
+  ): StreamEntry | undefined {
+    const target = parseStreamId(id, 0);
+    let low = 0;
+    let high = stream.entries.length - 1;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const cmp = compareStreamIds(stream.entries[mid]!, target);
+      if (cmp === 0) return stream.entries[mid];
+      if (cmp < 0) low = mid + 1;
+      else high = mid - 1;
+    }
+    return undefined;
+  }
+
+  private sortedPending(
+    consumerGroup: MemoryConsumerGroup,
+  ): Array<[string, PendingInfo]> {
+    return [...consumerGroup.pending.entries()].sort(([a], [b]) =>
+      compareStreamIds(parseStreamId(a, 0), parseStreamId(b, 0)),
+    );
+  }
+
+  /**
+   * Run a read, and if it finds nothing and `block` is set, retry it
+   * whenever one of the keys is written until the timeout (0 = wait
+   * forever) runs out
+   */
+  private async readBlocking<T>(
+    keys: string[],
+    block: number | undefined,
+    read: () => T | null,
+  ): Promise<T | null> {
+    const deadline = block ? Date.now() + block : Infinity;
+
+    for (;;) {
+      const result = read();
+      if (result !== null || block === undefined) return result;
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return null;
+      if (!(await this.waitForWrite(keys, remaining))) return null;
+    }
+  }
+
+  /** Resolves true once one of the keys is written, false on timeout */
+  private waitForWrite(keys: string[], timeoutMs: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      let timer: NodeJS.Timeout | undefined;
+
+      const wake = (written: boolean): void => {
+        clearTimeout(timer);
+        for (const key of keys) {
+          const waiters = this.keyWaiters.get(key);
+          waiters?.delete(wake);
+          if (waiters?.size === 0) this.keyWaiters.delete(key);
+        }
+        resolve(written);
+      };
+
+      if (timeoutMs !== Infinity) {
+        timer = setTimeout(() => wake(false), timeoutMs);
+      }
+      for (const key of keys) {
+        let waiters = this.keyWaiters.get(key);
+        if (!waiters) {
+          waiters = new Set();
+          this.keyWaiters.set(key, waiters);
+        }
+        waiters.add(wake);
+      }
+    });
+  }
+
   private getSortedZSetEntries(key: string): Array<[string, number]> {
     const entry = this.getEntry(key);
     if (!entry || entry.type !== "zset") return [];
     const zset = entry.value as Map<string, number>;
-    return Array.from(zset.entries()).sort((a, b) => a[1] - b[1]);
+    // Like Redis, members with equal scores are ordered lexicographically
+    return Array.from(zset.entries()).sort(
+      (a, b) => a[1] - b[1] || compareMembers(a[0], b[0]),
+    );
   }
 
   private cleanExpired(): void {
     const now = Date.now();
     for (const [key, entry] of this.store) {
       if (entry.expiresAt && now > entry.expiresAt) {
-        this.store.delete(key);
+        this.removeEntry(key);
+        this.emit("expired", key);
       }
     }
   }
 
-  private evictIfNeeded(): void {
-    if (this.store.size <= this.config.maxEntries) return;
+  /**
+   * Make room for a write to `key`, evicting other keys according to the
+   * eviction policy. Throws when nothing can be evicted, like Redis does
+   * once maxmemory is reached under noeviction. A key left alone in the
+   * store may be rewritten; writeEntry rejects values over the limit alone.
+   */
+  private ensureCapacity(key: string): void {
+    while (this.isOverLimit(key)) {
+      const victim = this.selectVictim(key);
+      if (victim === undefined) {
+        const othersLeft = this.store.size - (this.store.has(key) ? 1 : 0);
+        if (this.config.evictionPolicy !== "noeviction" && othersLeft === 0) {
+          return;
+        }
+        throw new CacheError(
+          "OOM command not allowed when used memory > 'maxmemory'",
+          CacheErrorCode.COMMAND_ERROR,
+          { key },
+        );
+      }
 
-    // Simple LRU-like eviction: remove oldest entries
-    const toRemove = this.store.size - this.config.maxEntries;
-    const keys = Array.from(this.store.keys()).slice(0, toRemove);
-    for (const key of keys) {
-      this.store.delete(key);
+      // Sampled keys that already expired are freed without counting as evictions
+      const entry = this.store.get(victim)!;
+      this.removeEntry(victim);
+      if (entry.expiresAt && Date.now() > entry.expiresAt) {
+        this.emit("expired", victim);
+        continue;
+      }
+      this.evictions++;
+      this.emit("evicted", victim);
+      if (this.config.enableMetrics) {
+        this.metrics.operationCounts.EVICTED =
+          (this.metrics.operationCounts.EVICTED ?? 0) + 1;
+      }
+    }
+  }
+
+  private isOverLimit(key: string): boolean {
+    if (!this.store.has(key) && this.store.size >= this.config.maxEntries) {
+      return true;
+    }
+    return (
+      this.config.maxMemoryBytes > 0 &&
+      this.usedBytes >= this.config.maxMemoryBytes
+    );
+  }
+
+  /**
+   * Pick a victim among `evictionSamples` distinct random keys, as Redis
+   * approximates its policies. An expired sample is always picked. Under
+   * the ttl policy, falls back to a full scan when no sample has a TTL.
+   */
+  private selectVictim(exclude: string): string | undefined {
+    const policy = this.config.evictionPolicy;
+    if (policy === "noeviction") return undefined;
+
+    const now = Date.now();
+    const samples =
+      policy === "random"
+        ? this.sampleKeys(1, exclude)
+        : this.sampleKeys(this.config.evictionSamples, exclude);
+
+    let victim: string | undefined;
+    let best: CacheEntry | undefined;
+    for (const key of samples) {
+      const entry = this.store.get(key)!;
+      if (entry.expiresAt && now > entry.expiresAt) return key;
+      if (policy === "ttl" && entry.expiresAt === undefined) continue;
+      if (!best || this.evictsBefore(entry, best)) {
+        victim = key;
+        best = entry;
+      }
+    }
+    if (victim !== undefined || policy !== "ttl") return victim;
+
+    for (const [key, entry] of this.store) {
+      if (key === exclude || entry.expiresAt === undefined) continue;
+      if (!best || this.evictsBefore(entry, best)) {
+        victim = key;
+        best = entry;
+      }
+    }
+    return victim;
+  }
+
+  /** Up to `count` distinct random keys other than `exclude` */
+  private sampleKeys(count: number, exclude: string): string[] {
+    const keys = this.storeKeys;
+    const samples: string[] = [];
+    // Partial Fisher-Yates shuffle of the sampling array
+    for (let i = 0; i < keys.length && samples.length < count; i++) {
+      const j = i + Math.floor(Math.random() * (keys.length - i));
+      [keys[i], keys[j]] = [keys[j]!, keys[i]!];
+      this.storeKeyIndex.set(keys[i]!, i);
+      this.storeKeyIndex.set(keys[j]!, j);
+      if (keys[i] !== exclude) samples.push(keys[i]!);
+    }
+    return samples;
+  }
+
+  private evictsBefore(a: CacheEntry, b: CacheEntry): boolean {
+    switch (this.config.evictionPolicy) {
+      case "lfu":
+        if ((a.frequency ?? 0) !== (b.frequency ?? 0)) {
+          return (a.frequency ?? 0) < (b.frequency ?? 0);
+        }
+        return (a.accessedAt ?? 0) < (b.accessedAt ?? 0);
+      case "ttl":
+        return a.expiresAt! < b.expiresAt!;
+      default:
+        return (a.accessedAt ?? 0) < (b.accessedAt ?? 0);
+    }
+  }
+
+  /** Bus listener for all of this adapter's subscriptions */
+  private readonly deliver: PubSubListener = (message, channel, pattern) => {
+    if (pattern === undefined) {
+      for (const callback of [...(this.channelCallbacks.get(channel) ?? [])]) {
+        this.runPubSubCallback(channel, () => callback(message, channel));
+      }
+      return;
+    }
+    for (const callback of [...(this.patternCallbacks.get(pattern) ?? [])]) {
+      this.runPubSubCallback(channel, () =>
+        callback(message, channel, pattern),
+      );
+    }
+  };
+
+  private runPubSubCallback(channel: string, run: () => void): void {
+    try {
+      run();
+    } catch (error) {
+      this.logger.warn("Pub/sub callback failed", {
+        channel,
+        error: (error as Error).message,
+      });
     }
   }
 
-  private patternToRegex(pattern: string): RegExp {
-    const escaped = pattern
-      .replace(/[.+^${}()|[\]\\]/g, "\\$&")
-      .replace(/\*/g, ".*")
-      .replace(/\?/g, ".");
-    return new RegExp(`^${escaped}$`);
+  private emit(event: KeyspaceEvent, key: string): void {
+    const handlers = this.eventHandlers.get(event);
+    if (!handlers || handlers.size === 0) return;
+    for (const handler of handlers) {
+      try {
+        handler(key, event);
+      } catch (error) {
+        this.logger.warn("Keyspace event handler failed", {
+          event,
+          key,
+          error: (error as Error).message,
+        });
+      }
+    }
   }
 
   private recordOperation(command: string): void {
@@ -1114,6 +3624,9 @@ export class MemoryAdapter implements CacheAdapter {
    */
   clear(): void {
     this.store.clear();
+    this.storeKeys.length = 0;
+    this.storeKeyIndex.clear();
+    this.usedBytes = 0;
   }
 
   /**
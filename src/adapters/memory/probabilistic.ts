@@ -0,0 +1,675 @@
+// =============================================
+// CACHYER - PROBABILISTIC DATA STRUCTURES
+// =============================================
+// Bloom filter, Cuckoo filter, Count-Min Sketch and HyperLogLog used by
+// the memory adapter to emulate RedisBloom and Redis' PF* commands
+// =============================================
+
+/**
+ * 32-bit MurmurHash3 of the UTF-16 code units of a string
+ */
+function murmur3(value: string, seed: number): number {
+  let h = seed >>> 0;
+  for (let i = 0; i < value.length; i++) {
+    let k = Math.imul(value.charCodeAt(i), 0xcc9e2d51);
+    k = (k << 15) | (k >>> 17);
+    k = Math.imul(k, 0x1b873593);
+    h ^= k;
+    h = (h << 13) | (h >>> 19);
+    h = (Math.imul(h, 5) + 0xe6546b64) | 0;
+  }
+  h ^= value.length;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * Two independent hashes for double hashing: h1 + i * h2 yields as many
+ * hash functions as needed without losing accuracy
+ */
+function hashPair(value: string): [number, number] {
+  return [murmur3(value, 0x9747b28c), (murmur3(value, 0x5bd1e995) | 1) >>> 0];
+}
+
+// =============================================
+// BLOOM FILTER
+// =============================================
+
+interface BloomLayer {
+  bits: Uint8Array;
+  /** Number of bits */
+  size: number;
+  hashes: number;
+  capacity: number;
+  count: number;
+}
+
+/** Bloom filters grow by this factor when full, as in RedisBloom */
+const BLOOM_EXPANSION = 2;
+
+/**
+ * Each layer gets this fraction of the previous layer's error rate. Layer
+ * rates form a geometric series, so the first layer is sized for
+ * `errorRate * (1 - ratio)` and the sum over all layers stays below
+ * `errorRate`.
+ */
+const BLOOM_TIGHTENING_RATIO = 0.5;
+
+function createBloomLayer(errorRate: number, capacity: number): BloomLayer {
+  const bitsPerEntry = -Math.log(errorRate) / (Math.LN2 * Math.LN2);
+  const size = Math.max(8, Math.ceil(capacity * bitsPerEntry));
+  return {
+    bits: new Uint8Array(Math.ceil(size / 8)),
+    size,
+    hashes: Math.max(1, Math.ceil(Math.LN2 * bitsPerEntry)),
+    capacity,
+    count: 0,
+  };
+}
+
+function bloomPositions(layer: BloomLayer, [h1, h2]: [number, number]) {
+  const positions: number[] = [];
+  for (let i = 0; i < layer.hashes; i++) {
+    positions.push((h1 + i * h2) % layer.size);
+  }
+  return positions;
+}
+
+/**
+ * Scalable Bloom filter. Once a layer holds `capacity` items a new layer
+ * with twice the capacity and half the error rate is stacked on top, so the
+ * false positive rate stays within `errorRate` however many items are added.
+ */
+export class BloomFilter {
+  private readonly layers: BloomLayer[] = [];
+
+  constructor(
+    readonly errorRate: number,
+    readonly capacity: number,
+  ) {
+    this.layers.push(
+      createBloomLayer(errorRate * (1 - BLOOM_TIGHTENING_RATIO), capacity),
+    );
+  }
+
+  /** Number of items added */
+  get count(): number {
+    return this.layers.reduce((sum, layer) => sum + layer.count, 0);
+  }
+
+  /** Memory used by the bit arrays */
+  get byteSize(): number {
+    return this.layers.reduce((sum, layer) => sum + layer.bits.length, 0);
+  }
+
+  /**
+   * Add an item. Returns false if the item may already have been added.
+   */
+  add(item: string): boolean {
+    const hashes = hashPair(item);
+    if (this.layers.some((layer) => this.test(layer, hashes))) return false;
+
+    let layer = this.layers[this.layers.length - 1]!;
+    if (layer.count >= layer.capacity) {
+      layer = createBloomLayer(
+        this.errorRate *
+          (1 - BLOOM_TIGHTENING_RATIO) *
+          BLOOM_TIGHTENING_RATIO ** this.layers.length,
+        layer.capacity * BLOOM_EXPANSION,
+      );
+      this.layers.push(layer);
+    }
+
+    for (const position of bloomPositions(layer, hashes)) {
+      layer.bits[position >>> 3]! |= 1 << (position & 7);
+    }
+    layer.count++;
+    return true;
+  }
+
+  /** False means the item was never added; true means it probably was */
+  has(item: string): boolean {
+    const hashes = hashPair(item);
+    return this.layers.some((layer) => this.test(layer, hashes));
+  }
+
+  private test(layer: BloomLayer, hashes: [number, number]): boolean {
+    return bloomPositions(layer, hashes).every(
+      (position) => (layer.bits[position >>> 3]! & (1 << (position & 7))) !== 0,
+    );
+  }
+}
+
+// =============================================
+// CUCKOO FILTER
+// =============================================
+
+/** Fingerprints per bucket, the RedisBloom default */
+const CUCKOO_BUCKET_SIZE = 2;
+
+/** Relocations tried before a new sub-filter is added */
+const CUCKOO_MAX_ITERATIONS = 20;
+
+/**
+ * Cuckoo filter with 8-bit fingerprints. Unlike a Bloom filter, items can be
+ * deleted. When an insert can't find room after relocating existing
+ * fingerprints, a new sub-filter of the same size is added.
+ */
+export class CuckooFilter {
+  private readonly filters: Uint8Array[] = [];
+  private readonly buckets: number;
+  private items = 0;
+
+  constructor(readonly capacity: number) {
+    // The bucket count must be a power of two for the XOR alternate index
+    let buckets = 1;
+    while (buckets * CUCKOO_BUCKET_SIZE < capacity) buckets *= 2;
+    this.buckets = buckets;
+    this.filters.push(this.createFilter());
+  }
+
+  /** Number of items added and not deleted */
+  get count(): number {
+    return this.items;
+  }
+
+  /** Memory used by the bucket arrays */
+  get byteSize(): number {
+    return this.filters.length * this.buckets * CUCKOO_BUCKET_SIZE;
+  }
+
+  /** Add an item. The same item can be added more than once. */
+  add(item: string): void {
+    const { fingerprint, index, altIndex } = this.locate(item);
+
+    for (const filter of this.filters) {
+      if (
+        this.insertAt(filter, index, fingerprint) ||
+        this.insertAt(filter, altIndex, fingerprint)
+      ) {
+        this.items++;
+        return;
+      }
+    }
+
+    // Every candidate bucket is full: evict fingerprints in the newest filter
+    const filter = this.filters[this.filters.length - 1]!;
+    let victim = fingerprint;
+    let bucket = index;
+    for (let i = 0; i < CUCKOO_MAX_ITERATIONS; i++) {
+      const slot = bucket * CUCKOO_BUCKET_SIZE + (i % CUCKOO_BUCKET_SIZE);
+      const evicted = filter[slot]!;
+      filter[slot] = victim;
+      victim = evicted;
+      bucket = this.altIndex(bucket, victim);
+      if (this.insertAt(filter, bucket, victim)) {
+        this.items++;
+        return;
+      }
+    }
+
+    // The last evicted fingerprint moves to a new filter at the same bucket
+    const next = this.createFilter();
+    this.insertAt(next, bucket, victim);
+    this.filters.push(next);
+    this.items++;
+  }
+
+  /** Delete one occurrence of an item. Returns false if it wasn't found. */
+  delete(item: string): boolean {
+    const { fingerprint, index, altIndex } = this.locate(item);
+    for (let f = this.filters.length - 1; f >= 0; f--) {
+      const filter = this.filters[f]!;
+      if (
+        this.removeAt(filter, index, fingerprint) ||
+        this.removeAt(filter, altIndex, fingerprint)
+      ) {
+        this.items--;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** False means the item is not in the filter; true means it probably is */
+  has(item: string): boolean {
+    const { fingerprint, index, altIndex } = this.locate(item);
+    return this.filters.some(
+      (filter) =>
+        this.findAt(filter, index, fingerprint) >= 0 ||
+        this.findAt(filter, altIndex, fingerprint) >= 0,
+    );
+  }
+
+  private createFilter(): Uint8Array {
+    return new Uint8Array(this.buckets * CUCKOO_BUCKET_SIZE);
+  }
+
+  private locate(item: string) {
+    const [h1, h2] = hashPair(item);
+    // Zero marks an empty slot, so fingerprints are 1..255
+    const fingerprint = (h2 % 255) + 1;
+    const index = h1 & (this.buckets - 1);
+    return { fingerprint, index, altIndex: this.altIndex(index, fingerprint) };
+  }
+
+  private altIndex(index: number, fingerprint: number): number {
+    return (
+      (index ^ murmur3(String(fingerprint), 0x2f693b52)) & (this.buckets - 1)
+    );
+  }
+
+  private findAt(filter: Uint8Array, bucket: number, value: number): number {
+    const start = bucket * CUCKOO_BUCKET_SIZE;
+    for (let i = start; i < start + CUCKOO_BUCKET_SIZE; i++) {
+      if (filter[i] === value) return i;
+    }
+    return -1;
+  }
+
+  private insertAt(
+    filter: Uint8Array,
+    bucket: number,
+    fingerprint: number,
+  ): boolean {
+    const slot = this.findAt(filter, bucket, 0);
+    if (slot < 0) return false;
+    filter[slot] = fingerprint;
+    return true;
+  }
+
+  private removeAt(
+    filter: Uint8Array,
+    bucket: number,
+    fingerprint: number,
+  ): boolean {
+    const slot = this.findAt(filter, bucket, fingerprint);
+    if (slot < 0) return false;
+    filter[slot] = 0;
+    return true;
+  }
+}
+
+// =============================================
+// COUNT-MIN SKETCH
+// =============================================
+
+/**
+ * Count-Min Sketch: `depth` rows of `width` counters. Estimates never
+ * undercount, and overcount by more than `2 / width` of the total count
+ * with probability at most `0.5 ^ depth`.
+ */
+export class CountMinSketch {
+  private readonly counters: Uint32Array;
+
+  constructor(
+    readonly width: number,
+    readonly depth: number,
+  ) {
+    this.counters = new Uint32Array(width * depth);
+  }
+
+  /**
+   * Size a sketch for an error rate (as a fraction of the total count) and
+   * the probability of exceeding it, using the RedisBloom formulas
+   */
+  static fromProbability(errorRate: number, probability: number) {
+    return new CountMinSketch(
+      Math.ceil(2 / errorRate),
+      Math.ceil(Math.log(probability) / Math.log(0.5)),
+    );
+  }
+
+  /** Memory used by the counters */
+  get byteSize(): number {
+    return this.counters.byteLength;
+  }
+
+  /** Increase an item's count and return its new estimate */
+  increment(item: string, by: number): number {
+    const [h1, h2] = hashPair(item);
+    let min = Infinity;
+    for (let row = 0; row < this.depth; row++) {
+      const i = row * this.width + ((h1 + row * h2) % this.width);
+      this.counters[i] = Math.min(this.counters[i]! + by, 0xffffffff);
+      min = Math.min(min, this.counters[i]!);
+    }
+    return min;
+  }
+
+  /** Estimated count of an item */
+  query(item: string): number {
+    const [h1, h2] = hashPair(item);
+    let min = Infinity;
+    for (let row = 0; row < this.depth; row++) {
+      min = Math.min(
+        min,
+        this.counters[row * this.width + ((h1 + row * h2) % this.width)]!,
+      );
+    }
+    return min;
+  }
+}
+
+// =============================================
+// HYPERLOGLOG
+// =============================================
+
+/** Index bits: 2^14 registers give Redis' 0.81% standard error */
+const HLL_P = 14;
+const HLL_REGISTERS = 1 << HLL_P;
+/** Hash bits left after the index, bounding register values to Q + 1 */
+const HLL_Q = 64 - HLL_P;
+const HLL_HEADER_SIZE = 16;
+const HLL_DENSE_SIZE = HLL_HEADER_SIZE + (HLL_REGISTERS * 6) / 8;
+const HLL_ENCODING_DENSE = 0;
+const HLL_ENCODING_SPARSE = 1;
+/** Largest register value the sparse encoding's VAL opcode can hold */
+const HLL_SPARSE_VAL_MAX = 32;
+/** Redis' default `hll-sparse-max-bytes` */
+const HLL_SPARSE_MAX_BYTES = 3000;
+/**
+ * Registers held in the sparse map before switching to a dense array, at
+ * which point the map costs about as much memory as the array
+ */
+const HLL_SPARSE_MAX_REGISTERS = 1024;
+
+const MURMUR64_M = 0xc6a4a7935bd1e995n;
+const UINT64_MASK = 0xffffffffffffffffn;
+
+/**
+ * MurmurHash64A, the hash Redis uses for HyperLogLog, so registers come out
+ * the same as on a Redis server for the same elements
+ */
+function murmur64a(data: Uint8Array, seed: bigint): bigint {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const blocks = data.length >>> 3;
+  let h = (seed ^ (BigInt(data.length) * MURMUR64_M)) & UINT64_MASK;
+
+  for (let i = 0; i < blocks; i++) {
+    let k = view.getBigUint64(i * 8, true);
+    k = (k * MURMUR64_M) & UINT64_MASK;
+    k ^= k >> 47n;
+    k = (k * MURMUR64_M) & UINT64_MASK;
+    h ^= k;
+    h = (h * MURMUR64_M) & UINT64_MASK;
+  }
+
+  const tail = data.length & 7;
+  if (tail > 0) {
+    for (let i = tail - 1; i >= 0; i--) {
+      h ^= BigInt(data[blocks * 8 + i]!) << BigInt(i * 8);
+    }
+    h = (h * MURMUR64_M) & UINT64_MASK;
+  }
+
+  h ^= h >> 47n;
+  h = (h * MURMUR64_M) & UINT64_MASK;
+  h ^= h >> 47n;
+  return h;
+}
+
+/** Register index and value (position of the first set bit) of an element */
+function hllPattern(element: string): [index: number, value: number] {
+  const hash = murmur64a(Buffer.from(element, "utf8"), 0xadc83b19n);
+  const index = Number(hash & BigInt(HLL_REGISTERS - 1));
+  const rest = (hash >> BigInt(HLL_P)) | (1n << BigInt(HLL_Q));
+  const low = Number(rest & 0xffffffffn);
+  const word = low !== 0 ? low : Number(rest >> 32n);
+  const trailingZeros = 31 - Math.clz32(word & -word);
+  return [index, trailingZeros + (low !== 0 ? 1 : 33)];
+}
+
+function hllSigma(x: number): number {
+  if (x === 1) return Infinity;
+  let y = 1;
+  let z = x;
+  let previous: number;
+  do {
+    x *= x;
+    previous = z;
+    z += x * y;
+    y += y;
+  } while (previous !== z);
+  return z;
+}
+
+function hllTau(x: number): number {
+  if (x === 0 || x === 1) return 0;
+  let y = 1;
+  let z = 1 - x;
+  let previous: number;
+  do {
+    x = Math.sqrt(x);
+    previous = z;
+    y *= 0.5;
+    z -= (1 - x) ** 2 * y;
+  } while (previous !== z);
+  return z / 3;
+}
+
+/**
+ * HyperLogLog with Redis' parameters, hash and estimator, so counts match
+ * PFCOUNT on a server. Registers start out in a sparse map and move to a
+ * dense array of 16384 bytes once many are set, which bounds memory
+ * however many elements are added.
+ */
+export class HyperLogLog {
+  private sparse: Map<number, number> | undefined = new Map();
+  private dense: Uint8Array | undefined;
+
+  /** Memory used by the registers */
+  get byteSize(): number {
+    return this.sparse ? this.sparse.size * 16 : HLL_REGISTERS;
+  }
+
+  /** Whether registers are stored sparsely */
+  get isSparse(): boolean {
+    return this.sparse !== undefined;
+  }
+
+  /**
+   * Add an element. Returns true if a register changed, which means the
+   * estimated cardinality may have changed.
+   */
+  add(element: string): boolean {
+    const [index, value] = hllPattern(element);
+    if (this.get(index) >= value) return false;
+    this.set(index, value);
+    return true;
+  }
+
+  /** Take the register-wise maximum with another HyperLogLog */
+  merge(other: HyperLogLog): void {
+    other.forEachRegister((index, value) => {
+      if (this.get(index) < value) this.set(index, value);
+    });
+  }
+
+  /** Estimated number of distinct elements added */
+  count(): number {
+    const histogram = new Array<number>(HLL_Q + 2).fill(0);
+    let nonZero = 0;
+    this.forEachRegister((_, value) => {
+      histogram[value]!++;
+      nonZero++;
+    });
+    histogram[0] = HLL_REGISTERS - nonZero;
+
+    const m = HLL_REGISTERS;
+    let z = m * hllTau((m - histogram[HLL_Q + 1]!) / m);
+    for (let j = HLL_Q; j >= 1; j--) {
+      z += histogram[j]!;
+      z *= 0.5;
+    }
+    z += m * hllSigma(histogram[0]! / m);
+    return Math.round((0.5 / Math.LN2) * ((m * m) / z));
+  }
+
+  /**
+   * Encode in Redis' HLL string format: sparse while it fits Redis' default
+   * `hll-sparse-max-bytes`, dense otherwise. The cached cardinality in the
+   * header is marked stale so Redis recomputes it.
+   */
+  toRedisEncoding(): Buffer {
+    const sparse = this.encodeSparse();
+    if (sparse) return sparse;
+
+    const data = Buffer.alloc(HLL_DENSE_SIZE);
+    this.writeHeader(data, HLL_ENCODING_DENSE);
+    this.forEachRegister((index, value) => {
+      const offset = HLL_HEADER_SIZE + Math.floor((index * 6) / 8);
+      const shift = (index * 6) & 7;
+      data[offset]! |= (value << shift) & 0xff;
+      if (shift > 2) data[offset + 1]! |= value >> (8 - shift);
+    });
+    return data;
+  }
+
+  /**
+   * Decode a value in Redis' HLL string format. Throws if the value is not
+   * a valid HyperLogLog.
+   */
+  static fromRedisEncoding(data: Uint8Array): HyperLogLog {
+    const invalid = () => new Error("Not a valid HyperLogLog string value");
+    if (
+      data.length < HLL_HEADER_SIZE ||
+      Buffer.from(data.subarray(0, 4)).toString("latin1") !== "HYLL"
+    ) {
+      throw invalid();
+    }
+
+    const hll = new HyperLogLog();
+    if (data[4] === HLL_ENCODING_DENSE) {
+      if (data.length !== HLL_DENSE_SIZE) throw invalid();
+      for (let index = 0; index < HLL_REGISTERS; index++) {
+        const offset = HLL_HEADER_SIZE + Math.floor((index * 6) / 8);
+        const shift = (index * 6) & 7;
+        const value =
+          ((data[offset]! >> shift) |
+            ((data[offset + 1] ?? 0) << (8 - shift))) &
+          63;
+        if (value > 0) hll.set(index, value);
+      }
+      return hll;
+    }
+
+    if (data[4] !== HLL_ENCODING_SPARSE) throw invalid();
+    let index = 0;
+    for (let i = HLL_HEADER_SIZE; i < data.length; i++) {
+      const op = data[i]!;
+      if ((op & 0xc0) === 0x00) {
+        // ZERO: 00xxxxxx, a run of up to 64 empty registers
+        index += (op & 0x3f) + 1;
+      } else if ((op & 0xc0) === 0x40) {
+        // XZERO: 01xxxxxx yyyyyyyy, a run of up to 16384 empty registers
+        if (i + 1 >= data.length) throw invalid();
+        index += (((op & 0x3f) << 8) | data[++i]!) + 1;
+      } else {
+        // VAL: 1vvvvvxx, up to 4 registers set to the same value
+        const value = ((op >> 2) & 0x1f) + 1;
+        const run = (op & 0x03) + 1;
+        if (index + run > HLL_REGISTERS) throw invalid();
+        for (let r = 0; r < run; r++) hll.set(index++, value);
+      }
+      if (index > HLL_REGISTERS) throw invalid();
+    }
+    if (index !== HLL_REGISTERS) throw invalid();
+    return hll;
+  }
+
+  private get(index: number): number {
+    return this.sparse ? (this.sparse.get(index) ?? 0) : this.dense![index]!;
+  }
+
+  private set(index: number, value: number): void {
+    if (!this.sparse) {
+      this.dense![index] = value;
+      return;
+    }
+    this.sparse.set(index, value);
+    if (this.sparse.size > HLL_SPARSE_MAX_REGISTERS) {
+      this.dense = new Uint8Array(HLL_REGISTERS);
+      for (const [i, v] of this.sparse) this.dense[i] = v;
+      this.sparse = undefined;
+    }
+  }
+
+  /** Visit non-zero registers in index order */
+  private forEachRegister(visit: (index: number, value: number) => void) {
+    if (this.sparse) {
+      const indexes = [...this.sparse.keys()].sort((a, b) => a - b);
+      for (const index of indexes) visit(index, this.sparse.get(index)!);
+      return;
+    }
+    for (let index = 0; index < HLL_REGISTERS; index++) {
+      const value = this.dense![index]!;
+      if (value > 0) visit(index, value);
+    }
+  }
+
+  private writeHeader(data: Buffer, encoding: number): void {
+    data.write("HYLL", 0, "latin1");
+    data[4] = encoding;
+    // Most significant bit of the cached cardinality: needs recomputing
+    data[15] = 0x80;
+  }
+
+  private encodeSparse(): Buffer | undefined {
+    const ops: number[] = [];
+    let next = 0;
+    const zeros = (run: number) => {
+      while (run > 0) {
+        const length = Math.min(run, 1 << 14);
+        if (length <= 64) {
+          ops.push(length - 1);
+        } else {
+          ops.push(0x40 | ((length - 1) >> 8), (length - 1) & 0xff);
+        }
+        run -= length;
+      }
+    };
+
+    let tooLarge = false;
+    let runValue = 0;
+    let runStart = 0;
+    let runLength = 0;
+    const flush = () => {
+      if (runLength === 0) return;
+      zeros(runStart - next);
+      for (let left = runLength; left > 0; left -= 4) {
+        ops.push(0x80 | ((runValue - 1) << 2) | (Math.min(left, 4) - 1));
+      }
+      next = runStart + runLength;
+      runLength = 0;
+    };
+
+    this.forEachRegister((index, value) => {
+      if (value > HLL_SPARSE_VAL_MAX) tooLarge = true;
+      if (
+        runLength > 0 &&
+        value === runValue &&
+        index === runStart + runLength
+      ) {
+        runLength++;
+        return;
+      }
+      flush();
+      runValue = value;
+      runStart = index;
+      runLength = 1;
+    });
+    flush();
+    zeros(HLL_REGISTERS - next);
+
+    if (tooLarge || ops.length > HLL_SPARSE_MAX_BYTES) return undefined;
+    const data = Buffer.alloc(HLL_HEADER_SIZE + ops.length);
+    this.writeHeader(data, HLL_ENCODING_SPARSE);
+    data.set(ops, HLL_HEADER_SIZE);
+    return data;
+  }
+}
@@ -4,26 +4,74 @@
 // Full-featured Redis adapter using ioredis
 // =============================================
 
-import type { Redis } from "ioredis";
+import type { ChainableCommander, Redis } from "ioredis";
 import type {
   AdapterConfig,
   ConnectionStatus,
   FullCacheAdapter,
+  KeyspaceEvent,
+  KeyspaceEventHandler,
 } from "../../types/adapter.types";
 import { defaultLogger } from "../../types/adapter.types";
 import type {
   CacheScanOptions,
   CacheSetOptions,
   CacheStats,
+  GeoCoordinates,
+  GeoMember,
+  GeoSearchOptions,
+  GeoSearchResult,
+  GeoUnit,
+  ListDirection,
+  SortedSetAggregateOptions,
   SortedSetRangeOptions,
+  StreamPendingEntry,
+  StreamPendingSummary,
 } from "../../types/core.types";
 import type {
   AnyPipelineEntry,
   ExecutorMetrics,
+  PipelineOptions,
   PipelineResult,
   ScriptDefinition,
   TransactionResult,
 } from "../../types/operation.types";
+import { buildGeoSearchArgs, parseGeoSearchReply } from "../../utils/geo";
+
+// =============================================
+// REPLY HELPERS
+// =============================================
+
+/** Parse a flat WITHSCORES reply into scored members */
+function parseScoreReply(
+  result: string[],
+): Array<{ member: string; score: number }> {
+  const parsed: Array<{ member: string; score: number }> = [];
+  for (let i = 0; i < result.length; i += 2) {
+    parsed.push({ member: result[i]!, score: parseFloat(result[i + 1]!) });
+  }
+  return parsed;
+}
+
+/** ZUNIONSTORE / ZINTERSTORE arguments */
+function buildAggregateArgs(
+  destination: string,
+  keys: string[],
+  options?: SortedSetAggregateOptions,
+): (string | number)[] {
+  const args: (string | number)[] = [destination, keys.length, ...keys];
+  if (options?.weights) args.push("WEIGHTS", ...options.weights);
+  if (options?.aggregate) args.push("AGGREGATE", options.aggregate);
+  return args;
+}
+
+/** notify-keyspace-events flags needed for each keyspace event */
+const KEYSPACE_EVENT_FLAGS: Record<KeyspaceEvent, string> = {
+  expired: "x",
+  evicted: "e",
+  set: "$",
+  del: "g",
+};
 
 /**
  * Redis adapter configuration
@@ -34,6 +82,19 @@ export interface RedisAdapterConfig extends AdapterConfig {
 
   /** Enable script caching */
   cacheScripts?: boolean;
+
+  /**
+   * Dedicated connection for keyspace event subscriptions
+   * (default: `client.duplicate()`, created on first `on()`)
+   */
+  subscriberClient?: Redis;
+
+  /**
+   * Enable the required `notify-keyspace-events` flags with CONFIG SET when
+   * registering keyspace event handlers. Leave off on managed Redis services
+   * that disallow CONFIG and configure the server instead.
+   */
+  configureKeyspaceEvents?: boolean;
 }
 
 /**
@@ -42,8 +103,18 @@ export interface RedisAdapterConfig extends AdapterConfig {
 export class RedisAdapter implements FullCacheAdapter {
   readonly name = "redis";
   private readonly client: Redis;
-  private readonly config: Required<Omit<RedisAdapterConfig, "client">>;
+  private readonly config: Required<
+    Omit<RedisAdapterConfig, "client" | "subscriberClient">
+  >;
   private readonly scriptHashes: Map<string, string> = new Map();
+  private subscriberClient?: Redis;
+  private readonly ownsSubscriber: boolean;
+  private readonly eventHandlers: Map<KeyspaceEvent, Set<KeyspaceEventHandler>> =
+    new Map();
+  private readonly patternCallbacks: Map<
+    string,
+    Set<(message: string, channel: string, pattern: string) => void>
+  > = new Map();
   private metrics: ExecutorMetrics = {
     totalOperations: 0,
     successfulOperations: 0,
@@ -62,7 +133,10 @@ export class RedisAdapter implements FullCacheAdapter {
       defaultOptions: options.defaultOptions ?? {},
       enableMetrics: options.enableMetrics ?? true,
       cacheScripts: options.cacheScripts ?? true,
+      configureKeyspaceEvents: options.configureKeyspaceEvents ?? false,
     };
+    this.subscriberClient = options.subscriberClient;
+    this.ownsSubscriber = !options.subscriberClient;
   }
 
   get status(): ConnectionStatus {
@@ -111,6 +185,10 @@ export class RedisAdapter implements FullCacheAdapter {
   }
 
   async disconnect(): Promise<void> {
+    if (this.subscriberClient && this.ownsSubscriber) {
+      await this.subscriberClient.quit();
+      this.subscriberClient = undefined;
+    }
     await this.client.quit();
   }
 
@@ -297,6 +375,97 @@ export class RedisAdapter implements FullCacheAdapter {
     this.recordOperation("LINDEX");
     return this.client.lindex(key, index);
   }
+  async lset(key: string, index: number, value: string): Promise<"OK"> {
+    this.recordOperation("LSET");
+    return this.client.lset(key, index, value);
+  }
+
+  async lrem(key: string, count: number, value: string): Promise<number> {
+    this.recordOperation("LREM");
+    return this.client.lrem(key, count, value);
+  }
+
+  async linsert(
+    key: string,
+    position: "BEFORE" | "AFTER",
+    pivot: string,
+    value: string,
+  ): Promise<number> {
+    this.recordOperation("LINSERT");
+    return this.client.call(
+      "LINSERT",
+      key,
+      position,
+      pivot,
+      value,
+    ) as Promise<number>;
+  }
+
+  async lpos(
+    key: string,
+    value: string,
+    options?: { rank?: number; maxlen?: number },
+  ): Promise<number | null> {
+    this.recordOperation("LPOS");
+    const args: (string | number)[] = [key, value];
+    if (options?.rank !== undefined) args.push("RANK", options.rank);
+    if (options?.maxlen !== undefined) args.push("MAXLEN", options.maxlen);
+    return this.client.call("LPOS", ...args) as Promise<number | null>;
+  }
+
+  async blpop(
+    keys: string[],
+    timeout: number,
+  ): Promise<{ key: string; value: string } | null> {
+    this.recordOperation("BLPOP");
+    const result = await this.client.blpop(...keys, timeout);
+    return result ? { key: result[0], value: result[1] } : null;
+  }
+
+  async brpop(
+    keys: string[],
+    timeout: number,
+  ): Promise<{ key: string; value: string } | null> {
+    this.recordOperation("BRPOP");
+    const result = await this.client.brpop(...keys, timeout);
+    return result ? { key: result[0], value: result[1] } : null;
+  }
+
+  async lmove(
+    source: string,
+    destination: string,
+    from: ListDirection,
+    to: ListDirection,
+  ): Promise<string | null> {
+    this.recordOperation("LMOVE");
+    return this.client.call("LMOVE", source, destination, from, to) as Promise<
+      string | null
+    >;
+  }
+
+  async blmove(
+    source: string,
+    destination: string,
+    from: ListDirection,
+    to: ListDirection,
+    timeout: number,
+  ): Promise<string | null> {
+    this.recordOperation("BLMOVE");
+    return this.client.call(
+      "BLMOVE",
+      source,
+      destination,
+      from,
+      to,
+      timeout,
+    ) as Promise<string | null>;
+  }
+
+  async rpoplpush(source: string, destination: string): Promise<string | null> {
+    this.recordOperation("RPOPLPUSH");
+    return this.client.rpoplpush(source, destination);
+  }
+
 
   // =============================================
   // SET OPERATIONS
@@ -551,6 +720,136 @@ export class RedisAdapter implements FullCacheAdapter {
     return result;
   }
 
+  async zrangebylex(
+    key: string,
+    min: string,
+    max: string,
+    options?: { limit?: { offset: number; count: number } },
+  ): Promise<string[]> {
+    this.recordOperation("ZRANGEBYLEX");
+    if (options?.limit) {
+      return this.client.zrangebylex(
+        key,
+        min,
+        max,
+        "LIMIT",
+        options.limit.offset,
+        options.limit.count,
+      );
+    }
+    return this.client.zrangebylex(key, min, max);
+  }
+
+  async zunionstore(
+    destination: string,
+    keys: string[],
+    options?: SortedSetAggregateOptions,
+  ): Promise<number> {
+    this.recordOperation("ZUNIONSTORE");
+    return this.client.call(
+      "ZUNIONSTORE",
+      ...buildAggregateArgs(destination, keys, options),
+    ) as Promise<number>;
+  }
+
+  async zinterstore(
+    destination: string,
+    keys: string[],
+    options?: SortedSetAggregateOptions,
+  ): Promise<number> {
+    this.recordOperation("ZINTERSTORE");
+    return this.client.call(
+      "ZINTERSTORE",
+      ...buildAggregateArgs(destination, keys, options),
+    ) as Promise<number>;
+  }
+
+  async zdiff(
+    keys: string[],
+    options?: { withScores?: boolean },
+  ): Promise<string[] | Array<{ member: string; score: number }>> {
+    this.recordOperation("ZDIFF");
+    const args: (string | number)[] = [keys.length, ...keys];
+    if (options?.withScores) {
+      args.push("WITHSCORES");
+      return parseScoreReply(
+        (await this.client.call("ZDIFF", ...args)) as string[],
+      );
+    }
+    return this.client.call("ZDIFF", ...args) as Promise<string[]>;
+  }
+
+  async zpopmin(
+    key: string,
+    count?: number,
+  ): Promise<Array<{ member: string; score: number }>> {
+    this.recordOperation("ZPOPMIN");
+    const result =
+      count === undefined
+        ? await this.client.zpopmin(key)
+        : await this.client.zpopmin(key, count);
+    return parseScoreReply(result);
+  }
+
+  async zpopmax(
+    key: string,
+    count?: number,
+  ): Promise<Array<{ member: string; score: number }>> {
+    this.recordOperation("ZPOPMAX");
+    const result =
+      count === undefined
+        ? await this.client.zpopmax(key)
+        : await this.client.zpopmax(key, count);
+    return parseScoreReply(result);
+  }
+
+  async bzpopmin(
+    keys: string[],
+    timeout: number,
+  ): Promise<{ key: string; member: string; score: number } | null> {
+    this.recordOperation("BZPOPMIN");
+    const result = (await this.client.call("BZPOPMIN", ...keys, timeout)) as
+      | [string, string, string]
+      | null;
+    if (!result) return null;
+    return { key: result[0], member: result[1], score: parseFloat(result[2]) };
+  }
+
+  async zrandmember(
+    key: string,
+    count?: number,
+    options?: { withScores?: boolean },
+  ): Promise<string[] | Array<{ member: string; score: number }>> {
+    this.recordOperation("ZRANDMEMBER");
+    if (count === undefined) {
+      const member = (await this.client.call("ZRANDMEMBER", key)) as
+        | string
+        | null;
+      return member === null ? [] : [member];
+    }
+    if (options?.withScores) {
+      return parseScoreReply(
+        (await this.client.call(
+          "ZRANDMEMBER",
+          key,
+          count,
+          "WITHSCORES",
+        )) as string[],
+      );
+    }
+    return this.client.call("ZRANDMEMBER", key, count) as Promise<string[]>;
+  }
+
+  async zmscore(
+    key: string,
+    ...members: string[]
+  ): Promise<Array<string | null>> {
+    this.recordOperation("ZMSCORE");
+    return this.client.call("ZMSCORE", key, ...members) as Promise<
+      Array<string | null>
+    >;
+  }
+
   // =============================================
   // KEY MANAGEMENT
   // =============================================
@@ -565,9 +864,12 @@ export class RedisAdapter implements FullCacheAdapter {
     return this.client.exists(...keys);
   }
 
-  async expire(key: string, seconds: number): Promise<0 | 1> {
+  async expire(key: string, seconds: number, mode?: "NX"): Promise<0 | 1> {
     this.recordOperation("EXPIRE");
-    return (await this.client.expire(key, seconds)) as 0 | 1;
+    const result = mode
+      ? await this.client.expire(key, seconds, mode)
+      : await this.client.expire(key, seconds);
+    return result as 0 | 1;
   }
 
   async expireat(key: string, timestamp: number): Promise<0 | 1> {
@@ -636,6 +938,87 @@ export class RedisAdapter implements FullCacheAdapter {
     };
   }
 
+  // =============================================
+  // GEO OPERATIONS
+  // =============================================
+
+  async geoadd(
+    key: string,
+    members: GeoMember[],
+    options?: { nx?: boolean; xx?: boolean; ch?: boolean },
+  ): Promise<number> {
+    this.recordOperation("GEOADD");
+
+    const args: (string | number)[] = [key];
+
+    if (options?.nx) args.push("NX");
+    if (options?.xx) args.push("XX");
+    if (options?.ch) args.push("CH");
+
+    for (const { longitude, latitude, member } of members) {
+      args.push(longitude, latitude, member);
+    }
+
+    return this.client.call("GEOADD", ...args) as Promise<number>;
+  }
+
+  async geopos(
+    key: string,
+    ...members: string[]
+  ): Promise<Array<GeoCoordinates | null>> {
+    this.recordOperation("GEOPOS");
+    const result = (await this.client.call("GEOPOS", key, ...members)) as Array<
+      [string, string] | null
+    >;
+    return result.map((position) =>
+      position
+        ? {
+            longitude: parseFloat(position[0]),
+            latitude: parseFloat(position[1]),
+          }
+        : null,
+    );
+  }
+
+  async geodist(
+    key: string,
+    member1: string,
+    member2: string,
+    unit?: GeoUnit,
+  ): Promise<number | null> {
+    this.recordOperation("GEODIST");
+    const result = (await this.client.call(
+      "GEODIST",
+      key,
+      member1,
+      member2,
+      unit ?? "m",
+    )) as string | null;
+    return result === null ? null : parseFloat(result);
+  }
+
+  async geohash(
+    key: string,
+    ...members: string[]
+  ): Promise<Array<string | null>> {
+    this.recordOperation("GEOHASH");
+    return this.client.call("GEOHASH", key, ...members) as Promise<
+      Array<string | null>
+    >;
+  }
+
+  async geosearch(
+    key: string,
+    options: GeoSearchOptions,
+  ): Promise<GeoSearchResult[]> {
+    this.recordOperation("GEOSEARCH");
+    const reply = await this.client.call(
+      "GEOSEARCH",
+      ...buildGeoSearchArgs(key, options),
+    );
+    return parseGeoSearchReply(reply);
+  }
+
   // =============================================
   // HYPERLOGLOG OPERATIONS
   // =============================================
@@ -655,6 +1038,18 @@ export class RedisAdapter implements FullCacheAdapter {
     return this.client.pfmerge(destKey, ...sourceKeys);
   }
 
+  async exportHyperLogLog(key: string): Promise<Buffer | null> {
+    this.recordOperation("GET");
+    return this.client.getBuffer(key);
+  }
+
+  async importHyperLogLog(key: string, data: Uint8Array): Promise<"OK"> {
+    this.recordOperation("SET");
+    // Redis validates the encoding once a PF* command reads the key
+    await this.client.set(key, Buffer.from(data));
+    return "OK";
+  }
+
   // =============================================
   // SCRIPTING
   // =============================================
@@ -718,21 +1113,22 @@ export class RedisAdapter implements FullCacheAdapter {
   // PIPELINE & TRANSACTIONS
   // =============================================
 
-  async executePipeline(entries: AnyPipelineEntry[]): Promise<PipelineResult> {
+  async executePipeline(
+    entries: AnyPipelineEntry[],
+    options?: PipelineOptions,
+  ): Promise<PipelineResult> {
     const startTime = Date.now();
-    const pipeline = this.client.pipeline();
+    const pipeline = options?.atomic
+      ? this.client.multi()
+      : this.client.pipeline();
 
     // Add all operations to pipeline
     for (const { operation, params } of entries) {
-      const args = operation.buildArgs(params);
-      const method = operation.command.toLowerCase();
-      const pipelineWithMethods = pipeline as unknown as Record<
-        string,
-        (...args: unknown[]) => typeof pipeline
-      >;
-      if (typeof pipelineWithMethods[method] === "function") {
-        pipelineWithMethods[method](...args);
-      }
+      this.queueCommand(
+        pipeline,
+        operation.command,
+        operation.buildArgs(params),
+      );
     }
 
     try {
@@ -791,15 +1187,7 @@ export class RedisAdapter implements FullCacheAdapter {
 
     // Add all operations to transaction
     for (const { operation, params } of entries) {
-      const args = operation.buildArgs(params);
-      const method = operation.command.toLowerCase();
-      const multiWithMethods = multi as unknown as Record<
-        string,
-        (...args: unknown[]) => typeof multi
-      >;
-      if (typeof multiWithMethods[method] === "function") {
-        multiWithMethods[method](...args);
-      }
+      this.queueCommand(multi, operation.command, operation.buildArgs(params));
     }
 
     try {
@@ -863,6 +1251,67 @@ export class RedisAdapter implements FullCacheAdapter {
     await this.client.unsubscribe(channel);
   }
 
+  async psubscribe(
+    pattern: string,
+    callback: (message: string, channel: string, pattern: string) => void,
+  ): Promise<void> {
+    if (this.patternCallbacks.size === 0) {
+      // A single dispatcher for every pattern, rather than a listener each
+      this.client.on("pmessage", this.dispatchPatternMessage);
+    }
+    const callbacks = this.patternCallbacks.get(pattern);
+    if (callbacks) {
+      callbacks.add(callback);
+      return;
+    }
+    this.patternCallbacks.set(pattern, new Set([callback]));
+    await this.client.psubscribe(pattern);
+  }
+
+  async punsubscribe(pattern: string): Promise<void> {
+    this.patternCallbacks.delete(pattern);
+    if (this.patternCallbacks.size === 0) {
+      this.client.off("pmessage", this.dispatchPatternMessage);
+    }
+    await this.client.punsubscribe(pattern);
+  }
+
+  private readonly dispatchPatternMessage = (
+    pattern: string,
+    channel: string,
+    message: string,
+  ): void => {
+    for (const callback of this.patternCallbacks.get(pattern) ?? []) {
+      callback(message, channel, pattern);
+    }
+  };
+
+  // =============================================
+  // KEYSPACE EVENTS
+  // =============================================
+
+  async on(event: KeyspaceEvent, handler: KeyspaceEventHandler): Promise<void> {
+    const handlers = this.eventHandlers.get(event) ?? new Set();
+    const isFirst = handlers.size === 0;
+    handlers.add(handler);
+    this.eventHandlers.set(event, handlers);
+    if (!isFirst) return;
+
+    if (this.config.configureKeyspaceEvents) {
+      await this.enableKeyspaceEvents(event);
+    }
+    await this.getSubscriber().psubscribe(`__keyevent@*__:${event}`);
+  }
+
+  async off(
+    event: KeyspaceEvent,
+    handler: KeyspaceEventHandler,
+  ): Promise<void> {
+    const handlers = this.eventHandlers.get(event);
+    if (!handlers?.delete(handler) || handlers.size > 0) return;
+    await this.subscriberClient?.punsubscribe(`__keyevent@*__:${event}`);
+  }
+
   // =============================================
   // METRICS
   // =============================================
@@ -1026,6 +1475,183 @@ export class RedisAdapter implements FullCacheAdapter {
     return this.client.xdel(key, ...ids);
   }
 
+  async xgroupCreate(
+    key: string,
+    group: string,
+    id: string,
+    options?: { mkstream?: boolean },
+  ): Promise<"OK"> {
+    this.recordOperation("XGROUP");
+
+    const args: (string | number)[] = ["CREATE", key, group, id];
+    if (options?.mkstream) {
+      args.push("MKSTREAM");
+    }
+
+    return this.client.call("XGROUP", ...args) as Promise<"OK">;
+  }
+
+  async xgroupDestroy(key: string, group: string): Promise<0 | 1> {
+    this.recordOperation("XGROUP");
+    return this.client.call("XGROUP", "DESTROY", key, group) as Promise<0 | 1>;
+  }
+
+  async xgroupDelConsumer(
+    key: string,
+    group: string,
+    consumer: string,
+  ): Promise<number> {
+    this.recordOperation("XGROUP");
+    return this.client.call(
+      "XGROUP",
+      "DELCONSUMER",
+      key,
+      group,
+      consumer,
+    ) as Promise<number>;
+  }
+
+  async xreadgroup(options: {
+    group: string;
+    consumer: string;
+    streams: string[];
+    ids: string[];
+    count?: number;
+    block?: number;
+    noAck?: boolean;
+  }): Promise<Array<{
+    stream: string;
+    messages: Array<{ id: string; fields: Record<string, string> }>;
+  }> | null> {
+    this.recordOperation("XREADGROUP");
+
+    const args: (string | number)[] = [
+      "GROUP",
+      options.group,
+      options.consumer,
+    ];
+
+    if (options.count !== undefined) {
+      args.push("COUNT", options.count);
+    }
+
+    if (options.block !== undefined) {
+      args.push("BLOCK", options.block);
+    }
+
+    if (options.noAck) {
+      args.push("NOACK");
+    }
+
+    args.push("STREAMS", ...options.streams, ...options.ids);
+
+    const result = (await this.client.call("XREADGROUP", ...args)) as Array<
+      [string, Array<[string, string[] | null]>]
+    > | null;
+
+    if (!result) return null;
+
+    // Pending entries deleted from the stream come back without fields
+    return result.map(([stream, messages]) => ({
+      stream,
+      messages: messages
+        .filter((msg) => msg[1] !== null)
+        .map((msg) => ({
+          id: msg[0],
+          fields: this.parseStreamFields(msg[1]!),
+        })),
+    }));
+  }
+
+  async xack(key: string, group: string, ...ids: string[]): Promise<number> {
+    this.recordOperation("XACK");
+    return this.client.xack(key, group, ...ids);
+  }
+
+  async xpending(key: string, group: string): Promise<StreamPendingSummary> {
+    this.recordOperation("XPENDING");
+
+    const [count, minId, maxId, consumers] = (await this.client.call(
+      "XPENDING",
+      key,
+      group,
+    )) as [
+      number,
+      string | null,
+      string | null,
+      Array<[string, string]> | null,
+    ];
+
+    return {
+      count,
+      minId,
+      maxId,
+      consumers: (consumers ?? []).map(([name, pending]) => ({
+        name,
+        pending: Number(pending),
+      })),
+    };
+  }
+
+  async xpendingRange(
+    key: string,
+    group: string,
+    start: string,
+    end: string,
+    count: number,
+    options?: { consumer?: string; minIdleTime?: number },
+  ): Promise<StreamPendingEntry[]> {
+    this.recordOperation("XPENDING");
+
+    const args: (string | number)[] = [key, group];
+    if (options?.minIdleTime !== undefined) {
+      args.push("IDLE", options.minIdleTime);
+    }
+    args.push(start, end, count);
+    if (options?.consumer !== undefined) {
+      args.push(options.consumer);
+    }
+
+    const result = (await this.client.call("XPENDING", ...args)) as Array<
+      [string, string, number, number]
+    >;
+
+    return result.map(([id, consumer, idleMs, deliveries]) => ({
+      id,
+      consumer,
+      idleMs,
+      deliveries,
+    }));
+  }
+
+  async xclaim(
+    key: string,
+    group: string,
+    consumer: string,
+    minIdleTime: number,
+    ids: string[],
+  ): Promise<Array<{ id: string; fields: Record<string, string> }>> {
+    this.recordOperation("XCLAIM");
+
+    const result = (await this.client.call(
+      "XCLAIM",
+      key,
+      group,
+      consumer,
+      minIdleTime,
+      ...ids,
+    )) as Array<[string, string[] | null] | null>;
+
+    return result
+      .filter(
+        (msg): msg is [string, string[]] => msg !== null && msg[1] !== null,
+      )
+      .map((msg) => ({
+        id: msg[0],
+        fields: this.parseStreamFields(msg[1]),
+      }));
+  }
+
   // =============================================
   // BLOOM FILTER OPERATIONS
   // =============================================
@@ -1067,10 +1693,146 @@ export class RedisAdapter implements FullCacheAdapter {
     return result as Array<0 | 1>;
   }
 
+  // =============================================
+  // CUCKOO FILTER OPERATIONS
+  // =============================================
+
+  async cfReserve(key: string, capacity: number): Promise<"OK"> {
+    this.recordOperation("CF.RESERVE");
+    const result = await this.client.call("CF.RESERVE", key, capacity);
+    return result as "OK";
+  }
+
+  async cfAdd(key: string, item: string): Promise<0 | 1> {
+    this.recordOperation("CF.ADD");
+    return this.client.call("CF.ADD", key, item) as Promise<0 | 1>;
+  }
+
+  async cfDel(key: string, item: string): Promise<0 | 1> {
+    this.recordOperation("CF.DEL");
+    return this.client.call("CF.DEL", key, item) as Promise<0 | 1>;
+  }
+
+  async cfExists(key: string, item: string): Promise<0 | 1> {
+    this.recordOperation("CF.EXISTS");
+    return this.client.call("CF.EXISTS", key, item) as Promise<0 | 1>;
+  }
+
+  // =============================================
+  // COUNT-MIN SKETCH OPERATIONS
+  // =============================================
+
+  async cmsInitByDim(key: string, width: number, depth: number): Promise<"OK"> {
+    this.recordOperation("CMS.INITBYDIM");
+    const result = await this.client.call("CMS.INITBYDIM", key, width, depth);
+    return result as "OK";
+  }
+
+  async cmsInitByProb(
+    key: string,
+    errorRate: number,
+    probability: number,
+  ): Promise<"OK"> {
+    this.recordOperation("CMS.INITBYPROB");
+    const result = await this.client.call(
+      "CMS.INITBYPROB",
+      key,
+      errorRate,
+      probability,
+    );
+    return result as "OK";
+  }
+
+  async cmsIncrBy(
+    key: string,
+    increments: Record<string, number>,
+  ): Promise<number[]> {
+    this.recordOperation("CMS.INCRBY");
+    const args = Object.entries(increments).flat();
+    const result = await this.client.call("CMS.INCRBY", key, ...args);
+    return result as number[];
+  }
+
+  async cmsQuery(key: string, ...items: string[]): Promise<number[]> {
+    this.recordOperation("CMS.QUERY");
+    const result = await this.client.call("CMS.QUERY", key, ...items);
+    return result as number[];
+  }
+
   // =============================================
   // PRIVATE HELPERS
   // =============================================
 
+  /**
+   * Queue a command on a pipeline or MULTI. Commands ioredis has no method
+   * for, such as module commands (BF.ADD, CMS.INCRBY), are sent with `call`
+   * so that every entry keeps its position in the results.
+   */
+  private queueCommand(
+    pipeline: ChainableCommander,
+    command: string,
+    args: (string | number)[],
+  ): void {
+    const method = command.toLowerCase();
+    const pipelineWithMethods = pipeline as unknown as Record<
+      string,
+      (...args: unknown[]) => ChainableCommander
+    >;
+    if (typeof pipelineWithMethods[method] === "function") {
+      pipelineWithMethods[method](...args);
+    } else {
+      pipeline.call(command, ...args);
+    }
+  }
+
+  private getSubscriber(): Redis {
+    if (!this.subscriberClient) {
+      this.subscriberClient = this.client.duplicate();
+    }
+    if (this.subscriberClient.listenerCount("pmessage") === 0) {
+      this.subscriberClient.on("pmessage", (_pattern, channel, key) => {
+        const event = channel.slice(channel.indexOf(":") + 1) as KeyspaceEvent;
+        this.emitKeyspaceEvent(event, key);
+      });
+    }
+    return this.subscriberClient;
+  }
+
+  private emitKeyspaceEvent(event: KeyspaceEvent, key: string): void {
+    for (const handler of this.eventHandlers.get(event) ?? []) {
+      try {
+        handler(key, event);
+      } catch (error) {
+        this.config.logger.warn("Keyspace event handler failed", {
+          event,
+          key,
+          error: (error as Error).message,
+        });
+      }
+    }
+  }
+
+  private async enableKeyspaceEvents(event: KeyspaceEvent): Promise<void> {
+    const current = (await this.client.call(
+      "CONFIG",
+      "GET",
+      "notify-keyspace-events",
+    )) as string[];
+    const flags = new Set((current[1] ?? "").split(""));
+    const required = ["E", KEYSPACE_EVENT_FLAGS[event]];
+    // 'A' is an alias for every event class, but not for the 'E' channel flag
+    if (required.every((f) => flags.has(f) || (f !== "E" && flags.has("A")))) {
+      return;
+    }
+    for (const flag of required) flags.add(flag);
+    await this.client.call(
+      "CONFIG",
+      "SET",
+      "notify-keyspace-events",
+      [...flags].join(""),
+    );
+  }
+
   private parseStreamFields(fields: string[]): Record<string, string> {
     const result: Record<string, string> = {};
     for (let i = 0; i < fields.length; i += 2) {
@@ -0,0 +1,6 @@
+// =============================================
+// CACHYER - TIERED ADAPTER EXPORTS
+// =============================================
+
+export { TieredAdapter, createTieredAdapter } from './tiered.adapter'
+export type { TieredAdapterConfig } from './tiered.adapter'
@@ -0,0 +1,1430 @@
+// =============================================
+// CACHYER - TIERED ADAPTER
+// =============================================
+// Near-cache adapter: bounded in-memory L1 in front of a remote L2
+// =============================================
+
+import type {
+  AdapterConfig,
+  CacheAdapter,
+  CacheLogger,
+  ConnectionStatus,
+  KeyspaceEvent,
+  KeyspaceEventHandler,
+} from "../../types/adapter.types";
+import { defaultLogger } from "../../types/adapter.types";
+import type {
+  CacheScanOptions,
+  CacheSetOptions,
+  CacheStats,
+  GeoCoordinates,
+  GeoMember,
+  GeoSearchOptions,
+  GeoSearchResult,
+  GeoUnit,
+  ListDirection,
+  SortedSetAggregateOptions,
+  SortedSetRangeOptions,
+  StreamPendingEntry,
+  StreamPendingSummary,
+} from "../../types/core.types";
+import { CacheError, CacheErrorCode } from "../../types/core.types";
+import type {
+  AnyPipelineEntry,
+  ExecutorMetrics,
+  PipelineOptions,
+  PipelineResult,
+  ScriptDefinition,
+  TransactionResult,
+} from "../../types/operation.types";
+import { MemoryAdapter } from "../memory/memory.adapter";
+
+/**
+ * Tiered adapter configuration
+ */
+export interface TieredAdapterConfig extends AdapterConfig {
+  /** L2 adapter holding the source of truth (usually a RedisAdapter) */
+  l2: CacheAdapter;
+
+  /** L1 adapter (default: a MemoryAdapter bounded by l1MaxEntries) */
+  l1?: MemoryAdapter;
+
+  /** Maximum entries in the default L1 (default: 1000) */
+  l1MaxEntries?: number;
+
+  /** L1 entry TTL in seconds (default: 5) */
+  l1Ttl?: number;
+
+  /** Channel used for invalidation messages (default: 'cachyer:invalidate') */
+  invalidationChannel?: string;
+
+  /**
+   * Adapter used to receive invalidation messages. Redis connections in
+   * subscriber mode cannot run other commands, so pass a RedisAdapter
+   * created from `client.duplicate()` here. Without it, L1 entries are only
+   * invalidated by writes made through this process.
+   */
+  subscriber?: CacheAdapter;
+}
+
+/**
+ * Invalidation message exchanged between processes
+ */
+interface InvalidationMessage {
+  source: string;
+  keys: string[];
+}
+
+/**
+ * Commands that only change a key's expiry. Setting a future expiry leaves
+ * the value alone, so L1 is not invalidated for it
+ */
+const EXPIRY_COMMANDS = new Set(["EXPIRE", "PEXPIRE", "EXPIREAT", "PEXPIREAT"]);
+
+/** Commands that never modify keys and need no L1 invalidation */
+const READ_COMMANDS = new Set([
+  "GET",
+  "MGET",
+  "HGET",
+  "HMGET",
+  "HGETALL",
+  "HEXISTS",
+  "HLEN",
+  "HKEYS",
+  "HVALS",
+  "LRANGE",
+  "LLEN",
+  "LINDEX",
+  "LPOS",
+  "SMEMBERS",
+  "SISMEMBER",
+  "SCARD",
+  "SINTER",
+  "SUNION",
+  "SDIFF",
+  "ZRANGE",
+  "ZREVRANGE",
+  "ZRANGEBYSCORE",
+  "ZREVRANGEBYSCORE",
+  "ZSCORE",
+  "ZRANK",
+  "ZREVRANK",
+  "ZCARD",
+  "ZCOUNT",
+  "ZRANGEBYLEX",
+  "ZDIFF",
+  "ZRANDMEMBER",
+  "ZMSCORE",
+  "EXISTS",
+  "TTL",
+  "PTTL",
+  "TYPE",
+  "KEYS",
+  "SCAN",
+  "GEOPOS",
+  "GEODIST",
+  "GEOHASH",
+  "GEOSEARCH",
+  "PFCOUNT",
+  "XRANGE",
+  "XREVRANGE",
+  "XLEN",
+  "BF.EXISTS",
+  "BF.MEXISTS",
+  "CF.EXISTS",
+  "CMS.QUERY",
+]);
+
+/**
+ * Tiered adapter implementation
+ *
+ * Reads of strings and hashes are served from L1 when present. Writes go
+ * through to L2, drop the local L1 entry and publish an invalidation
+ * message so other processes drop theirs.
+ */
+export class TieredAdapter implements CacheAdapter {
+  readonly name = "tiered";
+  private readonly l1: MemoryAdapter;
+  private readonly l2: CacheAdapter;
+  private readonly subscriber?: CacheAdapter;
+  private readonly config: Required<
+    Omit<TieredAdapterConfig, "l1" | "l2" | "subscriber">
+  >;
+  private readonly logger: CacheLogger;
+  private readonly instanceId = `${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2)}`;
+  private l1Hits = 0;
+  private l1Misses = 0;
+  /** Generations of keys with L2 reads in flight, so stale reads skip L1 */
+  private readonly readGenerations: Map<
+    string,
+    { generation: number; reads: number }
+  > = new Map();
+
+  constructor(options: TieredAdapterConfig) {
+    this.l2 = options.l2;
+    this.subscriber = options.subscriber;
+    this.config = {
+      keyPrefix: options.keyPrefix ?? "",
+      defaultTtl: options.defaultTtl ?? 3600,
+      logger: options.logger ?? defaultLogger,
+      defaultOptions: options.defaultOptions ?? {},
+      enableMetrics: options.enableMetrics ?? true,
+      l1MaxEntries: options.l1MaxEntries ?? 1000,
+      l1Ttl: options.l1Ttl ?? 5,
+      invalidationChannel: options.invalidationChannel ?? "cachyer:invalidate",
+    };
+    this.logger = this.config.logger;
+    this.l1 =
+      options.l1 ??
+      new MemoryAdapter({
+        maxEntries: this.config.l1MaxEntries,
+        logger: this.logger,
+        enableMetrics: false,
+      });
+  }
+
+  get status(): ConnectionStatus {
+    return this.l2.status;
+  }
+
+  // =============================================
+  // CONNECTION METHODS
+  // =============================================
+
+  async connect(): Promise<void> {
+    await this.l1.connect();
+    await this.l2.connect();
+
+    if (this.subscriber) {
+      await this.subscriber.connect();
+      if (typeof this.subscriber.subscribe === "function") {
+        await this.subscriber.subscribe(
+          this.config.invalidationChannel,
+          (message) => this.handleInvalidation(message),
+        );
+      }
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.subscriber) {
+      if (typeof this.subscriber.unsubscribe === "function") {
+        await this.subscriber.unsubscribe(this.config.invalidationChannel);
+      }
+      await this.subscriber.disconnect();
+    }
+    await this.l2.disconnect();
+    await this.l1.disconnect();
+  }
+
+  isConnected(): boolean {
+    return this.l2.isConnected();
+  }
+
+  async ping(): Promise<boolean> {
+    return this.l2.ping();
+  }
+
+  // =============================================
+  // STRING OPERATIONS
+  // =============================================
+
+  async set(
+    key: string,
+    value: string,
+    options?: CacheSetOptions,
+  ): Promise<"OK" | null> {
+    const result = await this.l2.set(key, value, options);
+    await this.invalidate([key]);
+
+    // Write-through: populate L1 unless the write was conditional
+    if (result === "OK" && !options?.nx && !options?.xx && !options?.keepTtl) {
+      await this.l1.set(key, value, { ex: this.l1TtlFor(options) });
+    }
+    return result;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const cached = await this.l1.get(key);
+    if (cached !== null) {
+      this.l1Hits++;
+      return cached;
+    }
+
+    this.l1Misses++;
+    const generation = this.beginRead(key);
+    const value = await this.l2.get(key);
+    if (this.endRead(key, generation) && value !== null) {
+      await this.l1.set(key, value, { ex: this.config.l1Ttl });
+    }
+    return value;
+  }
+
+  async mset(keyValues: Record<string, string>): Promise<"OK"> {
+    return this.write(Object.keys(keyValues), () => this.l2.mset(keyValues));
+  }
+
+  async mget(keys: string[]): Promise<(string | null)[]> {
+    const values = await this.l1.mget(keys);
+    const missing = keys.filter((_, i) => values[i] === null);
+    this.l1Hits += keys.length - missing.length;
+    this.l1Misses += missing.length;
+    if (missing.length === 0) return values;
+
+    const generations = missing.map((key) => this.beginRead(key));
+    const fetched = await this.l2.mget(missing);
+    const byKey = new Map<string, string | null>();
+    for (const [i, key] of missing.entries()) {
+      const value = fetched[i] ?? null;
+      byKey.set(key, value);
+      if (this.endRead(key, generations[i]!) && value !== null) {
+        await this.l1.set(key, value, { ex: this.config.l1Ttl });
+      }
+    }
+
+    return keys.map((key, i) => values[i] ?? byKey.get(key) ?? null);
+  }
+
+  async incr(key: string): Promise<number> {
+    return this.write([key], () => this.l2.incr(key));
+  }
+
+  async incrby(key: string, increment: number): Promise<number> {
+    return this.write([key], () => this.l2.incrby(key, increment));
+  }
+
+  async decr(key: string): Promise<number> {
+    return this.write([key], () => this.l2.decr(key));
+  }
+
+  async decrby(key: string, decrement: number): Promise<number> {
+    return this.write([key], () => this.l2.decrby(key, decrement));
+  }
+
+  // =============================================
+  // HASH OPERATIONS
+  // =============================================
+
+  async hset(key: string, field: string, value: string): Promise<number> {
+    return this.write([key], () => this.l2.hset(key, field, value));
+  }
+
+  async hmset(
+    key: string,
+    fieldValues: Record<string, string | number>,
+  ): Promise<"OK"> {
+    return this.write([key], () => this.l2.hmset(key, fieldValues));
+  }
+
+  async hget(key: string, field: string): Promise<string | null> {
+    if (await this.l1.exists(key)) {
+      this.l1Hits++;
+      return this.l1.hget(key, field);
+    }
+    this.l1Misses++;
+    return this.l2.hget(key, field);
+  }
+
+  async hmget(key: string, fields: string[]): Promise<(string | null)[]> {
+    if (await this.l1.exists(key)) {
+      this.l1Hits++;
+      return this.l1.hmget(key, fields);
+    }
+    this.l1Misses++;
+    return this.l2.hmget(key, fields);
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    if (await this.l1.exists(key)) {
+      this.l1Hits++;
+      return this.l1.hgetall(key);
+    }
+
+    this.l1Misses++;
+    const generation = this.beginRead(key);
+    const hash = await this.l2.hgetall(key);
+    if (this.endRead(key, generation) && Object.keys(hash).length > 0) {
+      await this.l1.hmset(key, hash);
+      await this.l1.expire(key, this.config.l1Ttl);
+    }
+    return hash;
+  }
+
+  async hdel(key: string, ...fields: string[]): Promise<number> {
+    return this.write([key], () => this.l2.hdel(key, ...fields));
+  }
+
+  async hexists(key: string, field: string): Promise<0 | 1> {
+    return this.l2.hexists(key, field);
+  }
+
+  async hincrby(
+    key: string,
+    field: string,
+    increment: number,
+  ): Promise<number> {
+    return this.write([key], () => this.l2.hincrby(key, field, increment));
+  }
+
+  async hlen(key: string): Promise<number> {
+    return this.l2.hlen(key);
+  }
+
+  // =============================================
+  // LIST OPERATIONS
+  // =============================================
+
+  async lpush(key: string, ...values: string[]): Promise<number> {
+    return this.write([key], () => this.l2.lpush(key, ...values));
+  }
+
+  async rpush(key: string, ...values: string[]): Promise<number> {
+    return this.write([key], () => this.l2.rpush(key, ...values));
+  }
+
+  async lpop(key: string): Promise<string | null> {
+    return this.write([key], () => this.l2.lpop(key));
+  }
+
+  async rpop(key: string): Promise<string | null> {
+    return this.write([key], () => this.l2.rpop(key));
+  }
+
+  async lrange(key: string, start: number, stop: number): Promise<string[]> {
+    return this.l2.lrange(key, start, stop);
+  }
+
+  async llen(key: string): Promise<number> {
+    return this.l2.llen(key);
+  }
+
+  async ltrim(key: string, start: number, stop: number): Promise<"OK"> {
+    return this.write([key], () => this.l2.ltrim(key, start, stop));
+  }
+
+  async lindex(key: string, index: number): Promise<string | null> {
+    return this.l2.lindex(key, index);
+  }
+  async lset(key: string, index: number, value: string): Promise<"OK"> {
+    return this.write([key], () => this.l2.lset(key, index, value));
+  }
+
+  async lrem(key: string, count: number, value: string): Promise<number> {
+    return this.write([key], () => this.l2.lrem(key, count, value));
+  }
+
+  async linsert(
+    key: string,
+    position: "BEFORE" | "AFTER",
+    pivot: string,
+    value: string,
+  ): Promise<number> {
+    return this.write([key], () =>
+      this.l2.linsert(key, position, pivot, value),
+    );
+  }
+
+  async lpos(
+    key: string,
+    value: string,
+    options?: { rank?: number; maxlen?: number },
+  ): Promise<number | null> {
+    return this.l2.lpos(key, value, options);
+  }
+
+  async blpop(
+    keys: string[],
+    timeout: number,
+  ): Promise<{ key: string; value: string } | null> {
+    return this.write(keys, () => this.l2.blpop(keys, timeout));
+  }
+
+  async brpop(
+    keys: string[],
+    timeout: number,
+  ): Promise<{ key: string; value: string } | null> {
+    return this.write(keys, () => this.l2.brpop(keys, timeout));
+  }
+
+  async lmove(
+    source: string,
+    destination: string,
+    from: ListDirection,
+    to: ListDirection,
+  ): Promise<string | null> {
+    return this.write([source, destination], () =>
+      this.l2.lmove(source, destination, from, to),
+    );
+  }
+
+  async blmove(
+    source: string,
+    destination: string,
+    from: ListDirection,
+    to: ListDirection,
+    timeout: number,
+  ): Promise<string | null> {
+    return this.write([source, destination], () =>
+      this.l2.blmove(source, destination, from, to, timeout),
+    );
+  }
+
+  async rpoplpush(source: string, destination: string): Promise<string | null> {
+    return this.write([source, destination], () =>
+      this.l2.rpoplpush(source, destination),
+    );
+  }
+
+
+  // =============================================
+  // SET OPERATIONS
+  // =============================================
+
+  async sadd(key: string, ...members: string[]): Promise<number> {
+    return this.write([key], () => this.l2.sadd(key, ...members));
+  }
+
+  async srem(key: string, ...members: string[]): Promise<number> {
+    return this.write([key], () => this.l2.srem(key, ...members));
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    return this.l2.smembers(key);
+  }
+
+  async sismember(key: string, member: string): Promise<0 | 1> {
+    return this.l2.sismember(key, member);
+  }
+
+  async scard(key: string): Promise<number> {
+    return this.l2.scard(key);
+  }
+
+  async sinter(...keys: string[]): Promise<string[]> {
+    return this.l2.sinter(...keys);
+  }
+
+  async sunion(...keys: string[]): Promise<string[]> {
+    return this.l2.sunion(...keys);
+  }
+
+  async sdiff(...keys: string[]): Promise<string[]> {
+    return this.l2.sdiff(...keys);
+  }
+
+  // =============================================
+  // SORTED SET OPERATIONS
+  // =============================================
+
+  async zadd(
+    key: string,
+    scoreMembers: Array<{ score: number; member: string }>,
+    options?: { nx?: boolean; xx?: boolean; gt?: boolean; lt?: boolean },
+  ): Promise<number> {
+    return this.write([key], () => this.l2.zadd(key, scoreMembers, options));
+  }
+
+  async zrem(key: string, ...members: string[]): Promise<number> {
+    return this.write([key], () => this.l2.zrem(key, ...members));
+  }
+
+  async zscore(key: string, member: string): Promise<string | null> {
+    return this.l2.zscore(key, member);
+  }
+
+  async zrank(key: string, member: string): Promise<number | null> {
+    return this.l2.zrank(key, member);
+  }
+
+  async zrevrank(key: string, member: string): Promise<number | null> {
+    return this.l2.zrevrank(key, member);
+  }
+
+  async zrange(
+    key: string,
+    start: number,
+    stop: number,
+    options?: SortedSetRangeOptions,
+  ): Promise<string[] | Array<{ member: string; score: number }>> {
+    return this.l2.zrange(key, start, stop, options);
+  }
+
+  async zrevrange(
+    key: string,
+    start: number,
+    stop: number,
+    options?: SortedSetRangeOptions,
+  ): Promise<string[] | Array<{ member: string; score: number }>> {
+    return this.l2.zrevrange(key, start, stop, options);
+  }
+
+  async zcard(key: string): Promise<number> {
+    return this.l2.zcard(key);
+  }
+
+  async zcount(
+    key: string,
+    min: number | string,
+    max: number | string,
+  ): Promise<number> {
+    return this.l2.zcount(key, min, max);
+  }
+
+  async zincrby(
+    key: string,
+    increment: number,
+    member: string,
+  ): Promise<string> {
+    return this.write([key], () => this.l2.zincrby(key, increment, member));
+  }
+
+  async zremrangebyrank(
+    key: string,
+    start: number,
+    stop: number,
+  ): Promise<number> {
+    return this.write([key], () => this.l2.zremrangebyrank(key, start, stop));
+  }
+
+  async zremrangebyscore(
+    key: string,
+    min: number | string,
+    max: number | string,
+  ): Promise<number> {
+    return this.write([key], () => this.l2.zremrangebyscore(key, min, max));
+  }
+
+  async zrangebyscore(
+    key: string,
+    min: number | string,
+    max: number | string,
+    options?: SortedSetRangeOptions,
+  ): Promise<string[] | Array<{ member: string; score: number }>> {
+    return this.l2.zrangebyscore(key, min, max, options);
+  }
+
+  async zrevrangebyscore(
+    key: string,
+    max: number | string,
+    min: number | string,
+    options?: SortedSetRangeOptions,
+  ): Promise<string[] | Array<{ member: string; score: number }>> {
+    return this.l2.zrevrangebyscore(key, max, min, options);
+  }
+
+  async zrangebylex(
+    key: string,
+    min: string,
+    max: string,
+    options?: { limit?: { offset: number; count: number } },
+  ): Promise<string[]> {
+    return this.l2.zrangebylex(key, min, max, options);
+  }
+
+  async zunionstore(
+    destination: string,
+    keys: string[],
+    options?: SortedSetAggregateOptions,
+  ): Promise<number> {
+    return this.write([destination], () =>
+      this.l2.zunionstore(destination, keys, options),
+    );
+  }
+
+  async zinterstore(
+    destination: string,
+    keys: string[],
+    options?: SortedSetAggregateOptions,
+  ): Promise<number> {
+    return this.write([destination], () =>
+      this.l2.zinterstore(destination, keys, options),
+    );
+  }
+
+  async zdiff(
+    keys: string[],
+    options?: { withScores?: boolean },
+  ): Promise<string[] | Array<{ member: string; score: number }>> {
+    return this.l2.zdiff(keys, options);
+  }
+
+  async zpopmin(
+    key: string,
+    count?: number,
+  ): Promise<Array<{ member: string; score: number }>> {
+    return this.write([key], () => this.l2.zpopmin(key, count));
+  }
+
+  async zpopmax(
+    key: string,
+    count?: number,
+  ): Promise<Array<{ member: string; score: number }>> {
+    return this.write([key], () => this.l2.zpopmax(key, count));
+  }
+
+  async bzpopmin(
+    keys: string[],
+    timeout: number,
+  ): Promise<{ key: string; member: string; score: number } | null> {
+    return this.write(keys, () => this.l2.bzpopmin(keys, timeout));
+  }
+
+  async zrandmember(
+    key: string,
+    count?: number,
+    options?: { withScores?: boolean },
+  ): Promise<string[] | Array<{ member: string; score: number }>> {
+    return this.l2.zrandmember(key, count, options);
+  }
+
+  async zmscore(
+    key: string,
+    ...members: string[]
+  ): Promise<Array<string | null>> {
+    return this.l2.zmscore(key, ...members);
+  }
+
+  // =============================================
+  // KEY MANAGEMENT
+  // =============================================
+
+  async del(...keys: string[]): Promise<number> {
+    return this.write(keys, () => this.l2.del(...keys));
+  }
+
+  async exists(...keys: string[]): Promise<number> {
+    return this.l2.exists(...keys);
+  }
+
+  async expire(key: string, seconds: number, mode?: "NX"): Promise<0 | 1> {
+    return this.writeExpiry(key, seconds * 1000, () =>
+      this.l2.expire(key, seconds, mode),
+    );
+  }
+
+  async expireat(key: string, timestamp: number): Promise<0 | 1> {
+    return this.writeExpiry(key, timestamp * 1000 - Date.now(), () =>
+      this.l2.expireat(key, timestamp),
+    );
+  }
+
+  async ttl(key: string): Promise<number> {
+    return this.l2.ttl(key);
+  }
+
+  async pttl(key: string): Promise<number> {
+    return this.l2.pttl(key);
+  }
+
+  async persist(key: string): Promise<0 | 1> {
+    return this.write([key], () => this.l2.persist(key));
+  }
+
+  async rename(key: string, newKey: string): Promise<"OK"> {
+    return this.write([key, newKey], () => this.l2.rename(key, newKey));
+  }
+
+  async type(key: string): Promise<string> {
+    return this.l2.type(key);
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    return this.l2.keys(pattern);
+  }
+
+  async scan(
+    cursor: number,
+    options?: CacheScanOptions,
+  ): Promise<{ cursor: number; keys: string[] }> {
+    return this.l2.scan(cursor, options);
+  }
+
+  // =============================================
+  // GEO OPERATIONS
+  // =============================================
+
+  async geoadd(
+    key: string,
+    members: GeoMember[],
+    options?: { nx?: boolean; xx?: boolean; ch?: boolean },
+  ): Promise<number> {
+    const l2 = this.requireL2("geoadd");
+    return this.write([key], () => l2.geoadd!(key, members, options));
+  }
+
+  async geopos(
+    key: string,
+    ...members: string[]
+  ): Promise<Array<GeoCoordinates | null>> {
+    const l2 = this.requireL2("geopos");
+    return l2.geopos!(key, ...members);
+  }
+
+  async geodist(
+    key: string,
+    member1: string,
+    member2: string,
+    unit?: GeoUnit,
+  ): Promise<number | null> {
+    const l2 = this.requireL2("geodist");
+    return l2.geodist!(key, member1, member2, unit);
+  }
+
+  async geohash(
+    key: string,
+    ...members: string[]
+  ): Promise<Array<string | null>> {
+    const l2 = this.requireL2("geohash");
+    return l2.geohash!(key, ...members);
+  }
+
+  async geosearch(
+    key: string,
+    options: GeoSearchOptions,
+  ): Promise<GeoSearchResult[]> {
+    const l2 = this.requireL2("geosearch");
+    return l2.geosearch!(key, options);
+  }
+
+  // =============================================
+  // HYPERLOGLOG OPERATIONS
+  // =============================================
+
+  async pfadd(key: string, ...elements: string[]): Promise<0 | 1> {
+    const l2 = this.requireL2("pfadd");
+    return this.write([key], () => l2.pfadd!(key, ...elements));
+  }
+
+  async pfcount(...keys: string[]): Promise<number> {
+    const l2 = this.requireL2("pfcount");
+    return l2.pfcount!(...keys);
+  }
+
+  async pfmerge(destKey: string, ...sourceKeys: string[]): Promise<"OK"> {
+    const l2 = this.requireL2("pfmerge");
+    return this.write([destKey], () => l2.pfmerge!(destKey, ...sourceKeys));
+  }
+
+  async exportHyperLogLog(key: string): Promise<Buffer | null> {
+    const l2 = this.requireL2("exportHyperLogLog");
+    return l2.exportHyperLogLog!(key);
+  }
+
+  async importHyperLogLog(key: string, data: Uint8Array): Promise<"OK"> {
+    const l2 = this.requireL2("importHyperLogLog");
+    return this.write([key], () => l2.importHyperLogLog!(key, data));
+  }
+
+  // =============================================
+  // RAW COMMANDS
+  // =============================================
+
+  async executeRaw(
+    command: string,
+    args: (string | number)[],
+  ): Promise<unknown> {
+    const cmd = command.toUpperCase();
+    if (cmd === "GET" && args.length === 1) {
+      return this.get(String(args[0]));
+    }
+    if (cmd === "HGETALL" && args.length === 1) {
+      return this.hgetall(String(args[0]));
+    }
+    if (READ_COMMANDS.has(cmd)) {
+      return this.l2.executeRaw(command, args);
+    }
+    const expiresInMs = this.expiresInMs(cmd, args);
+    if (expiresInMs !== undefined) {
+      return this.writeExpiry(String(args[0]), expiresInMs, () =>
+        this.l2.executeRaw(command, args),
+      );
+    }
+    return this.write(this.keysForCommand(cmd, args), () =>
+      this.l2.executeRaw(command, args),
+    );
+  }
+
+  // =============================================
+  // SCRIPTING
+  // =============================================
+
+  async executeScript<TResult>(
+    script: ScriptDefinition<any, any, TResult>,
+    keys: string[],
+    args: (string | number)[],
+  ): Promise<TResult> {
+    const l2 = this.requireL2("executeScript");
+    return this.write(keys, () => l2.executeScript!(script, keys, args));
+  }
+
+  async loadScript(script: string): Promise<string> {
+    const l2 = this.requireL2("loadScript");
+    return l2.loadScript!(script);
+  }
+
+  // =============================================
+  // PIPELINE & TRANSACTIONS
+  // =============================================
+
+  async executePipeline(
+    entries: AnyPipelineEntry[],
+    options?: PipelineOptions,
+  ): Promise<PipelineResult> {
+    const l2 = this.requireL2("executePipeline");
+    const result = await this.write(this.keysForEntries(entries), () =>
+      l2.executePipeline!(entries, options),
+    );
+    await this.shortenL1Expiries(entries);
+    return result;
+  }
+
+  async executeTransaction(
+    entries: AnyPipelineEntry[],
+  ): Promise<TransactionResult> {
+    const l2 = this.requireL2("executeTransaction");
+    const result = await this.write(this.keysForEntries(entries), () =>
+      l2.executeTransaction!(entries),
+    );
+    await this.shortenL1Expiries(entries);
+    return result;
+  }
+
+  // =============================================
+  // PUB/SUB
+  // =============================================
+
+  async publish(channel: string, message: string): Promise<number> {
+    const l2 = this.requireL2("publish");
+    return l2.publish!(channel, message);
+  }
+
+  async subscribe(
+    channel: string,
+    callback: (message: string, channel: string) => void,
+  ): Promise<void> {
+    const target = this.subscriber ?? this.requireL2("subscribe");
+    if (typeof target.subscribe !== "function") {
+      throw this.notSupported("subscribe");
+    }
+    return target.subscribe(channel, callback);
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    const target = this.subscriber ?? this.requireL2("unsubscribe");
+    if (typeof target.unsubscribe !== "function") {
+      throw this.notSupported("unsubscribe");
+    }
+    return target.unsubscribe(channel);
+  }
+
+  async psubscribe(
+    pattern: string,
+    callback: (message: string, channel: string, pattern: string) => void,
+  ): Promise<void> {
+    const target = this.subscriber ?? this.requireL2("psubscribe");
+    if (typeof target.psubscribe !== "function") {
+      throw this.notSupported("psubscribe");
+    }
+    return target.psubscribe(pattern, callback);
+  }
+
+  async punsubscribe(pattern: string): Promise<void> {
+    const target = this.subscriber ?? this.requireL2("punsubscribe");
+    if (typeof target.punsubscribe !== "function") {
+      throw this.notSupported("punsubscribe");
+    }
+    return target.punsubscribe(pattern);
+  }
+
+  // =============================================
+  // STREAM OPERATIONS
+  // =============================================
+
+  async xadd(
+    key: string,
+    id: string | "*",
+    fields: Record<string, string>,
+  ): Promise<string> {
+    const l2 = this.requireL2("xadd");
+    return this.write([key], () => l2.xadd!(key, id, fields));
+  }
+
+  async xread(options: {
+    streams: string[];
+    ids: string[];
+    count?: number;
+    block?: number;
+  }): Promise<Array<{
+    stream: string;
+    messages: Array<{ id: string; fields: Record<string, string> }>;
+  }> | null> {
+    const l2 = this.requireL2("xread");
+    return l2.xread!(options);
+  }
+
+  async xrange(
+    key: string,
+    start: string,
+    end: string,
+    count?: number,
+  ): Promise<Array<{ id: string; fields: Record<string, string> }>> {
+    const l2 = this.requireL2("xrange");
+    return l2.xrange!(key, start, end, count);
+  }
+
+  async xrevrange(
+    key: string,
+    end: string,
+    start: string,
+    count?: number,
+  ): Promise<Array<{ id: string; fields: Record<string, string> }>> {
+    const l2 = this.requireL2("xrevrange");
+    return l2.xrevrange!(key, end, start, count);
+  }
+
+  async xlen(key: string): Promise<number> {
+    const l2 = this.requireL2("xlen");
+    return l2.xlen!(key);
+  }
+
+  async xtrim(
+    key: string,
+    strategy: "MAXLEN" | "MINID",
+    threshold: number | string,
+    approximate?: boolean,
+  ): Promise<number> {
+    const l2 = this.requireL2("xtrim");
+    return l2.xtrim!(key, strategy, threshold, approximate);
+  }
+
+  async xdel(key: string, ...ids: string[]): Promise<number> {
+    const l2 = this.requireL2("xdel");
+    return l2.xdel!(key, ...ids);
+  }
+
+  async xgroupCreate(
+    key: string,
+    group: string,
+    id: string,
+    options?: { mkstream?: boolean },
+  ): Promise<"OK"> {
+    const l2 = this.requireL2("xgroupCreate");
+    return l2.xgroupCreate!(key, group, id, options);
+  }
+
+  async xgroupDestroy(key: string, group: string): Promise<0 | 1> {
+    const l2 = this.requireL2("xgroupDestroy");
+    return l2.xgroupDestroy!(key, group);
+  }
+
+  async xgroupDelConsumer(
+    key: string,
+    group: string,
+    consumer: string,
+  ): Promise<number> {
+    const l2 = this.requireL2("xgroupDelConsumer");
+    return l2.xgroupDelConsumer!(key, group, consumer);
+  }
+
+  async xreadgroup(options: {
+    group: string;
+    consumer: string;
+    streams: string[];
+    ids: string[];
+    count?: number;
+    block?: number;
+    noAck?: boolean;
+  }): Promise<Array<{
+    stream: string;
+    messages: Array<{ id: string; fields: Record<string, string> }>;
+  }> | null> {
+    const l2 = this.requireL2("xreadgroup");
+    return l2.xreadgroup!(options);
+  }
+
+  async xack(key: string, group: string, ...ids: string[]): Promise<number> {
+    const l2 = this.requireL2("xack");
+    return l2.xack!(key, group, ...ids);
+  }
+
+  async xpending(key: string, group: string): Promise<StreamPendingSummary> {
+    const l2 = this.requireL2("xpending");
+    return l2.xpending!(key, group);
+  }
+
+  async xpendingRange(
+    key: string,
+    group: string,
+    start: string,
+    end: string,
+    count: number,
+    options?: { consumer?: string; minIdleTime?: number },
+  ): Promise<StreamPendingEntry[]> {
+    const l2 = this.requireL2("xpendingRange");
+    return l2.xpendingRange!(key, group, start, end, count, options);
+  }
+
+  async xclaim(
+    key: string,
+    group: string,
+    consumer: string,
+    minIdleTime: number,
+    ids: string[],
+  ): Promise<Array<{ id: string; fields: Record<string, string> }>> {
+    const l2 = this.requireL2("xclaim");
+    return l2.xclaim!(key, group, consumer, minIdleTime, ids);
+  }
+
+  // =============================================
+  // BLOOM FILTER OPERATIONS
+  // =============================================
+
+  async bfReserve(
+    key: string,
+    errorRate: number,
+    capacity: number,
+  ): Promise<"OK"> {
+    const l2 = this.requireL2("bfReserve");
+    return this.write([key], () => l2.bfReserve!(key, errorRate, capacity));
+  }
+
+  async bfAdd(key: string, item: string): Promise<0 | 1> {
+    const l2 = this.requireL2("bfAdd");
+    return this.write([key], () => l2.bfAdd!(key, item));
+  }
+
+  async bfMAdd(key: string, ...items: string[]): Promise<Array<0 | 1>> {
+    const l2 = this.requireL2("bfMAdd");
+    return this.write([key], () => l2.bfMAdd!(key, ...items));
+  }
+
+  async bfExists(key: string, item: string): Promise<0 | 1> {
+    const l2 = this.requireL2("bfExists");
+    return l2.bfExists!(key, item);
+  }
+
+  async bfMExists(key: string, ...items: string[]): Promise<Array<0 | 1>> {
+    const l2 = this.requireL2("bfMExists");
+    return l2.bfMExists!(key, ...items);
+  }
+
+  // =============================================
+  // CUCKOO FILTER OPERATIONS
+  // =============================================
+
+  async cfReserve(key: string, capacity: number): Promise<"OK"> {
+    const l2 = this.requireL2("cfReserve");
+    return this.write([key], () => l2.cfReserve!(key, capacity));
+  }
+
+  async cfAdd(key: string, item: string): Promise<0 | 1> {
+    const l2 = this.requireL2("cfAdd");
+    return this.write([key], () => l2.cfAdd!(key, item));
+  }
+
+  async cfDel(key: string, item: string): Promise<0 | 1> {
+    const l2 = this.requireL2("cfDel");
+    return this.write([key], () => l2.cfDel!(key, item));
+  }
+
+  async cfExists(key: string, item: string): Promise<0 | 1> {
+    const l2 = this.requireL2("cfExists");
+    return l2.cfExists!(key, item);
+  }
+
+  // =============================================
+  // COUNT-MIN SKETCH OPERATIONS
+  // =============================================
+
+  async cmsInitByDim(key: string, width: number, depth: number): Promise<"OK"> {
+    const l2 = this.requireL2("cmsInitByDim");
+    return this.write([key], () => l2.cmsInitByDim!(key, width, depth));
+  }
+
+  async cmsInitByProb(
+    key: string,
+    errorRate: number,
+    probability: number,
+  ): Promise<"OK"> {
+    const l2 = this.requireL2("cmsInitByProb");
+    return this.write([key], () =>
+      l2.cmsInitByProb!(key, errorRate, probability),
+    );
+  }
+
+  async cmsIncrBy(
+    key: string,
+    increments: Record<string, number>,
+  ): Promise<number[]> {
+    const l2 = this.requireL2("cmsIncrBy");
+    return this.write([key], () => l2.cmsIncrBy!(key, increments));
+  }
+
+  async cmsQuery(key: string, ...items: string[]): Promise<number[]> {
+    const l2 = this.requireL2("cmsQuery");
+    return l2.cmsQuery!(key, ...items);
+  }
+
+  // =============================================
+  // KEYSPACE EVENTS
+  // =============================================
+
+  async on(event: KeyspaceEvent, handler: KeyspaceEventHandler): Promise<void> {
+    const l2 = this.requireL2("on");
+    return l2.on!(event, handler);
+  }
+
+  async off(
+    event: KeyspaceEvent,
+    handler: KeyspaceEventHandler,
+  ): Promise<void> {
+    const l2 = this.requireL2("off");
+    return l2.off!(event, handler);
+  }
+
+  // =============================================
+  // METRICS
+  // =============================================
+
+  getMetrics(): ExecutorMetrics {
+    const metrics = this.l2.getMetrics();
+    return {
+      ...metrics,
+      operationCounts: {
+        ...metrics.operationCounts,
+        "L1:HIT": this.l1Hits,
+        "L1:MISS": this.l1Misses,
+      },
+    };
+  }
+
+  resetMetrics(): void {
+    this.l2.resetMetrics();
+    this.l1Hits = 0;
+    this.l1Misses = 0;
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const lookups = this.l1Hits + this.l1Misses;
+    return {
+      hits: this.l1Hits,
+      misses: this.l1Misses,
+      hitRate: lookups > 0 ? this.l1Hits / lookups : 0,
+      size: this.l1.size(),
+      avgLatencyMs: this.l2.getMetrics().avgExecutionTimeMs,
+    };
+  }
+
+  // =============================================
+  // UTILITY METHODS
+  // =============================================
+
+  /**
+   * Drop every L1 entry in this process
+   */
+  clearL1(): void {
+    this.bumpGenerations([...this.readGenerations.keys()]);
+    this.l1.clear();
+  }
+
+  // =============================================
+  // PRIVATE HELPERS
+  // =============================================
+
+  private async write<T>(keys: string[], op: () => Promise<T>): Promise<T> {
+    const result = await op();
+    await this.invalidate(keys);
+    return result;
+  }
+
+  /**
+   * Run a command setting a key's expiry `expiresInMs` from now. A future
+   * expiry, such as a sliding TTL refresh, keeps L1 and only shortens the
+   * local L1 entry if it would outlive the key; an expiry in the past deletes
+   * the key and is invalidated like any write.
+   */
+  private async writeExpiry<T>(
+    key: string,
+    expiresInMs: number,
+    op: () => Promise<T>,
+  ): Promise<T> {
+    if (expiresInMs <= 0) return this.write([key], op);
+    const result = await op();
+    await this.shortenL1Expiry(key, expiresInMs);
+    return result;
+  }
+
+  private async shortenL1Expiry(
+    key: string,
+    expiresInMs: number,
+  ): Promise<void> {
+    const remaining = await this.l1.pttl(key);
+    if (remaining === -2 || (remaining >= 0 && remaining <= expiresInMs)) {
+      return;
+    }
+    await this.l1.expire(key, Math.ceil(expiresInMs / 1000));
+  }
+
+  private async shortenL1Expiries(entries: AnyPipelineEntry[]): Promise<void> {
+    for (const { operation, params } of entries) {
+      const args = operation.buildArgs(params);
+      const expiresInMs = this.expiresInMs(
+        operation.command.toUpperCase(),
+        args,
+      );
+      if (expiresInMs !== undefined && expiresInMs > 0) {
+        await this.shortenL1Expiry(String(args[0]), expiresInMs);
+      }
+    }
+  }
+
+  /** Milliseconds from now an expiry command expires its key at */
+  private expiresInMs(
+    command: string,
+    args: (string | number)[],
+  ): number | undefined {
+    if (!EXPIRY_COMMANDS.has(command) || args.length < 2) return undefined;
+    const value = Number(args[1]);
+    switch (command) {
+      case "EXPIRE":
+        return value * 1000;
+      case "PEXPIRE":
+        return value;
+      case "EXPIREAT":
+        return value * 1000 - Date.now();
+      default:
+        return value - Date.now();
+    }
+  }
+
+  private async invalidate(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    this.bumpGenerations(keys);
+    await this.l1.del(...keys);
+    await this.publishInvalidation({ source: this.instanceId, keys });
+  }
+
+  private async publishInvalidation(
+    message: InvalidationMessage,
+  ): Promise<void> {
+    if (typeof this.l2.publish !== "function") return;
+    try {
+      await this.l2.publish(
+        this.config.invalidationChannel,
+        JSON.stringify(message),
+      );
+    } catch (error) {
+      this.logger.warn("Failed to publish L1 invalidation", {
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private handleInvalidation(raw: string): void {
+    let message: InvalidationMessage;
+    try {
+      message = JSON.parse(raw) as InvalidationMessage;
+    } catch {
+      this.logger.warn("Ignoring malformed L1 invalidation message");
+      return;
+    }
+
+    if (message.source === this.instanceId) return;
+    if (message.keys && message.keys.length > 0) {
+      this.bumpGenerations(message.keys);
+      this.l1.del(...message.keys).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Start an L2 read that may fill L1. Returns the key's generation, which
+   * every invalidation of the key bumps while the read is in flight.
+   */
+  private beginRead(key: string): number {
+    const read = this.readGenerations.get(key) ?? { generation: 0, reads: 0 };
+    read.reads++;
+    this.readGenerations.set(key, read);
+    return read.generation;
+  }
+
+  /** Finish an L2 read. Returns false if the key was invalidated meanwhile */
+  private endRead(key: string, generation: number): boolean {
+    const read = this.readGenerations.get(key)!;
+    if (--read.reads === 0) this.readGenerations.delete(key);
+    return read.generation === generation;
+  }
+
+  private bumpGenerations(keys: string[]): void {
+    for (const key of keys) {
+      const read = this.readGenerations.get(key);
+      if (read) read.generation++;
+    }
+  }
+
+  private l1TtlFor(options?: CacheSetOptions): number {
+    if (options?.ex) return Math.min(options.ex, this.config.l1Ttl);
+    if (options?.px) {
+      return Math.min(Math.ceil(options.px / 1000), this.config.l1Ttl);
+    }
+    return this.config.l1Ttl;
+  }
+
+  private keysForCommand(command: string, args: (string | number)[]): string[] {
+    if (args.length === 0) return [];
+    if (command === "DEL" || command === "UNLINK") return args.map(String);
+    if (command === "MSET") {
+      return args.filter((_, i) => i % 2 === 0).map(String);
+    }
+    if (command === "RENAME") return args.slice(0, 2).map(String);
+    if (command === "EVAL") {
+      return args.slice(2, 2 + Number(args[1])).map(String);
+    }
+    if (command === "BZPOPMIN" || command === "BLPOP" || command === "BRPOP") {
+      return args.slice(0, -1).map(String);
+    }
+    if (
+      command === "LMOVE" ||
+      command === "BLMOVE" ||
+      command === "RPOPLPUSH"
+    ) {
+      return args.slice(0, 2).map(String);
+    }
+    return [String(args[0])];
+  }
+
+  private keysForEntries(entries: AnyPipelineEntry[]): string[] {
+    const keys: string[] = [];
+    for (const entry of entries) {
+      const command = entry.operation.command.toUpperCase();
+      if (READ_COMMANDS.has(command)) continue;
+      const args = entry.operation.buildArgs(entry.params);
+      const expiresInMs = this.expiresInMs(command, args);
+      if (expiresInMs !== undefined && expiresInMs > 0) continue;
+      keys.push(...this.keysForCommand(command, args));
+    }
+    return keys;
+  }
+
+  private requireL2(method: keyof CacheAdapter): CacheAdapter {
+    if (typeof this.l2[method] !== "function") {
+      throw this.notSupported(method);
+    }
+    return this.l2;
+  }
+
+  private notSupported(method: string): CacheError {
+    return new CacheError(
+      `${method} is not supported by the L2 adapter (${this.l2.name})`,
+      CacheErrorCode.ADAPTER_NOT_SUPPORTED,
+    );
+  }
+}
+
+/**
+ * Create a tiered adapter
+ */
+export function createTieredAdapter(config: TieredAdapterConfig): TieredAdapter {
+  return new TieredAdapter(config);
+}
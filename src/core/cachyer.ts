@@ -9,13 +9,18 @@ import type {
   CacheAdapter,
   CacheLogger,
   ConnectionStatus,
+  KeyspaceEvent,
+  KeyspaceEventHandler,
 } from "../types/adapter.types";
 import { defaultLogger } from "../types/adapter.types";
 import type {
+  CacheCommand,
   CacheScanOptions,
   CacheSetOptions,
   CacheStats,
+  ListDirection,
   Serializer,
+  SortedSetAggregateOptions,
   SortedSetRangeOptions,
 } from "../types/core.types";
 import {
@@ -23,17 +28,109 @@ import {
   CacheErrorCode,
   JSONSerializer,
 } from "../types/core.types";
-import type {
-  CacheOperation,
-  CacheSchema,
-  ExecuteOptions,
-  ExecuteResult,
-  ExecutorMetrics,
-  AnyPipelineEntry,
-  PipelineResult,
-  ScriptDefinition,
-  TransactionResult,
+import {
+  defineScript,
+  scriptOperation,
+  type CacheOperation,
+  type CacheSchema,
+  type ExecuteOptions,
+  type ExecuteResult,
+  type ExecutorMetrics,
+  type AnyPipelineEntry,
+  type PipelineResult,
+  type SchemaRepository,
+  type ScriptDefinition,
+  type TransactionResult,
 } from "../types/operation.types";
+import type { StandardSchemaV1Issue } from "../types/standard-schema.types";
+import { LockService } from "../services/lock.service";
+import {
+  createKeyVersionMatcher,
+  createVersionScanPattern,
+} from "../utils/key-patterns";
+
+/**
+ * Stampede protection settings for cache-aside reads
+ */
+export interface StampedeProtectionOptions {
+  /** Coalesce concurrent misses for the same key within this process (default: true) */
+  singleFlight?: boolean;
+
+  /** Use a distributed lock so only one node recomputes a missing key (default: false) */
+  distributed?: boolean;
+
+  /** Lock TTL in milliseconds (default: 10000) */
+  lockTtlMs?: number;
+
+  /** How long nodes that lost the lock race wait for the holder in milliseconds (default: 3000) */
+  waitTimeoutMs?: number;
+
+  /** Poll interval while waiting for the lock in milliseconds (default: 50) */
+  retryIntervalMs?: number;
+
+  /**
+   * Keep a stale copy for this many seconds past the TTL.
+   * Nodes that lose the lock race are served the stale copy instead of waiting.
+   * (default: 0, disabled)
+   */
+  staleTtl?: number;
+}
+
+/**
+ * Per-call options shared by getOrFetch and getOrFetchHash
+ */
+export interface CacheAsideOptions {
+  /** TTL in seconds (defaults to the configured defaultTtl) */
+  ttl?: number;
+
+  /** Stampede protection overrides for this call */
+  stampede?: StampedeProtectionOptions;
+}
+
+/**
+ * Per-call options for getOrFetch
+ */
+export interface GetOrFetchOptions extends CacheAsideOptions {
+  /**
+   * Soft TTL in seconds. Once it passes, the cached value is returned
+   * immediately and refreshed in the background (stale-while-revalidate).
+   * Should be lower than `ttl`, which remains the hard expiry.
+   */
+  softTtl?: number;
+
+  /**
+   * XFetch beta for probabilistic early recomputation (0 disables it).
+   * A background refresh may start before the value goes stale, with a
+   * probability that grows as expiry approaches and with the cost of the
+   * last fetch. 1 is a good default; higher values refresh earlier.
+   */
+  earlyRecomputeBeta?: number;
+}
+
+/**
+ * Options for sweepSchemaVersions
+ */
+export interface SweepSchemaVersionsOptions {
+  /**
+   * Also delete keys without a version segment, written before the schema
+   * had a version (default: false). Only safe when no other key of the
+   * same shape can exist, since placeholders match any single segment.
+   */
+  includeUnversioned?: boolean;
+}
+
+/**
+ * Outcome of a cache-aside read, tracked in metrics as `getOrFetch:<outcome>`
+ */
+export type CacheAsideOutcome =
+  | "hit"
+  | "miss"
+  | "coalesced"
+  | "waited"
+  | "stale"
+  | "lockTimeout"
+  | "revalidate"
+  | "earlyRecompute";
 
 /**
  * Cachyer configuration options
@@ -62,8 +159,136 @@ export interface CachyerConfig {
 
   /** Auto-connect on creation */
   autoConnect?: boolean;
+
+  /** Default stampede protection for getOrFetch / getOrFetchHash */
+  stampedeProtection?: StampedeProtectionOptions;
+
+  /**
+   * Interval in milliseconds for deleting keys left behind by previous
+   * versions of registered schemas (0 = disabled)
+   */
+  versionSweepIntervalMs?: number;
+}
+
+interface CacheAsideEntry<T> {
+  value: T;
+  /** Epoch ms after which the value should be refreshed */
+  freshUntil?: number;
+  /** Duration of the fetch that produced the value, in ms */
+  delta?: number;
 }
 
+interface CacheAsideAccess<T> {
+  read(key: string): Promise<CacheAsideEntry<T> | null>;
+  write(
+    key: string,
+    entry: CacheAsideEntry<T>,
+    ttl: number,
+  ): Promise<void>;
+}
+
+/** Command run after another in the same transaction, with prefixed args */
+interface ChainedCommand {
+  command: CacheCommand;
+  args: (string | number)[];
+  /** Script an EVAL command runs */
+  script?: ScriptDefinition;
+}
+
+/** Header marking a string entry that carries freshness metadata */
+const FRESHNESS_HEADER = "\u0000swr:";
+
+/** Reads that may return entries written by getOrFetch */
+const FRESHNESS_READ_COMMANDS = new Set(["GET", "MGET"]);
+
+/** Keys deleted per DEL when invalidating a tag */
+const TAG_DELETE_BATCH = 500;
+
+/**
+ * Record a key in its tag sets, scored by when the key expires (+inf if
+ * never). Each tag set expires with its longest-lived member, and members
+ * that already expired are pruned on every write.
+ */
+const tagKeyScript = defineScript({
+  script: `
+    local pttl = redis.call('PTTL', KEYS[1])
+    if pttl == -2 then return 0 end
+    local time = redis.call('TIME')
+    local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+    local score = '+inf'
+    if pttl >= 0 then score = now + pttl end
+    for i = 2, #KEYS do
+      redis.call('ZREMRANGEBYSCORE', KEYS[i], '-inf', now)
+      redis.call('ZADD', KEYS[i], score, KEYS[1])
+      local last = redis.call('ZRANGE', KEYS[i], -1, -1, 'WITHSCORES')
+      if last[2] == 'inf' then
+        redis.call('PERSIST', KEYS[i])
+      else
+        redis.call('PEXPIREAT', KEYS[i], last[2])
+      end
+    end
+    return #KEYS - 1
+  `,
+  language: "lua",
+  keys: ["key", "...tagKeys"] as const,
+  args: [] as const,
+  description: "Record a key in its tag index sets",
+  jsImpl: async (adapter, keys) => {
+    const [key, ...tagKeys] = keys as [string, ...string[]];
+    const pttl = await adapter.pttl(key);
+    if (pttl === -2) return 0;
+    const now = Date.now();
+    const score = pttl >= 0 ? now + pttl : Infinity;
+    for (const tagKey of tagKeys) {
+      await adapter.zremrangebyscore(tagKey, "-inf", now);
+      await adapter.zadd(tagKey, [{ member: key, score }]);
+      const [last] = (await adapter.zrange(tagKey, -1, -1, {
+        withScores: true,
+      })) as Array<{ member: string; score: number }>;
+      if (last!.score === Infinity) {
+        await adapter.persist(tagKey);
+      } else {
+        await adapter.expireat(tagKey, Math.ceil(last!.score / 1000));
+      }
+    }
+    return tagKeys.length;
+  },
+});
+
+/** Commands that create or modify a key and should be recorded in the tag index */
+const TAG_INDEXED_COMMANDS = new Set([
+  "SET",
+  "SETEX",
+  "SETNX",
+  "INCR",
+  "INCRBY",
+  "DECR",
+  "DECRBY",
+  "LPUSH",
+  "RPUSH",
+  "SADD",
+  "ZADD",
+  "ZINCRBY",
+  "ZUNIONSTORE",
+  "ZINTERSTORE",
+  "HSET",
+  "HSETNX",
+  "HMSET",
+  "HINCRBY",
+  "HINCRBYFLOAT",
+  "PFADD",
+  "XADD",
+  "GEOADD",
+  "BF.ADD",
+  "BF.MADD",
+  "BF.RESERVE",
+  "CF.ADD",
+  "CF.RESERVE",
+  "CMS.INITBYDIM",
+  "CMS.INITBYPROB",
+  "CMS.INCRBY",
+]);
+
 /**
  * Main Cachyer class
  *
@@ -87,7 +312,20 @@ export class Cachyer {
   private readonly _adapter: CacheAdapter;
   private readonly config: Required<Omit<CachyerConfig, "adapter">>;
   private readonly schemas: Map<string, CacheSchema<any, any>> = new Map();
+  private readonly operationTags: WeakMap<
+    CacheOperation<any, any>,
+    readonly string[]
+  > = new WeakMap();
   private readonly scriptHashes: Map<string, string> = new Map();
+  private readonly inFlight: Map<string, Promise<unknown>> = new Map();
+  private readonly refreshing: Set<string> = new Set();
+  private readonly eventHandlers: Map<
+    KeyspaceEvent,
+    Map<KeyspaceEventHandler, KeyspaceEventHandler>
+  > = new Map();
+  private cacheAsideCounts: Record<string, number> = {};
+  private lockService?: LockService;
+  private versionSweepTimer?: ReturnType<typeof setInterval>;
   private isInitialized = false;
 
   /**
@@ -120,6 +358,8 @@ export class Cachyer {
       },
       enableMetrics: options.enableMetrics ?? true,
       autoConnect: options.autoConnect ?? true,
+      stampedeProtection: options.stampedeProtection ?? {},
+      versionSweepIntervalMs: options.versionSweepIntervalMs ?? 0,
     };
 
     if (this.config.autoConnect) {
@@ -145,6 +385,7 @@ export class Cachyer {
       this.config.logger.info("Connected to cache backend", {
         adapter: this._adapter.name,
       });
+      this.startVersionSweeper();
     } catch (error) {
       this.config.logger.error("Failed to connect", {
         adapter: this._adapter.name,
@@ -162,6 +403,11 @@ export class Cachyer {
    * Disconnect from the cache backend
    */
   async disconnect(): Promise<void> {
+    if (this.versionSweepTimer) {
+      clearInterval(this.versionSweepTimer);
+      this.versionSweepTimer = undefined;
+    }
+
     try {
       await this._adapter.disconnect();
       this.isInitialized = false;
@@ -206,7 +452,10 @@ export class Cachyer {
       transactions: typeof this._adapter.executeTransaction === "function",
       pubsub: typeof this._adapter.publish === "function",
       streams: typeof this._adapter.xadd === "function",
+      geo: typeof this._adapter.geoadd === "function",
       bloomFilter: typeof this._adapter.bfAdd === "function",
+      cuckooFilter: typeof this._adapter.cfAdd === "function",
+      countMinSketch: typeof this._adapter.cmsIncrBy === "function",
     };
   }
 
@@ -215,13 +464,20 @@ export class Cachyer {
   // =============================================
 
   /**
-   * Register a cache schema
+   * Register a cache schema.
+   * Keys written through the operations of a schema with tags are
+   * recorded in the tag index, see invalidateTag().
    */
   registerSchema<
     TKeyParams extends Record<string, unknown>,
     TOperations extends Record<string, CacheOperation<any, any>>,
   >(schema: CacheSchema<TKeyParams, TOperations>): void {
     this.schemas.set(schema.name, schema);
+    if (schema.tags && schema.tags.length > 0) {
+      for (const operation of Object.values(schema.operations)) {
+        this.operationTags.set(operation, schema.tags);
+      }
+    }
     this.config.logger.debug("Registered schema", { name: schema.name });
   }
 
@@ -242,6 +498,98 @@ export class Cachyer {
     return Array.from(this.schemas.keys());
   }
 
+  /**
+   * Delete keys written by older versions of a schema. Keys of newer
+   * versions, e.g. from instances already running the next deploy, are
+   * kept, and unversioned keys are only deleted with `includeUnversioned`.
+   * Sweeps every registered versioned schema when none is given. Returns
+   * the number of keys deleted.
+   */
+  async sweepSchemaVersions(
+    schema?: CacheSchema<any, any>,
+    options?: SweepSchemaVersionsOptions,
+  ): Promise<number> {
+    const targets = schema ? [schema] : Array.from(this.schemas.values());
+    let deleted = 0;
+    for (const target of targets) {
+      deleted += await this.sweepSchema(target, options);
+    }
+    return deleted;
+  }
+
+  /**
+   * Bind a schema to this cache. Returns a repository with one method per
+   * operation, e.g. `users.get({ userId })`. Writes refresh the schema TTL,
+   * unless the schema has a TTL policy, which its operations apply.
+   */
+  bind<
+    TKeyParams extends Record<string, unknown>,
+    TOperations extends Record<string, CacheOperation<any, any>>,
+  >(
+    schema: CacheSchema<TKeyParams, TOperations>,
+  ): SchemaRepository<TKeyParams, TOperations> {
+    const repository: Record<string, unknown> = {
+      schema,
+      invalidate: async (keyParams: TKeyParams) => {
+        const key = this.prefixKey(schema.key(keyParams));
+        if (!schema.tags?.length) return (await this._adapter.del(key)) > 0;
+        // The key leaves its tag sets in the same transaction
+        const deleted = await this.executeChained(
+          "DEL",
+          [key],
+          schema.tags.map((tag) => ({
+            command: "ZREM",
+            args: [this.tagKey(tag), key],
+          })),
+        );
+        return (deleted as number) > 0;
+      },
+    };
+
+    for (const [name, operation] of Object.entries(schema.operations)) {
+      if (name === "schema" || name === "invalidate") {
+        throw new Error(
+          `Operation "${name}" of schema "${schema.name}" clashes with a repository method`,
+        );
+      }
+      // SETEX writes carry the operation's own TTL
+      const refreshesTtl =
+        !schema.ttlPolicy &&
+        schema.ttl > 0 &&
+        TAG_INDEXED_COMMANDS.has(operation.command) &&
+        operation.command !== "SETEX";
+      const bound = refreshesTtl
+        ? this.withSchemaExpire(schema, operation)
+        : operation;
+      repository[name] = (
+        params: Record<string, unknown>,
+        options?: ExecuteOptions,
+      ) => this.execute(bound, params, options);
+    }
+
+    return repository as SchemaRepository<TKeyParams, TOperations>;
+  }
+
+  /** Operation chaining an EXPIRE of its schema's key after the write */
+  private withSchemaExpire(
+    schema: CacheSchema<any, any>,
+    operation: CacheOperation<any, any>,
+  ): CacheOperation<any, any> {
+    const bound: CacheOperation<any, any> = {
+      ...operation,
+      expire: {
+        command: "EXPIRE",
+        buildArgs: (params: Record<string, unknown>) => [
+          schema.key(params),
+          schema.ttl,
+        ],
+      },
+    };
+    const tags = this.operationTags.get(operation);
+    if (tags) this.operationTags.set(bound, tags);
+    return bound;
+  }
+
   // =============================================
   // OPERATION EXECUTION
   // =============================================
@@ -258,6 +606,10 @@ export class Cachyer {
     let lastError: Error | undefined;
     let retries = 0;
 
+    if (operation.validation?.param !== undefined) {
+      params = await this.validateWrite(operation, params);
+    }
+
     while (retries <= (opts.retries ?? 0)) {
       try {
         const args = operation.buildArgs(params);
@@ -268,18 +620,39 @@ export class Cachyer {
           attempt: retries + 1,
         });
 
+        const chained = this.followUps(operation).map((followUp) => ({
+          command: followUp.command,
+          args: this.applyKeyPrefix(
+            followUp.buildArgs(params),
+            followUp.command,
+          ),
+          script: followUp.script,
+        }));
         const rawResult = await this.executeCommand(
           operation.command,
           prefixedArgs,
           opts.timeout ?? 5000,
+          chained,
         );
 
-        const result = operation.parseResult
-          ? operation.parseResult(rawResult)
-          : (rawResult as TResult);
+        if (operation.validation?.read) {
+          return await this.validateRead(
+            operation,
+            rawResult,
+            String(prefixedArgs[0]),
+          );
+        }
 
-        return result;
+        return this.parseRaw(operation, rawResult);
       } catch (error) {
+        // Invalid values fail the same way on every attempt
+        if (
+          error instanceof CacheError &&
+          error.code === CacheErrorCode.VALIDATION_ERROR
+        ) {
+          throw error;
+        }
+
         lastError = error as Error;
         retries++;
 
@@ -405,8 +778,31 @@ export class Cachyer {
       return this.executePipelineFallback(entries);
     }
 
-    const prefixedEntries = this.prefixPipelineEntries(entries);
-    return this.adapter.executePipeline(prefixedEntries);
+    entries = await this.validateWrites(entries);
+    const chained = this.chainFollowUps(entries);
+    const prefixedEntries = this.prefixPipelineEntries(chained.entries);
+    const result = await this.adapter.executePipeline(prefixedEntries);
+    const results = await Promise.all(
+      chained.positions.map(async (position, i) => {
+        const entry = result.results[position]!;
+        if (!entries[i]!.operation.validation?.read || !entry.success) {
+          return entry;
+        }
+        try {
+          return {
+            success: true,
+            data: await this.validateEntryRead(entries[i]!, entry.data),
+          };
+        } catch (error) {
+          return { success: false, error: error as Error };
+        }
+      }),
+    );
+    return {
+      ...result,
+      success: results.every((entry) => entry.success),
+      results,
+    };
   }
 
   /**
@@ -420,8 +816,73 @@ export class Cachyer {
       );
     }
 
-    const prefixedEntries = this.prefixPipelineEntries(entries);
-    return this.adapter.executeTransaction(prefixedEntries);
+    entries = await this.validateWrites(entries);
+    const chained = this.chainFollowUps(entries);
+    const prefixedEntries = this.prefixPipelineEntries(chained.entries);
+    const result = await this.adapter.executeTransaction(prefixedEntries);
+    const results =
+      result.results && chained.positions.map((i) => result.results![i]);
+    if (!result.committed || !results) return { ...result, results };
+
+    try {
+      return {
+        ...result,
+        results: await Promise.all(
+          results.map((data, i) =>
+            entries[i]!.operation.validation?.read
+              ? this.validateEntryRead(entries[i]!, data)
+              : data,
+          ),
+        ),
+      };
+    } catch (error) {
+      return { ...result, success: false, error: error as Error };
+    }
+  }
+
+  // =============================================
+  // TAG INVALIDATION
+  // =============================================
+
+  /**
+   * Delete every key written under a tag.
+   * Returns the number of keys deleted.
+   */
+  async invalidateTag(tag: string): Promise<number> {
+    return this.invalidateTags([tag]);
+  }
+
+  /**
+   * Delete every key written under any of the given tags.
+   * Returns the number of keys deleted.
+   */
+  async invalidateTags(tags: string[]): Promise<number> {
+    let deleted = 0;
+    for (const tag of tags) {
+      const tagKey = this.tagKey(tag);
+      // Each page is removed from the tag set once deleted, so the next one
+      // starts at 0 again. The size read up front bounds the loop while
+      // other clients keep tagging keys.
+      let remaining = await this._adapter.zcard(tagKey);
+      while (remaining > 0) {
+        const batch = (await this._adapter.zrange(
+          tagKey,
+          0,
+          Math.min(remaining, TAG_DELETE_BATCH) - 1,
+        )) as string[];
+        if (batch.length === 0) break;
+        deleted += await this._adapter.del(...batch);
+        await this._adapter.zrem(tagKey, ...batch);
+        remaining -= batch.length;
+      }
+      // Adapters that keep empty sorted sets around
+      if ((await this._adapter.zcard(tagKey)) === 0) {
+        await this._adapter.del(tagKey);
+      }
+    }
+
+    this.config.logger.debug("Invalidated tags", { tags, deleted });
+    return deleted;
   }
 
   // =============================================
@@ -429,10 +890,12 @@ export class Cachyer {
   // =============================================
 
   /**
-   * Get a value
+   * Get a value. Entries written by getOrFetch are returned without their
+   * freshness metadata.
    */
   async get(key: string): Promise<string | null> {
-    return this._adapter.get(this.prefixKey(key));
+    const raw = await this._adapter.get(this.prefixKey(key));
+    return raw === null ? null : this.stripFreshness(raw);
   }
 
   /**
@@ -624,6 +1087,117 @@ export class Cachyer {
     return this._adapter.zincrby(this.prefixKey(key), increment, member);
   }
 
+  /**
+   * Get members of sorted set between two lexicographic bounds
+   */
+  async zrangebylex(
+    key: string,
+    min: string,
+    max: string,
+    options?: { limit?: { offset: number; count: number } },
+  ): Promise<string[]> {
+    return this._adapter.zrangebylex(this.prefixKey(key), min, max, options);
+  }
+
+  /**
+   * Store the union of sorted sets in destination
+   */
+  async zunionstore(
+    destination: string,
+    keys: string[],
+    options?: SortedSetAggregateOptions,
+  ): Promise<number> {
+    return this._adapter.zunionstore(
+      this.prefixKey(destination),
+      keys.map((k) => this.prefixKey(k)),
+      options,
+    );
+  }
+
+  /**
+   * Store the intersection of sorted sets in destination
+   */
+  async zinterstore(
+    destination: string,
+    keys: string[],
+    options?: SortedSetAggregateOptions,
+  ): Promise<number> {
+    return this._adapter.zinterstore(
+      this.prefixKey(destination),
+      keys.map((k) => this.prefixKey(k)),
+      options,
+    );
+  }
+
+  /**
+   * Get members of the first sorted set missing from the others
+   */
+  async zdiff(
+    keys: string[],
+    options?: { withScores?: boolean },
+  ): Promise<string[] | Array<{ member: string; score: number }>> {
+    return this._adapter.zdiff(
+      keys.map((k) => this.prefixKey(k)),
+      options,
+    );
+  }
+
+  /**
+   * Remove and return lowest-scored members of sorted set
+   */
+  async zpopmin(
+    key: string,
+    count?: number,
+  ): Promise<Array<{ member: string; score: number }>> {
+    return this._adapter.zpopmin(this.prefixKey(key), count);
+  }
+
+  /**
+   * Remove and return highest-scored members of sorted set
+   */
+  async zpopmax(
+    key: string,
+    count?: number,
+  ): Promise<Array<{ member: string; score: number }>> {
+    return this._adapter.zpopmax(this.prefixKey(key), count);
+  }
+
+  /**
+   * Remove and return the lowest-scored member of the first non-empty
+   * sorted set, waiting up to `timeout` seconds (0 = forever)
+   */
+  async bzpopmin(
+    keys: string[],
+    timeout: number,
+  ): Promise<{ key: string; member: string; score: number } | null> {
+    const result = await this._adapter.bzpopmin(
+      keys.map((k) => this.prefixKey(k)),
+      timeout,
+    );
+    return result && { ...result, key: this.stripKeyPrefix(result.key) };
+  }
+
+  /**
+   * Get random members of sorted set
+   */
+  async zrandmember(
+    key: string,
+    count?: number,
+    options?: { withScores?: boolean },
+  ): Promise<string[] | Array<{ member: string; score: number }>> {
+    return this._adapter.zrandmember(this.prefixKey(key), count, options);
+  }
+
+  /**
+   * Get scores of several members in sorted set
+   */
+  async zmscore(
+    key: string,
+    ...members: string[]
+  ): Promise<Array<string | null>> {
+    return this._adapter.zmscore(this.prefixKey(key), ...members);
+  }
+
   /**
    * Increment value
    */
@@ -659,48 +1233,163 @@ export class Cachyer {
     return this._adapter.lrange(this.prefixKey(key), start, stop);
   }
 
+  /**
+   * Remove elements equal to value from list
+   */
+  async lrem(key: string, count: number, value: string): Promise<number> {
+    return this._adapter.lrem(this.prefixKey(key), count, value);
+  }
+
+  /**
+   * Pop from the left of the first non-empty list, waiting up to `timeout`
+   * seconds (0 = forever)
+   */
+  async blpop(
+    keys: string[],
+    timeout: number,
+  ): Promise<{ key: string; value: string } | null> {
+    const result = await this._adapter.blpop(
+      keys.map((k) => this.prefixKey(k)),
+      timeout,
+    );
+    return result && { ...result, key: this.stripKeyPrefix(result.key) };
+  }
+
+  /**
+   * Pop from the right of the first non-empty list, waiting up to `timeout`
+   * seconds (0 = forever)
+   */
+  async brpop(
+    keys: string[],
+    timeout: number,
+  ): Promise<{ key: string; value: string } | null> {
+    const result = await this._adapter.brpop(
+      keys.map((k) => this.prefixKey(k)),
+      timeout,
+    );
+    return result && { ...result, key: this.stripKeyPrefix(result.key) };
+  }
+
+  /**
+   * Atomically move an element between lists
+   */
+  async lmove(
+    source: string,
+    destination: string,
+    from: ListDirection,
+    to: ListDirection,
+  ): Promise<string | null> {
+    return this._adapter.lmove(
+      this.prefixKey(source),
+      this.prefixKey(destination),
+      from,
+      to,
+    );
+  }
+
+  /**
+   * Atomically move an element between lists, waiting up to `timeout`
+   * seconds (0 = forever) for one
+   */
+  async blmove(
+    source: string,
+    destination: string,
+    from: ListDirection,
+    to: ListDirection,
+    timeout: number,
+  ): Promise<string | null> {
+    return this._adapter.blmove(
+      this.prefixKey(source),
+      this.prefixKey(destination),
+      from,
+      to,
+      timeout,
+    );
+  }
+
+  /**
+   * Pop from the right of source and push to the left of destination
+   */
+  async rpoplpush(source: string, destination: string): Promise<string | null> {
+    return this._adapter.rpoplpush(
+      this.prefixKey(source),
+      this.prefixKey(destination),
+    );
+  }
+
   /**
    * Get or fetch a string value (cache-aside pattern)
+   *
+   * Concurrent misses for the same key share a single fetch. With
+   * `stampede.distributed`, only one node recomputes the value while others
+   * wait for it or are served the stale copy. With `softTtl` or
+   * `earlyRecomputeBeta`, values are refreshed in the background before
+   * they expire.
    */
   async getOrFetch<T = string>(
     key: string,
     fetchFn: () => Promise<T>,
-    ttl?: number,
+    ttlOrOptions?: number | GetOrFetchOptions,
   ): Promise<T> {
-    const cached = await this.get(key);
-    if (cached !== null) {
-      return this.config.serializer.deserialize(cached) as T;
-    }
-
-    const value = await fetchFn();
-    const serialized = this.config.serializer.serialize(value);
-    const effectiveTtl = ttl ?? this.config.defaultTtl;
-    await this.set(key, String(serialized), { ex: effectiveTtl });
-    return value;
+    const options =
+      typeof ttlOrOptions === "number" ? { ttl: ttlOrOptions } : ttlOrOptions;
+    const trackFreshness =
+      options?.softTtl !== undefined || (options?.earlyRecomputeBeta ?? 0) > 0;
+
+    return this.cacheAside(
+      key,
+      {
+        read: async (k) => {
+          const cached = await this._adapter.get(this.prefixKey(k));
+          return cached === null ? null : this.decodeFreshness<T>(cached);
+        },
+        write: async (k, entry, ttl) => {
+          const serialized = String(
+            this.config.serializer.serialize(entry.value),
+          );
+          const stored =
+            trackFreshness && entry.freshUntil !== undefined
+              ? `${FRESHNESS_HEADER}${entry.freshUntil}:${entry.delta ?? 0}:${serialized}`
+              : serialized;
+          await this.set(k, stored, { ex: ttl });
+        },
+      },
+      fetchFn,
+      options,
+    );
   }
 
   /**
    * Get or fetch a hash value (cache-aside pattern)
+   *
+   * Supports the same stampede protection options as `getOrFetch`.
    */
   async getOrFetchHash<T extends Record<string, string>>(
     key: string,
     fetchFn: () => Promise<T>,
-    ttl?: number,
+    ttlOrOptions?: number | CacheAsideOptions,
   ): Promise<T> {
-    const cached = await this.hgetall(key);
-    if (cached && Object.keys(cached).length > 0) {
-      return cached as T;
-    }
-
-    const value = await fetchFn();
-    const prefixedKey = this.prefixKey(key);
-    // Set all hash fields
-    for (const [field, val] of Object.entries(value)) {
-      await this._adapter.hset(prefixedKey, field, val);
-    }
-    const effectiveTtl = ttl ?? this.config.defaultTtl;
-    await this._adapter.expire(prefixedKey, effectiveTtl);
-    return value;
+    return this.cacheAside(
+      key,
+      {
+        read: async (k) => {
+          const cached = await this.hgetall(k);
+          return cached && Object.keys(cached).length > 0
+            ? { value: cached as T }
+            : null;
+        },
+        write: async (k, entry, ttl) => {
+          const prefixedKey = this.prefixKey(k);
+          // Set all hash fields
+          for (const [field, val] of Object.entries(entry.value)) {
+            await this._adapter.hset(prefixedKey, field, val);
+          }
+          await this._adapter.expire(prefixedKey, ttl);
+        },
+      },
+      fetchFn,
+      typeof ttlOrOptions === "number" ? { ttl: ttlOrOptions } : ttlOrOptions,
+    );
   }
 
   /**
@@ -756,6 +1445,88 @@ export class Cachyer {
     return this.adapter.subscribe(this.prefixKey(channel), callback);
   }
 
+  /**
+   * Unsubscribe from a channel
+   */
+  async unsubscribe(channel: string): Promise<void> {
+    if (typeof this.adapter.unsubscribe !== "function") {
+      throw new CacheError(
+        "Pub/Sub is not supported by this adapter",
+        CacheErrorCode.ADAPTER_NOT_SUPPORTED,
+      );
+    }
+
+    return this.adapter.unsubscribe(this.prefixKey(channel));
+  }
+
+  /**
+   * Subscribe to channels matching a glob-style pattern
+   */
+  async psubscribe(
+    pattern: string,
+    callback: (message: string, channel: string, pattern: string) => void,
+  ): Promise<void> {
+    if (typeof this.adapter.psubscribe !== "function") {
+      throw new CacheError(
+        "Pattern subscriptions are not supported by this adapter",
+        CacheErrorCode.ADAPTER_NOT_SUPPORTED,
+      );
+    }
+
+    return this.adapter.psubscribe(this.prefixKey(pattern), callback);
+  }
+
+  /**
+   * Unsubscribe from a pattern
+   */
+  async punsubscribe(pattern: string): Promise<void> {
+    if (typeof this.adapter.punsubscribe !== "function") {
+      throw new CacheError(
+        "Pattern subscriptions are not supported by this adapter",
+        CacheErrorCode.ADAPTER_NOT_SUPPORTED,
+      );
+    }
+
+    return this.adapter.punsubscribe(this.prefixKey(pattern));
+  }
+
+  // =============================================
+  // KEYSPACE EVENTS
+  // =============================================
+
+  /**
+   * Listen for keyspace events. Handlers receive keys without the
+   * global key prefix; keys outside the prefix are ignored.
+   */
+  async on(event: KeyspaceEvent, handler: KeyspaceEventHandler): Promise<void> {
+    if (typeof this.adapter.on !== "function") {
+      throw new CacheError(
+        "Keyspace events are not supported by this adapter",
+        CacheErrorCode.ADAPTER_NOT_SUPPORTED,
+      );
+    }
+
+    const prefix = this.config.keyPrefix ? `${this.config.keyPrefix}:` : "";
+    const wrapped: KeyspaceEventHandler = (key, evt) => {
+      if (prefix && !key.startsWith(prefix)) return;
+      handler(this.stripKeyPrefix(key), evt);
+    };
+    const handlers = this.eventHandlers.get(event) ?? new Map();
+    handlers.set(handler, wrapped);
+    this.eventHandlers.set(event, handlers);
+    return this.adapter.on(event, wrapped);
+  }
+
+  /**
+   * Stop listening for keyspace events
+   */
+  async off(event: KeyspaceEvent, handler: KeyspaceEventHandler): Promise<void> {
+    const wrapped = this.eventHandlers.get(event)?.get(handler);
+    if (!wrapped || typeof this.adapter.off !== "function") return;
+    this.eventHandlers.get(event)!.delete(handler);
+    return this.adapter.off(event, wrapped);
+  }
+
   // =============================================
   // METRICS
   // =============================================
@@ -764,7 +1535,11 @@ export class Cachyer {
    * Get executor metrics
    */
   getMetrics(): ExecutorMetrics {
-    return this._adapter.getMetrics();
+    const metrics = this._adapter.getMetrics();
+    return {
+      ...metrics,
+      operationCounts: { ...metrics.operationCounts, ...this.cacheAsideCounts },
+    };
   }
 
   /**
@@ -772,6 +1547,7 @@ export class Cachyer {
    */
   resetMetrics(): void {
     this._adapter.resetMetrics();
+    this.cacheAsideCounts = {};
   }
 
   /**
@@ -788,6 +1564,306 @@ export class Cachyer {
   // PRIVATE HELPERS
   // =============================================
 
+  private async cacheAside<T>(
+    key: string,
+    access: CacheAsideAccess<T>,
+    fetchFn: () => Promise<T>,
+    options?: GetOrFetchOptions,
+  ): Promise<T> {
+    const ttl = options?.ttl ?? this.config.defaultTtl;
+    const protection = {
+      ...this.config.stampedeProtection,
+      ...options?.stampede,
+    };
+    const store = async (): Promise<T> => {
+      const startedAt = Date.now();
+      const value = await fetchFn();
+      const delta = Date.now() - startedAt;
+      const freshFor = options?.softTtl ?? ttl;
+      const entry = { value, freshUntil: Date.now() + freshFor * 1000, delta };
+      await access.write(key, entry, ttl);
+      const staleTtl = protection.staleTtl ?? 0;
+      if (staleTtl > 0) {
+        await access.write(this.staleKey(key), entry, ttl + staleTtl);
+      }
+      return value;
+    };
+
+    const cached = await access.read(key);
+    if (cached !== null) {
+      const refresh = this.refreshReason(cached, options);
+      if (refresh) {
+        this.recordCacheAside(refresh, key);
+        this.refreshInBackground(key, store, protection);
+      } else {
+        this.recordCacheAside("hit", key);
+      }
+      return cached.value;
+    }
+
+    const recompute = () => this.recompute(key, access, store, protection);
+
+    if (protection.singleFlight === false) {
+      return recompute();
+    }
+
+    const flightKey = this.prefixKey(key);
+    const pending = this.inFlight.get(flightKey);
+    if (pending) {
+      this.recordCacheAside("coalesced", key);
+      return pending as Promise<T>;
+    }
+
+    const promise = recompute().finally(() => {
+      this.inFlight.delete(flightKey);
+    });
+    this.inFlight.set(flightKey, promise);
+    return promise;
+  }
+
+  private async recompute<T>(
+    key: string,
+    access: CacheAsideAccess<T>,
+    store: () => Promise<T>,
+    protection: StampedeProtectionOptions,
+  ): Promise<T> {
+    const fetchAndStore = (): Promise<T> => {
+      this.recordCacheAside("miss", key);
+      return store();
+    };
+
+    if (!protection.distributed) {
+      return fetchAndStore();
+    }
+
+    const stale =
+      (protection.staleTtl ?? 0) > 0
+        ? await access.read(this.staleKey(key))
+        : null;
+    let lockHeld = false;
+
+    try {
+      return await this.getLockService().withLock(
+        key,
+        async () => {
+          lockHeld = true;
+          // Another node may have recomputed while we waited for the lock
+          const fresh = await access.read(key);
+          if (fresh !== null) {
+            this.recordCacheAside("waited", key);
+            return fresh.value;
+          }
+          return fetchAndStore();
+        },
+        {
+          ttlMs: protection.lockTtlMs ?? 10000,
+          timeoutMs: stale !== null ? 0 : (protection.waitTimeoutMs ?? 3000),
+          retryIntervalMs: protection.retryIntervalMs ?? 50,
+        },
+      );
+    } catch (error) {
+      if (lockHeld) throw error;
+
+      if (stale !== null) {
+        this.recordCacheAside("stale", key);
+        return stale.value;
+      }
+
+      this.recordCacheAside("lockTimeout", key);
+      this.config.logger.warn("Stampede lock wait timed out, fetching anyway", {
+        key,
+        error: (error as Error).message,
+      });
+      return fetchAndStore();
+    }
+  }
+
+  private refreshReason(
+    entry: CacheAsideEntry<unknown>,
+    options?: GetOrFetchOptions,
+  ): "revalidate" | "earlyRecompute" | null {
+    if (entry.freshUntil === undefined) return null;
+
+    const now = Date.now();
+    if (options?.softTtl !== undefined && now >= entry.freshUntil) {
+      return "revalidate";
+    }
+
+    // XFetch: now - delta * beta * ln(rand) >= expiry
+    const beta = options?.earlyRecomputeBeta ?? 0;
+    if (beta > 0) {
+      const gap = -(entry.delta ?? 0) * beta * Math.log(Math.random());
+      if (now + gap >= entry.freshUntil) return "earlyRecompute";
+    }
+    return null;
+  }
+
+  private refreshInBackground(
+    key: string,
+    store: () => Promise<unknown>,
+    protection: StampedeProtectionOptions,
+  ): void {
+    const flightKey = this.prefixKey(key);
+    if (this.refreshing.has(flightKey)) return;
+    this.refreshing.add(flightKey);
+
+    // Without a distributed lock the refresh always runs here
+    let lockHeld = !protection.distributed;
+    const task = protection.distributed
+      ? this.getLockService().withLock(
+          key,
+          () => {
+            lockHeld = true;
+            return store();
+          },
+          { ttlMs: protection.lockTtlMs ?? 10000, timeoutMs: 0 },
+        )
+      : store();
+
+    task
+      .catch((error) => {
+        if (!lockHeld) {
+          this.config.logger.debug("Refresh already running on another node", {
+            key,
+          });
+          return;
+        }
+        this.config.logger.warn("Background refresh failed", {
+          key,
+          error: (error as Error).message,
+        });
+      })
+      .finally(() => {
+        this.refreshing.delete(flightKey);
+      });
+  }
+
+  /**
+   * Parse an operation's raw result. String reads drop the freshness header
+   * first, so that entries written by getOrFetch read back as their
+   * serialized value on every read path.
+   */
+  private parseRaw<TResult>(
+    operation: CacheOperation<any, TResult>,
+    rawResult: unknown,
+  ): TResult {
+    let result = rawResult;
+    if (FRESHNESS_READ_COMMANDS.has(operation.command.toUpperCase())) {
+      const strip = (value: unknown) =>
+        typeof value === "string" ? this.stripFreshness(value) : value;
+      result = Array.isArray(rawResult)
+        ? rawResult.map(strip)
+        : strip(rawResult);
+    }
+    return operation.parseResult
+      ? operation.parseResult(result)
+      : (result as TResult);
+  }
+
+  /** Payload of a string entry, without the freshness header getOrFetch adds */
+  private stripFreshness(raw: string): string {
+    if (!raw.startsWith(FRESHNESS_HEADER)) return raw;
+    const body = raw.slice(FRESHNESS_HEADER.length);
+    return body.slice(body.indexOf(":", body.indexOf(":") + 1) + 1);
+  }
+
+  private decodeFreshness<T>(raw: string): CacheAsideEntry<T> {
+    if (!raw.startsWith(FRESHNESS_HEADER)) {
+      return { value: this.config.serializer.deserialize(raw) as T };
+    }
+
+    const body = raw.slice(FRESHNESS_HEADER.length);
+    const first = body.indexOf(":");
+    const second = body.indexOf(":", first + 1);
+    return {
+      value: this.config.serializer.deserialize(body.slice(second + 1)) as T,
+      freshUntil: Number(body.slice(0, first)),
+      delta: Number(body.slice(first + 1, second)),
+    };
+  }
+
+  private getLockService(): LockService {
+    if (!this.lockService) {
+      this.lockService = new LockService(this._adapter, {
+        keyPrefix: this.prefixKey("lock"),
+      });
+    }
+    return this.lockService;
+  }
+
+  private staleKey(key: string): string {
+    return `${key}:stale`;
+  }
+
+  private recordCacheAside(outcome: CacheAsideOutcome, key: string): void {
+    this.config.logger.debug(`getOrFetch ${outcome}`, { key });
+    if (!this.config.enableMetrics) return;
+    const name = `getOrFetch:${outcome}`;
+    this.cacheAsideCounts[name] = (this.cacheAsideCounts[name] ?? 0) + 1;
+  }
+
+  private startVersionSweeper(): void {
+    const intervalMs = this.config.versionSweepIntervalMs;
+    if (intervalMs <= 0 || this.versionSweepTimer) return;
+
+    this.versionSweepTimer = setInterval(() => {
+      this.sweepSchemaVersions().catch((error) => {
+        this.config.logger.warn("Schema version sweep failed", {
+          error: (error as Error).message,
+        });
+      });
+    }, intervalMs);
+    this.versionSweepTimer.unref?.();
+  }
+
+  private async sweepSchema(
+    schema: CacheSchema<any, any>,
+    options?: SweepSchemaVersionsOptions,
+  ): Promise<number> {
+    const current = schema.version;
+    if (current === undefined || !schema.keyPattern) return 0;
+
+    const matches = createKeyVersionMatcher(schema.keyPattern);
+    const match = createVersionScanPattern(schema.keyPattern);
+    const stale: string[] = [];
+    let cursor = 0;
+
+    do {
+      const page = await this.scan(cursor, { match, count: 100 });
+      cursor = page.cursor;
+      for (const key of page.keys) {
+        const { matched, version } = matches(key);
+        if (!matched) continue;
+        if (
+          version === null
+            ? options?.includeUnversioned === true
+            : version < current
+        ) {
+          stale.push(key);
+        }
+      }
+    } while (cursor !== 0);
+
+    // Delete after scanning so offset-based cursors don't skip keys
+    let deleted = 0;
+    for (let i = 0; i < stale.length; i += 100) {
+      deleted += await this.del(...stale.slice(i, i + 100));
+    }
+
+    if (deleted > 0) {
+      this.config.logger.info("Swept previous schema versions", {
+        schema: schema.name,
+        version: schema.version,
+        deleted,
+      });
+    }
+    return deleted;
+  }
+
+  private tagKey(tag: string): string {
+    return this.prefixKey(`tag:${tag}`);
+  }
+
   private prefixKey(key: string): string {
     if (!this.config.keyPrefix) return key;
     if (key.startsWith(this.config.keyPrefix + ":")) return key;
@@ -825,6 +1901,10 @@ export class Cachyer {
       "LLEN",
       "LTRIM",
       "LINDEX",
+      "LSET",
+      "LREM",
+      "LINSERT",
+      "LPOS",
       "SADD",
       "SREM",
       "SMEMBERS",
@@ -842,6 +1922,11 @@ export class Cachyer {
       "ZINCRBY",
       "ZREMRANGEBYRANK",
       "ZREMRANGEBYSCORE",
+      "ZRANGEBYLEX",
+      "ZPOPMIN",
+      "ZPOPMAX",
+      "ZRANDMEMBER",
+      "ZMSCORE",
       "HSET",
       "HSETNX",
       "HGET",
@@ -863,14 +1948,78 @@ export class Cachyer {
       "TYPE",
       "PFADD",
       "PFCOUNT",
+      "GEOADD",
+      "GEOPOS",
+      "GEODIST",
+      "GEOHASH",
+      "GEOSEARCH",
+      "BF.RESERVE",
+      "BF.ADD",
+      "BF.MADD",
+      "BF.EXISTS",
+      "BF.MEXISTS",
+      "CF.RESERVE",
+      "CF.ADD",
+      "CF.DEL",
+      "CF.EXISTS",
+      "CMS.INITBYDIM",
+      "CMS.INITBYPROB",
+      "CMS.INCRBY",
+      "CMS.QUERY",
     ];
 
     if (!this.config.keyPrefix) return args;
 
-    if (singleKeyCommands.includes(command.toUpperCase()) && args.length > 0) {
+    const cmd = command.toUpperCase();
+    if (singleKeyCommands.includes(cmd) && args.length > 0) {
       return [this.prefixKey(String(args[0])), ...args.slice(1)];
     }
 
+    const prefixKeys = (keys: (string | number)[]) =>
+      keys.map((k) => this.prefixKey(String(k)));
+
+    // key [...]
+    if (cmd === "DEL" || cmd === "UNLINK" || cmd === "EXISTS") {
+      return prefixKeys(args);
+    }
+
+    // destination numkeys key [...] options
+    if (cmd === "ZUNIONSTORE" || cmd === "ZINTERSTORE") {
+      const end = 2 + Number(args[1]);
+      return [
+        ...prefixKeys(args.slice(0, 1)),
+        args[1]!,
+        ...prefixKeys(args.slice(2, end)),
+        ...args.slice(end),
+      ];
+    }
+
+    // script numkeys key [...] arg [...]
+    if (cmd === "EVAL" || cmd === "EVALSHA") {
+      const end = 2 + Number(args[1]);
+      return [
+        ...args.slice(0, 2),
+        ...prefixKeys(args.slice(2, end)),
+        ...args.slice(end),
+      ];
+    }
+
+    // numkeys key [...] options
+    if (cmd === "ZDIFF") {
+      const end = 1 + Number(args[0]);
+      return [args[0]!, ...prefixKeys(args.slice(1, end)), ...args.slice(end)];
+    }
+
+    // key [...] timeout
+    if (cmd === "BZPOPMIN" || cmd === "BLPOP" || cmd === "BRPOP") {
+      return [...prefixKeys(args.slice(0, -1)), ...args.slice(-1)];
+    }
+
+    // source destination options
+    if (cmd === "LMOVE" || cmd === "BLMOVE" || cmd === "RPOPLPUSH") {
+      return [...prefixKeys(args.slice(0, 2)), ...args.slice(2)];
+    }
+
     return args;
   }
 
@@ -883,14 +2032,20 @@ export class Cachyer {
           const args = entry.operation.buildArgs(params);
           return this.applyKeyPrefix(args, entry.operation.command);
         },
+        // Validated reads are parsed by validateRead, so that decode errors
+        // fall under the read policy
+        parseResult: entry.operation.validation?.read
+          ? undefined
+          : (rawResult: unknown) => this.parseRaw(entry.operation, rawResult),
       },
     }));
   }
 
   private async executeCommand(
-    command: string,
+    command: CacheCommand,
     args: (string | number)[],
     timeout: number,
+    chained: ChainedCommand[] = [],
   ): Promise<unknown> {
     const timeoutPromise = new Promise((_, reject) => {
       setTimeout(() => {
@@ -898,11 +2053,127 @@ export class Cachyer {
       }, timeout);
     });
 
-    const commandPromise = this._adapter.executeRaw(command, args);
+    const commandPromise =
+      chained.length > 0
+        ? this.executeChained(command, args, chained)
+        : this._adapter.executeRaw(command, args);
 
     return Promise.race([commandPromise, timeoutPromise]);
   }
 
+  /**
+   * Run a command and the commands chained after it in one transaction.
+   * Only a failure of the command itself is thrown, so that retries don't
+   * repeat a write that succeeded; failed follow-ups are logged.
+   */
+  private async executeChained(
+    command: CacheCommand,
+    args: (string | number)[],
+    chained: ChainedCommand[],
+  ): Promise<unknown> {
+    if (typeof this._adapter.executePipeline !== "function") {
+      const result = await this._adapter.executeRaw(command, args);
+      for (const followUp of chained) {
+        try {
+          await this.executeFollowUp(followUp);
+        } catch (error) {
+          this.warnFollowUpFailed(command, followUp, error as Error);
+        }
+      }
+      return result;
+    }
+
+    const { results } = await this._adapter.executePipeline(
+      [{ command, args }, ...chained].map((entry) => ({
+        operation: {
+          command: entry.command,
+          buildArgs: () => entry.args,
+          script: entry.script,
+        },
+        params: {},
+      })),
+      { atomic: true },
+    );
+    const [primary, ...followUps] = results;
+    if (!primary?.success) {
+      throw primary?.error ?? new Error(`${command} failed`);
+    }
+    followUps.forEach((entry, i) => {
+      if (!entry.success) {
+        this.warnFollowUpFailed(command, chained[i]!, entry.error);
+      }
+    });
+    return primary.data;
+  }
+
+  private warnFollowUpFailed(
+    command: CacheCommand,
+    followUp: ChainedCommand,
+    error?: Error,
+  ): void {
+    this.config.logger.warn(
+      `${followUp.command} chained after ${command} failed`,
+      { error: error?.message },
+    );
+  }
+
+  /** Run a chained command on an adapter without pipelines */
+  private async executeFollowUp(followUp: ChainedCommand): Promise<unknown> {
+    if (!followUp.script || typeof this._adapter.executeScript !== "function") {
+      return this._adapter.executeRaw(followUp.command, followUp.args);
+    }
+    const end = 2 + Number(followUp.args[1]);
+    return this._adapter.executeScript(
+      followUp.script,
+      followUp.args.slice(2, end).map(String),
+      followUp.args.slice(end),
+    );
+  }
+
+  /**
+   * Commands chained after an operation: its trim, its TTL policy EXPIRE
+   * and, once the key's TTL is final, its tag index entries
+   */
+  private followUps(
+    operation: CacheOperation<any, unknown>,
+  ): CacheOperation<any, unknown>[] {
+    const followUps: CacheOperation<any, unknown>[] = [];
+    if (operation.trim) followUps.push(operation.trim.operation);
+    if (operation.expire) followUps.push(operation.expire);
+
+    const tags = this.operationTags.get(operation);
+    if (tags && TAG_INDEXED_COMMANDS.has(operation.command.toUpperCase())) {
+      const tagKeys = tags.map((tag) => this.tagKey(tag));
+      followUps.push(
+        scriptOperation(tagKeyScript, (params: Record<string, unknown>) => [
+          String(operation.buildArgs(params)[0]),
+          ...tagKeys,
+        ]),
+      );
+    }
+    return followUps;
+  }
+
+  /**
+   * Entries with the follow-up commands of each operation chained after
+   * it, and the position of each original entry among them
+   */
+  private chainFollowUps(entries: AnyPipelineEntry[]): {
+    entries: AnyPipelineEntry[];
+    positions: number[];
+  } {
+    const chained: AnyPipelineEntry[] = [];
+    const positions: number[] = [];
+    for (const entry of entries) {
+      positions.push(chained.length);
+      chained.push(entry);
+      for (const followUp of this.followUps(entry.operation)) {
+        chained.push({ operation: followUp, params: entry.params });
+      }
+    }
+    return { entries: chained, positions };
+  }
+
   private async executePipelineFallback(
     entries: AnyPipelineEntry[],
   ): Promise<PipelineResult> {
@@ -925,11 +2196,126 @@ export class Cachyer {
     };
   }
 
+  /** Params with the validated write value, or a VALIDATION_ERROR */
+  private async validateWrite<TParams extends Record<string, unknown>>(
+    operation: CacheOperation<TParams, unknown>,
+    params: TParams,
+  ): Promise<TParams> {
+    const { schema, param } = operation.validation!;
+    const result = await schema["~standard"].validate(params[param!]);
+    if (result.issues) {
+      throw new CacheError(
+        `Invalid value for ${operation.command}: ${formatIssues(result.issues)}`,
+        CacheErrorCode.VALIDATION_ERROR,
+        { command: operation.command },
+      );
+    }
+    return { ...params, [param!]: result.value };
+  }
+
+  private async validateWrites(
+    entries: AnyPipelineEntry[],
+  ): Promise<AnyPipelineEntry[]> {
+    return Promise.all(
+      entries.map(async (entry) =>
+        entry.operation.validation?.param !== undefined
+          ? {
+              ...entry,
+              params: await this.validateWrite(entry.operation, entry.params),
+            }
+          : entry,
+      ),
+    );
+  }
+
+  /**
+   * Parse a raw value read from `key` and validate it, applying the
+   * operation's invalid-read policy to values that fail to decode or validate
+   */
+  private async validateRead<TResult>(
+    operation: CacheOperation<any, TResult>,
+    rawResult: unknown,
+    key: string,
+  ): Promise<TResult> {
+    let value: TResult;
+    try {
+      value = this.parseRaw(operation, rawResult);
+    } catch (error) {
+      return this.invalidRead(
+        operation,
+        rawResult as TResult,
+        `Invalid cached value at ${key}: ${(error as Error).message}`,
+        key,
+      );
+    }
+    if (value === null || value === undefined) return value;
+
+    const result =
+      await operation.validation!.schema["~standard"].validate(value);
+    if (!result.issues) return result.value as TResult;
+
+    return this.invalidRead(
+      operation,
+      value,
+      `Invalid cached value at ${key}: ${formatIssues(result.issues)}`,
+      key,
+    );
+  }
+
+  /** validateRead for the raw result of a pipeline or transaction entry */
+  private validateEntryRead(
+    entry: AnyPipelineEntry,
+    rawResult: unknown,
+  ): Promise<unknown> {
+    const args = this.applyKeyPrefix(
+      entry.operation.buildArgs(entry.params),
+      entry.operation.command,
+    );
+    return this.validateRead(entry.operation, rawResult, String(args[0]));
+  }
+
+  /** Apply the operation's invalid-read policy to a value read from `key` */
+  private async invalidRead<TResult>(
+    operation: CacheOperation<any, TResult>,
+    value: TResult,
+    message: string,
+    key: string,
+  ): Promise<TResult> {
+    switch (operation.validation!.onInvalidRead) {
+      case "miss":
+        await this._adapter.del(key);
+        this.config.logger.debug(message);
+        return null as TResult;
+      case "log":
+        this.config.logger.warn(message);
+        return value;
+      default:
+        throw new CacheError(message, CacheErrorCode.VALIDATION_ERROR, {
+          command: operation.command,
+          key,
+        });
+    }
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 }
 
+/** "path.to.field: message; ..." for validation errors */
+function formatIssues(issues: ReadonlyArray<StandardSchemaV1Issue>): string {
+  return issues
+    .map((issue) => {
+      const path = issue.path
+        ?.map((segment) =>
+          String(typeof segment === "object" ? segment.key : segment),
+        )
+        .join(".");
+      return path ? `${path}: ${issue.message}` : issue.message;
+    })
+    .join("; ");
+}
+
 // =============================================
 // FACTORY FUNCTION
 // =============================================
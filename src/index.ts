@@ -20,7 +20,14 @@
 
 // Core
 export { Cachyer, createCachyer } from "./core/cachyer";
-export type { CachyerConfig } from "./core/cachyer";
+export type {
+  CachyerConfig,
+  CacheAsideOptions,
+  CacheAsideOutcome,
+  GetOrFetchOptions,
+  StampedeProtectionOptions,
+  SweepSchemaVersionsOptions,
+} from "./core/cachyer";
 
 // Types
 export * from "./types";
@@ -29,8 +36,18 @@ export * from "./types";
 export { createRedisAdapter, RedisAdapter } from "./adapters/redis";
 export type { RedisAdapterConfig } from "./adapters/redis";
 
-export { createMemoryAdapter, MemoryAdapter } from "./adapters/memory";
-export type { MemoryAdapterConfig } from "./adapters/memory";
+export {
+  createMemoryAdapter,
+  MemoryAdapter,
+  MemoryPubSub,
+} from "./adapters/memory";
+export type {
+  MemoryAdapterConfig,
+  MemoryEvictionPolicy,
+} from "./adapters/memory";
+
+export { createTieredAdapter, TieredAdapter } from "./adapters/tiered";
+export type { TieredAdapterConfig } from "./adapters/tiered";
 
 // Schemas
 export * from "./schemas";
@@ -40,6 +57,49 @@ export { RateLimitService, createRateLimitService } from "./services";
 export type { RateLimitHeaders, RateLimitServiceConfig } from "./services";
 export { LockService, createLockService } from "./services";
 export type { LockOptions, LockResult, LockServiceConfig } from "./services";
+export { QueueService, createQueueService } from "./services";
+export type {
+  DequeueOptions,
+  EnqueueOptions,
+  NackOptions,
+  NackOutcome,
+  QueueJob,
+  QueueServiceConfig,
+  QueueStats,
+} from "./services";
+export { SchedulerService, createSchedulerService } from "./services";
+export type {
+  ScheduledJob,
+  ScheduleOptions,
+  ScheduleResult,
+  SchedulerServiceConfig,
+  SchedulerStats,
+} from "./services";
+export { LeaderboardService, createLeaderboardService } from "./services";
+export type {
+  LeaderboardEntry,
+  LeaderboardMergeOptions,
+  LeaderboardPageOptions,
+  LeaderboardPeriod,
+  LeaderboardQueryOptions,
+  LeaderboardScoreMode,
+  LeaderboardServiceConfig,
+  LeaderboardTieMode,
+} from "./services";
+export { TrendingService, createTrendingService } from "./services";
+export type {
+  TrendingItem,
+  TrendingPageOptions,
+  TrendingServiceConfig,
+} from "./services";
+export { FeedService, createFeedService } from "./services";
+export type {
+  FeedEntry,
+  FeedPageOptions,
+  FeedPublishOptions,
+  FeedPublishResult,
+  FeedServiceConfig,
+} from "./services";
 export {
   tokenBucketRateLimitScript,
   multiTierRateLimitScript,
@@ -68,6 +128,7 @@ export * from "./utils";
 // =============================================
 
 import { createMemoryAdapter } from "./adapters/memory";
+import type { MemoryEvictionPolicy, MemoryPubSub } from "./adapters/memory";
 import { createRedisAdapter } from "./adapters/redis";
 import { Cachyer } from "./core/cachyer";
 
@@ -102,9 +163,17 @@ export function createMemoryCachyer(options?: {
   keyPrefix?: string;
   defaultTtl?: number;
   maxEntries?: number;
+  maxMemoryBytes?: number;
+  evictionPolicy?: MemoryEvictionPolicy;
+  pubsub?: MemoryPubSub;
 }): Cachyer {
   return new Cachyer({
-    adapter: createMemoryAdapter({ maxEntries: options?.maxEntries }),
+    adapter: createMemoryAdapter({
+      maxEntries: options?.maxEntries,
+      maxMemoryBytes: options?.maxMemoryBytes,
+      evictionPolicy: options?.evictionPolicy,
+      pubsub: options?.pubsub,
+    }),
     keyPrefix: options?.keyPrefix,
     defaultTtl: options?.defaultTtl,
   });
@@ -4,9 +4,34 @@
 // Fluent API for building custom cache schemas
 // =============================================
 
-import type { CacheStructure } from "../types/core.types";
-import type { CacheOperation, CacheSchema } from "../types/operation.types";
-import { createKeyBuilder, type KeyBuilder } from "../utils/key-patterns";
+import type {
+  CacheCommand,
+  CacheStructure,
+  Codec,
+  GeoMember,
+  GeoSearchOptions,
+  GeoSearchResult,
+  SortedSetAggregateOptions,
+} from "../types/core.types";
+import {
+  defineScript,
+  scriptOperation,
+  type CacheOperation,
+  type CacheSchema,
+  type EvictionPolicy,
+  type InvalidReadPolicy,
+  type OperationTrim,
+  type OperationValidation,
+  type TtlPolicy,
+} from "../types/operation.types";
+import type { StandardSchemaV1 } from "../types/standard-schema.types";
+import { decodeWithCodec, encodeWithCodec } from "../utils/codec";
+import { buildGeoSearchArgs, parseGeoSearchReply } from "../utils/geo";
+import {
+  createKeyBuilder,
+  withKeyVersion,
+  type KeyBuilder,
+} from "../utils/key-patterns";
 
 /**
  * Schema builder configuration
@@ -16,11 +41,36 @@ export interface SchemaBuilderConfig {
   keyPattern: string;
   structure: CacheStructure;
   ttl: number;
+  ttlPolicy?: TtlPolicy;
   maxSize?: number;
+  eviction?: EvictionPolicy;
   description?: string;
   namespace?: string;
   version?: number;
   tags?: string[];
+  codecs?: Codec[];
+  validator?: StandardSchemaV1;
+  onInvalidRead?: InvalidReadPolicy;
+}
+
+/**
+ * Settings a schema applies to the operations it builds
+ */
+export interface OperationBuilderOptions {
+  /** Codecs of string values; the first one encodes */
+  codecs?: Codec[];
+  /** Validator of string values */
+  validator?: StandardSchemaV1;
+  /** What to do with invalid values read from the cache (default: "throw") */
+  onInvalidRead?: InvalidReadPolicy;
+  /** Size that list, set and sorted-set writes trim their key to */
+  maxSize?: number;
+  /** Which sorted-set members the trim evicts (default: "lowestScore") */
+  eviction?: EvictionPolicy;
+  /** TTL in seconds that operations apply under `ttlPolicy` */
+  ttl?: number;
+  /** When operations apply `ttl` to their key */
+  ttlPolicy?: TtlPolicy;
 }
 
 // =============================================
@@ -188,6 +238,51 @@ export type SortedSetGetTopMembersOperation<
   TResult = Array<{ member: string; score: number }>,
 > = CacheOperation<TKeyParams & { topN: number }, TResult>;
 
+export type SortedSetUnionStoreOperation<
+  TKeyParams extends Record<string, unknown>,
+> = CacheOperation<
+  TKeyParams & { sourceKeys: string[] } & SortedSetAggregateOptions,
+  number
+>;
+
+export type SortedSetInterStoreOperation<
+  TKeyParams extends Record<string, unknown>,
+> = CacheOperation<
+  TKeyParams & { sourceKeys: string[] } & SortedSetAggregateOptions,
+  number
+>;
+
+export type SortedSetDiffOperation<TKeyParams extends Record<string, unknown>> =
+  CacheOperation<TKeyParams & { sourceKeys: string[] }, string[]>;
+
+export type SortedSetRangeByLexOperation<
+  TKeyParams extends Record<string, unknown>,
+> = CacheOperation<
+  TKeyParams & { min: string; max: string; offset?: number; count?: number },
+  string[]
+>;
+
+export type SortedSetPopOperation<TKeyParams extends Record<string, unknown>> =
+  CacheOperation<
+    TKeyParams & { count?: number },
+    Array<{ member: string; score: number }>
+  >;
+
+export type SortedSetBlockingPopMinOperation<
+  TKeyParams extends Record<string, unknown>,
+> = CacheOperation<
+  TKeyParams & { timeout: number },
+  { member: string; score: number } | null
+>;
+
+export type SortedSetRandomMembersOperation<
+  TKeyParams extends Record<string, unknown>,
+> = CacheOperation<TKeyParams & { count: number }, string[]>;
+
+export type SortedSetGetScoresOperation<
+  TKeyParams extends Record<string, unknown>,
+> = CacheOperation<TKeyParams & { members: string[] }, Array<number | null>>;
+
 export type ListIndexOfOperation<TKeyParams extends Record<string, unknown>> =
   CacheOperation<TKeyParams & { value: string }, number>;
 
@@ -299,6 +394,16 @@ export type HyperLogLogMergeOperation<
   TKeyParams extends Record<string, unknown>,
 > = CacheOperation<TKeyParams & { sourceKeys: string[] }, "OK">;
 
+// =============================================
+// GEO OPERATION TYPE DEFINITIONS
+// =============================================
+
+export type GeoAddOperation<TKeyParams extends Record<string, unknown>> =
+  CacheOperation<TKeyParams & { members: GeoMember[] }, number>;
+
+export type GeoSearchOperation<TKeyParams extends Record<string, unknown>> =
+  CacheOperation<TKeyParams & GeoSearchOptions, GeoSearchResult[]>;
+
 // =============================================
 // BLOOM FILTER OPERATION TYPE DEFINITIONS
 // =============================================
@@ -323,6 +428,164 @@ export type BloomFilterReserveOperation<
   TKeyParams extends Record<string, unknown>,
 > = CacheOperation<TKeyParams & { errorRate: number; capacity: number }, "OK">;
 
+// =============================================
+// CUCKOO FILTER OPERATION TYPE DEFINITIONS
+// =============================================
+
+export type CuckooFilterReserveOperation<
+  TKeyParams extends Record<string, unknown>,
+> = CacheOperation<TKeyParams & { capacity: number }, "OK">;
+
+export type CuckooFilterAddOperation<
+  TKeyParams extends Record<string, unknown>,
+> = CacheOperation<TKeyParams & { item: string }, boolean>;
+
+export type CuckooFilterDeleteOperation<
+  TKeyParams extends Record<string, unknown>,
+> = CacheOperation<TKeyParams & { item: string }, boolean>;
+
+export type CuckooFilterExistsOperation<
+  TKeyParams extends Record<string, unknown>,
+> = CacheOperation<TKeyParams & { item: string }, boolean>;
+
+// =============================================
+// COUNT-MIN SKETCH OPERATION TYPE DEFINITIONS
+// =============================================
+
+export type CountMinSketchInitByDimOperation<
+  TKeyParams extends Record<string, unknown>,
+> = CacheOperation<TKeyParams & { width: number; depth: number }, "OK">;
+
+export type CountMinSketchInitByProbOperation<
+  TKeyParams extends Record<string, unknown>,
+> = CacheOperation<
+  TKeyParams & { errorRate: number; probability: number },
+  "OK"
+>;
+
+export type CountMinSketchIncrementByOperation<
+  TKeyParams extends Record<string, unknown>,
+> = CacheOperation<
+  TKeyParams & { increments: Record<string, number> },
+  number[]
+>;
+
+export type CountMinSketchQueryOperation<
+  TKeyParams extends Record<string, unknown>,
+> = CacheOperation<TKeyParams & { items: string[] }, number[]>;
+
+/** Parse a flat WITHSCORES reply into scored members */
+function parseScoreReply(
+  result: unknown,
+): Array<{ member: string; score: number }> {
+  const arr = result as string[];
+  const items: Array<{ member: string; score: number }> = [];
+  for (let i = 0; i < arr.length; i += 2) {
+    items.push({ member: arr[i]!, score: parseFloat(arr[i + 1]!) });
+  }
+  return items;
+}
+
+// =============================================
+// TRIM SCRIPTS
+// =============================================
+
+/** Removes random members until the set is no larger than maxSize */
+export const setTrimScript = defineScript({
+  script: `
+    local excess = redis.call('SCARD', KEYS[1]) - tonumber(ARGV[1])
+    if excess <= 0 then
+      return 0
+    end
+    local members = redis.call('SRANDMEMBER', KEYS[1], excess)
+    local removed = 0
+    -- unpack is limited by the Lua stack, so remove in batches
+    for i = 1, #members, 5000 do
+      local last = math.min(i + 4999, #members)
+      removed = removed + redis.call('SREM', KEYS[1], unpack(members, i, last))
+    end
+    return removed
+  `,
+  language: "lua",
+  keys: ["key"] as const,
+  args: ["maxSize"] as const,
+  description: "Trim a set to maxSize random members",
+  parseResult: (result) => result as number,
+  jsImpl: async (adapter, keys, args) => {
+    const key = keys[0]!;
+    if ((await adapter.scard(key)) <= Number(args[0])) return 0;
+
+    const members = await adapter.smembers(key);
+    const excess = members.length - Number(args[0]);
+
+    // Partial Fisher-Yates shuffle picks `excess` distinct members
+    for (let i = 0; i < excess; i++) {
+      const j = i + Math.floor(Math.random() * (members.length - i));
+      [members[i], members[j]] = [members[j]!, members[i]!];
+    }
+    return adapter.srem(key, ...members.slice(0, excess));
+  },
+});
+
+// =============================================
+// TTL POLICIES
+// =============================================
+
+/** Commands that never get a TTL policy EXPIRE */
+const TTL_EXEMPT_COMMANDS = new Set<CacheCommand>([
+  "SETEX",
+  "DEL",
+  "EXPIRE",
+  "EXPIREAT",
+  "PERSIST",
+  "TTL",
+  "PTTL",
+]);
+
+/** Commands that only read their key; the "sliding" policy refreshes them */
+const READ_COMMANDS = new Set<CacheCommand>([
+  "GET",
+  "MGET",
+  "EXISTS",
+  "LRANGE",
+  "LLEN",
+  "LINDEX",
+  "LPOS",
+  "SMEMBERS",
+  "SISMEMBER",
+  "SCARD",
+  "SRANDMEMBER",
+  "ZSCORE",
+  "ZMSCORE",
+  "ZRANK",
+  "ZREVRANK",
+  "ZRANGE",
+  "ZREVRANGE",
+  "ZRANGEBYSCORE",
+  "ZREVRANGEBYSCORE",
+  "ZRANGEBYLEX",
+  "ZRANDMEMBER",
+  "ZCARD",
+  "ZCOUNT",
+  "ZDIFF",
+  "HGET",
+  "HMGET",
+  "HGETALL",
+  "HEXISTS",
+  "HKEYS",
+  "HVALS",
+  "HLEN",
+  "GEOPOS",
+  "GEODIST",
+  "GEOHASH",
+  "GEOSEARCH",
+  "PFCOUNT",
+  "BF.EXISTS",
+  "BF.MEXISTS",
+  "CF.EXISTS",
+  "CMS.QUERY",
+]);
+
 // =============================================
 // TYPED OPERATION BUILDER
 // =============================================
@@ -336,13 +599,28 @@ export class TypedOperationBuilder<
 > {
   private readonly keyBuilder: KeyBuilder<TKeyParams>;
   private readonly operations: Record<string, CacheOperation<any, any>> = {};
+  private readonly options: OperationBuilderOptions;
+  private codecs: Codec[];
 
   constructor(
     keyBuilder: KeyBuilder<TKeyParams>,
     existingOps: Record<string, CacheOperation<any, any>> = {},
+    options: OperationBuilderOptions = {},
   ) {
     this.keyBuilder = keyBuilder;
     this.operations = { ...existingOps };
+    this.options = options;
+    this.codecs = options.codecs ?? [];
+  }
+
+  /**
+   * Encode values of the string operations added after this call with
+   * `codec`. Entries written with a built-in codec or one of `previous`
+   * still decode.
+   */
+  withCodec(codec: Codec, ...previous: Codec[]): this {
+    this.codecs = [codec, ...previous];
+    return this;
   }
 
   private withOperation<
@@ -352,13 +630,103 @@ export class TypedOperationBuilder<
     name: TName,
     operation: TOp,
   ): TypedOperationBuilder<TKeyParams, TOperations & { [K in TName]: TOp }> {
-    this.operations[name] = operation;
+    const expire = this.expiry(operation.command);
+    this.operations[name] = expire ? { ...operation, expire } : operation;
     return this as unknown as TypedOperationBuilder<
       TKeyParams,
       TOperations & { [K in TName]: TOp }
     >;
   }
 
+  /** Validation of the value a string operation reads or writes */
+  private validation(
+    target: Pick<OperationValidation, "param" | "read">,
+  ): OperationValidation | undefined {
+    const { validator, onInvalidRead } = this.options;
+    if (!validator) return undefined;
+    return {
+      schema: validator,
+      onInvalidRead: onInvalidRead ?? "throw",
+      ...target,
+    };
+  }
+
+  /** EXPIRE applying the schema's TTL policy after an operation */
+  private expiry(
+    command: CacheCommand,
+  ): CacheOperation<TKeyParams, unknown> | undefined {
+    const { ttl, ttlPolicy } = this.options;
+    if (!ttl || !ttlPolicy || TTL_EXEMPT_COMMANDS.has(command)) {
+      return undefined;
+    }
+    if (READ_COMMANDS.has(command) && ttlPolicy !== "sliding") {
+      return undefined;
+    }
+    return {
+      command: "EXPIRE",
+      // NX leaves keys that already have a TTL alone, so only new keys get one
+      buildArgs: (params) =>
+        ttlPolicy === "fixed"
+          ? [this.keyBuilder(params), ttl, "NX"]
+          : [this.keyBuilder(params), ttl],
+    };
+  }
+
+  /** Trim capping the key of a list, set or sorted-set write at maxSize */
+  private trim(
+    structure: "LIST" | "SET" | "SORTED_SET",
+  ): OperationTrim<TKeyParams> | undefined {
+    const { maxSize, eviction = "lowestScore" } = this.options;
+    if (!maxSize) return undefined;
+
+    if (structure === "SET") {
+      return {
+        operation: scriptOperation(
+          setTrimScript,
+          (params: TKeyParams) => [this.keyBuilder(params)],
+          () => [maxSize],
+        ),
+      };
+    }
+    if (structure === "LIST") {
+      // LPUSH adds to the head, so the oldest items are at the tail
+      return {
+        operation: {
+          command: "LTRIM",
+          buildArgs: (params) => [this.keyBuilder(params), 0, maxSize - 1],
+        },
+      };
+    }
+    if (eviction === "oldest") {
+      throw new Error(
+        'Eviction "oldest" only applies to lists; sorted sets evict by "lowestScore" or "highestScore"',
+      );
+    }
+    return {
+      operation: {
+        command: "ZREMRANGEBYRANK",
+        buildArgs: (params) =>
+          eviction === "highestScore"
+            ? [this.keyBuilder(params), maxSize, -1]
+            : [this.keyBuilder(params), 0, -(maxSize + 1)],
+      },
+    };
+  }
+
+  /** ZUNIONSTORE / ZINTERSTORE arguments with the key as destination */
+  private buildAggregateArgs(
+    params: TKeyParams & { sourceKeys: string[] } & SortedSetAggregateOptions,
+  ): (string | number)[] {
+    const args: (string | number)[] = [
+      this.keyBuilder(params),
+      params.sourceKeys.length,
+      ...params.sourceKeys,
+    ];
+    if (params.weights) args.push("WEIGHTS", ...params.weights);
+    if (params.aggregate) args.push("AGGREGATE", params.aggregate);
+    return args;
+  }
+
   /**
    * Add a string GET operation
    */
@@ -370,11 +738,15 @@ export class TypedOperationBuilder<
     TOperations & { [K in TName]: GetOperation<TKeyParams, TResult> }
   > {
     const opName = (name ?? "get") as TName;
+    const codecs = this.codecs;
+    const parse = parseResult ?? ((r) => r as TResult);
     const operation: GetOperation<TKeyParams, TResult> = {
       command: "GET",
       buildArgs: (params: TKeyParams) => [this.keyBuilder(params)],
-      parseResult: parseResult ?? ((r) => r as TResult),
+      parseResult:
+        codecs.length > 0 ? (r) => parse(decodeWithCodec(r, codecs)) : parse,
       description: `Get value from cache`,
+      validation: this.validation({ read: true }),
     };
     return this.withOperation(opName, operation);
   }
@@ -390,16 +762,19 @@ export class TypedOperationBuilder<
     TOperations & { [K in TName]: SetOperation<TKeyParams, TValue> }
   > {
     const opName = (name ?? "set") as TName;
+    const codec = this.codecs[0];
+    const encode = (value: TValue) =>
+      codec ? encodeWithCodec(value, codec) : String(value);
     const buildArgs = ttl
       ? (params: TKeyParams & { value: TValue }) => [
           this.keyBuilder(params),
-          String(params.value),
+          encode(params.value),
           "EX",
           ttl,
         ]
       : (params: TKeyParams & { value: TValue }) => [
           this.keyBuilder(params),
-          String(params.value),
+          encode(params.value),
         ];
 
     const operation: SetOperation<TKeyParams, TValue> = {
@@ -407,6 +782,7 @@ export class TypedOperationBuilder<
       buildArgs: buildArgs,
       parseResult: (r) => r as "OK",
       description: `Set value in cache${ttl ? ` with ${ttl}s TTL` : ""}`,
+      validation: this.validation({ param: "value" }),
     };
     return this.withOperation(opName, operation);
   }
@@ -646,6 +1022,7 @@ export class TypedOperationBuilder<
       ],
       parseResult: (r) => r as number,
       description: `Add to sorted set`,
+      trim: this.trim("SORTED_SET"),
     };
     return this.withOperation(opName, operation);
   }
@@ -834,6 +1211,7 @@ export class TypedOperationBuilder<
       ],
       parseResult: (r) => parseFloat(r as string),
       description: `Increment score of member in sorted set`,
+      trim: this.trim("SORTED_SET"),
     };
     return this.withOperation(opName, operation);
   }
@@ -929,6 +1307,224 @@ export class TypedOperationBuilder<
     return this.withOperation(opName, operation);
   }
 
+  /**
+   * Add a ZUNIONSTORE operation (store union of source sorted sets in key)
+   */
+  addSortedSetUnionStore<TName extends string = "sortedSetUnionStore">(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & { [K in TName]: SortedSetUnionStoreOperation<TKeyParams> }
+  > {
+    const opName = (name ?? "sortedSetUnionStore") as TName;
+    const operation: SortedSetUnionStoreOperation<TKeyParams> = {
+      command: "ZUNIONSTORE",
+      buildArgs: (params) => this.buildAggregateArgs(params),
+      parseResult: (r) => r as number,
+      description: `Store union of sorted sets`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
+  /**
+   * Add a ZINTERSTORE operation (store intersection of source sorted sets in key)
+   */
+  addSortedSetInterStore<TName extends string = "sortedSetInterStore">(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & { [K in TName]: SortedSetInterStoreOperation<TKeyParams> }
+  > {
+    const opName = (name ?? "sortedSetInterStore") as TName;
+    const operation: SortedSetInterStoreOperation<TKeyParams> = {
+      command: "ZINTERSTORE",
+      buildArgs: (params) => this.buildAggregateArgs(params),
+      parseResult: (r) => r as number,
+      description: `Store intersection of sorted sets`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
+  /**
+   * Add a ZDIFF operation (members of key missing from the source sorted sets)
+   */
+  addSortedSetDiff<TName extends string = "sortedSetDiff">(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & { [K in TName]: SortedSetDiffOperation<TKeyParams> }
+  > {
+    const opName = (name ?? "sortedSetDiff") as TName;
+    const operation: SortedSetDiffOperation<TKeyParams> = {
+      command: "ZDIFF",
+      buildArgs: (params: TKeyParams & { sourceKeys: string[] }) => [
+        params.sourceKeys.length + 1,
+        this.keyBuilder(params),
+        ...params.sourceKeys,
+      ],
+      parseResult: (r) => r as string[],
+      description: `Get members of sorted set missing from other sorted sets`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
+  /**
+   * Add a ZRANGEBYLEX operation
+   */
+  addSortedSetRangeByLex<TName extends string = "sortedSetRangeByLex">(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & { [K in TName]: SortedSetRangeByLexOperation<TKeyParams> }
+  > {
+    const opName = (name ?? "sortedSetRangeByLex") as TName;
+    const operation: SortedSetRangeByLexOperation<TKeyParams> = {
+      command: "ZRANGEBYLEX",
+      buildArgs: (
+        params: TKeyParams & {
+          min: string;
+          max: string;
+          offset?: number;
+          count?: number;
+        },
+      ) => {
+        const args: (string | number)[] = [
+          this.keyBuilder(params),
+          params.min,
+          params.max,
+        ];
+        if (params.count !== undefined) {
+          args.push("LIMIT", params.offset ?? 0, params.count);
+        }
+        return args;
+      },
+      parseResult: (r) => r as string[],
+      description: `Get members of sorted set in lexicographic range`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
+  /**
+   * Add a ZPOPMIN operation (remove and return lowest-scored members)
+   */
+  addSortedSetPopMin<TName extends string = "sortedSetPopMin">(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & { [K in TName]: SortedSetPopOperation<TKeyParams> }
+  > {
+    const opName = (name ?? "sortedSetPopMin") as TName;
+    const operation: SortedSetPopOperation<TKeyParams> = {
+      command: "ZPOPMIN",
+      buildArgs: (params: TKeyParams & { count?: number }) => [
+        this.keyBuilder(params),
+        params.count ?? 1,
+      ],
+      parseResult: parseScoreReply,
+      description: `Remove and return lowest-scored members of sorted set`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
+  /**
+   * Add a ZPOPMAX operation (remove and return highest-scored members)
+   */
+  addSortedSetPopMax<TName extends string = "sortedSetPopMax">(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & { [K in TName]: SortedSetPopOperation<TKeyParams> }
+  > {
+    const opName = (name ?? "sortedSetPopMax") as TName;
+    const operation: SortedSetPopOperation<TKeyParams> = {
+      command: "ZPOPMAX",
+      buildArgs: (params: TKeyParams & { count?: number }) => [
+        this.keyBuilder(params),
+        params.count ?? 1,
+      ],
+      parseResult: parseScoreReply,
+      description: `Remove and return highest-scored members of sorted set`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
+  /**
+   * Add a BZPOPMIN operation (wait up to `timeout` seconds for a member to pop)
+   */
+  addSortedSetBlockingPopMin<TName extends string = "sortedSetBlockingPopMin">(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & {
+      [K in TName]: SortedSetBlockingPopMinOperation<TKeyParams>;
+    }
+  > {
+    const opName = (name ?? "sortedSetBlockingPopMin") as TName;
+    const operation: SortedSetBlockingPopMinOperation<TKeyParams> = {
+      command: "BZPOPMIN",
+      buildArgs: (params: TKeyParams & { timeout: number }) => [
+        this.keyBuilder(params),
+        params.timeout,
+      ],
+      parseResult: (r) => {
+        if (!r) return null;
+        const [, member, score] = r as [string, string, string];
+        return { member, score: parseFloat(score) };
+      },
+      description: `Remove and return lowest-scored member, waiting for one`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
+  /**
+   * Add a ZRANDMEMBER operation (distinct random members)
+   */
+  addSortedSetRandomMembers<TName extends string = "sortedSetRandomMembers">(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & {
+      [K in TName]: SortedSetRandomMembersOperation<TKeyParams>;
+    }
+  > {
+    const opName = (name ?? "sortedSetRandomMembers") as TName;
+    const operation: SortedSetRandomMembersOperation<TKeyParams> = {
+      command: "ZRANDMEMBER",
+      buildArgs: (params: TKeyParams & { count: number }) => [
+        this.keyBuilder(params),
+        params.count,
+      ],
+      parseResult: (r) => r as string[],
+      description: `Get random members from sorted set`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
+  /**
+   * Add a ZMSCORE operation (scores of several members)
+   */
+  addSortedSetGetScores<TName extends string = "sortedSetGetScores">(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & { [K in TName]: SortedSetGetScoresOperation<TKeyParams> }
+  > {
+    const opName = (name ?? "sortedSetGetScores") as TName;
+    const operation: SortedSetGetScoresOperation<TKeyParams> = {
+      command: "ZMSCORE",
+      buildArgs: (params: TKeyParams & { members: string[] }) => [
+        this.keyBuilder(params),
+        ...params.members,
+      ],
+      parseResult: (r) =>
+        (r as Array<string | null>).map((score) =>
+          score === null ? null : parseFloat(score),
+        ),
+      description: `Get scores of members in sorted set`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
   /**
    * Add a set SADD operation
    */
@@ -947,6 +1543,7 @@ export class TypedOperationBuilder<
       ],
       parseResult: (r) => r as number,
       description: `Add to set`,
+      trim: this.trim("SET"),
     };
     return this.withOperation(opName, operation);
   }
@@ -1085,6 +1682,7 @@ export class TypedOperationBuilder<
       ],
       parseResult: (r) => r as number,
       description: `Push to list`,
+      trim: this.trim("LIST"),
     };
     return this.withOperation(opName, operation);
   }
@@ -1469,6 +2067,248 @@ export class TypedOperationBuilder<
     return this.withOperation(opName, operation);
   }
 
+  // =============================================
+  // CUCKOO FILTER OPERATIONS
+  // =============================================
+
+  /**
+   * Add a CF.RESERVE operation (Cuckoo filter reserve with capacity)
+   */
+  addCuckooFilterReserve<TName extends string = "cuckooFilterReserve">(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & { [K in TName]: CuckooFilterReserveOperation<TKeyParams> }
+  > {
+    const opName = (name ?? "cuckooFilterReserve") as TName;
+    const operation: CuckooFilterReserveOperation<TKeyParams> = {
+      command: "CF.RESERVE",
+      buildArgs: (params: TKeyParams & { capacity: number }) => [
+        this.keyBuilder(params),
+        params.capacity,
+      ],
+      parseResult: (r) => r as "OK",
+      description: `Reserve a Cuckoo filter with capacity`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
+  /**
+   * Add a CF.ADD operation (Cuckoo filter add item)
+   */
+  addCuckooFilterAdd<TName extends string = "cuckooFilterAdd">(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & { [K in TName]: CuckooFilterAddOperation<TKeyParams> }
+  > {
+    const opName = (name ?? "cuckooFilterAdd") as TName;
+    const operation: CuckooFilterAddOperation<TKeyParams> = {
+      command: "CF.ADD",
+      buildArgs: (params: TKeyParams & { item: string }) => [
+        this.keyBuilder(params),
+        params.item,
+      ],
+      parseResult: (r) => r === 1 || r === true,
+      description: `Add item to Cuckoo filter`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
+  /**
+   * Add a CF.DEL operation (Cuckoo filter delete item)
+   */
+  addCuckooFilterDelete<TName extends string = "cuckooFilterDelete">(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & { [K in TName]: CuckooFilterDeleteOperation<TKeyParams> }
+  > {
+    const opName = (name ?? "cuckooFilterDelete") as TName;
+    const operation: CuckooFilterDeleteOperation<TKeyParams> = {
+      command: "CF.DEL",
+      buildArgs: (params: TKeyParams & { item: string }) => [
+        this.keyBuilder(params),
+        params.item,
+      ],
+      parseResult: (r) => r === 1 || r === true,
+      description: `Delete item from Cuckoo filter`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
+  /**
+   * Add a CF.EXISTS operation (Cuckoo filter check item)
+   */
+  addCuckooFilterExists<TName extends string = "cuckooFilterExists">(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & { [K in TName]: CuckooFilterExistsOperation<TKeyParams> }
+  > {
+    const opName = (name ?? "cuckooFilterExists") as TName;
+    const operation: CuckooFilterExistsOperation<TKeyParams> = {
+      command: "CF.EXISTS",
+      buildArgs: (params: TKeyParams & { item: string }) => [
+        this.keyBuilder(params),
+        params.item,
+      ],
+      parseResult: (r) => r === 1 || r === true,
+      description: `Check if item exists in Cuckoo filter`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
+  // =============================================
+  // GEO OPERATIONS
+  // =============================================
+
+  /**
+   * Add a GEOADD operation (add members with their coordinates)
+   */
+  addGeoAdd<TName extends string = "geoAdd">(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & { [K in TName]: GeoAddOperation<TKeyParams> }
+  > {
+    const opName = (name ?? "geoAdd") as TName;
+    const operation: GeoAddOperation<TKeyParams> = {
+      command: "GEOADD",
+      buildArgs: (params: TKeyParams & { members: GeoMember[] }) => [
+        this.keyBuilder(params),
+        ...params.members.flatMap((m) => [m.longitude, m.latitude, m.member]),
+      ],
+      parseResult: (r) => r as number,
+      description: `Add members with coordinates to geo index`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
+  /**
+   * Add a GEOSEARCH operation (find members within a radius or box)
+   */
+  addGeoSearch<TName extends string = "geoSearch">(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & { [K in TName]: GeoSearchOperation<TKeyParams> }
+  > {
+    const opName = (name ?? "geoSearch") as TName;
+    const operation: GeoSearchOperation<TKeyParams> = {
+      command: "GEOSEARCH",
+      buildArgs: (params: TKeyParams & GeoSearchOptions) =>
+        buildGeoSearchArgs(this.keyBuilder(params), params),
+      parseResult: parseGeoSearchReply,
+      description: `Search geo index by radius or box`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
+  // =============================================
+  // COUNT-MIN SKETCH OPERATIONS
+  // =============================================
+
+  /**
+   * Add a CMS.INITBYDIM operation (Count-Min Sketch init with width and depth)
+   */
+  addCountMinSketchInitByDim<TName extends string = "countMinSketchInitByDim">(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & {
+      [K in TName]: CountMinSketchInitByDimOperation<TKeyParams>;
+    }
+  > {
+    const opName = (name ?? "countMinSketchInitByDim") as TName;
+    const operation: CountMinSketchInitByDimOperation<TKeyParams> = {
+      command: "CMS.INITBYDIM",
+      buildArgs: (params: TKeyParams & { width: number; depth: number }) => [
+        this.keyBuilder(params),
+        params.width,
+        params.depth,
+      ],
+      parseResult: (r) => r as "OK",
+      description: `Initialize a Count-Min Sketch with width and depth`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
+  /**
+   * Add a CMS.INITBYPROB operation (Count-Min Sketch init with error rate and probability)
+   */
+  addCountMinSketchInitByProb<
+    TName extends string = "countMinSketchInitByProb",
+  >(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & {
+      [K in TName]: CountMinSketchInitByProbOperation<TKeyParams>;
+    }
+  > {
+    const opName = (name ?? "countMinSketchInitByProb") as TName;
+    const operation: CountMinSketchInitByProbOperation<TKeyParams> = {
+      command: "CMS.INITBYPROB",
+      buildArgs: (
+        params: TKeyParams & { errorRate: number; probability: number },
+      ) => [this.keyBuilder(params), params.errorRate, params.probability],
+      parseResult: (r) => r as "OK",
+      description: `Initialize a Count-Min Sketch with error rate and probability`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
+  /**
+   * Add a CMS.INCRBY operation (Count-Min Sketch increment item counts)
+   */
+  addCountMinSketchIncrementBy<
+    TName extends string = "countMinSketchIncrementBy",
+  >(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & {
+      [K in TName]: CountMinSketchIncrementByOperation<TKeyParams>;
+    }
+  > {
+    const opName = (name ?? "countMinSketchIncrementBy") as TName;
+    const operation: CountMinSketchIncrementByOperation<TKeyParams> = {
+      command: "CMS.INCRBY",
+      buildArgs: (
+        params: TKeyParams & { increments: Record<string, number> },
+      ) => [
+        this.keyBuilder(params),
+        ...Object.entries(params.increments).flat(),
+      ],
+      parseResult: (r) => (r as (number | string)[]).map(Number),
+      description: `Increment item counts in Count-Min Sketch`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
+  /**
+   * Add a CMS.QUERY operation (Count-Min Sketch query item counts)
+   */
+  addCountMinSketchQuery<TName extends string = "countMinSketchQuery">(
+    name?: TName,
+  ): TypedOperationBuilder<
+    TKeyParams,
+    TOperations & { [K in TName]: CountMinSketchQueryOperation<TKeyParams> }
+  > {
+    const opName = (name ?? "countMinSketchQuery") as TName;
+    const operation: CountMinSketchQueryOperation<TKeyParams> = {
+      command: "CMS.QUERY",
+      buildArgs: (params: TKeyParams & { items: string[] }) => [
+        this.keyBuilder(params),
+        ...params.items,
+      ],
+      parseResult: (r) => (r as (number | string)[]).map(Number),
+      description: `Query item counts in Count-Min Sketch`,
+    };
+    return this.withOperation(opName, operation);
+  }
+
   /**
    * Add a custom operation
    */
@@ -1483,7 +2323,12 @@ export class TypedOperationBuilder<
     TKeyParams,
     TOperations & { [K in TName]: CacheOperation<TParams, TResult> }
   > {
-    return this.withOperation(name, operation);
+    // Custom params may not hold the key params, so no TTL policy EXPIRE
+    this.operations[name] = operation;
+    return this as unknown as TypedOperationBuilder<
+      TKeyParams,
+      TOperations & { [K in TName]: CacheOperation<TParams, TResult> }
+    >;
   }
 
   /**
@@ -1532,18 +2377,25 @@ export class TypedSchemaBuilder<TKeyParams extends Record<string, unknown>> {
   }
 
   /**
-   * Set TTL in seconds
+   * Set TTL in seconds. With a policy, operations apply it to their key:
+   * "fixed" when a write creates the key, "write" on every write and
+   * "sliding" on every read and write.
    */
-  ttl(seconds: number): this {
+  ttl(seconds: number, policy?: TtlPolicy): this {
     this.config.ttl = seconds;
+    this.config.ttlPolicy = policy;
     return this;
   }
 
   /**
-   * Set max size (for lists, sets, sorted sets)
+   * Set max size (for lists, sets, sorted sets). List pushes, set adds and
+   * sorted-set adds and increments trim their key to this size, evicting
+   * list items oldest first, random set members and sorted-set members by
+   * `eviction`.
    */
-  maxSize(size: number): this {
+  maxSize(size: number, eviction?: EvictionPolicy): this {
     this.config.maxSize = size;
+    this.config.eviction = eviction;
     return this;
   }
 
@@ -1564,7 +2416,8 @@ export class TypedSchemaBuilder<TKeyParams extends Record<string, unknown>> {
   }
 
   /**
-   * Set version
+   * Set version. Keys get a `v<version>` segment, so bumping the
+   * version never reads back entries written in an older format.
    */
   version(v: number): this {
     this.config.version = v;
@@ -1579,6 +2432,30 @@ export class TypedSchemaBuilder<TKeyParams extends Record<string, unknown>> {
     return this;
   }
 
+  /**
+   * Set the codec of the schema's string values. Entries written with a
+   * built-in codec or one of `previous` still decode, so the codec can
+   * change without breaking existing entries.
+   */
+  codec(codec: Codec, ...previous: Codec[]): this {
+    this.config.codecs = [codec, ...previous];
+    return this;
+  }
+
+  /**
+   * Validate the schema's string values with a Standard Schema validator
+   * (Zod, Valibot, ArkType, ...). Invalid writes are rejected; invalid
+   * reads are handled by `onInvalidRead` (default: "throw").
+   */
+  validate(
+    validator: StandardSchemaV1,
+    options?: { onInvalidRead?: InvalidReadPolicy },
+  ): this {
+    this.config.validator = validator;
+    this.config.onInvalidRead = options?.onInvalidRead;
+    return this;
+  }
+
   /**
    * Configure operations with full type inference
    * The callback receives a TypedOperationBuilder and must return it after adding operations
@@ -1592,11 +2469,27 @@ export class TypedSchemaBuilder<TKeyParams extends Record<string, unknown>> {
     if (!this.keyBuilder) {
       throw new Error("Must set keyPattern before configuring operations");
     }
-    const builder = new TypedOperationBuilder<TKeyParams, {}>(this.keyBuilder);
+    const keyBuilder =
+      this.config.version !== undefined
+        ? withKeyVersion(this.keyBuilder, this.config.version)
+        : this.keyBuilder;
+    const builder = new TypedOperationBuilder<TKeyParams, {}>(
+      keyBuilder,
+      {},
+      {
+        codecs: this.config.codecs,
+        validator: this.config.validator,
+        onInvalidRead: this.config.onInvalidRead,
+        maxSize: this.config.maxSize,
+        eviction: this.config.eviction,
+        ttl: this.config.ttl,
+        ttlPolicy: this.config.ttlPolicy,
+      },
+    );
     const configuredBuilder = configure(builder);
     return new TypedSchemaBuilderWithOperations<TKeyParams, TOperations>(
       this.config,
-      this.keyBuilder,
+      keyBuilder,
       configuredBuilder.getOperations(),
     );
   }
@@ -1636,13 +2529,17 @@ export class TypedSchemaBuilderWithOperations<
     return {
       name: this.config.name,
       key: this.keyBuilder as (params: TKeyParams) => string,
+      keyPattern: this.config.keyPattern,
       structure: this.config.structure,
       ttl: this.config.ttl,
+      ttlPolicy: this.config.ttlPolicy,
       maxSize: this.config.maxSize,
+      eviction: this.config.eviction,
       description: this.config.description,
       namespace: this.config.namespace,
       version: this.config.version,
       tags: this.config.tags,
+      validator: this.config.validator,
       operations: this.ops,
     };
   }
@@ -0,0 +1,372 @@
+// =============================================
+// CACHYER - FEED SERVICE
+// =============================================
+// Follower timelines with fan-out on write, falling back to fan-out on
+// read for accounts with many followers
+// =============================================
+
+import { TypedOperationBuilder } from "../schemas/schema-builder";
+import type { CacheAdapter } from "../types/adapter.types";
+import { pipelineEntry, type AnyPipelineEntry } from "../types/operation.types";
+import {
+  encodeCursor,
+  parseCursorParams,
+  type CursorPage,
+} from "../utils/cursor";
+import { createKeyBuilder, type KeyBuilder } from "../utils/key-patterns";
+
+// =============================================
+// TYPES
+// =============================================
+
+export type FeedEntry = {
+  postId: string;
+  /** Publish time in milliseconds */
+  timestamp: number;
+};
+
+export interface FeedPageOptions {
+  /** Cursor from a previous page */
+  cursor?: string | null;
+  /** Page size, 1-100 (default: 20) */
+  limit?: number;
+}
+
+export interface FeedPublishOptions {
+  /** Publish time in milliseconds (default: now) */
+  timestamp?: number;
+}
+
+export interface FeedPublishResult {
+  /** "push" when written to follower timelines, "pull" when merged on read */
+  mode: "push" | "pull";
+  /** Number of follower timelines written */
+  delivered: number;
+}
+
+export interface FeedServiceConfig {
+  /** Key prefix for feed keys */
+  keyPrefix?: string;
+  /** Followers at which an author's posts are merged on read instead */
+  celebrityThreshold?: number;
+  /**
+   * Followers below which a celebrity goes back to fan-out on write, lower
+   * than `celebrityThreshold` so that follower counts hovering around it
+   * don't switch modes, and backfill timelines, on every follow
+   */
+  celebrityDemotionThreshold?: number;
+  /** Posts kept per timeline and per author */
+  maxTimelineLength?: number;
+  /** Follower timelines written per pipeline */
+  fanOutChunkSize?: number;
+}
+
+type FeedKeyParams = { user: string };
+
+function createTimelineOperations(key: KeyBuilder<FeedKeyParams>) {
+  return new TypedOperationBuilder(key)
+    .addSortedSetAdd("add")
+    .addSortedSetRemove("remove")
+    .addSortedSetRemoveOldest("trim")
+    .addSortedSetUnionStore("merge")
+    .getOperations();
+}
+
+type TimelineOperations = ReturnType<typeof createTimelineOperations>;
+
+/** Newest first, ties in reverse id order like ZREVRANGEBYSCORE */
+function compareEntries(a: FeedEntry, b: FeedEntry): number {
+  if (a.timestamp !== b.timestamp) return b.timestamp - a.timestamp;
+  return a.postId < b.postId ? 1 : a.postId > b.postId ? -1 : 0;
+}
+
+// =============================================
+// FEED SERVICE CLASS
+// =============================================
+
+export class FeedService {
+  private readonly adapter: CacheAdapter;
+  private readonly config: Required<FeedServiceConfig>;
+  private readonly timelineKey: KeyBuilder<FeedKeyParams>;
+  private readonly operations: TimelineOperations;
+
+  constructor(adapter: CacheAdapter, config?: FeedServiceConfig) {
+    const celebrityThreshold = config?.celebrityThreshold ?? 10000;
+    const celebrityDemotionThreshold =
+      config?.celebrityDemotionThreshold ??
+      Math.floor(celebrityThreshold * 0.9);
+    if (celebrityDemotionThreshold > celebrityThreshold) {
+      throw new Error(
+        `celebrityDemotionThreshold (${celebrityDemotionThreshold}) must not exceed celebrityThreshold (${celebrityThreshold})`,
+      );
+    }
+
+    this.adapter = adapter;
+    this.config = {
+      keyPrefix: config?.keyPrefix ?? "feed",
+      celebrityThreshold,
+      celebrityDemotionThreshold,
+      maxTimelineLength: config?.maxTimelineLength ?? 800,
+      fanOutChunkSize: config?.fanOutChunkSize ?? 500,
+    };
+    this.timelineKey = createKeyBuilder<FeedKeyParams>(
+      `${this.config.keyPrefix}:{user}:timeline`,
+    );
+    this.operations = createTimelineOperations(this.timelineKey);
+  }
+
+  /**
+   * Follow an author. Posts published before the follow are not copied
+   * into the follower's timeline. Returns false if already following.
+   */
+  async follow(follower: string, author: string): Promise<boolean> {
+    const added = await this.adapter.sadd(this.followersKey(author), follower);
+    if (added === 0) return false;
+
+    await this.adapter.sadd(this.followingKey(follower), author);
+    await this.updateCelebrity(author);
+    return true;
+  }
+
+  /**
+   * Unfollow an author. Posts already in the follower's timeline stay
+   * there. Returns false if not following.
+   */
+  async unfollow(follower: string, author: string): Promise<boolean> {
+    const removed = await this.adapter.srem(
+      this.followersKey(author),
+      follower,
+    );
+    if (removed === 0) return false;
+
+    await this.adapter.srem(this.followingKey(follower), author);
+    await this.updateCelebrity(author);
+    return true;
+  }
+
+  /**
+   * Publish a post. Authors below the celebrity threshold push it into
+   * every follower's timeline in chunked pipelines; posts of authors above
+   * it are merged into timelines when they are read.
+   */
+  async publish(
+    author: string,
+    postId: string,
+    options?: FeedPublishOptions,
+  ): Promise<FeedPublishResult> {
+    const timestamp = options?.timestamp ?? Date.now();
+    const postsKey = this.postsKey(author);
+    await this.adapter.zadd(postsKey, [{ score: timestamp, member: postId }]);
+    await this.adapter.zremrangebyrank(
+      postsKey,
+      0,
+      -(this.config.maxTimelineLength + 1),
+    );
+
+    if (await this.isCelebrity(author)) {
+      return { mode: "pull", delivered: 0 };
+    }
+
+    const followers = await this.adapter.smembers(this.followersKey(author));
+    await this.fanOut(followers, (user) => [
+      pipelineEntry(this.operations.add, {
+        user,
+        member: postId,
+        score: timestamp,
+      }),
+      pipelineEntry(this.operations.trim, {
+        user,
+        count: this.config.maxTimelineLength,
+      }),
+    ]);
+    return { mode: "push", delivered: followers.length };
+  }
+
+  /**
+   * Delete a post from the author's posts and every follower's timeline
+   */
+  async unpublish(author: string, postId: string): Promise<void> {
+    await this.adapter.zrem(this.postsKey(author), postId);
+
+    // Timelines may hold the post even if the author is now a celebrity
+    const followers = await this.adapter.smembers(this.followersKey(author));
+    await this.fanOut(followers, (user) => [
+      pipelineEntry(this.operations.remove, { user, member: postId }),
+    ]);
+  }
+
+  /**
+   * Get a page of a user's timeline, newest first: pushed posts, the
+   * user's own posts and the posts of followed celebrities
+   */
+  async getTimeline(
+    user: string,
+    options?: FeedPageOptions,
+  ): Promise<CursorPage<FeedEntry>> {
+    const { offset, pageSize } = parseCursorParams(
+      options?.cursor,
+      options?.limit,
+    );
+    const after: FeedEntry | null = offset
+      ? { timestamp: Number(offset.after), postId: String(offset.postId) }
+      : null;
+
+    const celebrities = await this.adapter.sinter(
+      this.followingKey(user),
+      this.celebritiesKey(),
+    );
+    const keys = [
+      this.timelineKey({ user }),
+      this.postsKey(user),
+      ...celebrities.map((author) => this.postsKey(author)),
+    ];
+
+    // One extra entry tells whether there's another page
+    const sources = await Promise.all(
+      keys.map((key) => this.readBefore(key, after, pageSize + 1)),
+    );
+
+    const merged = new Map<string, number>();
+    for (const entry of sources.flat()) {
+      merged.set(entry.postId, entry.timestamp);
+    }
+    const entries = [...merged]
+      .map(([postId, timestamp]) => ({ postId, timestamp }))
+      .filter((entry) => !after || compareEntries(entry, after) > 0)
+      .sort(compareEntries)
+      .slice(0, pageSize + 1);
+
+    const hasMore = entries.length > pageSize;
+    const items = entries.slice(0, pageSize);
+    const last = items[items.length - 1];
+    return {
+      items,
+      nextCursor:
+        hasMore && last
+          ? encodeCursor({ after: last.timestamp, postId: last.postId })
+          : null,
+      hasMore,
+    };
+  }
+
+  /**
+   * Count an author's followers
+   */
+  async followerCount(author: string): Promise<number> {
+    return this.adapter.scard(this.followersKey(author));
+  }
+
+  /**
+   * Whether an author's posts are merged on read instead of pushed
+   */
+  async isCelebrity(author: string): Promise<boolean> {
+    return (await this.adapter.sismember(this.celebritiesKey(), author)) === 1;
+  }
+
+  /** Entries of a timeline that come after `after`, newest first */
+  private async readBefore(
+    key: string,
+    after: FeedEntry | null,
+    count: number,
+  ): Promise<FeedEntry[]> {
+    // Posts sharing the cursor's timestamp are read again and filtered out
+    const ties = after
+      ? await this.adapter.zcount(key, after.timestamp, after.timestamp)
+      : 0;
+    const items = (await this.adapter.zrevrangebyscore(
+      key,
+      after ? after.timestamp : "+inf",
+      "-inf",
+      { withScores: true, limit: { offset: 0, count: count + ties } },
+    )) as Array<{ member: string; score: number }>;
+
+    return items.map(({ member, score }) => ({
+      postId: member,
+      timestamp: score,
+    }));
+  }
+
+  /** Write to follower timelines, one pipeline per chunk */
+  private async fanOut(
+    users: string[],
+    entriesFor: (user: string) => AnyPipelineEntry[],
+  ): Promise<void> {
+    for (let i = 0; i < users.length; i += this.config.fanOutChunkSize) {
+      const entries = users
+        .slice(i, i + this.config.fanOutChunkSize)
+        .flatMap(entriesFor);
+      await this.execute(entries);
+    }
+  }
+
+  private async execute(entries: AnyPipelineEntry[]): Promise<void> {
+    if (typeof this.adapter.executePipeline !== "function") {
+      for (const { operation, params } of entries) {
+        await this.adapter.executeRaw(
+          operation.command,
+          operation.buildArgs(params),
+        );
+      }
+      return;
+    }
+
+    const result = await this.adapter.executePipeline(entries);
+    const failed = result.results.find((entry) => !entry.success);
+    if (failed?.error) throw failed.error;
+  }
+
+  private async updateCelebrity(author: string): Promise<void> {
+    const count = await this.followerCount(author);
+    if (count >= this.config.celebrityThreshold) {
+      await this.adapter.sadd(this.celebritiesKey(), author);
+    } else if (
+      count < this.config.celebrityDemotionThreshold &&
+      (await this.adapter.srem(this.celebritiesKey(), author)) > 0
+    ) {
+      await this.backfill(author);
+    }
+  }
+
+  /**
+   * Merge the posts of an author who is no longer a celebrity into follower
+   * timelines, which stopped merging them on read
+   */
+  private async backfill(author: string): Promise<void> {
+    const followers = await this.adapter.smembers(this.followersKey(author));
+    await this.fanOut(followers, (user) => [
+      pipelineEntry(this.operations.merge, {
+        user,
+        sourceKeys: [this.timelineKey({ user }), this.postsKey(author)],
+        // Posts pushed before the author became a celebrity keep their time
+        aggregate: "MAX" as const,
+      }),
+      pipelineEntry(this.operations.trim, {
+        user,
+        count: this.config.maxTimelineLength,
+      }),
+    ]);
+  }
+
+  private postsKey(user: string): string {
+    return `${this.config.keyPrefix}:${user}:posts`;
+  }
+
+  private followersKey(user: string): string {
+    return `${this.config.keyPrefix}:${user}:followers`;
+  }
+
+  private followingKey(user: string): string {
+    return `${this.config.keyPrefix}:${user}:following`;
+  }
+
+  private celebritiesKey(): string {
+    return `${this.config.keyPrefix}:celebrities`;
+  }
+}
+
+export function createFeedService(
+  adapter: CacheAdapter,
+  config?: FeedServiceConfig,
+): FeedService {
+  return new FeedService(adapter, config);
+}
@@ -5,3 +5,8 @@
 export * from './rate-limit.service'
 export * from './rate-limit-scripts'
 export * from './lock.service'
+export * from './queue.service'
+export * from './scheduler.service'
+export * from './leaderboard.service'
+export * from './trending.service'
+export * from './feed.service'
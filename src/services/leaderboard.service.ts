@@ -0,0 +1,620 @@
+// =============================================
+// CACHYER - LEADERBOARD SERVICE
+// =============================================
+// Sorted-set leaderboards with score modes, tie-aware ranks, cursor
+// pagination and daily / weekly boards that expire on their own
+// =============================================
+
+import { TypedOperationBuilder } from "../schemas/schema-builder";
+import type { CacheAdapter } from "../types/adapter.types";
+import type { SortedSetAggregateOptions } from "../types/core.types";
+import { defineScript, type CacheOperation } from "../types/operation.types";
+import {
+  buildCursorPage,
+  parseCursorParams,
+  type CursorPage,
+} from "../utils/cursor";
+import { createKeyBuilder, type KeyBuilder } from "../utils/key-patterns";
+
+// =============================================
+// TYPES
+// =============================================
+
+/** How a submitted score combines with the member's current score */
+export type LeaderboardScoreMode = "best" | "latest" | "sum";
+
+/**
+ * How tied scores rank: "competition" ranks 1, 2, 2, 4; "dense" ranks
+ * 1, 2, 2, 3; "ordinal" ranks 1, 2, 3, 4
+ */
+export type LeaderboardTieMode = "competition" | "dense" | "ordinal";
+
+/** Time bucket of a board; daily and weekly boards start at 00:00 UTC */
+export type LeaderboardPeriod = "daily" | "weekly" | "allTime";
+
+export type LeaderboardEntry = {
+  member: string;
+  score: number;
+  /** Rank under the tie mode, starting at 1 */
+  rank: number;
+  /** Position in the board, starting at 1, unique even for tied scores */
+  position: number;
+};
+
+export interface LeaderboardQueryOptions {
+  /** Board period (default: the first configured period) */
+  period?: LeaderboardPeriod;
+  /** Any time inside the period to read (default: now) */
+  date?: Date | number;
+  /** Tie handling (default: the configured tie mode) */
+  ties?: LeaderboardTieMode;
+}
+
+export interface LeaderboardPageOptions extends LeaderboardQueryOptions {
+  /** Cursor from a previous page */
+  cursor?: string | null;
+  /** Page size, 1-100 (default: 20) */
+  limit?: number;
+}
+
+export interface LeaderboardMergeOptions
+  extends Omit<LeaderboardQueryOptions, "ties">, SortedSetAggregateOptions {
+  /** Expire the merged board after this many seconds */
+  ttl?: number;
+}
+
+export interface LeaderboardServiceConfig {
+  /** Key prefix for leaderboard keys */
+  keyPrefix?: string;
+  /** Default score mode */
+  mode?: LeaderboardScoreMode;
+  /** Default tie handling */
+  ties?: LeaderboardTieMode;
+  /** Periods every submitted score is recorded in */
+  periods?: LeaderboardPeriod[];
+  /** Seconds a daily or weekly board is kept after its period ends */
+  retentionSeconds?: number;
+}
+
+type LeaderboardKeyParams = { board: string; bucket: string };
+
+const DAY_MS = 86400000;
+
+// =============================================
+// LUA SCRIPTS
+// =============================================
+
+// Every scripted board keeps two companions: a sorted set holding each
+// distinct score once, and a hash counting the members at each score, so a
+// dense rank is a single ZCOUNT over the distinct scores.
+
+/** Drop one member from a score's count, and the score once none are left */
+async function releaseScore(
+  adapter: CacheAdapter,
+  scoresKey: string,
+  countsKey: string,
+  score: string,
+): Promise<void> {
+  if ((await adapter.hincrby(countsKey, score, -1)) <= 0) {
+    await adapter.hdel(countsKey, score);
+    await adapter.zrem(scoresKey, score);
+  }
+}
+
+/** Add one member to a score's count, and the score if it is new */
+async function retainScore(
+  adapter: CacheAdapter,
+  scoresKey: string,
+  countsKey: string,
+  score: string,
+): Promise<void> {
+  if ((await adapter.hincrby(countsKey, score, 1)) === 1) {
+    await adapter.zadd(scoresKey, [{ score: Number(score), member: score }]);
+  }
+}
+
+/**
+ * Record a score under a score mode and move the member's count from its
+ * old distinct score to the new one. An expireAt above 0 applies to the
+ * board and its companions.
+ */
+export const submitScoreScript = defineScript({
+  script: `
+    local board, scores, counts = KEYS[1], KEYS[2], KEYS[3]
+    local member, mode = ARGV[1], ARGV[3]
+    local previous = redis.call('ZSCORE', board, member)
+
+    if mode == 'sum' then
+      redis.call('ZINCRBY', board, ARGV[2], member)
+    elseif mode == 'best' then
+      redis.call('ZADD', board, 'GT', ARGV[2], member)
+    else
+      redis.call('ZADD', board, ARGV[2], member)
+    end
+
+    local current = redis.call('ZSCORE', board, member)
+    if current ~= previous then
+      if previous and redis.call('HINCRBY', counts, previous, -1) <= 0 then
+        redis.call('HDEL', counts, previous)
+        redis.call('ZREM', scores, previous)
+      end
+      if redis.call('HINCRBY', counts, current, 1) == 1 then
+        redis.call('ZADD', scores, current, current)
+      end
+    end
+
+    local expireAt = tonumber(ARGV[4])
+    if expireAt > 0 then
+      for _, key in ipairs(KEYS) do
+        redis.call('EXPIREAT', key, expireAt)
+      end
+    end
+    return 1
+  `,
+  language: "lua",
+  keys: ["boardKey", "scoresKey", "countsKey"] as const,
+  args: ["member", "score", "mode", "expireAt"] as const,
+  description: "Record a score and its distinct-score count",
+  jsImpl: async (adapter, keys, args) => {
+    const [board, scores, counts] = keys as [string, string, string];
+    const member = args[0]!;
+    const score = Number(args[1]);
+    const previous = await adapter.zscore(board, member);
+
+    if (args[2] === "sum") {
+      await adapter.zincrby(board, score, member);
+    } else {
+      await adapter.zadd(board, [{ score, member }], {
+        gt: args[2] === "best",
+      });
+    }
+
+    const current = (await adapter.zscore(board, member))!;
+    if (current !== previous) {
+      if (previous !== null) {
+        await releaseScore(adapter, scores, counts, previous);
+      }
+      await retainScore(adapter, scores, counts, current);
+    }
+
+    const expireAt = Number(args[3]);
+    if (expireAt > 0) {
+      for (const key of keys) await adapter.expireat(key, expireAt);
+    }
+    return 1;
+  },
+});
+
+/** Remove a member and its count from its distinct score */
+export const removeScoreScript = defineScript({
+  script: `
+    local board, scores, counts = KEYS[1], KEYS[2], KEYS[3]
+    local previous = redis.call('ZSCORE', board, ARGV[1])
+    if not previous then return 0 end
+
+    redis.call('ZREM', board, ARGV[1])
+    if redis.call('HINCRBY', counts, previous, -1) <= 0 then
+      redis.call('HDEL', counts, previous)
+      redis.call('ZREM', scores, previous)
+    end
+    return 1
+  `,
+  language: "lua",
+  keys: ["boardKey", "scoresKey", "countsKey"] as const,
+  args: ["member"] as const,
+  description: "Remove a member and its distinct-score count",
+  jsImpl: async (adapter, keys, args) => {
+    const [board, scores, counts] = keys as [string, string, string];
+    const previous = await adapter.zscore(board, args[0]!);
+    if (previous === null) return 0;
+
+    await adapter.zrem(board, args[0]!);
+    await releaseScore(adapter, scores, counts, previous);
+    return 1;
+  },
+});
+
+/**
+ * Rebuild the distinct-score companions of a board written as a whole,
+ * such as a merged board, reading it in batches of 1000 entries
+ */
+export const rebuildScoresScript = defineScript({
+  script: `
+    local board, scores, counts = KEYS[1], KEYS[2], KEYS[3]
+    redis.call('DEL', scores, counts)
+
+    local start = 0
+    while true do
+      local batch = redis.call('ZRANGE', board, start, start + 999, 'WITHSCORES')
+      if #batch == 0 then return 1 end
+      for i = 2, #batch, 2 do
+        if redis.call('HINCRBY', counts, batch[i], 1) == 1 then
+          redis.call('ZADD', scores, batch[i], batch[i])
+        end
+      end
+      start = start + 1000
+    end
+  `,
+  language: "lua",
+  keys: ["boardKey", "scoresKey", "countsKey"] as const,
+  args: [] as const,
+  description: "Rebuild the distinct-score counts of a board",
+  jsImpl: async (adapter, keys) => {
+    const [board, scores, counts] = keys as [string, string, string];
+    await adapter.del(scores, counts);
+
+    for (let start = 0; ; start += 1000) {
+      const batch = (await adapter.zrange(board, start, start + 999, {
+        withScores: true,
+      })) as Array<{ member: string; score: number }>;
+      if (batch.length === 0) return 1;
+      for (const { score } of batch) {
+        await retainScore(adapter, scores, counts, String(score));
+      }
+    }
+  },
+});
+
+function createLeaderboardOperations(key: KeyBuilder<LeaderboardKeyParams>) {
+  return new TypedOperationBuilder(key)
+    .addSortedSetAdd("setScore")
+    .addSortedSetIncrementBy("incrementScore")
+    .addSortedSetGetScore("getScore")
+    .addSortedSetGetRank("getPosition")
+    .addSortedSetGetRangeWithScores("getRange")
+    .addSortedSetRemove("remove")
+    .addSortedSetCount("count")
+    .addSortedSetUnionStore("merge")
+    .getOperations();
+}
+
+type LeaderboardOperations = ReturnType<typeof createLeaderboardOperations>;
+
+// =============================================
+// LEADERBOARD SERVICE CLASS
+// =============================================
+
+export class LeaderboardService {
+  private readonly adapter: CacheAdapter;
+  private readonly config: Required<LeaderboardServiceConfig>;
+  private readonly key: KeyBuilder<LeaderboardKeyParams>;
+  private readonly operations: LeaderboardOperations;
+
+  constructor(adapter: CacheAdapter, config?: LeaderboardServiceConfig) {
+    this.adapter = adapter;
+    this.config = {
+      keyPrefix: config?.keyPrefix ?? "leaderboard",
+      mode: config?.mode ?? "best",
+      ties: config?.ties ?? "competition",
+      periods: config?.periods?.length ? config.periods : ["allTime"],
+      retentionSeconds: config?.retentionSeconds ?? 7 * 86400,
+    };
+    this.key = createKeyBuilder<LeaderboardKeyParams>(
+      `${this.config.keyPrefix}:{board}:{bucket}`,
+    );
+    this.operations = createLeaderboardOperations(this.key);
+  }
+
+  /**
+   * Record a score in every configured period. "best" keeps the highest
+   * score, "latest" the last one and "sum" adds it to the current score.
+   */
+  async submitScore(
+    board: string,
+    member: string,
+    score: number,
+    mode: LeaderboardScoreMode = this.config.mode,
+  ): Promise<void> {
+    const now = Date.now();
+
+    await Promise.all(
+      this.config.periods.map(async (period) => {
+        const params = { board, bucket: this.bucketOf(period, now) };
+        const end = this.periodEnd(period, now);
+        const expireAt =
+          end === undefined
+            ? 0
+            : Math.ceil(end / 1000) + this.config.retentionSeconds;
+
+        if (typeof this.adapter.executeScript === "function") {
+          await this.adapter.executeScript(
+            submitScoreScript,
+            this.scoreKeysOf(params),
+            [member, score, mode, expireAt],
+          );
+          return;
+        }
+
+        if (mode === "sum") {
+          await this.run(this.operations.incrementScore, {
+            ...params,
+            member,
+            amount: score,
+          });
+        } else if (mode === "best") {
+          // ZADD GT keeps the higher score and still adds new members
+          await this.adapter.zadd(this.key(params), [{ score, member }], {
+            gt: true,
+          });
+        } else {
+          await this.run(this.operations.setScore, {
+            ...params,
+            member,
+            score,
+          });
+        }
+
+        if (expireAt > 0) {
+          await this.adapter.expireat(this.key(params), expireAt);
+        }
+      }),
+    );
+  }
+
+  /**
+   * Get a member's score and rank, or null if the member has no score
+   */
+  async rankOf(
+    board: string,
+    member: string,
+    options?: LeaderboardQueryOptions,
+  ): Promise<LeaderboardEntry | null> {
+    const params = this.paramsOf(board, options);
+    const [score, position] = await Promise.all([
+      this.run(this.operations.getScore, { ...params, member }),
+      this.run(this.operations.getPosition, { ...params, member }),
+    ]);
+    if (score === null || position === null) return null;
+
+    return {
+      member,
+      score,
+      rank: await this.rankOfScore(params, score, position + 1, options?.ties),
+      position: position + 1,
+    };
+  }
+
+  /**
+   * Get a member with up to `n` members ranked above and below it
+   */
+  async around(
+    board: string,
+    member: string,
+    n: number,
+    options?: LeaderboardQueryOptions,
+  ): Promise<LeaderboardEntry[]> {
+    const params = this.paramsOf(board, options);
+    const position = await this.run(this.operations.getPosition, {
+      ...params,
+      member,
+    });
+    if (position === null) return [];
+
+    const start = Math.max(0, position - n);
+    return this.range(params, start, position + n, options?.ties);
+  }
+
+  /**
+   * Get a page of the board, highest scores first
+   */
+  async top(
+    board: string,
+    options?: LeaderboardPageOptions,
+  ): Promise<CursorPage<LeaderboardEntry>> {
+    const params = this.paramsOf(board, options);
+    const { offset, pageSize } = parseCursorParams(
+      options?.cursor,
+      options?.limit,
+    );
+    const start = Number(offset?.after ?? 0);
+
+    // One extra entry tells buildCursorPage whether there's another page
+    const entries = await this.range(
+      params,
+      start,
+      start + pageSize,
+      options?.ties,
+    );
+    return buildCursorPage(entries, pageSize, "position");
+  }
+
+  /**
+   * Get a member's score, or null if it has none
+   */
+  async scoreOf(
+    board: string,
+    member: string,
+    options?: LeaderboardQueryOptions,
+  ): Promise<number | null> {
+    return this.run(this.operations.getScore, {
+      ...this.paramsOf(board, options),
+      member,
+    });
+  }
+
+  /**
+   * Count members on the board
+   */
+  async size(
+    board: string,
+    options?: LeaderboardQueryOptions,
+  ): Promise<number> {
+    return this.run(this.operations.count, this.paramsOf(board, options));
+  }
+
+  /**
+   * Remove a member from the current board of every configured period
+   */
+  async removeMember(board: string, member: string): Promise<void> {
+    const now = Date.now();
+    await Promise.all(
+      this.config.periods.map(async (period) => {
+        const params = { board, bucket: this.bucketOf(period, now) };
+        if (typeof this.adapter.executeScript === "function") {
+          await this.adapter.executeScript(
+            removeScoreScript,
+            this.scoreKeysOf(params),
+            [member],
+          );
+        } else {
+          await this.run(this.operations.remove, { ...params, member });
+        }
+      }),
+    );
+  }
+
+  /**
+   * Replace `destination` with the union of the source boards for the same
+   * period. Scores are summed unless `aggregate` says otherwise. Returns
+   * the size of the merged board.
+   */
+  async merge(
+    destination: string,
+    sources: string[],
+    options?: LeaderboardMergeOptions,
+  ): Promise<number> {
+    const period = options?.period ?? this.config.periods[0]!;
+    const bucket = this.bucketOf(period, this.timeOf(options?.date));
+    const params = { board: destination, bucket };
+
+    const size = await this.run(this.operations.merge, {
+      ...params,
+      sourceKeys: sources.map((board) => this.key({ board, bucket })),
+      weights: options?.weights,
+      aggregate: options?.aggregate,
+    });
+
+    let keys = [this.key(params)];
+    if (typeof this.adapter.executeScript === "function") {
+      keys = this.scoreKeysOf(params);
+      await this.adapter.executeScript(rebuildScoresScript, keys, []);
+    }
+    if (options?.ttl !== undefined && size > 0) {
+      for (const key of keys) await this.adapter.expire(key, options.ttl);
+    }
+    return size;
+  }
+
+  /** Entries at positions start..stop (0-based, inclusive) */
+  private async range(
+    params: LeaderboardKeyParams,
+    start: number,
+    stop: number,
+    ties?: LeaderboardTieMode,
+  ): Promise<LeaderboardEntry[]> {
+    const items = await this.run(this.operations.getRange, {
+      ...params,
+      start,
+      stop,
+    });
+    if (items.length === 0) return [];
+
+    const mode = ties ?? this.config.ties;
+    const entries: LeaderboardEntry[] = [];
+    let rank = await this.rankOfScore(params, items[0]!.score, start + 1, mode);
+
+    items.forEach(({ member, score }, i) => {
+      const position = start + i + 1;
+      const previous = entries[i - 1];
+      if (previous && previous.score !== score) {
+        rank = mode === "dense" ? rank + 1 : position;
+      } else if (previous && mode === "ordinal") {
+        rank = position;
+      }
+      entries.push({ member, score, rank, position });
+    });
+    return entries;
+  }
+
+  /** Rank of a score at a 1-based position */
+  private async rankOfScore(
+    params: LeaderboardKeyParams,
+    score: number,
+    position: number,
+    ties: LeaderboardTieMode = this.config.ties,
+  ): Promise<number> {
+    if (ties === "ordinal") return position;
+
+    const key = this.key(params);
+    if (ties === "competition") {
+      return (await this.adapter.zcount(key, `(${score}`, "+inf")) + 1;
+    }
+
+    if (typeof this.adapter.executeScript === "function") {
+      const [, scores] = this.scoreKeysOf(params);
+      return (await this.adapter.zcount(scores, `(${score}`, "+inf")) + 1;
+    }
+
+    // Fallback for adapters without scripting reads every higher entry
+    const higher = (await this.adapter.zrevrangebyscore(
+      key,
+      "+inf",
+      `(${score}`,
+      {
+        withScores: true,
+      },
+    )) as Array<{ member: string; score: number }>;
+    return new Set(higher.map((entry) => entry.score)).size + 1;
+  }
+
+  /** The board key and its distinct-score companions */
+  private scoreKeysOf(params: LeaderboardKeyParams): [string, string, string] {
+    const key = this.key(params);
+    return [key, `${key}:scores`, `${key}:scoreCounts`];
+  }
+
+  private paramsOf(
+    board: string,
+    options?: LeaderboardQueryOptions,
+  ): LeaderboardKeyParams {
+    const period = options?.period ?? this.config.periods[0]!;
+    return { board, bucket: this.bucketOf(period, this.timeOf(options?.date)) };
+  }
+
+  private timeOf(date?: Date | number): number {
+    if (date === undefined) return Date.now();
+    return date instanceof Date ? date.getTime() : date;
+  }
+
+  /** Key segment of the board holding `time`, e.g. "d:2030-01-01" */
+  private bucketOf(period: LeaderboardPeriod, time: number): string {
+    const start = this.periodStart(period, time);
+    if (start === undefined) return "all";
+    const day = new Date(start).toISOString().slice(0, 10);
+    return period === "daily" ? `d:${day}` : `w:${day}`;
+  }
+
+  private periodStart(period: LeaderboardPeriod, time: number) {
+    if (period === "allTime") return undefined;
+    const day = Math.floor(time / DAY_MS) * DAY_MS;
+    if (period === "daily") return day;
+    // Weeks start on Monday
+    return day - ((new Date(day).getUTCDay() + 6) % 7) * DAY_MS;
+  }
+
+  private periodEnd(period: LeaderboardPeriod, time: number) {
+    const start = this.periodStart(period, time);
+    if (start === undefined) return undefined;
+    return start + (period === "daily" ? DAY_MS : 7 * DAY_MS);
+  }
+
+  private async run<TParams extends Record<string, unknown>, TResult>(
+    operation: CacheOperation<TParams, TResult>,
+    params: TParams,
+  ): Promise<TResult> {
+    const result = await this.adapter.executeRaw(
+      operation.command,
+      operation.buildArgs(params),
+    );
+    return operation.parseResult
+      ? operation.parseResult(result)
+      : (result as TResult);
+  }
+}
+
+export function createLeaderboardService(
+  adapter: CacheAdapter,
+  config?: LeaderboardServiceConfig,
+): LeaderboardService {
+  return new LeaderboardService(adapter, config);
+}
@@ -58,6 +58,14 @@ export const releaseLockScript = defineScript({
   args: ["ownerId"] as const,
   description: "Release lock only if owned by caller",
   parseResult: (result) => (result as number) === 1,
+  jsImpl: async (adapter, keys, args) => {
+    const key = keys[0]!;
+
+    if ((await adapter.get(key)) === args[0]) {
+      return adapter.del(key);
+    }
+    return 0;
+  },
 });
 
 export const extendLockScript = defineScript({
@@ -76,6 +84,20 @@ export const extendLockScript = defineScript({
   args: ["ownerId", "ttlMs"] as const,
   description: "Extend lock TTL only if owned by caller",
   parseResult: (result) => (result as number) === 1,
+  jsImpl: async (adapter, keys, args) => {
+    const key = keys[0]!;
+    const ownerId = args[0]!;
+
+    if ((await adapter.get(key)) === ownerId) {
+      // SET XX PX rewrites the same value with a millisecond TTL (PEXPIRE)
+      const result = await adapter.set(key, ownerId, {
+        px: Number(args[1]),
+        xx: true,
+      });
+      return result === "OK" ? 1 : 0;
+    }
+    return 0;
+  },
 });
 
 // =============================================
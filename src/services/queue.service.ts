@@ -0,0 +1,643 @@
+// =============================================
+// CACHYER - JOB QUEUE SERVICE
+// =============================================
+// Reliable job queue with visibility timeouts, retries with exponential
+// backoff, delayed jobs and a dead-letter queue
+// =============================================
+
+import type { CacheAdapter } from "../types/adapter.types";
+import { CacheError, CacheErrorCode } from "../types/core.types";
+import { defineScript, type ScriptDefinition } from "../types/operation.types";
+
+// =============================================
+// TYPES
+// =============================================
+
+export interface QueueJob<T = unknown> {
+  id: string;
+  queue: string;
+  data: T;
+  /** Times the job has been dequeued */
+  attempts: number;
+  /** Attempts allowed before the job is dead-lettered */
+  maxAttempts: number;
+  /** Enqueue time in epoch milliseconds */
+  enqueuedAt: number;
+  /** Error recorded by the last failed attempt */
+  lastError?: string;
+}
+
+export interface EnqueueOptions {
+  /** Delay before the job becomes visible, in milliseconds */
+  delayMs?: number;
+  /** Attempts allowed before the job is dead-lettered */
+  maxAttempts?: number;
+}
+
+export interface DequeueOptions {
+  /** Time a consumer has to ack the job before it is retried, in milliseconds */
+  visibilityTimeoutMs?: number;
+}
+
+export interface NackOptions {
+  /** Error message recorded on the job */
+  error?: string;
+  /** Retry delay in milliseconds, instead of the exponential backoff */
+  delayMs?: number;
+  /** Dead-letter the job without retrying it */
+  deadLetter?: boolean;
+}
+
+/** Where a nacked job went */
+export type NackOutcome = "retry" | "dead";
+
+export interface QueueStats {
+  /** Jobs ready to be dequeued */
+  waiting: number;
+  /** Jobs dequeued and not yet acked */
+  active: number;
+  /** Jobs scheduled for later, including retries in backoff */
+  delayed: number;
+  /** Jobs in the dead-letter queue */
+  dead: number;
+}
+
+export interface QueueServiceConfig {
+  /** Key prefix for queue keys */
+  keyPrefix?: string;
+  /** Default visibility timeout in milliseconds */
+  defaultVisibilityTimeoutMs?: number;
+  /** Default attempts allowed per job */
+  defaultMaxAttempts?: number;
+  /** Delay before the first retry in milliseconds, doubled on each attempt */
+  backoffMs?: number;
+  /** Upper bound for the retry delay in milliseconds */
+  maxBackoffMs?: number;
+}
+
+/** Job as stored in the jobs hash; `data` holds the serialized payload */
+interface StoredJob {
+  id: string;
+  data: string;
+  attempts: number;
+  maxAttempts: number;
+  enqueuedAt: number;
+  lastError?: string;
+}
+
+const VISIBILITY_TIMEOUT_ERROR = "Visibility timeout expired";
+
+function parseStoredJob(raw: string): StoredJob {
+  return JSON.parse(raw) as StoredJob;
+}
+
+// =============================================
+// LUA SCRIPTS
+// =============================================
+// Keys per queue: a waiting list (pushed left, popped right), an active
+// sorted set scored by visibility deadline, a delayed sorted set scored by
+// run time, a dead list and a hash of job records by id
+
+export const enqueueJobScript = defineScript({
+  script: `
+    local waiting = KEYS[1]
+    local delayed = KEYS[2]
+    local jobs = KEYS[3]
+    local id = ARGV[1]
+    local runAt = tonumber(ARGV[3])
+    local now = tonumber(ARGV[4])
+
+    redis.call('HSET', jobs, id, ARGV[2])
+    if runAt > now then
+      redis.call('ZADD', delayed, runAt, id)
+    else
+      redis.call('LPUSH', waiting, id)
+    end
+    return 1
+  `,
+  language: "lua",
+  keys: ["waitingKey", "delayedKey", "jobsKey"] as const,
+  args: ["jobId", "job", "runAt", "now"] as const,
+  description: "Store a job and make it waiting or delayed",
+  jsImpl: async (adapter, keys, args) => {
+    const [waiting, delayed, jobs] = keys as [string, string, string];
+    const id = args[0]!;
+    const runAt = Number(args[2]);
+
+    await adapter.hset(jobs, id, args[1]!);
+    if (runAt > Number(args[3])) {
+      await adapter.zadd(delayed, [{ score: runAt, member: id }]);
+    } else {
+      await adapter.lpush(waiting, id);
+    }
+    return 1;
+  },
+});
+
+export const dequeueJobScript = defineScript({
+  script: `
+    local waiting = KEYS[1]
+    local active = KEYS[2]
+    local delayed = KEYS[3]
+    local dead = KEYS[4]
+    local jobs = KEYS[5]
+    local now = tonumber(ARGV[1])
+    local visibilityMs = tonumber(ARGV[2])
+
+    local due = redis.call('ZRANGEBYSCORE', delayed, '-inf', now)
+    for _, id in ipairs(due) do
+      redis.call('ZREM', delayed, id)
+      redis.call('LPUSH', waiting, id)
+    end
+
+    local expired = redis.call('ZRANGEBYSCORE', active, '-inf', now)
+    for _, id in ipairs(expired) do
+      redis.call('ZREM', active, id)
+      local raw = redis.call('HGET', jobs, id)
+      if raw then
+        local job = cjson.decode(raw)
+        job.lastError = ARGV[3]
+        redis.call('HSET', jobs, id, cjson.encode(job))
+        if job.attempts >= job.maxAttempts then
+          redis.call('LPUSH', dead, id)
+        else
+          redis.call('RPUSH', waiting, id)
+        end
+      end
+    end
+
+    while true do
+      local id = redis.call('RPOP', waiting)
+      if not id then
+        return nil
+      end
+      local raw = redis.call('HGET', jobs, id)
+      if raw then
+        local job = cjson.decode(raw)
+        job.attempts = job.attempts + 1
+        raw = cjson.encode(job)
+        redis.call('HSET', jobs, id, raw)
+        redis.call('ZADD', active, now + visibilityMs, id)
+        return raw
+      end
+    end
+  `,
+  language: "lua",
+  keys: [
+    "waitingKey",
+    "activeKey",
+    "delayedKey",
+    "deadKey",
+    "jobsKey",
+  ] as const,
+  args: ["now", "visibilityTimeoutMs", "timeoutError"] as const,
+  description:
+    "Promote due jobs, requeue timed-out jobs and claim the next waiting job",
+  parseResult: (result) =>
+    typeof result === "string" ? parseStoredJob(result) : null,
+  jsImpl: async (adapter, keys, args) => {
+    const [waiting, active, delayed, dead, jobs] = keys as [
+      string,
+      string,
+      string,
+      string,
+      string,
+    ];
+    const now = Number(args[0]);
+
+    const due = (await adapter.zrangebyscore(delayed, "-inf", now)) as string[];
+    for (const id of due) {
+      await adapter.zrem(delayed, id);
+      await adapter.lpush(waiting, id);
+    }
+
+    const expired = (await adapter.zrangebyscore(
+      active,
+      "-inf",
+      now,
+    )) as string[];
+    for (const id of expired) {
+      await adapter.zrem(active, id);
+      const raw = await adapter.hget(jobs, id);
+      if (raw === null) continue;
+
+      const job = parseStoredJob(raw);
+      job.lastError = args[2];
+      await adapter.hset(jobs, id, JSON.stringify(job));
+      if (job.attempts >= job.maxAttempts) {
+        await adapter.lpush(dead, id);
+      } else {
+        await adapter.rpush(waiting, id);
+      }
+    }
+
+    for (;;) {
+      const id = await adapter.rpop(waiting);
+      if (id === null) return null;
+
+      const raw = await adapter.hget(jobs, id);
+      if (raw === null) continue;
+
+      const job = parseStoredJob(raw);
+      job.attempts += 1;
+      const updated = JSON.stringify(job);
+      await adapter.hset(jobs, id, updated);
+      await adapter.zadd(active, [
+        { score: now + Number(args[1]), member: id },
+      ]);
+      return updated;
+    }
+  },
+});
+
+export const ackJobScript = defineScript({
+  script: `
+    if redis.call('ZREM', KEYS[1], ARGV[1]) == 1 then
+      redis.call('HDEL', KEYS[2], ARGV[1])
+      return 1
+    end
+    return 0
+  `,
+  language: "lua",
+  keys: ["activeKey", "jobsKey"] as const,
+  args: ["jobId"] as const,
+  description: "Remove an active job once it has been processed",
+  parseResult: (result) => (result as number) === 1,
+  jsImpl: async (adapter, keys, args) => {
+    const id = args[0]!;
+
+    if ((await adapter.zrem(keys[0]!, id)) === 1) {
+      await adapter.hdel(keys[1]!, id);
+      return 1;
+    }
+    return 0;
+  },
+});
+
+export const nackJobScript = defineScript({
+  script: `
+    local active = KEYS[1]
+    local delayed = KEYS[2]
+    local dead = KEYS[3]
+    local jobs = KEYS[4]
+    local id = ARGV[1]
+    local now = tonumber(ARGV[2])
+
+    if redis.call('ZREM', active, id) == 0 then
+      return 0
+    end
+    local raw = redis.call('HGET', jobs, id)
+    if not raw then
+      return 0
+    end
+
+    local job = cjson.decode(raw)
+    if ARGV[3] ~= '' then
+      job.lastError = ARGV[3]
+    end
+    redis.call('HSET', jobs, id, cjson.encode(job))
+
+    if ARGV[7] == '1' or job.attempts >= job.maxAttempts then
+      redis.call('LPUSH', dead, id)
+      return 2
+    end
+
+    local delay = tonumber(ARGV[6])
+    if delay < 0 then
+      delay = math.min(
+        tonumber(ARGV[4]) * 2 ^ (job.attempts - 1),
+        tonumber(ARGV[5]))
+    end
+    redis.call('ZADD', delayed, now + delay, id)
+    return 1
+  `,
+  language: "lua",
+  keys: ["activeKey", "delayedKey", "deadKey", "jobsKey"] as const,
+  args: [
+    "jobId",
+    "now",
+    "error",
+    "backoffMs",
+    "maxBackoffMs",
+    "delayMs",
+    "deadLetter",
+  ] as const,
+  description: "Schedule a retry for a failed job or dead-letter it",
+  parseResult: (result): NackOutcome | null =>
+    result === 1 ? "retry" : result === 2 ? "dead" : null,
+  jsImpl: async (adapter, keys, args) => {
+    const [active, delayed, dead, jobs] = keys as [
+      string,
+      string,
+      string,
+      string,
+    ];
+    const id = args[0]!;
+
+    if ((await adapter.zrem(active, id)) === 0) return 0;
+    const raw = await adapter.hget(jobs, id);
+    if (raw === null) return 0;
+
+    const job = parseStoredJob(raw);
+    if (args[2]) job.lastError = args[2];
+    await adapter.hset(jobs, id, JSON.stringify(job));
+
+    if (args[6] === "1" || job.attempts >= job.maxAttempts) {
+      await adapter.lpush(dead, id);
+      return 2;
+    }
+
+    let delay = Number(args[5]);
+    if (delay < 0) {
+      delay = Math.min(
+        Number(args[3]) * 2 ** (job.attempts - 1),
+        Number(args[4]),
+      );
+    }
+    await adapter.zadd(delayed, [
+      { score: Number(args[1]) + delay, member: id },
+    ]);
+    return 1;
+  },
+});
+
+export const retryDeadJobScript = defineScript({
+  script: `
+    local dead = KEYS[1]
+    local waiting = KEYS[2]
+    local jobs = KEYS[3]
+    local id = ARGV[1]
+
+    if redis.call('LREM', dead, 0, id) == 0 then
+      return 0
+    end
+    local raw = redis.call('HGET', jobs, id)
+    if not raw then
+      return 0
+    end
+
+    local job = cjson.decode(raw)
+    job.attempts = 0
+    job.lastError = nil
+    redis.call('HSET', jobs, id, cjson.encode(job))
+    redis.call('LPUSH', waiting, id)
+    return 1
+  `,
+  language: "lua",
+  keys: ["deadKey", "waitingKey", "jobsKey"] as const,
+  args: ["jobId"] as const,
+  description: "Move a dead-lettered job back to the waiting list",
+  parseResult: (result) => (result as number) === 1,
+  jsImpl: async (adapter, keys, args) => {
+    const [dead, waiting, jobs] = keys as [string, string, string];
+    const id = args[0]!;
+
+    if ((await adapter.lrem(dead, 0, id)) === 0) return 0;
+    const raw = await adapter.hget(jobs, id);
+    if (raw === null) return 0;
+
+    const { lastError: _, ...job } = parseStoredJob(raw);
+    await adapter.hset(jobs, id, JSON.stringify({ ...job, attempts: 0 }));
+    await adapter.lpush(waiting, id);
+    return 1;
+  },
+});
+
+export const purgeDeadJobsScript = defineScript({
+  script: `
+    local ids = redis.call('LRANGE', KEYS[1], 0, -1)
+    for _, id in ipairs(ids) do
+      redis.call('HDEL', KEYS[2], id)
+    end
+    redis.call('DEL', KEYS[1])
+    return #ids
+  `,
+  language: "lua",
+  keys: ["deadKey", "jobsKey"] as const,
+  args: [] as const,
+  description: "Delete every dead-lettered job",
+  parseResult: (result) => result as number,
+  jsImpl: async (adapter, keys) => {
+    const ids = await adapter.lrange(keys[0]!, 0, -1);
+    if (ids.length > 0) await adapter.hdel(keys[1]!, ...ids);
+    await adapter.del(keys[0]!);
+    return ids.length;
+  },
+});
+
+// =============================================
+// QUEUE SERVICE CLASS
+// =============================================
+
+export class QueueService {
+  private readonly adapter: CacheAdapter;
+  private readonly config: Required<QueueServiceConfig>;
+
+  constructor(adapter: CacheAdapter, config?: QueueServiceConfig) {
+    this.adapter = adapter;
+    this.config = {
+      keyPrefix: config?.keyPrefix ?? "queue",
+      defaultVisibilityTimeoutMs: config?.defaultVisibilityTimeoutMs ?? 30000,
+      defaultMaxAttempts: config?.defaultMaxAttempts ?? 3,
+      backoffMs: config?.backoffMs ?? 1000,
+      maxBackoffMs: config?.maxBackoffMs ?? 300000,
+    };
+  }
+
+  /**
+   * Add a job to a queue. Returns the job id.
+   */
+  async enqueue<T>(
+    queue: string,
+    data: T,
+    options?: EnqueueOptions,
+  ): Promise<string> {
+    const now = Date.now();
+    const job: StoredJob = {
+      id: this.generateJobId(),
+      data: JSON.stringify(data),
+      attempts: 0,
+      maxAttempts: options?.maxAttempts ?? this.config.defaultMaxAttempts,
+      enqueuedAt: now,
+    };
+
+    await this.runScript(
+      enqueueJobScript,
+      [
+        this.buildKey(queue, "waiting"),
+        this.buildKey(queue, "delayed"),
+        this.buildKey(queue, "jobs"),
+      ],
+      [job.id, JSON.stringify(job), now + (options?.delayMs ?? 0), now],
+    );
+    return job.id;
+  }
+
+  /**
+   * Claim the next waiting job. The job must be acked or nacked within the
+   * visibility timeout, or it is retried as a failed attempt.
+   */
+  async dequeue<T>(
+    queue: string,
+    options?: DequeueOptions,
+  ): Promise<QueueJob<T> | null> {
+    const visibilityTimeoutMs =
+      options?.visibilityTimeoutMs ?? this.config.defaultVisibilityTimeoutMs;
+
+    const job = await this.runScript(
+      dequeueJobScript,
+      [
+        this.buildKey(queue, "waiting"),
+        this.buildKey(queue, "active"),
+        this.buildKey(queue, "delayed"),
+        this.buildKey(queue, "dead"),
+        this.buildKey(queue, "jobs"),
+      ],
+      [Date.now(), visibilityTimeoutMs, VISIBILITY_TIMEOUT_ERROR],
+    );
+    return job ? this.toQueueJob<T>(queue, job) : null;
+  }
+
+  /**
+   * Mark an active job as done and delete it. Returns false if the job is
+   * not active, e.g. because its visibility timeout ran out.
+   */
+  async ack(queue: string, jobId: string): Promise<boolean> {
+    return this.runScript(
+      ackJobScript,
+      [this.buildKey(queue, "active"), this.buildKey(queue, "jobs")],
+      [jobId],
+    );
+  }
+
+  /**
+   * Mark an active job as failed. It is retried after an exponential backoff
+   * until it runs out of attempts, then moved to the dead-letter queue.
+   * Returns null if the job is not active.
+   */
+  async nack(
+    queue: string,
+    jobId: string,
+    options?: NackOptions,
+  ): Promise<NackOutcome | null> {
+    return this.runScript(
+      nackJobScript,
+      [
+        this.buildKey(queue, "active"),
+        this.buildKey(queue, "delayed"),
+        this.buildKey(queue, "dead"),
+        this.buildKey(queue, "jobs"),
+      ],
+      [
+        jobId,
+        Date.now(),
+        options?.error ?? "",
+        this.config.backoffMs,
+        this.config.maxBackoffMs,
+        options?.delayMs ?? -1,
+        options?.deadLetter ? 1 : 0,
+      ],
+    );
+  }
+
+  /**
+   * Get a job by id, in any state
+   */
+  async getJob<T>(queue: string, jobId: string): Promise<QueueJob<T> | null> {
+    const raw = await this.adapter.hget(this.buildKey(queue, "jobs"), jobId);
+    return raw === null ? null : this.toQueueJob<T>(queue, parseStoredJob(raw));
+  }
+
+  /**
+   * Get dead-lettered jobs, most recent first
+   */
+  async getDeadLetters<T>(queue: string, limit = 100): Promise<QueueJob<T>[]> {
+    const ids = await this.adapter.lrange(
+      this.buildKey(queue, "dead"),
+      0,
+      limit - 1,
+    );
+    if (ids.length === 0) return [];
+
+    const raws = await this.adapter.hmget(this.buildKey(queue, "jobs"), ids);
+    return raws
+      .filter((raw): raw is string => raw !== null)
+      .map((raw) => this.toQueueJob<T>(queue, parseStoredJob(raw)));
+  }
+
+  /**
+   * Move a dead-lettered job back to the queue with its attempts reset
+   */
+  async retryDeadLetter(queue: string, jobId: string): Promise<boolean> {
+    return this.runScript(
+      retryDeadJobScript,
+      [
+        this.buildKey(queue, "dead"),
+        this.buildKey(queue, "waiting"),
+        this.buildKey(queue, "jobs"),
+      ],
+      [jobId],
+    );
+  }
+
+  /**
+   * Delete every dead-lettered job. Returns the number of jobs deleted.
+   */
+  async purgeDeadLetters(queue: string): Promise<number> {
+    return this.runScript(
+      purgeDeadJobsScript,
+      [this.buildKey(queue, "dead"), this.buildKey(queue, "jobs")],
+      [],
+    );
+  }
+
+  /**
+   * Count jobs in each state
+   */
+  async getStats(queue: string): Promise<QueueStats> {
+    const [waiting, active, delayed, dead] = await Promise.all([
+      this.adapter.llen(this.buildKey(queue, "waiting")),
+      this.adapter.zcard(this.buildKey(queue, "active")),
+      this.adapter.zcard(this.buildKey(queue, "delayed")),
+      this.adapter.llen(this.buildKey(queue, "dead")),
+    ]);
+    return { waiting, active, delayed, dead };
+  }
+
+  private runScript<TResult>(
+    script: ScriptDefinition<any, any, TResult>,
+    keys: string[],
+    args: (string | number)[],
+  ): Promise<TResult> {
+    if (typeof this.adapter.executeScript !== "function") {
+      throw new CacheError(
+        `QueueService requires script support (${this.adapter.name})`,
+        CacheErrorCode.ADAPTER_NOT_SUPPORTED,
+      );
+    }
+    return this.adapter.executeScript(script, keys, args);
+  }
+
+  private toQueueJob<T>(queue: string, job: StoredJob): QueueJob<T> {
+    return {
+      ...job,
+      queue,
+      data: JSON.parse(job.data) as T,
+    };
+  }
+
+  private buildKey(queue: string, part: string): string {
+    return `${this.config.keyPrefix}:${queue}:${part}`;
+  }
+
+  private generateJobId(): string {
+    return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  }
+}
+
+export function createQueueService(
+  adapter: CacheAdapter,
+  config?: QueueServiceConfig,
+): QueueService {
+  return new QueueService(adapter, config);
+}
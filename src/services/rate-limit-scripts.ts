@@ -5,6 +5,7 @@
 // =============================================
 
 import { defineScript } from "../types/operation.types";
+import { slidingWindowRateLimitScript } from "./rate-limit.service";
 
 // =============================================
 // TOKEN BUCKET
@@ -53,6 +54,42 @@ export const tokenBucketRateLimitScript = defineScript({
     const [allowed, tokens, resetAt] = result as [number, number, number];
     return { allowed: allowed === 1, tokens, resetAt };
   },
+  jsImpl: async (adapter, keys, args) => {
+    const key = keys[0]!;
+    const bucketSize = Number(args[0]);
+    const refillRate = Number(args[1]);
+    const tokensRequested = Number(args[2]);
+    const now = Number(args[3]);
+
+    const [storedTokens, storedRefill] = await adapter.hmget(key, [
+      "tokens",
+      "lastRefill",
+    ]);
+    let tokens = bucketSize;
+    let lastRefill = now;
+
+    if (storedTokens != null) {
+      tokens = Number(storedTokens);
+      lastRefill = Number(storedRefill);
+    }
+
+    const elapsed = (now - lastRefill) / 1000;
+    tokens = Math.min(bucketSize, tokens + elapsed * refillRate);
+
+    const allowed = tokens >= tokensRequested;
+
+    if (allowed) {
+      tokens = tokens - tokensRequested;
+    }
+
+    await adapter.hmset(key, { tokens, lastRefill: now });
+    await adapter.expire(key, Math.ceil(bucketSize / refillRate) + 1);
+
+    const tokensNeeded = bucketSize - tokens;
+    const resetAt = now + (tokensNeeded / refillRate) * 1000;
+
+    return [allowed ? 1 : 0, Math.trunc(tokens), Math.trunc(resetAt)];
+  },
 });
 
 export function buildTokenBucketParams(
@@ -108,6 +145,8 @@ export const enhancedSlidingWindowScript = defineScript({
     const [allowed, count, resetAt] = result as [number, number, number];
     return { allowed: allowed === 1, count, resetAt };
   },
+  // Same logic as the service's sliding window script
+  jsImpl: slidingWindowRateLimitScript.jsImpl,
 });
 
 export function buildSlidingWindowParams(
@@ -186,6 +225,36 @@ export const multiTierRateLimitScript = defineScript({
       })),
     };
   },
+  jsImpl: async (adapter, keys, args) => {
+    const numTiers = Number(args[0]);
+    let allowed = true;
+    const results: Array<[number, number, number, number]> = [];
+
+    for (let i = 0; i < numTiers; i++) {
+      const key = keys[i]!;
+      const maxRequests = Number(args[1 + i * 2]);
+      const windowSeconds = Number(args[2 + i * 2]);
+
+      let current = Number((await adapter.get(key)) ?? 0);
+      const tierAllowed = current < maxRequests;
+
+      if (tierAllowed) {
+        current = await adapter.incr(key);
+        if (current === 1) {
+          await adapter.expire(key, windowSeconds);
+        }
+      } else {
+        allowed = false;
+      }
+
+      let ttl = await adapter.ttl(key);
+      if (ttl < 0) ttl = windowSeconds;
+
+      results.push([current, maxRequests, ttl, tierAllowed ? 1 : 0]);
+    }
+
+    return [allowed ? 1 : 0, results];
+  },
 });
 
 export function buildMultiTierParams(
@@ -257,6 +326,38 @@ export const quotaRateLimitScript = defineScript({
       resetAt,
     };
   },
+  jsImpl: async (adapter, keys, args) => {
+    const key = keys[0]!;
+    const quota = Number(args[0]);
+    const resetTime = Number(args[1]);
+    const now = Number(args[2]);
+    const cost = Number(args[3]);
+
+    const lastReset = Number((await adapter.hget(key, "lastReset")) ?? 0);
+
+    if (now >= resetTime && lastReset < resetTime) {
+      await adapter.hmset(key, { used: 0, lastReset: now });
+    }
+
+    let used = Number((await adapter.hget(key, "used")) ?? 0);
+    const remaining = quota - used;
+    const allowed = remaining >= cost;
+
+    if (allowed) {
+      used = await adapter.hincrby(key, "used", cost);
+    }
+
+    let nextReset = resetTime;
+    if (now >= resetTime) {
+      const secondsInDay = 86400;
+      nextReset =
+        resetTime + Math.ceil((now - resetTime) / secondsInDay) * secondsInDay;
+    }
+
+    await adapter.expireat(key, nextReset + 3600);
+
+    return [allowed ? 1 : 0, used, quota, nextReset];
+  },
 });
 
 export function buildQuotaParams(
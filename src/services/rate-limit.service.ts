@@ -87,6 +87,26 @@ export const rateLimitCheckScript = defineScript({
     const [count, ttl, allowed] = result as [number, number, number];
     return { count, ttl, allowed: allowed === 1 };
   },
+  jsImpl: async (adapter, keys, args) => {
+    const key = keys[0]!;
+    const maxRequests = Number(args[0]);
+    const windowSeconds = Number(args[1]);
+
+    let current = Number((await adapter.get(key)) ?? 0);
+    const allowed = current < maxRequests;
+
+    if (allowed) {
+      current = await adapter.incr(key);
+      if (current === 1) {
+        await adapter.expire(key, windowSeconds);
+      }
+    }
+
+    let ttl = await adapter.ttl(key);
+    if (ttl < 0) ttl = windowSeconds;
+
+    return [current, ttl, allowed ? 1 : 0];
+  },
 });
 
 export const slidingWindowRateLimitScript = defineScript({
@@ -126,6 +146,33 @@ export const slidingWindowRateLimitScript = defineScript({
     const [allowed, count, resetAt] = result as [number, number, number];
     return { allowed: allowed === 1, count, resetAt };
   },
+  jsImpl: async (adapter, keys, args) => {
+    const key = keys[0]!;
+    const maxRequests = Number(args[0]);
+    const windowMs = Number(args[1]);
+    const now = Number(args[2]);
+    const requestId = args[3]!;
+
+    await adapter.zremrangebyscore(key, "-inf", now - windowMs);
+
+    let count = await adapter.zcard(key);
+    const allowed = count < maxRequests;
+
+    if (allowed) {
+      await adapter.zadd(key, [{ score: now, member: requestId }]);
+      count = count + 1;
+    }
+
+    // The adapter API has no PEXPIRE; round up to whole seconds
+    await adapter.expire(key, Math.ceil(windowMs / 1000));
+
+    const [oldest] = (await adapter.zrange(key, 0, 0, {
+      withScores: true,
+    })) as Array<{ member: string; score: number }>;
+    const resetAt = oldest ? oldest.score + windowMs : now + windowMs;
+
+    return [allowed ? 1 : 0, count, Math.trunc(resetAt)];
+  },
 });
 
 // =============================================
@@ -0,0 +1,571 @@
+// =============================================
+// CACHYER - SCHEDULER SERVICE
+// =============================================
+// Jobs scheduled by due time in a sorted set, with recurring cron and
+// interval schedules, de-duplication by job id and cancellation
+// =============================================
+
+import type { CacheAdapter } from "../types/adapter.types";
+import { CacheError, CacheErrorCode } from "../types/core.types";
+import { defineScript, type ScriptDefinition } from "../types/operation.types";
+import { nextCronTime, parseCron } from "../utils/cron";
+
+// =============================================
+// TYPES
+// =============================================
+
+export interface ScheduledJob<T = unknown> {
+  id: string;
+  scheduler: string;
+  data: T;
+  /** Time the job is due, in epoch milliseconds */
+  dueAt: number;
+  /** Cron expression of a recurring job, evaluated in UTC */
+  cron?: string;
+  /** Interval of a recurring job in milliseconds */
+  everyMs?: number;
+}
+
+export interface ScheduleOptions {
+  /**
+   * Job id. Scheduling an id that is already scheduled does nothing
+   * unless `replace` is set. Defaults to a random id.
+   */
+  id?: string;
+  /** Due time, as a Date or epoch milliseconds */
+  at?: Date | number;
+  /** Due time relative to now, in milliseconds */
+  delayMs?: number;
+  /** Run on a cron expression, evaluated in UTC */
+  cron?: string;
+  /** Run every interval, in milliseconds */
+  everyMs?: number;
+  /** Overwrite a job already scheduled under the same id */
+  replace?: boolean;
+}
+
+export interface ScheduleResult {
+  /** False if a job with the same id was already scheduled */
+  scheduled: boolean;
+  id: string;
+  dueAt: number;
+}
+
+export interface SchedulerStats {
+  /** Jobs waiting for their due time */
+  scheduled: number;
+  /** Jobs claimed and not yet completed */
+  processing: number;
+}
+
+export interface SchedulerServiceConfig {
+  /** Key prefix for scheduler keys */
+  keyPrefix?: string;
+  /** Default maximum number of jobs per claim */
+  defaultClaimLimit?: number;
+}
+
+/** Job as stored in the jobs hash; `data` holds the serialized payload */
+interface StoredScheduledJob {
+  id: string;
+  data: string;
+  dueAt: number;
+  cron?: string;
+  everyMs?: number;
+}
+
+function parseStoredJob(raw: string): StoredScheduledJob {
+  return JSON.parse(raw) as StoredScheduledJob;
+}
+
+// =============================================
+// LUA SCRIPTS
+// =============================================
+// Keys per scheduler: a sorted set of job ids scored by due time, a list of
+// claimed job ids and a hash of job records by id
+
+export const scheduleJobScript = defineScript({
+  script: `
+    local due = KEYS[1]
+    local processing = KEYS[2]
+    local jobs = KEYS[3]
+    local id = ARGV[1]
+
+    if ARGV[4] ~= '1' and redis.call('HEXISTS', jobs, id) == 1 then
+      return 0
+    end
+    redis.call('HSET', jobs, id, ARGV[3])
+    redis.call('LREM', processing, 0, id)
+    redis.call('ZADD', due, ARGV[2], id)
+    return 1
+  `,
+  language: "lua",
+  keys: ["dueKey", "processingKey", "jobsKey"] as const,
+  args: ["jobId", "dueAt", "job", "replace"] as const,
+  description: "Schedule a job unless its id is already scheduled",
+  parseResult: (result) => (result as number) === 1,
+  jsImpl: async (adapter, keys, args) => {
+    const [due, processing, jobs] = keys as [string, string, string];
+    const id = args[0]!;
+
+    if (args[3] !== "1" && (await adapter.hexists(jobs, id))) return 0;
+    await adapter.hset(jobs, id, args[2]!);
+    await adapter.lrem(processing, 0, id);
+    await adapter.zadd(due, [{ score: Number(args[1]), member: id }]);
+    return 1;
+  },
+});
+
+export const claimDueJobsScript = defineScript({
+  script: `
+    local due = KEYS[1]
+    local processing = KEYS[2]
+    local jobs = KEYS[3]
+
+    local ids = redis.call('ZRANGEBYSCORE', due, '-inf', ARGV[1],
+      'LIMIT', 0, ARGV[2])
+    local claimed = {}
+    for _, id in ipairs(ids) do
+      redis.call('ZREM', due, id)
+      local raw = redis.call('HGET', jobs, id)
+      if raw then
+        redis.call('RPUSH', processing, id)
+        table.insert(claimed, raw)
+      end
+    end
+    return claimed
+  `,
+  language: "lua",
+  keys: ["dueKey", "processingKey", "jobsKey"] as const,
+  args: ["now", "limit"] as const,
+  description: "Move due jobs to the processing list",
+  parseResult: (result) => (result as string[]).map(parseStoredJob),
+  jsImpl: async (adapter, keys, args) => {
+    const [due, processing, jobs] = keys as [string, string, string];
+
+    const ids = (await adapter.zrangebyscore(due, "-inf", Number(args[0]), {
+      limit: { offset: 0, count: Number(args[1]) },
+    })) as string[];
+    const claimed: string[] = [];
+    for (const id of ids) {
+      await adapter.zrem(due, id);
+      const raw = await adapter.hget(jobs, id);
+      if (raw !== null) {
+        await adapter.rpush(processing, id);
+        claimed.push(raw);
+      }
+    }
+    return claimed;
+  },
+});
+
+export const completeJobScript = defineScript({
+  script: `
+    local processing = KEYS[1]
+    local due = KEYS[2]
+    local jobs = KEYS[3]
+    local id = ARGV[1]
+
+    if redis.call('LREM', processing, 0, id) == 0 then
+      return 0
+    end
+    local raw = redis.call('HGET', jobs, id)
+    if ARGV[2] == '' or not raw then
+      redis.call('HDEL', jobs, id)
+      return 1
+    end
+
+    local job = cjson.decode(raw)
+    job.dueAt = tonumber(ARGV[2])
+    redis.call('HSET', jobs, id, cjson.encode(job))
+    redis.call('ZADD', due, ARGV[2], id)
+    return 1
+  `,
+  language: "lua",
+  keys: ["processingKey", "dueKey", "jobsKey"] as const,
+  args: ["jobId", "nextDueAt"] as const,
+  description: "Finish a claimed job: delete it, or reschedule it if it recurs",
+  parseResult: (result) => (result as number) === 1,
+  jsImpl: async (adapter, keys, args) => {
+    const [processing, due, jobs] = keys as [string, string, string];
+    const id = args[0]!;
+
+    if ((await adapter.lrem(processing, 0, id)) === 0) return 0;
+    const raw = await adapter.hget(jobs, id);
+    if (!args[1] || raw === null) {
+      await adapter.hdel(jobs, id);
+      return 1;
+    }
+
+    const dueAt = Number(args[1]);
+    await adapter.hset(
+      jobs,
+      id,
+      JSON.stringify({ ...parseStoredJob(raw), dueAt }),
+    );
+    await adapter.zadd(due, [{ score: dueAt, member: id }]);
+    return 1;
+  },
+});
+
+export const releaseJobScript = defineScript({
+  script: `
+    local processing = KEYS[1]
+    local due = KEYS[2]
+    local jobs = KEYS[3]
+    local id = ARGV[1]
+
+    if redis.call('LREM', processing, 0, id) == 0 then
+      return 0
+    end
+    local raw = redis.call('HGET', jobs, id)
+    if not raw then
+      return 0
+    end
+
+    local job = cjson.decode(raw)
+    job.dueAt = tonumber(ARGV[2])
+    redis.call('HSET', jobs, id, cjson.encode(job))
+    redis.call('ZADD', due, ARGV[2], id)
+    return 1
+  `,
+  language: "lua",
+  keys: ["processingKey", "dueKey", "jobsKey"] as const,
+  args: ["jobId", "dueAt"] as const,
+  description: "Return a claimed job to the schedule",
+  parseResult: (result) => (result as number) === 1,
+  jsImpl: async (adapter, keys, args) => {
+    const [processing, due, jobs] = keys as [string, string, string];
+    const id = args[0]!;
+
+    if ((await adapter.lrem(processing, 0, id)) === 0) return 0;
+    const raw = await adapter.hget(jobs, id);
+    if (raw === null) return 0;
+
+    const dueAt = Number(args[1]);
+    await adapter.hset(
+      jobs,
+      id,
+      JSON.stringify({ ...parseStoredJob(raw), dueAt }),
+    );
+    await adapter.zadd(due, [{ score: dueAt, member: id }]);
+    return 1;
+  },
+});
+
+export const recoverProcessingJobsScript = defineScript({
+  script: `
+    local ids = redis.call('LRANGE', KEYS[1], 0, -1)
+    for _, id in ipairs(ids) do
+      if redis.call('HEXISTS', KEYS[3], id) == 1 then
+        redis.call('ZADD', KEYS[2], ARGV[1], id)
+      end
+    end
+    redis.call('DEL', KEYS[1])
+    return #ids
+  `,
+  language: "lua",
+  keys: ["processingKey", "dueKey", "jobsKey"] as const,
+  args: ["now"] as const,
+  description: "Return every claimed job to the schedule",
+  parseResult: (result) => result as number,
+  jsImpl: async (adapter, keys, args) => {
+    const [processing, due, jobs] = keys as [string, string, string];
+
+    const ids = await adapter.lrange(processing, 0, -1);
+    for (const id of ids) {
+      if (await adapter.hexists(jobs, id)) {
+        await adapter.zadd(due, [{ score: Number(args[0]), member: id }]);
+      }
+    }
+    await adapter.del(processing);
+    return ids.length;
+  },
+});
+
+export const cancelJobScript = defineScript({
+  script: `
+    local removed = redis.call('HDEL', KEYS[3], ARGV[1])
+    redis.call('ZREM', KEYS[1], ARGV[1])
+    redis.call('LREM', KEYS[2], 0, ARGV[1])
+    return removed
+  `,
+  language: "lua",
+  keys: ["dueKey", "processingKey", "jobsKey"] as const,
+  args: ["jobId"] as const,
+  description: "Remove a job from the schedule",
+  parseResult: (result) => (result as number) === 1,
+  jsImpl: async (adapter, keys, args) => {
+    const [due, processing, jobs] = keys as [string, string, string];
+    const id = args[0]!;
+
+    const removed = await adapter.hdel(jobs, id);
+    await adapter.zrem(due, id);
+    await adapter.lrem(processing, 0, id);
+    return removed;
+  },
+});
+
+// =============================================
+// SCHEDULER SERVICE CLASS
+// =============================================
+
+export class SchedulerService {
+  private readonly adapter: CacheAdapter;
+  private readonly config: Required<SchedulerServiceConfig>;
+
+  constructor(adapter: CacheAdapter, config?: SchedulerServiceConfig) {
+    this.adapter = adapter;
+    this.config = {
+      keyPrefix: config?.keyPrefix ?? "scheduler",
+      defaultClaimLimit: config?.defaultClaimLimit ?? 100,
+    };
+  }
+
+  /**
+   * Schedule a job. One-off jobs are due at `at`, after `delayMs` or
+   * immediately; recurring jobs are first due at `at` or their first
+   * occurrence.
+   */
+  async schedule<T>(
+    scheduler: string,
+    data: T,
+    options?: ScheduleOptions,
+  ): Promise<ScheduleResult> {
+    if (options?.cron !== undefined && options.everyMs !== undefined) {
+      throw new Error("A job can recur on either cron or everyMs, not both");
+    }
+    if (options?.everyMs !== undefined && !(options.everyMs > 0)) {
+      throw new Error(`Invalid everyMs: ${options.everyMs}`);
+    }
+
+    const now = Date.now();
+    const at = options?.at instanceof Date ? options.at.getTime() : options?.at;
+    let dueAt: number;
+    if (at !== undefined) {
+      dueAt = at;
+    } else if (options?.cron !== undefined) {
+      dueAt = nextCronTime(parseCron(options.cron), now);
+    } else if (options?.everyMs !== undefined) {
+      dueAt = now + options.everyMs;
+    } else {
+      dueAt = now + (options?.delayMs ?? 0);
+    }
+
+    const job: StoredScheduledJob = {
+      id: options?.id ?? this.generateJobId(),
+      data: JSON.stringify(data),
+      dueAt,
+      cron: options?.cron,
+      everyMs: options?.everyMs,
+    };
+
+    const scheduled = await this.runScript(
+      scheduleJobScript,
+      [
+        this.buildKey(scheduler, "due"),
+        this.buildKey(scheduler, "processing"),
+        this.buildKey(scheduler, "jobs"),
+      ],
+      [job.id, dueAt, JSON.stringify(job), options?.replace ? 1 : 0],
+    );
+    return { scheduled, id: job.id, dueAt };
+  }
+
+  /**
+   * Claim jobs that are due, oldest first, moving them to the processing
+   * list. Each claimed job must be completed or released.
+   */
+  async claimDue<T>(
+    scheduler: string,
+    limit: number = this.config.defaultClaimLimit,
+  ): Promise<ScheduledJob<T>[]> {
+    const jobs = await this.runScript(
+      claimDueJobsScript,
+      [
+        this.buildKey(scheduler, "due"),
+        this.buildKey(scheduler, "processing"),
+        this.buildKey(scheduler, "jobs"),
+      ],
+      [Date.now(), limit],
+    );
+    return jobs.map((job) => this.toScheduledJob<T>(scheduler, job));
+  }
+
+  /**
+   * Finish a claimed job. One-off jobs are deleted; recurring jobs are
+   * rescheduled at their next occurrence. Returns false if the job is not
+   * claimed, e.g. because it was cancelled.
+   */
+  async complete(scheduler: string, jobId: string): Promise<boolean> {
+    const raw = await this.adapter.hget(
+      this.buildKey(scheduler, "jobs"),
+      jobId,
+    );
+    const nextDueAt = raw ? this.nextDueAt(parseStoredJob(raw)) : undefined;
+
+    return this.runScript(
+      completeJobScript,
+      [
+        this.buildKey(scheduler, "processing"),
+        this.buildKey(scheduler, "due"),
+        this.buildKey(scheduler, "jobs"),
+      ],
+      [jobId, nextDueAt ?? ""],
+    );
+  }
+
+  /**
+   * Return a claimed job to the schedule, e.g. after a failure
+   */
+  async release(
+    scheduler: string,
+    jobId: string,
+    delayMs = 0,
+  ): Promise<boolean> {
+    return this.runScript(
+      releaseJobScript,
+      [
+        this.buildKey(scheduler, "processing"),
+        this.buildKey(scheduler, "due"),
+        this.buildKey(scheduler, "jobs"),
+      ],
+      [jobId, Date.now() + delayMs],
+    );
+  }
+
+  /**
+   * Return every claimed job to the schedule, due now. Only safe while no
+   * worker is processing jobs, e.g. on startup after a crash.
+   */
+  async recoverProcessing(scheduler: string): Promise<number> {
+    return this.runScript(
+      recoverProcessingJobsScript,
+      [
+        this.buildKey(scheduler, "processing"),
+        this.buildKey(scheduler, "due"),
+        this.buildKey(scheduler, "jobs"),
+      ],
+      [Date.now()],
+    );
+  }
+
+  /**
+   * Cancel a job, including a recurring one. Returns false if no job has
+   * the id.
+   */
+  async cancel(scheduler: string, jobId: string): Promise<boolean> {
+    return this.runScript(
+      cancelJobScript,
+      [
+        this.buildKey(scheduler, "due"),
+        this.buildKey(scheduler, "processing"),
+        this.buildKey(scheduler, "jobs"),
+      ],
+      [jobId],
+    );
+  }
+
+  /**
+   * Get a job by id, scheduled or claimed
+   */
+  async getJob<T>(
+    scheduler: string,
+    jobId: string,
+  ): Promise<ScheduledJob<T> | null> {
+    const raw = await this.adapter.hget(
+      this.buildKey(scheduler, "jobs"),
+      jobId,
+    );
+    return raw === null
+      ? null
+      : this.toScheduledJob<T>(scheduler, parseStoredJob(raw));
+  }
+
+  /**
+   * Get the next jobs to become due, soonest first
+   */
+  async getUpcoming<T>(
+    scheduler: string,
+    limit = 100,
+  ): Promise<ScheduledJob<T>[]> {
+    const ids = (await this.adapter.zrange(
+      this.buildKey(scheduler, "due"),
+      0,
+      limit - 1,
+    )) as string[];
+    if (ids.length === 0) return [];
+
+    const raws = await this.adapter.hmget(
+      this.buildKey(scheduler, "jobs"),
+      ids,
+    );
+    return raws
+      .filter((raw): raw is string => raw !== null)
+      .map((raw) => this.toScheduledJob<T>(scheduler, parseStoredJob(raw)));
+  }
+
+  /**
+   * Count scheduled and claimed jobs
+   */
+  async getStats(scheduler: string): Promise<SchedulerStats> {
+    const [scheduled, processing] = await Promise.all([
+      this.adapter.zcard(this.buildKey(scheduler, "due")),
+      this.adapter.llen(this.buildKey(scheduler, "processing")),
+    ]);
+    return { scheduled, processing };
+  }
+
+  /** Next occurrence of a recurring job after now, skipping missed runs */
+  private nextDueAt(job: StoredScheduledJob): number | undefined {
+    const now = Date.now();
+    if (job.cron !== undefined) {
+      return nextCronTime(job.cron, Math.max(now, job.dueAt));
+    }
+    if (job.everyMs !== undefined) {
+      const elapsed = Math.max(1, Math.ceil((now - job.dueAt) / job.everyMs));
+      return job.dueAt + elapsed * job.everyMs;
+    }
+    return undefined;
+  }
+
+  private runScript<TResult>(
+    script: ScriptDefinition<any, any, TResult>,
+    keys: string[],
+    args: (string | number)[],
+  ): Promise<TResult> {
+    if (typeof this.adapter.executeScript !== "function") {
+      throw new CacheError(
+        `SchedulerService requires script support (${this.adapter.name})`,
+        CacheErrorCode.ADAPTER_NOT_SUPPORTED,
+      );
+    }
+    return this.adapter.executeScript(script, keys, args);
+  }
+
+  private toScheduledJob<T>(
+    scheduler: string,
+    job: StoredScheduledJob,
+  ): ScheduledJob<T> {
+    return {
+      ...job,
+      scheduler,
+      data: JSON.parse(job.data) as T,
+    };
+  }
+
+  private buildKey(scheduler: string, part: string): string {
+    return `${this.config.keyPrefix}:${scheduler}:${part}`;
+  }
+
+  private generateJobId(): string {
+    return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  }
+}
+
+export function createSchedulerService(
+  adapter: CacheAdapter,
+  config?: SchedulerServiceConfig,
+): SchedulerService {
+  return new SchedulerService(adapter, config);
+}
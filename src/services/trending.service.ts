@@ -0,0 +1,284 @@
+// =============================================
+// CACHYER - TRENDING SERVICE
+// =============================================
+// Trending rankings from engagement events, decayed by age through
+// periodic rescoring of time-bucketed sorted sets
+// =============================================
+
+import type { CacheAdapter } from "../types/adapter.types";
+import {
+  encodeCursor,
+  parseCursorParams,
+  type CursorPage,
+} from "../utils/cursor";
+import { applyTimeDecay, calculateWeightedScore } from "../utils/scoring";
+
+// =============================================
+// TYPES
+// =============================================
+
+export type TrendingItem = {
+  item: string;
+  /** Decayed, weighted engagement score */
+  score: number;
+  /** Position in the ranking, starting at 1 */
+  position: number;
+};
+
+export interface TrendingPageOptions {
+  /** Cursor from a previous page */
+  cursor?: string | null;
+  /** Page size, 1-100 (default: 20) */
+  limit?: number;
+}
+
+export interface TrendingServiceConfig {
+  /** Key prefix for trending keys */
+  keyPrefix?: string;
+  /** Score per event type */
+  weights?: Record<string, number>;
+  /** Ranking windows by name, in seconds */
+  windows?: Record<string, number>;
+  /** Length of the buckets events are counted in, in seconds */
+  bucketSeconds?: number;
+  /** Decay per hour of bucket age, as in applyTimeDecay */
+  decayFactor?: number;
+  /** How long a computed ranking is served before rescoring, in seconds */
+  refreshSeconds?: number;
+}
+
+// =============================================
+// DEFAULT CONFIGS
+// =============================================
+
+/** Same weights as calculateHotScore */
+export const DefaultTrendingWeights: Record<string, number> = {
+  like: 2,
+  comment: 3,
+  share: 5,
+  view: 0.1,
+};
+
+export const DefaultTrendingWindows: Record<string, number> = {
+  "1h": 3600,
+  "24h": 86400,
+  "7d": 604800,
+};
+
+// =============================================
+// TRENDING SERVICE CLASS
+// =============================================
+
+export class TrendingService {
+  private readonly adapter: CacheAdapter;
+  private readonly config: Required<TrendingServiceConfig>;
+  private readonly bucketMs: number;
+  private readonly maxWindowMs: number;
+
+  constructor(adapter: CacheAdapter, config?: TrendingServiceConfig) {
+    this.adapter = adapter;
+    this.config = {
+      keyPrefix: config?.keyPrefix ?? "trending",
+      weights: config?.weights ?? DefaultTrendingWeights,
+      windows: config?.windows ?? DefaultTrendingWindows,
+      bucketSeconds: config?.bucketSeconds ?? 3600,
+      decayFactor: config?.decayFactor ?? 0.1,
+      refreshSeconds: config?.refreshSeconds ?? 60,
+    };
+    this.bucketMs = this.config.bucketSeconds * 1000;
+    this.maxWindowMs =
+      Math.max(0, ...Object.values(this.config.windows)) * 1000;
+  }
+
+  /**
+   * Record engagement with an item: one event type, or counts per type
+   * (e.g. `{ like: 1, view: 20 }`). Returns the score added.
+   */
+  async record(
+    feed: string,
+    item: string,
+    events: string | Record<string, number>,
+  ): Promise<number> {
+    const counts = typeof events === "string" ? { [events]: 1 } : events;
+    for (const event of Object.keys(counts)) {
+      if (!(event in this.config.weights)) {
+        throw new Error(`Unknown trending event: ${event}`);
+      }
+    }
+
+    const score = calculateWeightedScore(counts, this.config.weights);
+    if (score === 0) return 0;
+
+    const bucket = this.bucketOf(Date.now());
+    const key = this.bucketKey(feed, bucket);
+    await this.adapter.zincrby(key, score, item);
+    // Keep the bucket until it falls out of the longest window
+    await this.adapter.expireat(
+      key,
+      Math.ceil(((bucket + 1) * this.bucketMs + this.maxWindowMs) / 1000),
+    );
+    return score;
+  }
+
+  /**
+   * Get a page of the most trending items in a window
+   */
+  async getTrending(
+    feed: string,
+    window: string,
+    options?: TrendingPageOptions,
+  ): Promise<CursorPage<TrendingItem>> {
+    const key = await this.ranking(feed, window);
+    const { offset, pageSize } = parseCursorParams(
+      options?.cursor,
+      options?.limit,
+    );
+    // The cursor holds the last item's score and member rather than its
+    // position, so rescoring between pages doesn't shift the next page
+    const after = offset
+      ? { score: Number(offset.after), item: String(offset.item) }
+      : null;
+
+    // One extra item tells whether there's another page
+    const items = await this.readAfter(key, after, pageSize + 1);
+    if (items.length === 0) {
+      return { items: [], nextCursor: null, hasMore: false };
+    }
+
+    const start = (await this.adapter.zrevrank(key, items[0]!.item)) ?? 0;
+    const hasMore = items.length > pageSize;
+    const page = items
+      .slice(0, pageSize)
+      .map((entry, i) => ({ ...entry, position: start + i + 1 }));
+    const last = page[page.length - 1]!;
+    return {
+      items: page,
+      nextCursor: hasMore
+        ? encodeCursor({ after: last.score, item: last.item })
+        : null,
+      hasMore,
+    };
+  }
+
+  /**
+   * Get an item's trending score in a window, or null if it has none
+   */
+  async getScore(
+    feed: string,
+    item: string,
+    window: string,
+  ): Promise<number | null> {
+    const score = await this.adapter.zscore(
+      await this.ranking(feed, window),
+      item,
+    );
+    return score === null ? null : parseFloat(score);
+  }
+
+  /**
+   * Rescore a window now instead of waiting for the cached ranking to
+   * expire. Returns the number of ranked items.
+   */
+  async refresh(feed: string, window: string): Promise<number> {
+    const windowMs = this.windowMs(window);
+    const now = Date.now();
+    const current = this.bucketOf(now);
+    const oldest = this.bucketOf(now - windowMs);
+
+    const sourceKeys: string[] = [];
+    const weights: number[] = [];
+    for (let bucket = current; bucket >= oldest; bucket--) {
+      const hoursElapsed = ((current - bucket) * this.bucketMs) / 3600000;
+      sourceKeys.push(this.bucketKey(feed, bucket));
+      weights.push(applyTimeDecay(1, hoursElapsed, this.config.decayFactor));
+    }
+
+    const key = this.rankingKey(feed, window);
+    const size = await this.adapter.zunionstore(key, sourceKeys, { weights });
+    if (size > 0) await this.adapter.expire(key, this.config.refreshSeconds);
+    return size;
+  }
+
+  /**
+   * Drop an item from every bucket and ranking, e.g. after it is deleted
+   */
+  async remove(feed: string, item: string): Promise<void> {
+    const now = Date.now();
+    const keys = Object.keys(this.config.windows).map((window) =>
+      this.rankingKey(feed, window),
+    );
+    for (
+      let bucket = this.bucketOf(now);
+      bucket >= this.bucketOf(now - this.maxWindowMs);
+      bucket--
+    ) {
+      keys.push(this.bucketKey(feed, bucket));
+    }
+    await Promise.all(keys.map((key) => this.adapter.zrem(key, item)));
+  }
+
+  /** Up to `count` items of a ranking that come after `after` */
+  private async readAfter(
+    key: string,
+    after: { score: number; item: string } | null,
+    count: number,
+  ): Promise<Array<{ item: string; score: number }>> {
+    // Items sharing the cursor's score are read again and filtered out
+    const ties = after
+      ? await this.adapter.zcount(key, after.score, after.score)
+      : 0;
+    const items = (await this.adapter.zrevrangebyscore(
+      key,
+      after ? after.score : "+inf",
+      "-inf",
+      { withScores: true, limit: { offset: 0, count: count + ties } },
+    )) as Array<{ member: string; score: number }>;
+
+    return (
+      items
+        // Tied items are ordered by member, highest first
+        .filter(
+          ({ member, score }) =>
+            !after || score < after.score || member < after.item,
+        )
+        .slice(0, count)
+        .map(({ member, score }) => ({ item: member, score }))
+    );
+  }
+
+  /** Key of a window's ranking, rescored when it has expired */
+  private async ranking(feed: string, window: string): Promise<string> {
+    const key = this.rankingKey(feed, window);
+    if ((await this.adapter.exists(key)) === 0) {
+      await this.refresh(feed, window);
+    }
+    return key;
+  }
+
+  private windowMs(window: string): number {
+    const seconds = this.config.windows[window];
+    if (seconds === undefined) {
+      throw new Error(`Unknown trending window: ${window}`);
+    }
+    return seconds * 1000;
+  }
+
+  private bucketOf(time: number): number {
+    return Math.floor(time / this.bucketMs);
+  }
+
+  private bucketKey(feed: string, bucket: number): string {
+    return `${this.config.keyPrefix}:${feed}:bucket:${bucket}`;
+  }
+
+  private rankingKey(feed: string, window: string): string {
+    return `${this.config.keyPrefix}:${feed}:window:${window}`;
+  }
+}
+
+export function createTrendingService(
+  adapter: CacheAdapter,
+  config?: TrendingServiceConfig,
+): TrendingService {
+  return new TrendingService(adapter, config);
+}
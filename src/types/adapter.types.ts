@@ -23,12 +23,22 @@ import type {
   CacheScanOptions,
   CacheSetOptions,
   CacheStats,
+  GeoCoordinates,
+  GeoMember,
+  GeoSearchOptions,
+  GeoSearchResult,
+  GeoUnit,
+  ListDirection,
+  SortedSetAggregateOptions,
   SortedSetRangeOptions,
+  StreamPendingEntry,
+  StreamPendingSummary,
 } from "./core.types";
 import type {
   AnyPipelineEntry,
   ExecuteOptions,
   ExecutorMetrics,
+  PipelineOptions,
   PipelineResult,
   ScriptDefinition,
   TransactionResult,
@@ -74,6 +84,17 @@ export interface AdapterConfig {
   enableMetrics?: boolean;
 }
 
+/**
+ * Keyspace events an adapter can notify about. As in Redis, "set" is only
+ * emitted by SET and MSET, not by writes to other types or INCRBY
+ */
+export type KeyspaceEvent = "expired" | "evicted" | "set" | "del";
+
+/**
+ * Keyspace event handler, called with the affected key
+ */
+export type KeyspaceEventHandler = (key: string, event: KeyspaceEvent) => void;
+
 /**
  * Connection status
  */
@@ -206,6 +227,65 @@ export interface CacheAdapter {
   /** Get element by index */
   lindex(key: string, index: number): Promise<string | null>;
 
+  /** Set element at index */
+  lset(key: string, index: number, value: string): Promise<"OK">;
+
+  /**
+   * Remove elements equal to value: the first `count` from the head when
+   * positive, from the tail when negative, all when 0
+   */
+  lrem(key: string, count: number, value: string): Promise<number>;
+
+  /** Insert before or after pivot; -1 if pivot is missing, 0 if key is */
+  linsert(
+    key: string,
+    position: "BEFORE" | "AFTER",
+    pivot: string,
+    value: string,
+  ): Promise<number>;
+
+  /** Get index of an element; `rank` picks the nth match (negative from tail) */
+  lpos(
+    key: string,
+    value: string,
+    options?: { rank?: number; maxlen?: number },
+  ): Promise<number | null>;
+
+  /**
+   * Pop from the left of the first non-empty list, waiting up to `timeout`
+   * seconds (0 = forever) for an element to be pushed
+   */
+  blpop(
+    keys: string[],
+    timeout: number,
+  ): Promise<{ key: string; value: string } | null>;
+
+  /** Pop from the right of the first non-empty list, waiting like blpop */
+  brpop(
+    keys: string[],
+    timeout: number,
+  ): Promise<{ key: string; value: string } | null>;
+
+  /** Atomically pop from one end of source and push to an end of destination */
+  lmove(
+    source: string,
+    destination: string,
+    from: ListDirection,
+    to: ListDirection,
+  ): Promise<string | null>;
+
+  /** lmove that waits up to `timeout` seconds (0 = forever) for an element */
+  blmove(
+    source: string,
+    destination: string,
+    from: ListDirection,
+    to: ListDirection,
+    timeout: number,
+  ): Promise<string | null>;
+
+  /** Pop from the right of source and push to the left of destination */
+  rpoplpush(source: string, destination: string): Promise<string | null>;
+
   // =============================================
   // SET OPERATIONS
   // =============================================
@@ -319,6 +399,68 @@ export interface CacheAdapter {
     options?: SortedSetRangeOptions,
   ): Promise<string[] | Array<{ member: string; score: number }>>;
 
+  /** Get members between two lexicographic bounds ("[a", "(a", "-", "+") */
+  zrangebylex(
+    key: string,
+    min: string,
+    max: string,
+    options?: { limit?: { offset: number; count: number } },
+  ): Promise<string[]>;
+
+  /** Store the union of sorted sets in destination, returns its size */
+  zunionstore(
+    destination: string,
+    keys: string[],
+    options?: SortedSetAggregateOptions,
+  ): Promise<number>;
+
+  /** Store the intersection of sorted sets in destination, returns its size */
+  zinterstore(
+    destination: string,
+    keys: string[],
+    options?: SortedSetAggregateOptions,
+  ): Promise<number>;
+
+  /** Get members of the first sorted set missing from all the others */
+  zdiff(
+    keys: string[],
+    options?: { withScores?: boolean },
+  ): Promise<string[] | Array<{ member: string; score: number }>>;
+
+  /** Remove and return the members with the lowest scores */
+  zpopmin(
+    key: string,
+    count?: number,
+  ): Promise<Array<{ member: string; score: number }>>;
+
+  /** Remove and return the members with the highest scores */
+  zpopmax(
+    key: string,
+    count?: number,
+  ): Promise<Array<{ member: string; score: number }>>;
+
+  /**
+   * Remove and return the lowest-scored member of the first non-empty key,
+   * waiting up to `timeout` seconds (0 = forever) for one to be added
+   */
+  bzpopmin(
+    keys: string[],
+    timeout: number,
+  ): Promise<{ key: string; member: string; score: number } | null>;
+
+  /**
+   * Get random members. Without count, returns at most one member; a
+   * negative count may return the same member more than once.
+   */
+  zrandmember(
+    key: string,
+    count?: number,
+    options?: { withScores?: boolean },
+  ): Promise<string[] | Array<{ member: string; score: number }>>;
+
+  /** Get scores of several members */
+  zmscore(key: string, ...members: string[]): Promise<Array<string | null>>;
+
   // =============================================
   // KEY MANAGEMENT
   // =============================================
@@ -329,8 +471,11 @@ export interface CacheAdapter {
   /** Check if key exists */
   exists(...keys: string[]): Promise<number>;
 
-  /** Set expiration in seconds */
-  expire(key: string, seconds: number): Promise<0 | 1>;
+  /**
+   * Set expiration in seconds. With "NX", only sets a TTL on keys that have
+   * none (Redis 7+)
+   */
+  expire(key: string, seconds: number, mode?: "NX"): Promise<0 | 1>;
 
   /** Set expiration at timestamp */
   expireat(key: string, timestamp: number): Promise<0 | 1>;
@@ -359,6 +504,40 @@ export interface CacheAdapter {
     options?: CacheScanOptions,
   ): Promise<{ cursor: number; keys: string[] }>;
 
+  // =============================================
+  // GEO OPERATIONS (optional)
+  // =============================================
+
+  /** Add members with positions to a geo set */
+  geoadd?(
+    key: string,
+    members: GeoMember[],
+    options?: { nx?: boolean; xx?: boolean; ch?: boolean },
+  ): Promise<number>;
+
+  /** Get positions of members */
+  geopos?(
+    key: string,
+    ...members: string[]
+  ): Promise<Array<GeoCoordinates | null>>;
+
+  /** Get the distance between two members */
+  geodist?(
+    key: string,
+    member1: string,
+    member2: string,
+    unit?: GeoUnit,
+  ): Promise<number | null>;
+
+  /** Get geohash strings of members */
+  geohash?(key: string, ...members: string[]): Promise<Array<string | null>>;
+
+  /** Find members within a radius or box */
+  geosearch?(
+    key: string,
+    options: GeoSearchOptions,
+  ): Promise<GeoSearchResult[]>;
+
   // =============================================
   // HYPERLOGLOG OPERATIONS (optional)
   // =============================================
@@ -372,6 +551,12 @@ export interface CacheAdapter {
   /** Merge HyperLogLogs */
   pfmerge?(destKey: string, ...sourceKeys: string[]): Promise<"OK">;
 
+  /** Export a HyperLogLog in Redis' HLL string encoding */
+  exportHyperLogLog?(key: string): Promise<Buffer | null>;
+
+  /** Store a HyperLogLog given in Redis' HLL string encoding */
+  importHyperLogLog?(key: string, data: Uint8Array): Promise<"OK">;
+
   // =============================================
   // SCRIPTING (optional)
   // =============================================
@@ -391,7 +576,10 @@ export interface CacheAdapter {
   // =============================================
 
   /** Execute operations in a pipeline */
-  executePipeline?(entries: AnyPipelineEntry[]): Promise<PipelineResult>;
+  executePipeline?(
+    entries: AnyPipelineEntry[],
+    options?: PipelineOptions,
+  ): Promise<PipelineResult>;
 
   /** Execute operations in a transaction */
   executeTransaction?(entries: AnyPipelineEntry[]): Promise<TransactionResult>;
@@ -412,6 +600,15 @@ export interface CacheAdapter {
   /** Unsubscribe from a channel */
   unsubscribe?(channel: string): Promise<void>;
 
+  /** Subscribe to channels matching a glob-style pattern */
+  psubscribe?(
+    pattern: string,
+    callback: (message: string, channel: string, pattern: string) => void,
+  ): Promise<void>;
+
+  /** Unsubscribe from a pattern */
+  punsubscribe?(pattern: string): Promise<void>;
+
   // =============================================
   // STREAM OPERATIONS (optional)
   // =============================================
@@ -464,6 +661,63 @@ export interface CacheAdapter {
   /** Delete entries from stream */
   xdel?(key: string, ...ids: string[]): Promise<number>;
 
+  /** Create a consumer group ("$" reads only new entries, "0" the whole stream) */
+  xgroupCreate?(
+    key: string,
+    group: string,
+    id: string,
+    options?: { mkstream?: boolean },
+  ): Promise<"OK">;
+
+  /** Destroy a consumer group */
+  xgroupDestroy?(key: string, group: string): Promise<0 | 1>;
+
+  /** Remove a consumer from a group, returning its number of pending entries */
+  xgroupDelConsumer?(
+    key: string,
+    group: string,
+    consumer: string,
+  ): Promise<number>;
+
+  /** Read from streams as a consumer group member (">" for new entries) */
+  xreadgroup?(options: {
+    group: string;
+    consumer: string;
+    streams: string[];
+    ids: string[];
+    count?: number;
+    block?: number;
+    noAck?: boolean;
+  }): Promise<Array<{
+    stream: string;
+    messages: Array<{ id: string; fields: Record<string, string> }>;
+  }> | null>;
+
+  /** Acknowledge entries, removing them from the group's pending list */
+  xack?(key: string, group: string, ...ids: string[]): Promise<number>;
+
+  /** Get a summary of a group's pending entries */
+  xpending?(key: string, group: string): Promise<StreamPendingSummary>;
+
+  /** List a group's pending entries in an ID range */
+  xpendingRange?(
+    key: string,
+    group: string,
+    start: string,
+    end: string,
+    count: number,
+    options?: { consumer?: string; minIdleTime?: number },
+  ): Promise<StreamPendingEntry[]>;
+
+  /** Take over pending entries idle for at least minIdleTime milliseconds */
+  xclaim?(
+    key: string,
+    group: string,
+    consumer: string,
+    minIdleTime: number,
+    ids: string[],
+  ): Promise<Array<{ id: string; fields: Record<string, string> }>>;
+
   // =============================================
   // BLOOM FILTER OPERATIONS (optional)
   // =============================================
@@ -483,6 +737,55 @@ export interface CacheAdapter {
   /** Check if multiple items exist in bloom filter */
   bfMExists?(key: string, ...items: string[]): Promise<Array<0 | 1>>;
 
+  // =============================================
+  // CUCKOO FILTER OPERATIONS (optional)
+  // =============================================
+
+  /** Reserve a cuckoo filter */
+  cfReserve?(key: string, capacity: number): Promise<"OK">;
+
+  /** Add item to cuckoo filter */
+  cfAdd?(key: string, item: string): Promise<0 | 1>;
+
+  /** Delete one occurrence of an item from cuckoo filter */
+  cfDel?(key: string, item: string): Promise<0 | 1>;
+
+  /** Check if item exists in cuckoo filter */
+  cfExists?(key: string, item: string): Promise<0 | 1>;
+
+  // =============================================
+  // COUNT-MIN SKETCH OPERATIONS (optional)
+  // =============================================
+
+  /** Initialize a count-min sketch with explicit dimensions */
+  cmsInitByDim?(key: string, width: number, depth: number): Promise<"OK">;
+
+  /** Initialize a count-min sketch sized for an error rate and probability */
+  cmsInitByProb?(
+    key: string,
+    errorRate: number,
+    probability: number,
+  ): Promise<"OK">;
+
+  /** Increase item counts, returning the new estimates */
+  cmsIncrBy?(
+    key: string,
+    increments: Record<string, number>,
+  ): Promise<number[]>;
+
+  /** Estimated counts of items */
+  cmsQuery?(key: string, ...items: string[]): Promise<number[]>;
+
+  // =============================================
+  // KEYSPACE EVENTS (optional)
+  // =============================================
+
+  /** Register a handler for a keyspace event */
+  on?(event: KeyspaceEvent, handler: KeyspaceEventHandler): Promise<void>;
+
+  /** Remove a keyspace event handler */
+  off?(event: KeyspaceEvent, handler: KeyspaceEventHandler): Promise<void>;
+
   // =============================================
   // METRICS
   // =============================================
@@ -501,16 +804,38 @@ export interface CacheAdapter {
  * Extended adapter with full feature support
  */
 export interface FullCacheAdapter extends CacheAdapter {
+  geoadd(
+    key: string,
+    members: GeoMember[],
+    options?: { nx?: boolean; xx?: boolean; ch?: boolean },
+  ): Promise<number>;
+  geopos(
+    key: string,
+    ...members: string[]
+  ): Promise<Array<GeoCoordinates | null>>;
+  geodist(
+    key: string,
+    member1: string,
+    member2: string,
+    unit?: GeoUnit,
+  ): Promise<number | null>;
+  geohash(key: string, ...members: string[]): Promise<Array<string | null>>;
+  geosearch(key: string, options: GeoSearchOptions): Promise<GeoSearchResult[]>;
   pfadd(key: string, ...elements: string[]): Promise<0 | 1>;
   pfcount(...keys: string[]): Promise<number>;
   pfmerge(destKey: string, ...sourceKeys: string[]): Promise<"OK">;
+  exportHyperLogLog(key: string): Promise<Buffer | null>;
+  importHyperLogLog(key: string, data: Uint8Array): Promise<"OK">;
   executeScript<TResult>(
     script: ScriptDefinition<any, any, TResult>,
     keys: string[],
     args: (string | number)[],
   ): Promise<TResult>;
   loadScript(script: string): Promise<string>;
-  executePipeline(entries: AnyPipelineEntry[]): Promise<PipelineResult>;
+  executePipeline(
+    entries: AnyPipelineEntry[],
+    options?: PipelineOptions,
+  ): Promise<PipelineResult>;
   executeTransaction(entries: AnyPipelineEntry[]): Promise<TransactionResult>;
   publish(channel: string, message: string): Promise<number>;
   subscribe(
@@ -518,6 +843,11 @@ export interface FullCacheAdapter extends CacheAdapter {
     callback: (message: string, channel: string) => void,
   ): Promise<void>;
   unsubscribe(channel: string): Promise<void>;
+  psubscribe(
+    pattern: string,
+    callback: (message: string, channel: string, pattern: string) => void,
+  ): Promise<void>;
+  punsubscribe(pattern: string): Promise<void>;
   // Stream operations
   xadd(
     key: string,
@@ -553,12 +883,70 @@ export interface FullCacheAdapter extends CacheAdapter {
     approximate?: boolean,
   ): Promise<number>;
   xdel(key: string, ...ids: string[]): Promise<number>;
+  xgroupCreate(
+    key: string,
+    group: string,
+    id: string,
+    options?: { mkstream?: boolean },
+  ): Promise<"OK">;
+  xgroupDestroy(key: string, group: string): Promise<0 | 1>;
+  xgroupDelConsumer(
+    key: string,
+    group: string,
+    consumer: string,
+  ): Promise<number>;
+  xreadgroup(options: {
+    group: string;
+    consumer: string;
+    streams: string[];
+    ids: string[];
+    count?: number;
+    block?: number;
+    noAck?: boolean;
+  }): Promise<Array<{
+    stream: string;
+    messages: Array<{ id: string; fields: Record<string, string> }>;
+  }> | null>;
+  xack(key: string, group: string, ...ids: string[]): Promise<number>;
+  xpending(key: string, group: string): Promise<StreamPendingSummary>;
+  xpendingRange(
+    key: string,
+    group: string,
+    start: string,
+    end: string,
+    count: number,
+    options?: { consumer?: string; minIdleTime?: number },
+  ): Promise<StreamPendingEntry[]>;
+  xclaim(
+    key: string,
+    group: string,
+    consumer: string,
+    minIdleTime: number,
+    ids: string[],
+  ): Promise<Array<{ id: string; fields: Record<string, string> }>>;
   // Bloom filter operations
   bfReserve(key: string, errorRate: number, capacity: number): Promise<"OK">;
   bfAdd(key: string, item: string): Promise<0 | 1>;
   bfMAdd(key: string, ...items: string[]): Promise<Array<0 | 1>>;
   bfExists(key: string, item: string): Promise<0 | 1>;
   bfMExists(key: string, ...items: string[]): Promise<Array<0 | 1>>;
+  // Cuckoo filter operations
+  cfReserve(key: string, capacity: number): Promise<"OK">;
+  cfAdd(key: string, item: string): Promise<0 | 1>;
+  cfDel(key: string, item: string): Promise<0 | 1>;
+  cfExists(key: string, item: string): Promise<0 | 1>;
+  // Count-min sketch operations
+  cmsInitByDim(key: string, width: number, depth: number): Promise<"OK">;
+  cmsInitByProb(
+    key: string,
+    errorRate: number,
+    probability: number,
+  ): Promise<"OK">;
+  cmsIncrBy(key: string, increments: Record<string, number>): Promise<number[]>;
+  cmsQuery(key: string, ...items: string[]): Promise<number[]>;
+  // Keyspace events
+  on(event: KeyspaceEvent, handler: KeyspaceEventHandler): Promise<void>;
+  off(event: KeyspaceEvent, handler: KeyspaceEventHandler): Promise<void>;
 }
 
 /**
@@ -581,7 +969,10 @@ export interface AdapterCapabilities {
   transactions: boolean;
   pubsub: boolean;
   streams: boolean;
+  geo: boolean;
   bloomFilter: boolean;
+  cuckooFilter: boolean;
+  countMinSketch: boolean;
 }
 
 /**
@@ -597,6 +988,9 @@ export function getAdapterCapabilities(
     transactions: typeof adapter.executeTransaction === "function",
     pubsub: typeof adapter.publish === "function",
     streams: typeof adapter.xadd === "function",
+    geo: typeof adapter.geoadd === "function",
     bloomFilter: typeof adapter.bfAdd === "function",
+    cuckooFilter: typeof adapter.cfAdd === "function",
+    countMinSketch: typeof adapter.cmsIncrBy === "function",
   };
 }
@@ -15,7 +15,10 @@ export type CacheStructure =
   | "HASH"
   | "STREAM"
   | "HYPERLOGLOG"
-  | "BLOOM_FILTER";
+  | "GEO"
+  | "BLOOM_FILTER"
+  | "CUCKOO_FILTER"
+  | "COUNT_MIN_SKETCH";
 
 /**
  * Common cache commands that adapters must implement
@@ -45,6 +48,11 @@ export type CacheCommand =
   | "LREM"
   | "LINSERT"
   | "LPOS"
+  | "BLPOP"
+  | "BRPOP"
+  | "LMOVE"
+  | "BLMOVE"
+  | "RPOPLPUSH"
   // Set commands
   | "SADD"
   | "SREM"
@@ -70,6 +78,15 @@ export type CacheCommand =
   | "ZINCRBY"
   | "ZREMRANGEBYRANK"
   | "ZREMRANGEBYSCORE"
+  | "ZRANGEBYLEX"
+  | "ZUNIONSTORE"
+  | "ZINTERSTORE"
+  | "ZDIFF"
+  | "ZPOPMIN"
+  | "ZPOPMAX"
+  | "BZPOPMIN"
+  | "ZRANDMEMBER"
+  | "ZMSCORE"
   // Hash commands
   | "HSET"
   | "HSETNX"
@@ -92,6 +109,17 @@ export type CacheCommand =
   | "XLEN"
   | "XTRIM"
   | "XDEL"
+  | "XGROUP"
+  | "XREADGROUP"
+  | "XACK"
+  | "XPENDING"
+  | "XCLAIM"
+  // Geo commands
+  | "GEOADD"
+  | "GEOPOS"
+  | "GEODIST"
+  | "GEOHASH"
+  | "GEOSEARCH"
   // HyperLogLog commands
   | "PFADD"
   | "PFCOUNT"
@@ -102,6 +130,16 @@ export type CacheCommand =
   | "BF.EXISTS"
   | "BF.MEXISTS"
   | "BF.RESERVE"
+  // Cuckoo Filter commands
+  | "CF.RESERVE"
+  | "CF.ADD"
+  | "CF.DEL"
+  | "CF.EXISTS"
+  // Count-Min Sketch commands
+  | "CMS.INITBYDIM"
+  | "CMS.INITBYPROB"
+  | "CMS.INCRBY"
+  | "CMS.QUERY"
   // Key management
   | "DEL"
   | "EXISTS"
@@ -177,6 +215,7 @@ export interface CacheStats {
   readonly avgLatencyMs: number;
   readonly p95LatencyMs?: number;
   readonly p99LatencyMs?: number;
+  readonly evictions?: number;
 }
 
 /**
@@ -201,6 +240,7 @@ export enum CacheErrorCode {
   SERIALIZATION_ERROR = "SERIALIZATION_ERROR",
   NOT_FOUND = "NOT_FOUND",
   ADAPTER_NOT_SUPPORTED = "ADAPTER_NOT_SUPPORTED",
+  VALIDATION_ERROR = "VALIDATION_ERROR",
 }
 
 /**
@@ -258,6 +298,94 @@ export interface SortedSetRangeOptions {
   reverse?: boolean;
 }
 
+/**
+ * End of a list, for LMOVE / BLMOVE
+ */
+export type ListDirection = "LEFT" | "RIGHT";
+
+/**
+ * Options for combining sorted sets with ZUNIONSTORE / ZINTERSTORE
+ */
+export interface SortedSetAggregateOptions {
+  /** Multiplier for each input key's scores, in key order (default 1) */
+  weights?: number[];
+  /** How scores of a member found in several keys are combined (default SUM) */
+  aggregate?: "SUM" | "MIN" | "MAX";
+}
+
+/**
+ * Longitude/latitude pair in degrees
+ */
+export interface GeoCoordinates {
+  longitude: number;
+  latitude: number;
+}
+
+/**
+ * Member of a geo set (GEOADD)
+ */
+export interface GeoMember extends GeoCoordinates {
+  member: string;
+}
+
+/**
+ * Distance unit of geo commands
+ */
+export type GeoUnit = "m" | "km" | "mi" | "ft";
+
+/**
+ * Geo search options (GEOSEARCH)
+ */
+export interface GeoSearchOptions {
+  /** Center of the search: a member of the set or a position */
+  from: { member: string } | GeoCoordinates;
+  /** Circle or box to search; distances are returned in its unit (default: m) */
+  by:
+    | { radius: number; unit?: GeoUnit }
+    | { width: number; height: number; unit?: GeoUnit };
+  /** Sort by distance from the center */
+  order?: "ASC" | "DESC";
+  /** Maximum number of results */
+  count?: number;
+  /** Return the first `count` matches found rather than the nearest */
+  any?: boolean;
+  withCoord?: boolean;
+  withDist?: boolean;
+  withHash?: boolean;
+}
+
+/**
+ * Geo search match; optional fields are set by the matching `with*` option
+ */
+export interface GeoSearchResult {
+  member: string;
+  distance?: number;
+  hash?: number;
+  coordinates?: GeoCoordinates;
+}
+
+/**
+ * Summary of a consumer group's pending entries (XPENDING)
+ */
+export interface StreamPendingSummary {
+  count: number;
+  minId: string | null;
+  maxId: string | null;
+  consumers: Array<{ name: string; pending: number }>;
+}
+
+/**
+ * Pending entry of a consumer group (XPENDING with a range)
+ */
+export interface StreamPendingEntry {
+  id: string;
+  consumer: string;
+  /** Milliseconds since the entry was last delivered */
+  idleMs: number;
+  /** Number of times the entry was delivered */
+  deliveries: number;
+}
+
 /**
  * Serializer interface for custom serialization
  */
@@ -273,3 +401,16 @@ export const JSONSerializer: Serializer = {
   serialize: (value) => JSON.stringify(value),
   deserialize: (value) => JSON.parse(value.toString()),
 };
+
+/**
+ * Value codec for schema operations. Encoded values carry the codec id in
+ * a small header, so entries stay readable after a schema changes codecs.
+ */
+export interface Codec<T = unknown> {
+  /** Name recorded in the header of every encoded value */
+  readonly id: string;
+  /** Whether encode returns bytes, which are stored as base64 */
+  readonly binary: boolean;
+  encode(value: T): string | Buffer;
+  decode(data: string | Buffer): T;
+}
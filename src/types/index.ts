@@ -6,3 +6,4 @@ export * from './core.types'
 export * from './operation.types'
 export * from './adapter.types'
 export * from './params.types'
+export * from './standard-schema.types'
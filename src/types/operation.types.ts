@@ -4,7 +4,9 @@
 // Type definitions for cache operations and schemas
 // =============================================
 
+import type { CacheAdapter } from "./adapter.types";
 import type { CacheCommand, CacheStructure } from "./core.types";
+import type { StandardSchemaV1 } from "./standard-schema.types";
 
 /**
  * Generic cache operation interface
@@ -28,8 +30,68 @@ export interface CacheOperation<
 
   /** Optional description for documentation */
   readonly description?: string;
+
+  /** Validation of the value this operation writes or reads */
+  readonly validation?: OperationValidation;
+
+  /** Trim capping the size of the key this operation adds to */
+  readonly trim?: OperationTrim<TParams>;
+
+  /** EXPIRE chained after this operation under the schema's TTL policy */
+  readonly expire?: CacheOperation<TParams, unknown>;
+
+  /** Script an EVAL operation runs, for adapters that run its `jsImpl` */
+  readonly script?: ScriptDefinition;
+}
+
+/**
+ * What to do when a value read from the cache fails validation:
+ * throw a VALIDATION_ERROR, delete the key and return null as a miss,
+ * or log a warning and return the value anyway
+ */
+export type InvalidReadPolicy = "throw" | "miss" | "log";
+
+/**
+ * Validation attached to an operation, applied by Cachyer.execute
+ */
+export interface OperationValidation {
+  /** Standard Schema validator for the value */
+  readonly schema: StandardSchemaV1;
+
+  /** Param holding the value a write operation stores */
+  readonly param?: string;
+
+  /** Whether the operation reads the value (checked after parseResult) */
+  readonly read?: boolean;
+
+  /** What to do with invalid values read from the cache */
+  readonly onInvalidRead: InvalidReadPolicy;
 }
 
+/**
+ * When a schema's TTL is applied to its keys: "fixed" sets it once when a
+ * write creates the key, "write" resets it on every write and "sliding"
+ * resets it on every read and write
+ */
+export type TtlPolicy = "fixed" | "write" | "sliding";
+
+/**
+ * Which members a size-capped write evicts once its key holds more than
+ * `maxSize`. Lists always evict their oldest items and sets random members.
+ * Sorted sets evict by score and reject "oldest", which for timestamp
+ * scores is "lowestScore".
+ */
+export type EvictionPolicy = "oldest" | "lowestScore" | "highestScore";
+
+/**
+ * Trim applied by Cachyer after a write: a command, or a script operation
+ * for trims that depend on the key's size, chained in the same pipeline or
+ * transaction as the write
+ */
+export type OperationTrim<TParams extends Record<string, unknown>> = {
+  readonly operation: CacheOperation<TParams, unknown>;
+};
+
 /**
  * Cache schema definition
  * Defines the complete structure for a cache entry including key pattern,
@@ -48,15 +110,24 @@ export interface CacheSchema<
   /** Function to generate the cache key from parameters */
   readonly key: (params: TKeyParams) => string;
 
+  /** Key pattern the key function was built from, without the version segment */
+  readonly keyPattern?: string;
+
   /** The data structure used for this cache */
   readonly structure: CacheStructure;
 
   /** Time-to-live in seconds */
   readonly ttl: number;
 
+  /** When the TTL is applied to keys; not applied automatically if unset */
+  readonly ttlPolicy?: TtlPolicy;
+
   /** Maximum number of items to store (for lists, sets, sorted sets) */
   readonly maxSize?: number;
 
+  /** Which members writes evict once `maxSize` is reached */
+  readonly eviction?: EvictionPolicy;
+
   /** Available operations for this cache */
   readonly operations: TOperations;
 
@@ -66,13 +137,50 @@ export interface CacheSchema<
   /** Cache namespace/prefix */
   readonly namespace?: string;
 
-  /** Version for cache invalidation */
+  /** Version for cache invalidation, appended to keys as a `v<version>` segment */
   readonly version?: number;
 
   /** Tags for grouping related caches */
   readonly tags?: readonly string[];
+
+  /** Validator of the schema's string values */
+  readonly validator?: StandardSchemaV1;
 }
 
+/**
+ * Repository returned by `Cachyer.bind()`: one method per schema operation,
+ * taking the operation's params
+ */
+export type SchemaRepository<
+  TKeyParams extends Record<string, unknown>,
+  TOperations extends Record<string, CacheOperation<any, any>>,
+> = {
+  readonly [K in keyof TOperations]: TOperations[K] extends CacheOperation<
+    infer TParams,
+    infer TResult
+  >
+    ? (params: TParams, options?: ExecuteOptions) => Promise<TResult>
+    : never;
+} & {
+  /** The bound schema */
+  readonly schema: CacheSchema<TKeyParams, TOperations>;
+
+  /** Delete the schema's key for these params. Returns true if it existed */
+  invalidate(keyParams: TKeyParams): Promise<boolean>;
+};
+
+/**
+ * JavaScript implementation of a script, for adapters that cannot run Lua.
+ * Receives the adapter in place of `redis.call`, with KEYS and ARGV as
+ * strings, and returns the raw value the Lua script would return (numbers
+ * truncated to integers, as Redis does), before `parseResult` is applied.
+ */
+export type ScriptImplementation = (
+  adapter: CacheAdapter,
+  keys: string[],
+  args: string[],
+) => Promise<unknown>;
+
 /**
  * Script definition for atomic operations
  */
@@ -101,6 +209,9 @@ export interface ScriptDefinition<
 
   /** Parse the raw result */
   readonly parseResult?: (result: unknown) => TResult;
+
+  /** JavaScript equivalent of `script`, used by adapters without Lua */
+  readonly jsImpl?: ScriptImplementation;
 }
 
 /**
@@ -114,6 +225,14 @@ export interface PipelineEntry<
   readonly params: TParams;
 }
 
+/**
+ * Pipeline execution options
+ */
+export interface PipelineOptions {
+  /** Run the entries in a MULTI/EXEC transaction, keeping per-entry results */
+  atomic?: boolean;
+}
+
 /**
  * Pipeline execution result
  */
@@ -267,6 +386,27 @@ export interface AnyPipelineEntry {
   readonly params: Record<string, unknown>;
 }
 
+/**
+ * Create an EVAL operation running a script, so that it can be chained in
+ * a pipeline or transaction
+ */
+export function scriptOperation<TParams extends Record<string, unknown>>(
+  script: ScriptDefinition,
+  buildKeys: (params: TParams) => string[],
+  buildArgs: (params: TParams) => (string | number)[] = () => [],
+): CacheOperation<TParams, unknown> {
+  return {
+    command: "EVAL",
+    script,
+    buildArgs: (params) => {
+      const keys = buildKeys(params);
+      return [script.script, keys.length, ...keys, ...buildArgs(params)];
+    },
+    parseResult: script.parseResult,
+    description: script.description,
+  };
+}
+
 /**
  * Create a pipeline entry
  */
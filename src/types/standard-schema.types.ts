@@ -0,0 +1,40 @@
+// =============================================
+// CACHYER - STANDARD SCHEMA TYPES
+// =============================================
+// The Standard Schema v1 interface (https://standardschema.dev), which
+// Zod, Valibot, ArkType and other validation libraries implement
+// =============================================
+
+/**
+ * A validator that implements Standard Schema v1
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaV1Props<Input, Output>;
+}
+
+export interface StandardSchemaV1Props<Input = unknown, Output = Input> {
+  /** Version of the Standard Schema spec */
+  readonly version: 1;
+  /** Library that created the schema */
+  readonly vendor: string;
+  /** Validate a value, returning the parsed output or the issues found */
+  readonly validate: (
+    value: unknown,
+  ) => StandardSchemaV1Result<Output> | Promise<StandardSchemaV1Result<Output>>;
+  /** Inferred types, only present at compile time */
+  readonly types?: { readonly input: Input; readonly output: Output };
+}
+
+export type StandardSchemaV1Result<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaV1Issue> };
+
+export interface StandardSchemaV1Issue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/** Output type of a Standard Schema validator */
+export type InferSchemaOutput<TSchema extends StandardSchemaV1> = NonNullable<
+  TSchema["~standard"]["types"]
+>["output"];
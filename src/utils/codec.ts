@@ -0,0 +1,311 @@
+// =============================================
+// CACHYER - CODEC UTILITIES
+// =============================================
+// Built-in value codecs and the header that records which codec
+// encoded a stored value
+// =============================================
+
+import {
+  brotliCompressSync,
+  brotliDecompressSync,
+  gunzipSync,
+  gzipSync,
+} from "zlib";
+import type { Codec } from "../types/core.types";
+
+/** Marks a value written through a codec: `\u0001<codec id>:<payload>` */
+const CODEC_HEADER = "\u0001";
+
+const CODEC_ID_PATTERN = /^[\w.+-]+$/;
+
+// =============================================
+// JSON
+// =============================================
+
+export const JSONCodec: Codec = {
+  id: "json",
+  binary: false,
+  encode: (value) => JSON.stringify(value),
+  decode: (data) => JSON.parse(data.toString()),
+};
+
+// =============================================
+// MESSAGEPACK
+// =============================================
+
+/**
+ * MessagePack encoding of JSON-compatible values. Buffers and Uint8Arrays
+ * are stored as bin and decode to Buffers; objects with `toJSON` (such as
+ * Dates) are encoded as what it returns.
+ */
+export const MessagePackCodec: Codec = {
+  id: "msgpack",
+  binary: true,
+  encode: (value) => {
+    const chunks: Buffer[] = [];
+    packValue(value, chunks);
+    return Buffer.concat(chunks);
+  },
+  decode: (data) => {
+    const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data, "base64");
+    const reader = { buffer, offset: 0 };
+    const value = unpackValue(reader);
+    if (reader.offset !== buffer.length) {
+      throw new Error("Invalid MessagePack data: trailing bytes");
+    }
+    return value;
+  },
+};
+
+function header(byte: number, size: number, length: number): Buffer {
+  const buffer = Buffer.alloc(1 + size);
+  buffer[0] = byte;
+  if (size === 1) buffer.writeUInt8(length, 1);
+  else if (size === 2) buffer.writeUInt16BE(length, 1);
+  else buffer.writeUInt32BE(length, 1);
+  return buffer;
+}
+
+function packValue(value: unknown, chunks: Buffer[]): void {
+  if (value === null || value === undefined) {
+    chunks.push(Buffer.from([0xc0]));
+  } else if (typeof value === "boolean") {
+    chunks.push(Buffer.from([value ? 0xc3 : 0xc2]));
+  } else if (typeof value === "number") {
+    packNumber(value, chunks);
+  } else if (typeof value === "string") {
+    const bytes = Buffer.from(value, "utf8");
+    const length = bytes.length;
+    if (length < 32) chunks.push(Buffer.from([0xa0 | length]));
+    else if (length < 0x100) chunks.push(header(0xd9, 1, length));
+    else if (length < 0x10000) chunks.push(header(0xda, 2, length));
+    else chunks.push(header(0xdb, 4, length));
+    chunks.push(bytes);
+  } else if (value instanceof Uint8Array) {
+    const length = value.length;
+    if (length < 0x100) chunks.push(header(0xc4, 1, length));
+    else if (length < 0x10000) chunks.push(header(0xc5, 2, length));
+    else chunks.push(header(0xc6, 4, length));
+    chunks.push(Buffer.from(value));
+  } else if (Array.isArray(value)) {
+    const length = value.length;
+    if (length < 16) chunks.push(Buffer.from([0x90 | length]));
+    else if (length < 0x10000) chunks.push(header(0xdc, 2, length));
+    else chunks.push(header(0xdd, 4, length));
+    for (const item of value) packValue(item, chunks);
+  } else if (typeof value === "object") {
+    const toJSON = (value as { toJSON?: () => unknown }).toJSON;
+    if (typeof toJSON === "function") {
+      packValue(toJSON.call(value), chunks);
+      return;
+    }
+    // Like JSON.stringify, properties set to undefined are left out
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    const length = entries.length;
+    if (length < 16) chunks.push(Buffer.from([0x80 | length]));
+    else if (length < 0x10000) chunks.push(header(0xde, 2, length));
+    else chunks.push(header(0xdf, 4, length));
+    for (const [key, item] of entries) {
+      packValue(key, chunks);
+      packValue(item, chunks);
+    }
+  } else {
+    throw new Error(`MessagePack cannot encode a ${typeof value}`);
+  }
+}
+
+function packNumber(value: number, chunks: Buffer[]): void {
+  // Integers outside int32 / uint32 are stored as float64 like other numbers
+  if (!Number.isInteger(value) || value > 0xffffffff || value < -0x80000000) {
+    const buffer = Buffer.alloc(9);
+    buffer[0] = 0xcb;
+    buffer.writeDoubleBE(value, 1);
+    chunks.push(buffer);
+  } else if (value >= 0) {
+    if (value < 0x80) chunks.push(Buffer.from([value]));
+    else if (value < 0x100) chunks.push(header(0xcc, 1, value));
+    else if (value < 0x10000) chunks.push(header(0xcd, 2, value));
+    else chunks.push(header(0xce, 4, value));
+  } else if (value >= -32) {
+    chunks.push(Buffer.from([value & 0xff]));
+  } else {
+    const size = value >= -0x80 ? 1 : value >= -0x8000 ? 2 : 4;
+    const buffer = Buffer.alloc(1 + size);
+    buffer[0] = size === 1 ? 0xd0 : size === 2 ? 0xd1 : 0xd2;
+    buffer.writeIntBE(value, 1, size);
+    chunks.push(buffer);
+  }
+}
+
+type Reader = { buffer: Buffer; offset: number };
+
+function take(reader: Reader, length: number): Buffer {
+  if (reader.offset + length > reader.buffer.length) {
+    throw new Error("Invalid MessagePack data: unexpected end");
+  }
+  const bytes = reader.buffer.subarray(reader.offset, reader.offset + length);
+  reader.offset += length;
+  return bytes;
+}
+
+function readUInt(reader: Reader, size: number): number {
+  return take(reader, size).readUIntBE(0, size);
+}
+
+function unpackValue(reader: Reader): unknown {
+  const byte = take(reader, 1)[0]!;
+
+  if (byte < 0x80) return byte;
+  if (byte >= 0xe0) return byte - 0x100;
+  if ((byte & 0xf0) === 0x80) return unpackMap(reader, byte & 0x0f);
+  if ((byte & 0xf0) === 0x90) return unpackArray(reader, byte & 0x0f);
+  if ((byte & 0xe0) === 0xa0) return take(reader, byte & 0x1f).toString();
+
+  switch (byte) {
+    case 0xc0:
+      return null;
+    case 0xc2:
+      return false;
+    case 0xc3:
+      return true;
+    case 0xc4:
+    case 0xc5:
+    case 0xc6:
+      return Buffer.from(take(reader, readUInt(reader, 1 << (byte - 0xc4))));
+    case 0xca:
+      return take(reader, 4).readFloatBE(0);
+    case 0xcb:
+      return take(reader, 8).readDoubleBE(0);
+    case 0xcc:
+    case 0xcd:
+    case 0xce:
+      return readUInt(reader, 1 << (byte - 0xcc));
+    case 0xcf:
+      return Number(take(reader, 8).readBigUInt64BE(0));
+    case 0xd0:
+    case 0xd1:
+    case 0xd2: {
+      const size = 1 << (byte - 0xd0);
+      return take(reader, size).readIntBE(0, size);
+    }
+    case 0xd3:
+      return Number(take(reader, 8).readBigInt64BE(0));
+    case 0xd9:
+    case 0xda:
+    case 0xdb:
+      return take(reader, readUInt(reader, 1 << (byte - 0xd9))).toString();
+    case 0xdc:
+    case 0xdd:
+      return unpackArray(reader, readUInt(reader, byte === 0xdc ? 2 : 4));
+    case 0xde:
+    case 0xdf:
+      return unpackMap(reader, readUInt(reader, byte === 0xde ? 2 : 4));
+    default:
+      throw new Error(
+        `Invalid MessagePack data: unsupported type 0x${byte.toString(16)}`,
+      );
+  }
+}
+
+function unpackArray(reader: Reader, length: number): unknown[] {
+  const items: unknown[] = [];
+  for (let i = 0; i < length; i++) items.push(unpackValue(reader));
+  return items;
+}
+
+function unpackMap(reader: Reader, length: number): Record<string, unknown> {
+  const map: Record<string, unknown> = {};
+  for (let i = 0; i < length; i++) {
+    const key = String(unpackValue(reader));
+    map[key] = unpackValue(reader);
+  }
+  return map;
+}
+
+// =============================================
+// COMPRESSION
+// =============================================
+
+export type CompressionAlgorithm = "gzip" | "br";
+
+/**
+ * Wrap a codec so its output is compressed. The id is
+ * `<algorithm>+<inner id>`, e.g. "gzip+json".
+ */
+export function createCompressedCodec<T>(
+  inner: Codec<T>,
+  algorithm: CompressionAlgorithm = "gzip",
+): Codec<T> {
+  const compress = algorithm === "gzip" ? gzipSync : brotliCompressSync;
+  const decompress = algorithm === "gzip" ? gunzipSync : brotliDecompressSync;
+
+  return {
+    id: `${algorithm}+${inner.id}`,
+    binary: true,
+    encode: (value) => compress(Buffer.from(inner.encode(value))),
+    decode: (data) => {
+      const bytes = decompress(
+        Buffer.isBuffer(data) ? data : Buffer.from(data, "base64"),
+      );
+      return inner.decode(inner.binary ? bytes : bytes.toString("utf8"));
+    },
+  };
+}
+
+export const GzipCodec = createCompressedCodec(JSONCodec, "gzip");
+
+export const BrotliCodec = createCompressedCodec(JSONCodec, "br");
+
+// =============================================
+// HEADERS
+// =============================================
+
+const BUILT_IN_CODECS = [JSONCodec, MessagePackCodec];
+
+/**
+ * Encode a value and prefix it with the codec header
+ */
+export function encodeWithCodec<T>(value: T, codec: Codec<T>): string {
+  if (!CODEC_ID_PATTERN.test(codec.id)) {
+    throw new Error(`Invalid codec id "${codec.id}"`);
+  }
+  const payload = codec.encode(value);
+  const body =
+    typeof payload === "string" ? payload : payload.toString("base64");
+  return `${CODEC_HEADER}${codec.id}:${body}`;
+}
+
+/**
+ * Decode a stored value with the codec named in its header, looked up in
+ * `codecs` and the built-in codecs. Values without a header were written
+ * without a codec and are returned as they are; null stays null.
+ */
+export function decodeWithCodec(
+  raw: unknown,
+  codecs: Codec | readonly Codec[] = [],
+): unknown {
+  if (typeof raw !== "string" || !raw.startsWith(CODEC_HEADER)) return raw;
+
+  const separator = raw.indexOf(":");
+  if (separator === -1) throw new Error("Invalid codec header");
+
+  const id = raw.slice(CODEC_HEADER.length, separator);
+  const codec = findCodec(id, Array.isArray(codecs) ? codecs : [codecs]);
+  if (!codec) throw new Error(`Unknown codec "${id}"`);
+
+  const body = raw.slice(separator + 1);
+  return codec.decode(codec.binary ? Buffer.from(body, "base64") : body);
+}
+
+function findCodec(id: string, codecs: readonly Codec[]): Codec | undefined {
+  const codec = [...codecs, ...BUILT_IN_CODECS].find((c) => c.id === id);
+  if (codec) return codec;
+
+  // Compressed ids name their inner codec, e.g. "br+msgpack"
+  const match = /^(gzip|br)\+(.+)$/.exec(id);
+  if (!match) return undefined;
+  const inner = findCodec(match[2]!, codecs);
+  return inner
+    ? createCompressedCodec(inner, match[1] as CompressionAlgorithm)
+    : undefined;
+}
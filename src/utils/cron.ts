@@ -0,0 +1,204 @@
+// =============================================
+// CACHYER - CRON EXPRESSIONS
+// =============================================
+// Five-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in UTC
+// =============================================
+
+/**
+ * Parsed cron expression
+ */
+export interface CronSchedule {
+  minutes: ReadonlySet<number>;
+  hours: ReadonlySet<number>;
+  daysOfMonth: ReadonlySet<number>;
+  months: ReadonlySet<number>;
+  /** 0-6, Sunday is 0 */
+  daysOfWeek: ReadonlySet<number>;
+  /** Whether the day-of-month field is "*" */
+  anyDayOfMonth: boolean;
+  /** Whether the day-of-week field is "*" */
+  anyDayOfWeek: boolean;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Value of the first name */
+  namesStart?: number;
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, namesStart: 1 },
+  // 7 is accepted as Sunday
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES, namesStart: 0 },
+];
+
+/** Years searched for a matching time before giving up, e.g. for "0 0 30 2 *" */
+const MAX_SEARCH_YEARS = 8;
+
+function parseValue(value: string, field: CronField, expression: string) {
+  const index = field.names?.indexOf(value.toLowerCase()) ?? -1;
+  const parsed = index >= 0 ? index + field.namesStart! : Number(value);
+  if (
+    value === "" ||
+    !Number.isInteger(parsed) ||
+    parsed < field.min ||
+    parsed > field.max
+  ) {
+    throw new Error(
+      `Invalid ${field.name} "${value}" in cron expression "${expression}"`,
+    );
+  }
+  return parsed;
+}
+
+function parseField(
+  source: string,
+  field: CronField,
+  expression: string,
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of source.split(",")) {
+    const [range, stepSource] = part.split("/") as [string, string?];
+    const step = stepSource === undefined ? 1 : Number(stepSource);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(
+        `Invalid step "${stepSource}" in cron expression "${expression}"`,
+      );
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = field.min;
+      end = field.max;
+    } else {
+      const [from, to] = range.split("-") as [string, string?];
+      start = parseValue(from, field, expression);
+      // "5/15" means every 15 starting at 5
+      end =
+        to !== undefined
+          ? parseValue(to, field, expression)
+          : stepSource !== undefined
+            ? field.max
+            : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression or one of the macros @yearly,
+ * @monthly, @weekly, @daily and @hourly. Throws on invalid expressions.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const source = CRON_MACROS[expression.trim().toLowerCase()] ?? expression;
+  const fields = source.trim().split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new Error(
+      `Cron expression "${expression}" must have ${CRON_FIELDS.length} fields`,
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, i) => parseField(field, CRON_FIELDS[i]!, expression),
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2]!.startsWith("*"),
+    anyDayOfWeek: fields[4]!.startsWith("*"),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  // Like cron, a day matches either field when both are restricted
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * First time matching a cron expression strictly after `after`, in epoch
+ * milliseconds. Throws if nothing matches in the next few years.
+ */
+export function nextCronTime(
+  expression: string | CronSchedule,
+  after: number = Date.now(),
+): number {
+  const schedule =
+    typeof expression === "string" ? parseCron(expression) : expression;
+
+  const date = new Date(Math.floor(after / 60000) * 60000 + 60000);
+  const lastYear = date.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (date.getUTCFullYear() <= lastYear) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+
+  throw new Error(
+    typeof expression === "string"
+      ? `Cron expression "${expression}" never matches`
+      : "Cron schedule never matches",
+  );
+}
@@ -0,0 +1,74 @@
+// =============================================
+// CACHYER - GEO UTILITIES
+// =============================================
+// GEOSEARCH arguments and replies in the Redis protocol format
+// =============================================
+
+import type { GeoSearchOptions, GeoSearchResult } from "../types/core.types";
+
+/**
+ * Build GEOSEARCH arguments from search options
+ *
+ * @example
+ * buildGeoSearchArgs("places", {
+ *   from: { longitude: 13.4, latitude: 52.5 },
+ *   by: { radius: 5, unit: "km" },
+ *   withDist: true,
+ * });
+ * // ["places", "FROMLONLAT", 13.4, 52.5, "BYRADIUS", 5, "km", "WITHDIST"]
+ */
+export function buildGeoSearchArgs(
+  key: string,
+  options: GeoSearchOptions,
+): (string | number)[] {
+  const args: (string | number)[] = [key];
+  const { from, by } = options;
+
+  if ("member" in from) {
+    args.push("FROMMEMBER", from.member);
+  } else {
+    args.push("FROMLONLAT", from.longitude, from.latitude);
+  }
+
+  if ("radius" in by) {
+    args.push("BYRADIUS", by.radius, by.unit ?? "m");
+  } else {
+    args.push("BYBOX", by.width, by.height, by.unit ?? "m");
+  }
+
+  if (options.order) args.push(options.order);
+  if (options.count !== undefined) {
+    args.push("COUNT", options.count);
+    if (options.any) args.push("ANY");
+  }
+  if (options.withCoord) args.push("WITHCOORD");
+  if (options.withDist) args.push("WITHDIST");
+  if (options.withHash) args.push("WITHHASH");
+  return args;
+}
+
+/**
+ * Parse a GEOSEARCH reply. Without `WITH*` flags each match is a member
+ * name; with them it is an array of the member followed by the distance
+ * (string), hash (integer) and coordinates (pair), in that order.
+ */
+export function parseGeoSearchReply(reply: unknown): GeoSearchResult[] {
+  return (reply as unknown[]).map((item) => {
+    if (!Array.isArray(item)) return { member: String(item) };
+
+    const result: GeoSearchResult = { member: String(item[0]) };
+    for (const field of item.slice(1)) {
+      if (Array.isArray(field)) {
+        result.coordinates = {
+          longitude: Number(field[0]),
+          latitude: Number(field[1]),
+        };
+      } else if (typeof field === "number") {
+        result.hash = field;
+      } else {
+        result.distance = Number(field);
+      }
+    }
+    return result;
+  });
+}
@@ -2,6 +2,9 @@
 // CACHYER - UTILS INDEX
 // =============================================
 
-export * from './key-patterns'
-export * from './cursor'
-export * from './scoring'
+export * from "./key-patterns";
+export * from "./cursor";
+export * from "./scoring";
+export * from "./geo";
+export * from "./cron";
+export * from "./codec";
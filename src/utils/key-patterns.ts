@@ -67,6 +67,58 @@ export function createKeyBuilder<TParams extends Record<string, unknown>>(
   };
 }
 
+/**
+ * Append a version segment to every key a builder produces
+ * (e.g. 'user:123' becomes 'user:123:v3')
+ */
+export function withKeyVersion<TParams>(
+  builder: KeyBuilder<TParams>,
+  version: number,
+  separator: string = ":",
+): KeyBuilder<TParams> {
+  return (params: TParams): string =>
+    `${builder(params)}${separator}v${version}`;
+}
+
+/**
+ * Create a scan pattern matching every key a pattern can produce,
+ * including versioned variants
+ */
+export function createVersionScanPattern(pattern: string): string {
+  return `${pattern.replace(/\{\w+\}/g, "*")}*`;
+}
+
+/**
+ * Create a matcher that checks whether a key was produced by a pattern
+ * and extracts its version segment (null for unversioned keys).
+ * Placeholders only match a single segment, so keys from other
+ * patterns sharing the same prefix are never matched, but keys of the same
+ * shape are (`user:settings` matches `user:{id}`), so only an explicit
+ * version tells a key apart.
+ */
+export function createKeyVersionMatcher(
+  pattern: string,
+  separator: string = ":",
+): (key: string) => { matched: boolean; version: number | null } {
+  const escape = (value: string) =>
+    value.replace(/[.+?^${}()|[\]\\*]/g, "\\$&");
+  const sep = escape(separator);
+  const body = pattern
+    .split(/\{\w+\}/)
+    .map(escape)
+    .join(`[^${sep}]+`);
+  const regex = new RegExp(`^${body}(?:${sep}v(\\d+))?$`);
+
+  return (key: string) => {
+    const match = regex.exec(key);
+    if (!match) return { matched: false, version: null };
+    return {
+      matched: true,
+      version: match[1] !== undefined ? Number(match[1]) : null,
+    };
+  };
+}
+
 /**
  * Create a static key builder
  */
@@ -1,8 +1,26 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { MemoryAdapter } from "../src/adapters/memory/memory.adapter";
 import { Cachyer } from "../src/core/cachyer";
-import { CacheError } from "../src/types/core.types";
-import type { CacheOperation } from "../src/types/operation.types";
+import { createTypedSchema } from "../src/schemas/schema-builder";
+import {
+  CacheError,
+  CacheErrorCode,
+  type Codec,
+} from "../src/types/core.types";
+import {
+  BrotliCodec,
+  GzipCodec,
+  JSONCodec,
+  MessagePackCodec,
+} from "../src/utils/codec";
+import {
+  pipelineEntry,
+  type CacheOperation,
+  type EvictionPolicy,
+  type TtlPolicy,
+  type InvalidReadPolicy,
+} from "../src/types/operation.types";
+import type { StandardSchemaV1 } from "../src/types/standard-schema.types";
 
 describe("Cachyer", () => {
   let adapter: MemoryAdapter;
@@ -392,6 +410,59 @@ describe("Cachyer", () => {
       const score = await cache.zincrby("z", 7, "new");
       expect(score).toBe("7");
     });
+
+    it("should zunionstore and zinterstore prefixed keys", async () => {
+      await cache.zadd("a", [
+        { member: "x", score: 1 },
+        { member: "y", score: 2 },
+      ]);
+      await cache.zadd("b", [{ member: "y", score: 3 }]);
+
+      expect(await cache.zunionstore("u", ["a", "b"])).toBe(2);
+      expect(await cache.zrange("u", 0, -1, { withScores: true })).toEqual([
+        { member: "x", score: 1 },
+        { member: "y", score: 5 },
+      ]);
+      expect(await cache.zinterstore("i", ["a", "b"])).toBe(1);
+      expect(await adapter.zscore("test:i", "y")).toBe("5");
+      expect(await cache.zdiff(["a", "b"])).toEqual(["x"]);
+    });
+
+    it("should bzpopmin and return the unprefixed key", async () => {
+      const pending = cache.bzpopmin(["empty", "jobs"], 1);
+      await cache.zadd("jobs", [{ member: "job:1", score: 10 }]);
+      expect(await pending).toEqual({
+        key: "jobs",
+        member: "job:1",
+        score: 10,
+      });
+    });
+
+    it("should prefix all keys of multi-key sorted set operations", async () => {
+      const schema = createTypedSchema<{ id: string }>()
+        .name("feed")
+        .keyPattern("feed:{id}")
+        .structure("SORTED_SET")
+        .ttl(60)
+        .operations((ops) => ops.addSortedSetUnionStore().addSortedSetDiff())
+        .build();
+
+      await cache.zadd("posts:1", [{ member: "p1", score: 1 }]);
+      await cache.zadd("posts:2", [{ member: "p2", score: 2 }]);
+      expect(
+        await cache.execute(schema.operations.sortedSetUnionStore, {
+          id: "1",
+          sourceKeys: ["posts:1", "posts:2"],
+        }),
+      ).toBe(2);
+      expect(await adapter.zcard("test:feed:1")).toBe(2);
+      expect(
+        await cache.execute(schema.operations.sortedSetDiff, {
+          id: "1",
+          sourceKeys: ["posts:1"],
+        }),
+      ).toEqual(["p2"]);
+    });
   });
 
   // =============================================
@@ -413,6 +484,35 @@ describe("Cachyer", () => {
       expect(await cache.lpush("list", "a")).toBe(1);
       expect(await cache.lpush("list", "b")).toBe(2);
     });
+
+    it("should move between prefixed lists", async () => {
+      await cache.lpush("queue", "job:1", "job:2");
+      expect(await cache.lmove("queue", "processing", "RIGHT", "LEFT")).toBe(
+        "job:1",
+      );
+      expect(await cache.rpoplpush("queue", "processing")).toBe("job:2");
+      expect(await adapter.lrange("test:processing", 0, -1)).toEqual([
+        "job:2",
+        "job:1",
+      ]);
+      expect(await cache.lrem("processing", 0, "job:1")).toBe(1);
+    });
+
+    it("should blpop and return the unprefixed key", async () => {
+      const pending = cache.blpop(["queue"], 1);
+      await cache.lpush("queue", "job:1");
+      expect(await pending).toEqual({ key: "queue", value: "job:1" });
+    });
+
+    it("should prefix keys of raw blocking list commands", async () => {
+      await cache.lpush("queue", "job:1");
+      const op: CacheOperation<Record<string, unknown>, unknown> = {
+        command: "BLMOVE",
+        buildArgs: () => ["queue", "processing", "LEFT", "LEFT", 1],
+      };
+      expect(await cache.execute(op, {})).toBe("job:1");
+      expect(await adapter.llen("test:processing")).toBe(1);
+    });
   });
 
   // =============================================
@@ -455,6 +555,593 @@ describe("Cachyer", () => {
     });
   });
 
+  describe("schema codecs", () => {
+    type User = { name: string; roles: string[] };
+    const user: User = { name: "Ada", roles: ["admin"] };
+
+    const withCodec = (codec: Codec, ...previous: Codec[]) =>
+      createTypedSchema<{ id: string }>()
+        .name("user")
+        .keyPattern("user:{id}")
+        .structure("STRING")
+        .ttl(3600)
+        .codec(codec, ...previous)
+        .operations((ops) => ops.addGet<"get", User>().addSet<"set", User>())
+        .build();
+
+    it("should encode and decode values", async () => {
+      const schema = withCodec(MessagePackCodec);
+
+      await cache.execute(schema.operations.set, { id: "1", value: user });
+      expect(await cache.execute(schema.operations.get, { id: "1" })).toEqual(
+        user,
+      );
+      expect(await cache.get("user:1")).toMatch(/^\u0001msgpack:/);
+    });
+
+    it("should read entries written with a previous codec", async () => {
+      await cache.execute(withCodec(JSONCodec).operations.set, {
+        id: "1",
+        value: user,
+      });
+      await cache.set("user:2", "raw");
+
+      const schema = withCodec(GzipCodec);
+      expect(await cache.execute(schema.operations.get, { id: "1" })).toEqual(
+        user,
+      );
+      expect(await cache.execute(schema.operations.get, { id: "2" })).toBe(
+        "raw",
+      );
+    });
+
+    it("should support codecs per operation", async () => {
+      const schema = createTypedSchema<{ id: string }>()
+        .name("blob")
+        .keyPattern("blob:{id}")
+        .structure("STRING")
+        .ttl(3600)
+        .operations((ops) =>
+          ops
+            .addSet("setRaw")
+            .withCodec(BrotliCodec)
+            .addSet<"set", User>()
+            .addGet<"get", User>(),
+        )
+        .build();
+
+      await cache.execute(schema.operations.setRaw, { id: "1", value: "x" });
+      expect(await cache.get("blob:1")).toBe("x");
+
+      await cache.execute(schema.operations.set, { id: "2", value: user });
+      expect(await cache.execute(schema.operations.get, { id: "2" })).toEqual(
+        user,
+      );
+    });
+  });
+
+  describe("schema validation", () => {
+    type User = { name: string; age: number };
+
+    // Minimal Standard Schema validator, as Zod or Valibot would provide
+    const userValidator: StandardSchemaV1<User> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value) => {
+          const user = value as Partial<User> | null;
+          if (typeof user?.name !== "string") {
+            return { issues: [{ message: "Required", path: ["name"] }] };
+          }
+          if (typeof user.age !== "number") {
+            return { issues: [{ message: "Expected number", path: ["age"] }] };
+          }
+          return { value: { name: user.name.trim(), age: user.age } };
+        },
+      },
+    };
+
+    const validated = (onInvalidRead?: InvalidReadPolicy) =>
+      createTypedSchema<{ id: string }>()
+        .name("user")
+        .keyPattern("user:{id}")
+        .structure("STRING")
+        .ttl(3600)
+        .codec(JSONCodec)
+        .validate(userValidator, { onInvalidRead })
+        .operations((ops) => ops.addGet<"get", User>().addSet<"set", User>())
+        .build();
+
+    it("should store and return validated values", async () => {
+      const schema = validated();
+      await cache.execute(schema.operations.set, {
+        id: "1",
+        value: { name: " Ada ", age: 36 },
+      });
+
+      expect(await cache.execute(schema.operations.get, { id: "1" })).toEqual({
+        name: "Ada",
+        age: 36,
+      });
+      expect(schema.validator).toBe(userValidator);
+    });
+
+    it("should reject invalid writes without retrying", async () => {
+      const schema = validated();
+      const execute = vi.spyOn(adapter, "executeRaw");
+
+      await expect(
+        cache.execute(
+          schema.operations.set,
+          { id: "1", value: { name: "Ada" } as User },
+          { retries: 2 },
+        ),
+      ).rejects.toMatchObject({
+        code: CacheErrorCode.VALIDATION_ERROR,
+        message: "Invalid value for SET: age: Expected number",
+      });
+      expect(execute).not.toHaveBeenCalled();
+    });
+
+    it("should throw on invalid reads by default", async () => {
+      await cache.set("user:1", '\u0001json:{"name":"Ada"}');
+
+      await expect(
+        cache.execute(validated().operations.get, { id: "1" }),
+      ).rejects.toMatchObject({
+        code: CacheErrorCode.VALIDATION_ERROR,
+        key: "test:user:1",
+      });
+    });
+
+    it("should treat invalid reads as a miss", async () => {
+      await cache.set("user:1", '\u0001json:{"name":"Ada"}');
+
+      const schema = validated("miss");
+      expect(
+        await cache.execute(schema.operations.get, { id: "1" }),
+      ).toBeNull();
+      expect(await cache.exists("user:1")).toBe(0);
+    });
+
+    it("should log invalid reads", async () => {
+      const logger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+      cache = new Cachyer({
+        adapter,
+        keyPrefix: "test",
+        autoConnect: false,
+        logger,
+      });
+      await cache.set("user:1", '\u0001json:{"name":"Ada"}');
+
+      const schema = validated("log");
+      expect(await cache.execute(schema.operations.get, { id: "1" })).toEqual({
+        name: "Ada",
+      });
+      expect(logger.warn).toHaveBeenCalledWith(
+        "Invalid cached value at test:user:1: age: Expected number",
+      );
+    });
+
+    it("should apply the read policy to values that fail to decode", async () => {
+      await cache.set("user:1", "\u0001json:{broken");
+      const execute = vi.spyOn(adapter, "executeRaw");
+
+      await expect(
+        cache.execute(
+          validated().operations.get,
+          { id: "1" },
+          { retries: 2, throwOnError: true },
+        ),
+      ).rejects.toMatchObject({
+        code: CacheErrorCode.VALIDATION_ERROR,
+        key: "test:user:1",
+      });
+      expect(execute).toHaveBeenCalledTimes(1);
+
+      expect(
+        await cache.execute(validated("miss").operations.get, { id: "1" }),
+      ).toBeNull();
+      expect(await cache.exists("user:1")).toBe(0);
+    });
+
+    it("should validate reads in pipelines and transactions", async () => {
+      await cache.set("user:1", '\u0001json:{"name":"Ada","age":36}');
+      await cache.set("user:2", '\u0001json:{"name":"Ada"}');
+      const schema = validated();
+
+      const piped = await cache.pipeline([
+        pipelineEntry(schema.operations.get, { id: "1" }),
+        pipelineEntry(schema.operations.get, { id: "2" }),
+      ]);
+      expect(piped.success).toBe(false);
+      expect(piped.results[0]).toEqual({
+        success: true,
+        data: { name: "Ada", age: 36 },
+      });
+      expect(piped.results[1]!.error).toMatchObject({
+        code: CacheErrorCode.VALIDATION_ERROR,
+      });
+
+      const transaction = await cache.transaction([
+        pipelineEntry(validated("miss").operations.get, { id: "1" }),
+        pipelineEntry(validated("miss").operations.get, { id: "2" }),
+      ]);
+      expect(transaction.results).toEqual([{ name: "Ada", age: 36 }, null]);
+      expect(await cache.exists("user:2")).toBe(0);
+
+      await cache.set("user:2", "\u0001json:{broken");
+      const failed = await cache.transaction([
+        pipelineEntry(schema.operations.get, { id: "2" }),
+      ]);
+      expect(failed).toMatchObject({ success: false, committed: true });
+      expect(failed.error).toMatchObject({
+        code: CacheErrorCode.VALIDATION_ERROR,
+      });
+    });
+
+    it("should validate writes in pipelines", async () => {
+      const schema = validated();
+
+      await expect(
+        cache.pipeline([
+          pipelineEntry(schema.operations.set, {
+            id: "1",
+            value: { age: 1 } as User,
+          }),
+        ]),
+      ).rejects.toMatchObject({ code: CacheErrorCode.VALIDATION_ERROR });
+      expect(await cache.exists("user:1")).toBe(0);
+    });
+  });
+
+  describe("schema repositories", () => {
+    const users = () =>
+      createTypedSchema<{ id: string }>()
+        .name("user")
+        .keyPattern("user:{id}")
+        .structure("STRING")
+        .ttl(60)
+        .operations((ops) => ops.addGet().addSet().addExists())
+        .build();
+
+    it("should expose operations as methods", async () => {
+      const repository = cache.bind(users());
+
+      await repository.set({ id: "1", value: "Ada" });
+      expect(await repository.get({ id: "1" })).toBe("Ada");
+      expect(await repository.exists({ id: "1" })).toBe(true);
+      expect(repository.schema.name).toBe("user");
+    });
+
+    it("should apply the schema TTL on writes", async () => {
+      const repository = cache.bind(users());
+
+      await repository.set({ id: "1", value: "Ada" });
+      expect(await cache.ttl("user:1")).toBe(60);
+    });
+
+    it("should trim lists and sorted sets to maxSize", async () => {
+      const recent = cache.bind(
+        createTypedSchema<{ id: string }>()
+          .name("recent")
+          .keyPattern("recent:{id}")
+          .structure("LIST")
+          .ttl(60)
+          .maxSize(2)
+          .operations((ops) => ops.addListPush("push").addListGetRange("range"))
+          .build(),
+      );
+      for (const value of ["a", "b", "c"]) {
+        await recent.push({ id: "1", value });
+      }
+      expect(await recent.range({ id: "1", start: 0, stop: -1 })).toEqual([
+        "c",
+        "b",
+      ]);
+
+      const scores = cache.bind(
+        createTypedSchema<{ id: string }>()
+          .name("scores")
+          .keyPattern("scores:{id}")
+          .structure("SORTED_SET")
+          .ttl(60)
+          .maxSize(2)
+          .operations((ops) => ops.addSortedSetAdd("add"))
+          .build(),
+      );
+      for (const [member, score] of [
+        ["a", 3],
+        ["b", 1],
+        ["c", 2],
+      ] as const) {
+        await scores.add({ id: "1", member, score });
+      }
+      expect(await cache.zrange("scores:1", 0, -1)).toEqual(["c", "a"]);
+    });
+
+    it("should invalidate a key", async () => {
+      const repository = cache.bind(users());
+      await repository.set({ id: "1", value: "Ada" });
+
+      expect(await repository.invalidate({ id: "1" })).toBe(true);
+      expect(await repository.get({ id: "1" })).toBeNull();
+      expect(await repository.invalidate({ id: "1" })).toBe(false);
+    });
+
+    it("should reject operations named like repository methods", () => {
+      const schema = createTypedSchema<{ id: string }>()
+        .name("user")
+        .keyPattern("user:{id}")
+        .structure("STRING")
+        .ttl(60)
+        .operations((ops) => ops.addDelete("invalidate"))
+        .build();
+
+      expect(() => cache.bind(schema)).toThrow(/clashes/);
+    });
+  });
+
+  describe("schema size limits", () => {
+    const capped = (
+      structure: "LIST" | "SET" | "SORTED_SET",
+      eviction?: EvictionPolicy,
+    ) =>
+      createTypedSchema<{ id: string }>()
+        .name("capped")
+        .keyPattern("capped:{id}")
+        .structure(structure)
+        .ttl(60)
+        .maxSize(2, eviction)
+        .operations((ops) =>
+          ops
+            .addListPush("push")
+            .addSetAdd("add")
+            .addSortedSetAdd("zadd")
+            .addSortedSetIncrementBy("zincrby"),
+        )
+        .build();
+
+    const zaddAll = async (schema: ReturnType<typeof capped>) => {
+      for (const [member, score] of [
+        ["a", 3],
+        ["b", 1],
+        ["c", 2],
+      ] as const) {
+        await cache.execute(schema.operations.zadd, { id: "1", member, score });
+      }
+    };
+
+    it("should keep the newest list items", async () => {
+      const schema = capped("LIST");
+      for (const value of ["a", "b", "c"]) {
+        await cache.execute(schema.operations.push, { id: "1", value });
+      }
+      expect(await cache.lrange("capped:1", 0, -1)).toEqual(["c", "b"]);
+    });
+
+    it("should evict the lowest or highest scores", async () => {
+      await zaddAll(capped("SORTED_SET"));
+      expect(await cache.zrange("capped:1", 0, -1)).toEqual(["c", "a"]);
+
+      await cache.del("capped:1");
+      await zaddAll(capped("SORTED_SET", "highestScore"));
+      expect(await cache.zrange("capped:1", 0, -1)).toEqual(["b", "c"]);
+    });
+
+    it("should trim sorted sets on increments", async () => {
+      const schema = capped("SORTED_SET");
+      for (const member of ["a", "b", "c"]) {
+        await cache.execute(schema.operations.zincrby, {
+          id: "1",
+          member,
+          amount: member === "b" ? 1 : 2,
+        });
+      }
+      expect(await cache.zrange("capped:1", 0, -1)).toEqual(["a", "c"]);
+    });
+
+    it("should evict random set members", async () => {
+      const schema = capped("SET");
+      for (const member of ["a", "b", "c", "d"]) {
+        await cache.execute(schema.operations.add, { id: "1", member });
+      }
+      expect(await cache.scard("capped:1")).toBe(2);
+    });
+
+    it("should not read set members while the set is within maxSize", async () => {
+      const schema = capped("SET");
+      const smembers = vi.spyOn(adapter, "smembers");
+      await cache.execute(schema.operations.add, { id: "1", member: "a" });
+      await cache.execute(schema.operations.add, { id: "1", member: "b" });
+      expect(smembers).not.toHaveBeenCalled();
+
+      await cache.execute(schema.operations.add, { id: "1", member: "c" });
+      expect(smembers).toHaveBeenCalledTimes(1);
+      expect(await cache.scard("capped:1")).toBe(2);
+    });
+
+    it("should reject oldest eviction on sorted sets", () => {
+      expect(() => capped("SORTED_SET", "oldest")).toThrow(
+        'Eviction "oldest" only applies to lists',
+      );
+    });
+
+    it("should chain trims in pipelines and transactions", async () => {
+      const schema = capped("LIST");
+      const result = await cache.pipeline(
+        ["a", "b", "c"].map((value) =>
+          pipelineEntry(schema.operations.push, { id: "1", value }),
+        ),
+      );
+      expect(result.results.map((entry) => entry.data)).toEqual([1, 2, 3]);
+      expect(await cache.lrange("capped:1", 0, -1)).toEqual(["c", "b"]);
+
+      const sets = capped("SET");
+      const executeTransaction = vi.spyOn(adapter, "executeTransaction");
+      const executeScript = vi.spyOn(adapter, "executeScript");
+      await cache.transaction(
+        ["a", "b", "c"].map((member) =>
+          pipelineEntry(sets.operations.add, { id: "2", member }),
+        ),
+      );
+      expect(await cache.scard("capped:2")).toBe(2);
+
+      // Set trims run inside the transaction, after each SADD
+      const commands = executeTransaction.mock.calls[0]![0].map(
+        (entry) => entry.operation.command,
+      );
+      expect(commands).toEqual([
+        "SADD",
+        "EVAL",
+        "SADD",
+        "EVAL",
+        "SADD",
+        "EVAL",
+      ]);
+      expect(executeScript).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("schema TTL policies", () => {
+    const session = (policy?: TtlPolicy) =>
+      createTypedSchema<{ id: string }>()
+        .name("session")
+        .keyPattern("session:{id}")
+        .structure("STRING")
+        .ttl(60, policy)
+        .operations((ops) => ops.addGet().addSet())
+        .build();
+
+    const write = (schema: ReturnType<typeof session>, value: string) =>
+      cache.execute(schema.operations.set, { id: "1", value });
+
+    it("should set a fixed TTL only when the key is created", async () => {
+      const schema = session("fixed");
+      await write(schema, "a");
+      expect(await cache.ttl("session:1")).toBe(60);
+
+      await cache.expire("session:1", 10);
+      await cache.execute(schema.operations.get, { id: "1" });
+      expect(await cache.ttl("session:1")).toBe(10);
+    });
+
+    it("should reset the TTL on every write", async () => {
+      const schema = session("write");
+      await write(schema, "a");
+      await cache.expire("session:1", 10);
+
+      await cache.execute(schema.operations.get, { id: "1" });
+      expect(await cache.ttl("session:1")).toBe(10);
+      await write(schema, "b");
+      expect(await cache.ttl("session:1")).toBe(60);
+    });
+
+    it("should reset a sliding TTL on reads", async () => {
+      const schema = session("sliding");
+      await write(schema, "a");
+      await cache.expire("session:1", 10);
+
+      expect(await cache.execute(schema.operations.get, { id: "1" })).toBe("a");
+      expect(await cache.ttl("session:1")).toBe(60);
+    });
+
+    it("should leave the TTL alone without a policy", async () => {
+      await write(session(), "a");
+      expect(await cache.ttl("session:1")).toBe(-1);
+    });
+
+    it("should chain EXPIRE in pipelines and transactions", async () => {
+      const schema = session("write");
+      const result = await cache.pipeline([
+        pipelineEntry(schema.operations.set, { id: "1", value: "a" }),
+        pipelineEntry(schema.operations.get, { id: "1" }),
+      ]);
+      expect(result.results.map((entry) => entry.data)).toEqual(["OK", "a"]);
+      expect(await cache.ttl("session:1")).toBe(60);
+
+      const transaction = await cache.transaction([
+        pipelineEntry(schema.operations.set, { id: "2", value: "b" }),
+      ]);
+      expect(transaction.results).toEqual(["OK"]);
+      expect(await cache.ttl("session:2")).toBe(60);
+    });
+  });
+
+  describe("schema versions", () => {
+    const versioned = (version: number) =>
+      createTypedSchema<{ id: string }>()
+        .name("user")
+        .keyPattern("user:{id}")
+        .structure("STRING")
+        .ttl(3600)
+        .version(version)
+        .operations((ops) => ops.addGet().addSet())
+        .build();
+
+    it("should not read entries written by a previous version", async () => {
+      const v1 = versioned(1);
+      const v2 = versioned(2);
+
+      await cache.execute(v1.operations.set, { id: "1", value: "old" });
+      expect(await cache.execute(v2.operations.get, { id: "1" })).toBeNull();
+    });
+
+    it("should sweep keys from previous versions", async () => {
+      await cache.set("user:1", "unversioned");
+      await cache.set("user:2:v1", "v1");
+      await cache.set("user:3:v2", "current");
+      await cache.set("user:4:settings", "other schema");
+      await cache.set("user:5:v3", "next deploy");
+
+      cache.registerSchema(versioned(2));
+      expect(await cache.sweepSchemaVersions()).toBe(1);
+
+      expect(await cache.exists("user:2:v1")).toBe(0);
+      expect(await cache.get("user:1")).toBe("unversioned");
+      expect(await cache.get("user:3:v2")).toBe("current");
+      expect(await cache.get("user:4:settings")).toBe("other schema");
+      expect(await cache.get("user:5:v3")).toBe("next deploy");
+    });
+
+    it("should sweep unversioned keys only when asked", async () => {
+      await cache.set("user:1", "unversioned");
+
+      expect(
+        await cache.sweepSchemaVersions(versioned(2), {
+          includeUnversioned: true,
+        }),
+      ).toBe(1);
+      expect(await cache.exists("user:1")).toBe(0);
+    });
+
+    it("should sweep in the background when configured", async () => {
+      vi.useFakeTimers();
+      try {
+        const swept = new Cachyer({
+          adapter,
+          keyPrefix: "test",
+          autoConnect: false,
+          versionSweepIntervalMs: 1000,
+        });
+        swept.registerSchema(versioned(2));
+        await swept.connect();
+        await cache.set("user:1:v1", "old");
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(await cache.exists("user:1:v1")).toBe(0);
+        await swept.disconnect();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
   // =============================================
   // EXECUTE
   // =============================================
@@ -471,6 +1158,55 @@ describe("Cachyer", () => {
       expect(result).toBe("hello");
     });
 
+    it("should prefix keys of probabilistic operations", async () => {
+      const schema = createTypedSchema<{ id: string }>()
+        .name("seen")
+        .keyPattern("seen:{id}")
+        .structure("CUCKOO_FILTER")
+        .ttl(60)
+        .operations((ops) => ops.addCuckooFilterAdd().addCuckooFilterExists())
+        .build();
+
+      await cache.execute(schema.operations.cuckooFilterAdd, {
+        id: "1",
+        item: "post:1",
+      });
+      expect(
+        await cache.execute(schema.operations.cuckooFilterExists, {
+          id: "1",
+          item: "post:1",
+        }),
+      ).toBe(true);
+      expect(await adapter.cfExists("test:seen:1", "post:1")).toBe(1);
+    });
+
+    it("should prefix keys of geo operations", async () => {
+      const schema = createTypedSchema<{ city: string }>()
+        .name("places")
+        .keyPattern("places:{city}")
+        .structure("GEO")
+        .ttl(60)
+        .operations((ops) => ops.addGeoAdd().addGeoSearch())
+        .build();
+
+      await cache.execute(schema.operations.geoAdd, {
+        city: "berlin",
+        members: [
+          { longitude: 13.405, latitude: 52.52, member: "mitte" },
+          { longitude: 13.2846, latitude: 52.5163, member: "westend" },
+        ],
+      });
+      expect(
+        await cache.execute(schema.operations.geoSearch, {
+          city: "berlin",
+          from: { longitude: 13.4, latitude: 52.52 },
+          by: { radius: 2, unit: "km" },
+          withDist: true,
+        }),
+      ).toEqual([{ member: "mitte", distance: expect.any(Number) }]);
+      expect(await adapter.zcard("test:places:berlin")).toBe(2);
+    });
+
     it("should retry on failure", async () => {
       let attempts = 0;
       const op: CacheOperation<Record<string, unknown>, string> = {
@@ -487,6 +1223,41 @@ describe("Cachyer", () => {
       ).rejects.toThrow();
     });
 
+    it("should not retry writes when only a chained command fails", async () => {
+      const logger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+      cache = new Cachyer({
+        adapter,
+        keyPrefix: "test",
+        autoConnect: false,
+        logger,
+      });
+      const push: CacheOperation<{ value: string }, number> = {
+        command: "LPUSH",
+        buildArgs: ({ value }) => ["list", value],
+        trim: {
+          operation: { command: "NOPE" as any, buildArgs: () => ["list"] },
+        },
+      };
+
+      expect(
+        await cache.execute(
+          push,
+          { value: "a" },
+          { retries: 2, throwOnError: true },
+        ),
+      ).toBe(1);
+      expect(await cache.lrange("list", 0, -1)).toEqual(["a"]);
+      expect(logger.warn).toHaveBeenCalledWith(
+        "NOPE chained after LPUSH failed",
+        { error: expect.any(String) },
+      );
+    });
+
     it("should return undefined when throwOnError is false", async () => {
       const op: CacheOperation<Record<string, unknown>, string> = {
         command: "NONEXISTENT" as any,
@@ -587,32 +1358,503 @@ describe("Cachyer", () => {
   });
 
   // =============================================
-  // PUB/SUB
+  // TAG INVALIDATION
   // =============================================
 
-  describe("pub/sub", () => {
-    it("should throw for unsupported publish", async () => {
-      // MemoryAdapter doesn't have publish
-      const adapterWithoutPubSub = new MemoryAdapter({ checkInterval: 0 });
-      const c = new Cachyer({
-        adapter: adapterWithoutPubSub,
+  describe("tag invalidation", () => {
+    const setOp: CacheOperation<{ id: string; value: string }, unknown> = {
+      command: "SET",
+      buildArgs: (p) => [`user:${p.id}`, p.value],
+    };
+    const getOp: CacheOperation<{ id: string }, string | null> = {
+      command: "GET",
+      buildArgs: (p) => [`user:${p.id}`],
+      parseResult: (r) => r as string | null,
+    };
+
+    beforeEach(() => {
+      cache.registerSchema({
+        name: "user",
+        key: (p: { id: string }) => `user:${p.id}`,
+        structure: "STRING",
+        ttl: 3600,
+        operations: { set: setOp, get: getOp },
+        tags: ["users", "profiles"],
+      });
+    });
+
+    it("should delete keys written through tagged schema operations", async () => {
+      await cache.execute(setOp, { id: "1", value: "a" });
+      await cache.execute(setOp, { id: "2", value: "b" });
+      await cache.set("other", "c");
+
+      expect(await cache.invalidateTag("users")).toBe(2);
+      expect(await cache.get("user:1")).toBeNull();
+      expect(await cache.get("user:2")).toBeNull();
+      expect(await cache.get("other")).toBe("c");
+    });
+
+    it("should not index keys for read operations", async () => {
+      await cache.set("user:3", "x");
+      await cache.execute(getOp, { id: "3" });
+
+      expect(await cache.invalidateTag("users")).toBe(0);
+      expect(await cache.get("user:3")).toBe("x");
+    });
+
+    it("should invalidate several tags and clear the index", async () => {
+      await cache.execute(setOp, { id: "1", value: "a" });
+
+      expect(await cache.invalidateTags(["users", "profiles"])).toBe(1);
+      await cache.set("user:1", "fresh");
+      expect(await cache.invalidateTag("profiles")).toBe(0);
+      expect(await cache.get("user:1")).toBe("fresh");
+    });
+
+    it("should page through large tag sets", async () => {
+      for (let id = 0; id < 1200; id++) {
+        await cache.execute(setOp, { id: String(id), value: "a" });
+      }
+      const zrange = vi.spyOn(adapter, "zrange");
+
+      expect(await cache.invalidateTag("users")).toBe(1200);
+      expect(zrange.mock.calls.map(([, start, stop]) => [start, stop])).toEqual(
+        [
+          [0, 499],
+          [0, 499],
+          [0, 199],
+        ],
+      );
+      expect(await adapter.exists("test:tag:users")).toBe(0);
+    });
+
+    it("should drop a key from its tag sets when a repository invalidates it", async () => {
+      const users = cache.bind(cache.getSchema("user")!);
+      await cache.execute(setOp, { id: "1", value: "a" });
+      await cache.execute(setOp, { id: "2", value: "b" });
+
+      expect(await users.invalidate({ id: "1" })).toBe(true);
+      expect(await adapter.zrange("test:tag:users", 0, -1)).toEqual([
+        "test:user:2",
+      ]);
+      expect(await adapter.zrange("test:tag:profiles", 0, -1)).toEqual([
+        "test:user:2",
+      ]);
+      expect(await users.invalidate({ id: "1" })).toBe(false);
+    });
+
+    it("should index keys written in a pipeline", async () => {
+      await cache.pipeline([
+        { operation: setOp, params: { id: "1", value: "a" } },
+        { operation: setOp, params: { id: "2", value: "b" } },
+      ]);
+
+      expect(await cache.invalidateTag("profiles")).toBe(2);
+    });
+
+    describe("tag set lifetime", () => {
+      const setExOp: CacheOperation<
+        { id: string; value: string; ttl: number },
+        unknown
+      > = {
+        command: "SET",
+        buildArgs: (p) => [`user:${p.id}`, p.value],
+        expire: {
+          command: "EXPIRE",
+          buildArgs: (p) => [`user:${p.id}`, p.ttl],
+        },
+      };
+
+      beforeEach(() => {
+        cache.registerSchema({
+          name: "session",
+          key: (p: { id: string }) => `user:${p.id}`,
+          structure: "STRING",
+          ttl: 60,
+          operations: { set: setExOp },
+          tags: ["users"],
+        });
+      });
+
+      it("should expire tag sets with their longest-lived key", async () => {
+        await cache.execute(setExOp, { id: "1", value: "a", ttl: 100 });
+        await cache.execute(setExOp, { id: "2", value: "b", ttl: 50 });
+
+        const ttl = await adapter.ttl("test:tag:users");
+        expect(ttl).toBeGreaterThanOrEqual(await adapter.ttl("test:user:1"));
+        expect(ttl).toBeLessThanOrEqual(101);
+      });
+
+      it("should keep tag sets alive while they hold keys without TTL", async () => {
+        await cache.execute(setExOp, { id: "1", value: "a", ttl: 100 });
+        await cache.execute(setOp, { id: "2", value: "b" });
+        await cache.execute(setExOp, { id: "3", value: "c", ttl: 100 });
+
+        expect(await adapter.ttl("test:tag:users")).toBe(-1);
+        expect(await cache.invalidateTag("users")).toBe(3);
+      });
+
+      it("should prune expired keys from tag sets", async () => {
+        const now = Date.now();
+        const dateSpy = vi.spyOn(Date, "now").mockReturnValue(now);
+        await cache.execute(setExOp, { id: "1", value: "a", ttl: 1 });
+        await cache.execute(setExOp, { id: "2", value: "b", ttl: 100 });
+
+        dateSpy.mockReturnValue(now + 2_000);
+        await cache.execute(setExOp, { id: "3", value: "c", ttl: 100 });
+        dateSpy.mockRestore();
+
+        expect(await adapter.zrange("test:tag:users", 0, -1)).toEqual([
+          "test:user:2",
+          "test:user:3",
+        ]);
+      });
+    });
+
+    it("should index keys written in a transaction", async () => {
+      await cache.transaction([
+        { operation: setOp, params: { id: "1", value: "a" } },
+      ]);
+
+      expect(await cache.invalidateTag("users")).toBe(1);
+    });
+
+    it("should index keys on adapters without pipelines", async () => {
+      const plain = Object.assign(Object.create(adapter), {
+        executePipeline: undefined,
+      });
+      const fallback = new Cachyer({
+        adapter: plain,
+        keyPrefix: "test",
         autoConnect: false,
       });
-      await c.connect();
+      fallback.registerSchema({
+        name: "user",
+        key: (p: { id: string }) => `user:${p.id}`,
+        structure: "STRING",
+        ttl: 3600,
+        operations: { set: setOp },
+        tags: ["users"],
+      });
 
-      await expect(c.publish("ch", "msg")).rejects.toThrow(CacheError);
-      await c.disconnect();
+      await fallback.execute(setOp, { id: "1", value: "a" });
+      expect(await adapter.zrange("test:tag:users", 0, -1)).toEqual([
+        "test:user:1",
+      ]);
+
+      expect(await fallback.invalidateTag("users")).toBe(1);
+      expect(await adapter.exists("test:user:1", "test:tag:users")).toBe(0);
+    });
+  });
+
+  // =============================================
+  // CACHE-ASIDE
+  // =============================================
+
+  describe("getOrFetch", () => {
+    it("should fetch on miss and serve from cache afterwards", async () => {
+      const fetchFn = vi.fn(async () => ({ name: "alice" }));
+      expect(await cache.getOrFetch("user:1", fetchFn, 60)).toEqual({
+        name: "alice",
+      });
+      expect(await cache.getOrFetch("user:1", fetchFn, 60)).toEqual({
+        name: "alice",
+      });
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect(await adapter.ttl("test:user:1")).toBeGreaterThan(0);
+    });
+
+    it("should coalesce concurrent misses into a single fetch", async () => {
+      const fetchFn = vi.fn(async () => {
+        await new Promise((r) => setTimeout(r, 20));
+        return "value";
+      });
+
+      const results = await Promise.all(
+        Array.from({ length: 5 }, () => cache.getOrFetch("hot", fetchFn)),
+      );
+
+      expect(results).toEqual(Array(5).fill("value"));
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect(cache.getMetrics().operationCounts["getOrFetch:coalesced"]).toBe(
+        4,
+      );
+    });
+
+    it("should not coalesce when singleFlight is disabled", async () => {
+      const fetchFn = vi.fn(async () => "value");
+      await Promise.all([
+        cache.getOrFetch("k", fetchFn, { stampede: { singleFlight: false } }),
+        cache.getOrFetch("k", fetchFn, { stampede: { singleFlight: false } }),
+      ]);
+      expect(fetchFn).toHaveBeenCalledTimes(2);
     });
 
-    it("should throw for unsupported subscribe", async () => {
+    it("should propagate fetch errors to every waiter and allow retry", async () => {
+      const fetchFn = vi
+        .fn<[], Promise<string>>()
+        .mockRejectedValueOnce(new Error("db down"))
+        .mockResolvedValueOnce("ok");
+
+      const results = await Promise.allSettled([
+        cache.getOrFetch("err", fetchFn),
+        cache.getOrFetch("err", fetchFn),
+      ]);
+      expect(results.every((r) => r.status === "rejected")).toBe(true);
+      expect(await cache.getOrFetch("err", fetchFn)).toBe("ok");
+    });
+
+    it("should let only one node recompute in distributed mode", async () => {
+      const nodeA = new Cachyer({ adapter, keyPrefix: "test", autoConnect: false });
+      const nodeB = new Cachyer({ adapter, keyPrefix: "test", autoConnect: false });
+      const fetchFn = vi.fn(async () => {
+        await new Promise((r) => setTimeout(r, 30));
+        return "fresh";
+      });
+      const options = {
+        stampede: { distributed: true, retryIntervalMs: 5 },
+      };
+
+      const [a, b] = await Promise.all([
+        nodeA.getOrFetch("shared", fetchFn, options),
+        nodeB.getOrFetch("shared", fetchFn, options),
+      ]);
+
+      expect([a, b]).toEqual(["fresh", "fresh"]);
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect(await adapter.exists("test:lock:shared")).toBe(0);
+    });
+
+    it("should serve the stale copy while another node holds the lock", async () => {
+      const options = {
+        ttl: 60,
+        stampede: { distributed: true, staleTtl: 300 },
+      };
+      await cache.getOrFetch("feed", async () => "v1", options);
+      await adapter.del("test:feed");
+
+      // Simulate another node recomputing
+      await adapter.set("test:lock:feed", "other-node", { px: 1000 });
+
+      const fetchFn = vi.fn(async () => "v2");
+      expect(await cache.getOrFetch("feed", fetchFn, options)).toBe("v1");
+      expect(fetchFn).not.toHaveBeenCalled();
+      expect(cache.getMetrics().operationCounts["getOrFetch:stale"]).toBe(1);
+    });
+
+    it("should fetch anyway when the lock wait times out", async () => {
+      await adapter.set("test:lock:slow", "other-node", { px: 1000 });
+      const fetchFn = vi.fn(async () => "value");
+
+      const result = await cache.getOrFetch("slow", fetchFn, {
+        stampede: { distributed: true, waitTimeoutMs: 20, retryIntervalMs: 5 },
+      });
+
+      expect(result).toBe("value");
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect(cache.getMetrics().operationCounts["getOrFetch:lockTimeout"]).toBe(
+        1,
+      );
+    });
+
+    it("should serve stale values and refresh in the background after softTtl", async () => {
+      const now = Date.now();
+      const dateSpy = vi.spyOn(Date, "now").mockReturnValue(now);
+      const fetchFn = vi
+        .fn<[], Promise<string>>()
+        .mockResolvedValueOnce("v1")
+        .mockResolvedValueOnce("v2");
+      const options = { ttl: 60, softTtl: 10 };
+
+      expect(await cache.getOrFetch("swr", fetchFn, options)).toBe("v1");
+
+      dateSpy.mockReturnValue(now + 11_000);
+      expect(await cache.getOrFetch("swr", fetchFn, options)).toBe("v1");
+      await vi.waitFor(() => expect(fetchFn).toHaveBeenCalledTimes(2));
+
+      dateSpy.mockRestore();
+      await vi.waitFor(async () =>
+        expect(await cache.getOrFetch("swr", fetchFn, options)).toBe("v2"),
+      );
+      expect(
+        cache.getMetrics().operationCounts["getOrFetch:revalidate"],
+      ).toBe(1);
+    });
+
+    it("should keep serving fresh values before softTtl", async () => {
+      const fetchFn = vi.fn(async () => "v1");
+      await cache.getOrFetch("fresh", fetchFn, { ttl: 60, softTtl: 30 });
+      expect(
+        await cache.getOrFetch("fresh", fetchFn, { ttl: 60, softTtl: 30 }),
+      ).toBe("v1");
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should recompute early with XFetch when expiry is near", async () => {
+      const now = Date.now();
+      const dateSpy = vi.spyOn(Date, "now").mockReturnValue(now);
+      const fetchFn = vi.fn(async () => "v");
+      const options = { ttl: 60, softTtl: 10, earlyRecomputeBeta: 1 };
+      await cache.getOrFetch("xfetch", fetchFn, options);
+
+      // Force a large recompute cost so the early window is wide
+      const raw = (await adapter.get("test:xfetch"))!;
+      await adapter.set(
+        "test:xfetch",
+        raw.replace(/^(\u0000swr:\d+):\d+:/, "$1:5000:"),
+      );
+
+      dateSpy.mockReturnValue(now + 9_000);
+      const randomSpy = vi.spyOn(Math, "random").mockReturnValue(0.5);
+      await cache.getOrFetch("xfetch", fetchFn, options);
+      randomSpy.mockRestore();
+      dateSpy.mockRestore();
+
+      await vi.waitFor(() => expect(fetchFn).toHaveBeenCalledTimes(2));
+      expect(
+        cache.getMetrics().operationCounts["getOrFetch:earlyRecompute"],
+      ).toBe(1);
+    });
+
+    it("should return values without freshness metadata from get", async () => {
+      await cache.getOrFetch("meta", async () => ({ a: 1 }), { softTtl: 10 });
+      expect(await adapter.get("test:meta")).toMatch(/^\u0000swr:/);
+      expect(await cache.get("meta")).toBe('{"a":1}');
+    });
+
+    it("should strip freshness metadata on every read path", async () => {
+      await cache.getOrFetch("meta", async () => ({ a: 1 }), { softTtl: 10 });
+      const getOp: CacheOperation<{ key: string }, string | null> = {
+        command: "GET",
+        buildArgs: (p) => [p.key],
+      };
+
+      expect(await cache.execute(getOp, { key: "meta" })).toBe('{"a":1}');
+
+      const entries = [pipelineEntry(getOp, { key: "meta" })];
+      const pipeline = await cache.pipeline(entries);
+      expect(pipeline.results[0]?.data).toBe('{"a":1}');
+      const transaction = await cache.transaction(entries);
+      expect(transaction.results).toEqual(['{"a":1}']);
+    });
+
+    it("should only revalidate stale entries when softTtl is set", async () => {
+      const now = Date.now();
+      const dateSpy = vi.spyOn(Date, "now").mockReturnValue(now);
+      const fetchFn = vi.fn(async () => "v");
+      await cache.getOrFetch("soft", fetchFn, { ttl: 60, softTtl: 10 });
+
+      dateSpy.mockReturnValue(now + 11_000);
+      await cache.getOrFetch("soft", fetchFn, { ttl: 60 });
+      dateSpy.mockRestore();
+
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect(
+        cache.getMetrics().operationCounts["getOrFetch:revalidate"],
+      ).toBeUndefined();
+    });
+
+    it("should read plain entries written without freshness metadata", async () => {
+      await cache.getOrFetch("legacy", async () => ({ a: 1 }));
+      const fetchFn = vi.fn(async () => ({ a: 2 }));
+      expect(
+        await cache.getOrFetch("legacy", fetchFn, { softTtl: 1 }),
+      ).toEqual({ a: 1 });
+      expect(fetchFn).not.toHaveBeenCalled();
+    });
+
+    it("should coalesce concurrent hash misses", async () => {
+      const fetchFn = vi.fn(async () => ({ name: "bob", role: "admin" }));
+      const [a, b] = await Promise.all([
+        cache.getOrFetchHash("profile:1", fetchFn),
+        cache.getOrFetchHash("profile:1", fetchFn),
+      ]);
+      expect(a).toEqual({ name: "bob", role: "admin" });
+      expect(b).toEqual(a);
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect(await cache.hgetall("profile:1")).toEqual(a);
+    });
+  });
+
+  // =============================================
+  // KEYSPACE EVENTS
+  // =============================================
+
+  describe("keyspace events", () => {
+    it("should pass unprefixed keys to handlers", async () => {
+      const keys: string[] = [];
+      await cache.on("del", (key) => keys.push(key));
+
+      await cache.set("a", "1");
+      await cache.del("a");
+      await adapter.set("other:b", "1");
+      await adapter.del("other:b");
+
+      expect(keys).toEqual(["a"]);
+    });
+
+    it("should remove handlers with off", async () => {
+      const handler = vi.fn();
+      await cache.on("set", handler);
+      await cache.on("del", handler);
+      await cache.off("set", handler);
+
+      await cache.set("a", "1");
+      await cache.del("a");
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith("a", "del");
+    });
+  });
+
+  // =============================================
+  // PUB/SUB
+  // =============================================
+
+  describe("pub/sub", () => {
+    it("should publish to prefixed channels", async () => {
+      const received: Array<[string, string]> = [];
+      await cache.subscribe("news", (message, channel) =>
+        received.push([message, channel]),
+      );
+
+      expect(await cache.publish("news", "hello")).toBe(1);
+      expect(await adapter.publish("news", "unprefixed")).toBe(0);
+      expect(received).toEqual([["hello", "test:news"]]);
+
+      await cache.unsubscribe("news");
+      expect(await cache.publish("news", "again")).toBe(0);
+    });
+
+    it("should deliver to pattern subscriptions", async () => {
+      const received: string[] = [];
+      await cache.psubscribe("user:*", (message, channel, pattern) =>
+        received.push(`${pattern} ${channel} ${message}`),
+      );
+
+      await cache.publish("user:1", "a");
+      await cache.publish("post:1", "b");
+      expect(received).toEqual(["test:user:* test:user:1 a"]);
+
+      await cache.punsubscribe("user:*");
+      expect(await cache.publish("user:1", "c")).toBe(0);
+    });
+
+    it("should throw when the adapter has no pub/sub", async () => {
       const adapterWithoutPubSub = new MemoryAdapter({ checkInterval: 0 });
+      Object.assign(adapterWithoutPubSub, {
+        publish: undefined,
+        subscribe: undefined,
+        psubscribe: undefined,
+      });
       const c = new Cachyer({
         adapter: adapterWithoutPubSub,
         autoConnect: false,
       });
       await c.connect();
 
+      await expect(c.publish("ch", "msg")).rejects.toThrow(CacheError);
       await expect(c.subscribe("ch", () => {})).rejects.toThrow(CacheError);
+      await expect(c.psubscribe("ch:*", () => {})).rejects.toThrow(CacheError);
       await c.disconnect();
     });
   });
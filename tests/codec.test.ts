@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import type { Codec } from "../src/types/core.types";
+import {
+  BrotliCodec,
+  GzipCodec,
+  JSONCodec,
+  MessagePackCodec,
+  createCompressedCodec,
+  decodeWithCodec,
+  encodeWithCodec,
+} from "../src/utils/codec";
+
+describe("Codecs", () => {
+  const value = {
+    name: "Ada",
+    age: 36,
+    score: -1.5,
+    big: 2 ** 40,
+    tags: ["a", "b"],
+    active: true,
+    manager: null,
+  };
+
+  describe("built-in codecs", () => {
+    it.each([JSONCodec, MessagePackCodec, GzipCodec, BrotliCodec])(
+      "should round-trip values with $id",
+      (codec) => {
+        expect(decodeWithCodec(encodeWithCodec(value, codec))).toEqual(value);
+      },
+    );
+
+    it("should encode MessagePack to the spec", () => {
+      expect(MessagePackCodec.encode({ a: 1, b: [true, null] })).toEqual(
+        Buffer.from([0x82, 0xa1, 0x61, 0x01, 0xa1, 0x62, 0x92, 0xc3, 0xc0]),
+      );
+      expect(MessagePackCodec.encode(-200)).toEqual(
+        Buffer.from([0xd1, 0xff, 0x38]),
+      );
+    });
+
+    it("should keep binary data in MessagePack", () => {
+      const bytes = Buffer.from([0, 1, 255]);
+      const decoded = MessagePackCodec.decode(
+        MessagePackCodec.encode({ bytes }),
+      ) as { bytes: Buffer };
+      expect(decoded.bytes).toEqual(bytes);
+    });
+
+    it("should compress repetitive values", () => {
+      const text = { body: "lorem ipsum ".repeat(200) };
+      expect(encodeWithCodec(text, GzipCodec).length).toBeLessThan(
+        encodeWithCodec(text, JSONCodec).length / 4,
+      );
+    });
+  });
+
+  describe("headers", () => {
+    it("should record the codec id", () => {
+      expect(encodeWithCodec([1], JSONCodec)).toBe("\u0001json:[1]");
+      expect(encodeWithCodec([1], GzipCodec)).toMatch(/^\u0001gzip\+json:/);
+    });
+
+    it("should decode values from any built-in codec", () => {
+      const stored = encodeWithCodec(
+        value,
+        createCompressedCodec(MessagePackCodec, "br"),
+      );
+      expect(decodeWithCodec(stored, JSONCodec)).toEqual(value);
+    });
+
+    it("should decode custom codecs that are passed in", () => {
+      const upper: Codec<string> = {
+        id: "upper",
+        binary: false,
+        encode: (v) => v.toUpperCase(),
+        decode: (data) => data.toString().toLowerCase(),
+      };
+      const stored = encodeWithCodec("hello", upper);
+
+      expect(decodeWithCodec(stored, [JSONCodec, upper])).toBe("hello");
+      expect(() => decodeWithCodec(stored, JSONCodec)).toThrow(
+        'Unknown codec "upper"',
+      );
+    });
+
+    it("should return values without a header as they are", () => {
+      expect(decodeWithCodec("plain", JSONCodec)).toBe("plain");
+      expect(decodeWithCodec(null, JSONCodec)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { nextCronTime, parseCron } from "../src/utils/cron";
+
+describe("Cron", () => {
+  const at = (...args: [number, number, number, number?, number?]) =>
+    Date.UTC(args[0], args[1] - 1, args[2], args[3] ?? 0, args[4] ?? 0);
+
+  describe("parseCron()", () => {
+    it("should expand ranges, steps, lists and names", () => {
+      const schedule = parseCron("*/15 9-17/4 1,15 jan-mar mon-fri");
+      expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...schedule.hours]).toEqual([9, 13, 17]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+      expect([...schedule.months]).toEqual([1, 2, 3]);
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("should treat 7 as Sunday", () => {
+      expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+    });
+
+    it("should reject invalid expressions", () => {
+      expect(() => parseCron("* * * *")).toThrow("must have 5 fields");
+      expect(() => parseCron("60 * * * *")).toThrow('Invalid minute "60"');
+      expect(() => parseCron("*/0 * * * *")).toThrow('Invalid step "0"');
+      expect(() => parseCron("0 0 * foo *")).toThrow('Invalid month "foo"');
+    });
+  });
+
+  describe("nextCronTime()", () => {
+    it("should return the next matching minute", () => {
+      expect(nextCronTime("30 9 * * *", at(2030, 1, 1, 8))).toBe(
+        at(2030, 1, 1, 9, 30),
+      );
+      expect(nextCronTime("30 9 * * *", at(2030, 1, 1, 9, 30))).toBe(
+        at(2030, 1, 2, 9, 30),
+      );
+    });
+
+    it("should support macros", () => {
+      expect(nextCronTime("@monthly", at(2030, 12, 15))).toBe(at(2031, 1, 1));
+    });
+
+    it("should match either day field when both are restricted", () => {
+      // 2030-01-01 is a Tuesday
+      expect(nextCronTime("0 0 15 * fri", at(2030, 1, 1))).toBe(
+        at(2030, 1, 4),
+      );
+    });
+
+    it("should find leap days", () => {
+      expect(nextCronTime("0 0 29 2 *", at(2030, 1, 1))).toBe(at(2032, 2, 29));
+    });
+
+    it("should throw for expressions that never match", () => {
+      expect(() => nextCronTime("0 0 30 2 *", at(2030, 1, 1))).toThrow(
+        "never matches",
+      );
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { MemoryAdapter } from "../src/adapters/memory/memory.adapter";
+import { FeedService } from "../src/services/feed.service";
+
+describe("FeedService", () => {
+  let adapter: MemoryAdapter;
+  let service: FeedService;
+
+  const timelineOf = async (user: string, limit?: number) =>
+    (await service.getTimeline(user, { limit })).items.map(
+      (entry) => entry.postId,
+    );
+
+  beforeEach(async () => {
+    adapter = new MemoryAdapter({ checkInterval: 0 });
+    await adapter.connect();
+    service = new FeedService(adapter, {
+      celebrityThreshold: 3,
+      celebrityDemotionThreshold: 3,
+      maxTimelineLength: 5,
+      fanOutChunkSize: 2,
+    });
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+  });
+
+  // =============================================
+  // FOLLOWING
+  // =============================================
+
+  describe("follow() and unfollow()", () => {
+    it("should track followers once", async () => {
+      expect(await service.follow("bob", "alice")).toBe(true);
+      expect(await service.follow("bob", "alice")).toBe(false);
+      expect(await service.followerCount("alice")).toBe(1);
+
+      expect(await service.unfollow("bob", "alice")).toBe(true);
+      expect(await service.unfollow("bob", "alice")).toBe(false);
+      expect(await service.followerCount("alice")).toBe(0);
+    });
+
+    it("should switch authors to pull mode at the threshold", async () => {
+      for (const follower of ["a", "b", "c"]) {
+        await service.follow(follower, "star");
+      }
+      expect(await service.isCelebrity("star")).toBe(true);
+
+      await service.unfollow("a", "star");
+      expect(await service.isCelebrity("star")).toBe(false);
+    });
+
+    it("should switch authors back to push mode below the demotion threshold", async () => {
+      service = new FeedService(adapter, { celebrityThreshold: 10 });
+      for (let i = 0; i < 10; i++) {
+        await service.follow(`user${i}`, "star");
+      }
+      const backfill = vi.spyOn(adapter, "smembers");
+
+      // Still a celebrity down to 9 followers, 90% of the threshold
+      await service.unfollow("user0", "star");
+      await service.follow("user0", "star");
+      await service.unfollow("user0", "star");
+      expect(await service.isCelebrity("star")).toBe(true);
+      expect(backfill).not.toHaveBeenCalled();
+
+      await service.unfollow("user1", "star");
+      expect(await service.isCelebrity("star")).toBe(false);
+      expect(backfill).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject a demotion threshold above the celebrity threshold", () => {
+      expect(
+        () =>
+          new FeedService(adapter, {
+            celebrityThreshold: 3,
+            celebrityDemotionThreshold: 4,
+          }),
+      ).toThrow("must not exceed celebrityThreshold");
+    });
+  });
+
+  // =============================================
+  // FAN-OUT ON WRITE
+  // =============================================
+
+  describe("publish()", () => {
+    it("should push posts into follower timelines in chunks", async () => {
+      const pipeline = vi.spyOn(adapter, "executePipeline");
+      for (const follower of ["a", "b"]) {
+        await service.follow(follower, "alice");
+      }
+      service = new FeedService(adapter, { fanOutChunkSize: 1 });
+
+      const result = await service.publish("alice", "p1", { timestamp: 1 });
+
+      expect(result).toEqual({ mode: "push", delivered: 2 });
+      expect(pipeline).toHaveBeenCalledTimes(2);
+      expect(await adapter.zscore("feed:a:timeline", "p1")).toBe("1");
+      expect(await timelineOf("b")).toEqual(["p1"]);
+    });
+
+    it("should trim timelines to the max length", async () => {
+      await service.follow("bob", "alice");
+      for (let i = 1; i <= 7; i++) {
+        await service.publish("alice", `p${i}`, { timestamp: i });
+      }
+
+      expect(await adapter.zcard("feed:bob:timeline")).toBe(5);
+      expect(await adapter.zcard("feed:alice:posts")).toBe(5);
+      expect(await timelineOf("bob")).toEqual(["p7", "p6", "p5", "p4", "p3"]);
+    });
+
+    it("should remove unpublished posts from timelines", async () => {
+      await service.follow("bob", "alice");
+      await service.publish("alice", "p1", { timestamp: 1 });
+      await service.publish("alice", "p2", { timestamp: 2 });
+
+      await service.unpublish("alice", "p1");
+      expect(await timelineOf("bob")).toEqual(["p2"]);
+      expect(await timelineOf("alice")).toEqual(["p2"]);
+    });
+  });
+
+  // =============================================
+  // FAN-OUT ON READ
+  // =============================================
+
+  describe("celebrity posts", () => {
+    beforeEach(async () => {
+      for (const follower of ["bob", "carol", "dave"]) {
+        await service.follow(follower, "star");
+      }
+      await service.follow("bob", "alice");
+    });
+
+    it("should not push celebrity posts", async () => {
+      const result = await service.publish("star", "s1", { timestamp: 2 });
+
+      expect(result).toEqual({ mode: "pull", delivered: 0 });
+      expect(await adapter.exists("feed:bob:timeline")).toBe(0);
+    });
+
+    it("should merge celebrity posts into timelines on read", async () => {
+      await service.publish("alice", "a1", { timestamp: 1 });
+      await service.publish("star", "s1", { timestamp: 2 });
+      await service.publish("bob", "b1", { timestamp: 3 });
+      await service.publish("alice", "a2", { timestamp: 4 });
+
+      expect(await timelineOf("bob")).toEqual(["a2", "b1", "s1", "a1"]);
+      expect(await timelineOf("carol")).toEqual(["s1"]);
+    });
+
+    it("should backfill timelines when an author stops being a celebrity", async () => {
+      await service.publish("star", "s1", { timestamp: 2 });
+      await service.publish("star", "s2", { timestamp: 3 });
+      await service.unfollow("dave", "star");
+
+      expect(await service.isCelebrity("star")).toBe(false);
+      expect(await timelineOf("bob")).toEqual(["s2", "s1"]);
+      expect((await service.getTimeline("carol")).items).toEqual([
+        { postId: "s2", timestamp: 3 },
+        { postId: "s1", timestamp: 2 },
+      ]);
+      expect(await adapter.exists("feed:dave:timeline")).toBe(0);
+    });
+  });
+
+  // =============================================
+  // PAGINATION
+  // =============================================
+
+  describe("getTimeline()", () => {
+    it("should paginate merged timelines with cursors", async () => {
+      for (const follower of ["bob", "carol", "dave"]) {
+        await service.follow(follower, "star");
+      }
+      await service.follow("bob", "alice");
+      await service.publish("alice", "a1", { timestamp: 1 });
+      await service.publish("star", "s1", { timestamp: 2 });
+      await service.publish("alice", "a2", { timestamp: 3 });
+
+      const first = await service.getTimeline("bob", { limit: 2 });
+      expect(first.items).toEqual([
+        { postId: "a2", timestamp: 3 },
+        { postId: "s1", timestamp: 2 },
+      ]);
+      expect(first.hasMore).toBe(true);
+
+      const second = await service.getTimeline("bob", {
+        limit: 2,
+        cursor: first.nextCursor,
+      });
+      expect(second.items.map((entry) => entry.postId)).toEqual(["a1"]);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it("should not skip posts sharing the cursor's timestamp", async () => {
+      await service.follow("bob", "alice");
+      for (const postId of ["a", "b", "c", "d"]) {
+        await service.publish("alice", postId, { timestamp: 1 });
+      }
+
+      const first = await service.getTimeline("bob", { limit: 3 });
+      const second = await service.getTimeline("bob", {
+        limit: 3,
+        cursor: first.nextCursor,
+      });
+      expect([...first.items, ...second.items].map((e) => e.postId)).toEqual([
+        "d",
+        "c",
+        "b",
+        "a",
+      ]);
+    });
+  });
+});
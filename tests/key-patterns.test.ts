@@ -9,6 +9,9 @@ import {
   withPrefix,
   stripPrefix,
   CommonPatterns,
+  withKeyVersion,
+  createVersionScanPattern,
+  createKeyVersionMatcher,
 } from "../src/utils/key-patterns";
 
 describe("key-patterns", () => {
@@ -69,6 +72,34 @@ describe("key-patterns", () => {
     });
   });
 
+  // =============================================
+  // versioned keys
+  // =============================================
+
+  describe("versioned keys", () => {
+    it("should append a version segment", () => {
+      const builder = withKeyVersion(
+        createKeyBuilder<{ id: string }>("item:{id}"),
+        3,
+      );
+      expect(builder({ id: "1" })).toBe("item:1:v3");
+    });
+
+    it("should build a scan pattern covering all versions", () => {
+      expect(createVersionScanPattern("user:{id}:profile")).toBe(
+        "user:*:profile*",
+      );
+    });
+
+    it("should match keys and extract their version", () => {
+      const matches = createKeyVersionMatcher("user:{id}:profile");
+      expect(matches("user:1:profile")).toEqual({ matched: true, version: null });
+      expect(matches("user:1:profile:v2")).toEqual({ matched: true, version: 2 });
+      expect(matches("user:1:profile:extra").matched).toBe(false);
+      expect(matches("user:1:2:profile").matched).toBe(false);
+    });
+  });
+
   // =============================================
   // createStaticKey
   // =============================================
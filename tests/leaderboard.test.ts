@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { MemoryAdapter } from "../src/adapters/memory/memory.adapter";
+import { LeaderboardService } from "../src/services/leaderboard.service";
+
+describe("LeaderboardService", () => {
+  let adapter: MemoryAdapter;
+  let service: LeaderboardService;
+
+  const seed = async () => {
+    for (const [member, score] of [
+      ["a", 100],
+      ["b", 90],
+      ["c", 90],
+      ["d", 80],
+      ["e", 70],
+    ] as const) {
+      await service.submitScore("game", member, score);
+    }
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    // A Wednesday
+    vi.setSystemTime(Date.UTC(2030, 0, 2, 12));
+    adapter = new MemoryAdapter({ checkInterval: 0 });
+    await adapter.connect();
+    service = new LeaderboardService(adapter);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await adapter.disconnect();
+  });
+
+  // =============================================
+  // SCORE MODES
+  // =============================================
+
+  describe("submitScore()", () => {
+    it("should keep the best score by default", async () => {
+      await service.submitScore("game", "a", 50);
+      await service.submitScore("game", "a", 30);
+      await service.submitScore("game", "a", 70);
+      expect(await service.scoreOf("game", "a")).toBe(70);
+    });
+
+    it("should keep the latest score", async () => {
+      await service.submitScore("game", "a", 50, "latest");
+      await service.submitScore("game", "a", 30, "latest");
+      expect(await service.scoreOf("game", "a")).toBe(30);
+    });
+
+    it("should sum scores", async () => {
+      await service.submitScore("game", "a", 50, "sum");
+      await service.submitScore("game", "a", 30, "sum");
+      expect(await service.scoreOf("game", "a")).toBe(80);
+    });
+  });
+
+  // =============================================
+  // RANKS
+  // =============================================
+
+  describe("rankOf()", () => {
+    beforeEach(seed);
+
+    it("should use competition ranks by default", async () => {
+      expect(await service.rankOf("game", "b")).toMatchObject({
+        score: 90,
+        rank: 2,
+      });
+      expect((await service.rankOf("game", "d"))?.rank).toBe(4);
+    });
+
+    it("should support dense and ordinal ranks", async () => {
+      expect((await service.rankOf("game", "d", { ties: "dense" }))?.rank).toBe(
+        3,
+      );
+      expect(
+        (await service.rankOf("game", "b", { ties: "ordinal" }))?.rank,
+      ).toBe(3);
+    });
+
+    it("should count distinct higher scores with one ZCOUNT for dense ranks", async () => {
+      const zcount = vi.spyOn(adapter, "zcount");
+      const zrevrangebyscore = vi.spyOn(adapter, "zrevrangebyscore");
+      await service.submitScore("game", "f", 60);
+
+      expect((await service.rankOf("game", "f", { ties: "dense" }))?.rank).toBe(
+        5,
+      );
+      expect(zcount).toHaveBeenCalledTimes(1);
+      expect(zcount).toHaveBeenCalledWith(
+        "leaderboard:game:all:scores",
+        "(60",
+        "+inf",
+      );
+      expect(zrevrangebyscore).not.toHaveBeenCalled();
+    });
+
+    it("should keep dense ranks in step with score changes", async () => {
+      const dense = { ties: "dense" } as const;
+      // "a" moves onto the tie at 90, leaving 100 with no members
+      await service.submitScore("game", "a", 90, "latest");
+      expect((await service.rankOf("game", "d", dense))?.rank).toBe(2);
+
+      await service.submitScore("game", "e", 15, "sum");
+      expect((await service.rankOf("game", "d", dense))?.rank).toBe(3);
+
+      await service.removeMember("game", "e");
+      await service.removeMember("game", "b");
+      expect((await service.rankOf("game", "d", dense))?.rank).toBe(2);
+      expect(await adapter.hgetall("leaderboard:game:all:scoreCounts")).toEqual(
+        { "90": "2", "80": "1" },
+      );
+    });
+
+    it("should return null for unknown members", async () => {
+      expect(await service.rankOf("game", "zed")).toBeNull();
+    });
+  });
+
+  // =============================================
+  // WINDOWS AND PAGES
+  // =============================================
+
+  describe("around() and top()", () => {
+    beforeEach(seed);
+
+    it("should return the members around a member", async () => {
+      const entries = await service.around("game", "d", 1);
+      expect(entries.map(({ member, rank }) => [member, rank])).toEqual([
+        ["b", 2],
+        ["d", 4],
+        ["e", 5],
+      ]);
+    });
+
+    it("should rank ties that start a window", async () => {
+      const entries = await service.around("game", "b", 0, { ties: "dense" });
+      expect(entries).toEqual([
+        { member: "b", score: 90, rank: 2, position: 3 },
+      ]);
+    });
+
+    it("should paginate with cursors", async () => {
+      const first = await service.top("game", { limit: 2 });
+      expect(first.items.map((entry) => entry.member)).toEqual(["a", "c"]);
+      expect(first.hasMore).toBe(true);
+
+      const second = await service.top("game", {
+        limit: 2,
+        cursor: first.nextCursor,
+      });
+      expect(second.items.map(({ member, rank }) => [member, rank])).toEqual([
+        ["b", 2],
+        ["d", 4],
+      ]);
+
+      const last = await service.top("game", {
+        limit: 2,
+        cursor: second.nextCursor,
+      });
+      expect(last.items.map((entry) => entry.member)).toEqual(["e"]);
+      expect(last.nextCursor).toBeNull();
+    });
+  });
+
+  // =============================================
+  // PERIODS
+  // =============================================
+
+  describe("time-bucketed boards", () => {
+    beforeEach(() => {
+      service = new LeaderboardService(adapter, {
+        periods: ["daily", "weekly", "allTime"],
+        retentionSeconds: 3600,
+      });
+    });
+
+    it("should record scores in every period", async () => {
+      await service.submitScore("game", "a", 10);
+
+      expect(await adapter.exists("leaderboard:game:d:2030-01-02")).toBe(1);
+      // Weeks start on Monday
+      expect(await adapter.exists("leaderboard:game:w:2029-12-31")).toBe(1);
+      expect(await adapter.exists("leaderboard:game:all")).toBe(1);
+    });
+
+    it("should expire period boards after their retention", async () => {
+      await service.submitScore("game", "a", 10);
+
+      // Midnight after the day, plus one hour of retention
+      expect(await adapter.ttl("leaderboard:game:d:2030-01-02")).toBe(
+        13 * 3600,
+      );
+      expect(await adapter.ttl("leaderboard:game:all")).toBe(-1);
+    });
+
+    it("should start a new daily board each day", async () => {
+      await service.submitScore("game", "a", 10);
+      vi.setSystemTime(Date.UTC(2030, 0, 3, 1));
+      await service.submitScore("game", "b", 5);
+
+      expect(await service.size("game", { period: "daily" })).toBe(1);
+      expect(await service.size("game", { period: "weekly" })).toBe(2);
+      expect(
+        await service.scoreOf("game", "a", {
+          period: "daily",
+          date: Date.UTC(2030, 0, 2),
+        }),
+      ).toBe(10);
+    });
+  });
+
+  // =============================================
+  // MERGE AND REMOVE
+  // =============================================
+
+  describe("merge() and removeMember()", () => {
+    it("should merge boards with zunionstore", async () => {
+      await service.submitScore("eu", "a", 10);
+      await service.submitScore("us", "a", 5);
+      await service.submitScore("us", "b", 7);
+
+      expect(await service.merge("global", ["eu", "us"], { ttl: 60 })).toBe(2);
+      expect(await service.scoreOf("global", "a")).toBe(15);
+      expect(await adapter.ttl("leaderboard:global:all")).toBe(60);
+      expect(await adapter.ttl("leaderboard:global:all:scores")).toBe(60);
+
+      await service.merge("global", ["eu", "us"], { aggregate: "MAX" });
+      expect(await service.scoreOf("global", "a")).toBe(10);
+      expect(
+        (await service.rankOf("global", "b", { ties: "dense" }))?.rank,
+      ).toBe(2);
+    });
+
+    it("should remove a member from the board", async () => {
+      await seed();
+      await service.removeMember("game", "a");
+      expect(await service.rankOf("game", "a")).toBeNull();
+      expect((await service.rankOf("game", "b"))?.rank).toBe(1);
+    });
+  });
+});
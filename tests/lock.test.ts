@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { MemoryAdapter } from "../src/adapters/memory/memory.adapter";
+import { LockService } from "../src/services/lock.service";
+
+describe("LockService", () => {
+  let adapter: MemoryAdapter;
+  let service: LockService;
+
+  beforeEach(async () => {
+    adapter = new MemoryAdapter({ checkInterval: 0 });
+    await adapter.connect();
+    service = new LockService(adapter);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await adapter.disconnect();
+  });
+
+  // =============================================
+  // ACQUIRE / RELEASE
+  // =============================================
+
+  describe("acquireLock() and releaseLock()", () => {
+    it("should acquire a free lock once", async () => {
+      const first = await service.acquireLock("job", 1000, "a");
+      const second = await service.acquireLock("job", 1000, "b");
+      expect(first.acquired).toBe(true);
+      expect(second.acquired).toBe(false);
+    });
+
+    it("should only release a lock held by the caller", async () => {
+      await service.acquireLock("job", 1000, "a");
+
+      expect(await service.releaseLock("job", "b")).toBe(false);
+      expect(await adapter.get("lock:job")).toBe("a");
+
+      expect(await service.releaseLock("job", "a")).toBe(true);
+      expect(await adapter.exists("lock:job")).toBe(0);
+    });
+
+    it("should release through the script", async () => {
+      const spy = vi.spyOn(adapter, "executeScript");
+      await service.acquireLock("job", 1000, "a");
+      await service.releaseLock("job", "a");
+      expect(spy).toHaveBeenCalledOnce();
+    });
+  });
+
+  // =============================================
+  // EXTEND
+  // =============================================
+
+  describe("extendLock()", () => {
+    it("should extend a lock held by the caller", async () => {
+      vi.useFakeTimers();
+      await service.acquireLock("job", 1000, "a");
+
+      expect(await service.extendLock("job", 5000, "a")).toBe(true);
+      vi.advanceTimersByTime(2000);
+      expect(await adapter.get("lock:job")).toBe("a");
+      expect(await adapter.pttl("lock:job")).toBe(3000);
+    });
+
+    it("should not extend a lock held by someone else", async () => {
+      await service.acquireLock("job", 1000, "a");
+      expect(await service.extendLock("job", 5000, "b")).toBe(false);
+      expect(await adapter.pttl("lock:job")).toBeLessThanOrEqual(1000);
+    });
+  });
+
+  // =============================================
+  // WITH LOCK
+  // =============================================
+
+  describe("withLock()", () => {
+    it("should release the lock after the callback", async () => {
+      const result = await service.withLock("job", async () => "done");
+      expect(result).toBe("done");
+      expect(await adapter.exists("lock:job")).toBe(0);
+    });
+  });
+});
@@ -1,5 +1,10 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { MemoryAdapter } from "../src/adapters/memory/memory.adapter";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  MemoryAdapter,
+  MemoryPubSub,
+} from "../src/adapters/memory/memory.adapter";
+import { CacheError } from "../src/types/core.types";
+import { defineScript } from "../src/types/operation.types";
 
 describe("MemoryAdapter", () => {
   let adapter: MemoryAdapter;
@@ -280,6 +285,142 @@ describe("MemoryAdapter", () => {
     });
   });
 
+  describe("list editing", () => {
+    beforeEach(async () => {
+      await adapter.rpush("l", "a", "b", "a", "c", "a");
+    });
+
+    it("should lset", async () => {
+      expect(await adapter.lset("l", -1, "z")).toBe("OK");
+      expect(await adapter.lindex("l", 4)).toBe("z");
+      await expect(adapter.lset("l", 5, "x")).rejects.toThrow(
+        "index out of range",
+      );
+      await expect(adapter.lset("missing", 0, "x")).rejects.toThrow(
+        "no such key",
+      );
+    });
+
+    it("should lrem from the head, the tail or everywhere", async () => {
+      expect(await adapter.lrem("l", 1, "a")).toBe(1);
+      expect(await adapter.lrange("l", 0, -1)).toEqual(["b", "a", "c", "a"]);
+      expect(await adapter.lrem("l", -1, "a")).toBe(1);
+      expect(await adapter.lrange("l", 0, -1)).toEqual(["b", "a", "c"]);
+      expect(await adapter.lrem("l", 0, "a")).toBe(1);
+      expect(await adapter.lrange("l", 0, -1)).toEqual(["b", "c"]);
+    });
+
+    it("should linsert", async () => {
+      expect(await adapter.linsert("l", "BEFORE", "c", "x")).toBe(6);
+      expect(await adapter.linsert("l", "AFTER", "c", "y")).toBe(7);
+      expect(await adapter.lrange("l", 2, 5)).toEqual(["a", "x", "c", "y"]);
+      expect(await adapter.linsert("l", "AFTER", "nope", "y")).toBe(-1);
+      expect(await adapter.linsert("missing", "AFTER", "a", "y")).toBe(0);
+    });
+
+    it("should lpos with rank and maxlen", async () => {
+      expect(await adapter.lpos("l", "a")).toBe(0);
+      expect(await adapter.lpos("l", "a", { rank: 2 })).toBe(2);
+      expect(await adapter.lpos("l", "a", { rank: -1 })).toBe(4);
+      expect(await adapter.lpos("l", "c", { maxlen: 3 })).toBeNull();
+      expect(await adapter.lpos("l", "nope")).toBeNull();
+      await expect(adapter.lpos("l", "a", { rank: 0 })).rejects.toThrow(
+        "RANK can't be zero",
+      );
+    });
+
+    it("should run raw list commands", async () => {
+      expect(await adapter.executeRaw("LPOS", ["l", "a", "RANK", 3])).toBe(4);
+      expect(await adapter.executeRaw("LREM", ["l", 0, "a"])).toBe(3);
+      expect(
+        await adapter.executeRaw("LINSERT", ["l", "BEFORE", "b", "q"]),
+      ).toBe(3);
+    });
+  });
+
+  describe("blocking lists and moves", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should lmove and rpoplpush", async () => {
+      await adapter.rpush("src", "a", "b", "c");
+      expect(await adapter.lmove("src", "dst", "LEFT", "RIGHT")).toBe("a");
+      expect(await adapter.rpoplpush("src", "dst")).toBe("c");
+      expect(await adapter.lrange("dst", 0, -1)).toEqual(["c", "a"]);
+      expect(await adapter.lmove("empty", "dst", "LEFT", "LEFT")).toBeNull();
+    });
+
+    it("should rotate a list onto itself", async () => {
+      await adapter.rpush("l", "a", "b", "c");
+      expect(await adapter.lmove("l", "l", "LEFT", "RIGHT")).toBe("a");
+      expect(await adapter.lrange("l", 0, -1)).toEqual(["b", "c", "a"]);
+    });
+
+    it("should blpop the first non-empty list right away", async () => {
+      await adapter.rpush("b", "x", "y");
+      expect(await adapter.blpop(["a", "b"], 1)).toEqual({
+        key: "b",
+        value: "x",
+      });
+      expect(await adapter.brpop(["a", "b"], 1)).toEqual({
+        key: "b",
+        value: "y",
+      });
+    });
+
+    it("should serve blocked clients in the order they blocked", async () => {
+      const first = adapter.blpop(["jobs"], 0);
+      const second = adapter.brpop(["jobs", "other"], 0);
+      const third = adapter.blpop(["jobs"], 0);
+
+      expect(await adapter.rpush("jobs", "1", "2")).toBe(2);
+      expect(await first).toEqual({ key: "jobs", value: "1" });
+      expect(await second).toEqual({ key: "jobs", value: "2" });
+      expect(await adapter.llen("jobs")).toBe(0);
+
+      // A pop by a non-blocked client doesn't jump the queue
+      await adapter.lpush("jobs", "3");
+      expect(await adapter.lpop("jobs")).toBeNull();
+      expect(await third).toEqual({ key: "jobs", value: "3" });
+    });
+
+    it("should return null after the timeout", async () => {
+      vi.useFakeTimers();
+      const pending = adapter.blpop(["jobs"], 2);
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(await pending).toBeNull();
+
+      // The timed-out client no longer takes elements
+      await adapter.rpush("jobs", "1");
+      expect(await adapter.llen("jobs")).toBe(1);
+    });
+
+    it("should blmove once the source gets an element", async () => {
+      const pending = adapter.blmove("queue", "processing", "RIGHT", "LEFT", 0);
+      const consumer = adapter.blpop(["processing"], 0);
+      await adapter.lpush("queue", "job");
+
+      expect(await pending).toBe("job");
+      // The moved element wakes clients blocked on the destination
+      expect(await consumer).toEqual({ key: "processing", value: "job" });
+    });
+
+    it("should release blocked clients on disconnect", async () => {
+      const pending = adapter.brpop(["jobs"], 0);
+      await adapter.disconnect();
+      expect(await pending).toBeNull();
+    });
+
+    it("should answer raw BLPOP in the Redis reply format", async () => {
+      await adapter.rpush("jobs", "1");
+      expect(await adapter.executeRaw("BLPOP", ["other", "jobs", 1])).toEqual([
+        "jobs",
+        "1",
+      ]);
+    });
+  });
+
   // =============================================
   // SET OPERATIONS
   // =============================================
@@ -497,6 +638,7 @@ describe("MemoryAdapter", () => {
       ]);
       expect(await adapter.zcount("z", 1, 5)).toBe(2);
       expect(await adapter.zcount("z", "-inf", "+inf")).toBe(3);
+      expect(await adapter.zcount("z", "(1", "(10")).toBe(1);
     });
 
     it("should zincrby", async () => {
@@ -519,6 +661,18 @@ describe("MemoryAdapter", () => {
       expect(await adapter.zcard("z")).toBe(2);
     });
 
+    it("should zremrangebyrank with negative ranks", async () => {
+      await adapter.zadd("z", [
+        { member: "a", score: 1 },
+        { member: "b", score: 2 },
+        { member: "c", score: 3 },
+      ]);
+      // Keeping the top 5 of 3 members removes nothing
+      expect(await adapter.zremrangebyrank("z", 0, -6)).toBe(0);
+      expect(await adapter.zremrangebyrank("z", 0, -3)).toBe(1);
+      expect(await adapter.zrange("z", 0, -1)).toEqual(["b", "c"]);
+    });
+
     it("should zremrangebyscore", async () => {
       await adapter.zadd("z", [
         { member: "a", score: 1 },
@@ -528,6 +682,370 @@ describe("MemoryAdapter", () => {
       expect(await adapter.zremrangebyscore("z", 1, 5)).toBe(2);
       expect(await adapter.zcard("z")).toBe(1);
     });
+
+    it("should zremrangebyscore with exclusive bounds", async () => {
+      await adapter.zadd("z", [
+        { member: "a", score: 1 },
+        { member: "b", score: 5 },
+        { member: "c", score: 10 },
+      ]);
+      expect(await adapter.zremrangebyscore("z", "(1", "+inf")).toBe(2);
+      expect(await adapter.zrange("z", 0, -1)).toEqual(["a"]);
+    });
+
+    it("should reply to raw ZREVRANGE WITHSCORES as a flat list", async () => {
+      await adapter.zadd("z", [
+        { member: "a", score: 1 },
+        { member: "b", score: 2 },
+      ]);
+      expect(
+        await adapter.executeRaw("ZREVRANGE", ["z", 0, -1, "WITHSCORES"]),
+      ).toEqual(["b", "2", "a", "1"]);
+    });
+  });
+
+  // =============================================
+  // SORTED SET AGGREGATION AND POPS
+  // =============================================
+
+  describe("sorted set aggregation", () => {
+    beforeEach(async () => {
+      await adapter.zadd("a", [
+        { member: "x", score: 1 },
+        { member: "y", score: 2 },
+      ]);
+      await adapter.zadd("b", [
+        { member: "y", score: 10 },
+        { member: "z", score: 20 },
+      ]);
+    });
+
+    it("should zunionstore with weights and aggregates", async () => {
+      expect(await adapter.zunionstore("out", ["a", "b"])).toBe(3);
+      expect(await adapter.zmscore("out", "x", "y", "z")).toEqual([
+        "1",
+        "12",
+        "20",
+      ]);
+
+      await adapter.zunionstore("out", ["a", "b"], {
+        weights: [10, 1],
+        aggregate: "MIN",
+      });
+      expect(await adapter.zmscore("out", "x", "y")).toEqual(["10", "10"]);
+    });
+
+    it("should treat plain sets as scores of 1", async () => {
+      await adapter.sadd("s", "x", "w");
+      await adapter.zunionstore("out", ["a", "s"]);
+      expect(await adapter.zmscore("out", "x", "w")).toEqual(["2", "1"]);
+    });
+
+    it("should zinterstore and overwrite the destination", async () => {
+      await adapter.set("out", "old");
+      await adapter.expire("out", 100);
+      expect(
+        await adapter.zinterstore("out", ["a", "b"], { aggregate: "MAX" }),
+      ).toBe(1);
+      expect(await adapter.zrange("out", 0, -1, { withScores: true })).toEqual([
+        { member: "y", score: 10 },
+      ]);
+      expect(await adapter.ttl("out")).toBe(-1);
+    });
+
+    it("should delete the destination for an empty result", async () => {
+      await adapter.zadd("out", [{ member: "q", score: 1 }]);
+      expect(await adapter.zinterstore("out", ["a", "missing"])).toBe(0);
+      expect(await adapter.exists("out")).toBe(0);
+    });
+
+    it("should reject weights that don't match the keys", async () => {
+      await expect(
+        adapter.zunionstore("out", ["a", "b"], { weights: [1] }),
+      ).rejects.toThrow(CacheError);
+    });
+
+    it("should zdiff", async () => {
+      expect(await adapter.zdiff(["a", "b"])).toEqual(["x"]);
+      expect(await adapter.zdiff(["b", "a"], { withScores: true })).toEqual([
+        { member: "z", score: 20 },
+      ]);
+    });
+
+    it("should answer raw ZUNIONSTORE and ZPOPMIN", async () => {
+      expect(
+        await adapter.executeRaw("ZUNIONSTORE", [
+          "out",
+          2,
+          "a",
+          "b",
+          "WEIGHTS",
+          2,
+          1,
+          "AGGREGATE",
+          "SUM",
+        ]),
+      ).toBe(3);
+      expect(await adapter.executeRaw("ZPOPMIN", ["out", 2])).toEqual([
+        "x",
+        "2",
+        "y",
+        "14",
+      ]);
+    });
+  });
+
+  describe("sorted set lex ranges and pops", () => {
+    it("should zrangebylex", async () => {
+      await adapter.zadd(
+        "names",
+        ["dave", "alice", "carol", "bob"].map((member) => ({
+          member,
+          score: 0,
+        })),
+      );
+      expect(await adapter.zrangebylex("names", "-", "+")).toEqual([
+        "alice",
+        "bob",
+        "carol",
+        "dave",
+      ]);
+      expect(await adapter.zrangebylex("names", "[b", "(d")).toEqual([
+        "bob",
+        "carol",
+      ]);
+      expect(
+        await adapter.zrangebylex("names", "(alice", "+", {
+          limit: { offset: 1, count: 2 },
+        }),
+      ).toEqual(["carol", "dave"]);
+      await expect(adapter.zrangebylex("names", "b", "+")).rejects.toThrow(
+        "not valid string range item",
+      );
+    });
+
+    it("should zpopmin and zpopmax", async () => {
+      await adapter.zadd("z", [
+        { member: "a", score: 1 },
+        { member: "b", score: 2 },
+        { member: "c", score: 3 },
+      ]);
+      expect(await adapter.zpopmin("z")).toEqual([{ member: "a", score: 1 }]);
+      expect(await adapter.zpopmax("z", 5)).toEqual([
+        { member: "c", score: 3 },
+        { member: "b", score: 2 },
+      ]);
+      expect(await adapter.zpopmin("z")).toEqual([]);
+    });
+
+    it("should bzpopmin immediately when a member exists", async () => {
+      await adapter.zadd("z2", [{ member: "b", score: 2 }]);
+      expect(await adapter.bzpopmin(["z1", "z2"], 1)).toEqual({
+        key: "z2",
+        member: "b",
+        score: 2,
+      });
+    });
+
+    it("should bzpopmin once a member is added", async () => {
+      const pending = adapter.bzpopmin(["jobs"], 0);
+      await adapter.zadd("jobs", [{ member: "job", score: 5 }]);
+      expect(await pending).toEqual({ key: "jobs", member: "job", score: 5 });
+      expect(await adapter.zcard("jobs")).toBe(0);
+    });
+
+    it("should bzpopmin null after the timeout", async () => {
+      vi.useFakeTimers();
+      const pending = adapter.bzpopmin(["jobs"], 0.5);
+      await vi.advanceTimersByTimeAsync(500);
+      expect(await pending).toBeNull();
+      vi.useRealTimers();
+    });
+
+    it("should zrandmember", async () => {
+      await adapter.zadd("z", [
+        { member: "a", score: 1 },
+        { member: "b", score: 2 },
+        { member: "c", score: 3 },
+      ]);
+      const [one] = (await adapter.zrandmember("z")) as string[];
+      expect(["a", "b", "c"]).toContain(one);
+
+      const distinct = (await adapter.zrandmember("z", 5)) as string[];
+      expect([...distinct].sort()).toEqual(["a", "b", "c"]);
+      expect(await adapter.zrandmember("z", -5)).toHaveLength(5);
+      expect(await adapter.zrandmember("missing")).toEqual([]);
+
+      const [scored] = (await adapter.zrandmember("z", 1, {
+        withScores: true,
+      })) as Array<{ member: string; score: number }>;
+      expect(await adapter.zscore("z", scored!.member)).toBe(
+        String(scored!.score),
+      );
+    });
+
+    it("should zmscore", async () => {
+      await adapter.zadd("z", [{ member: "a", score: 1.5 }]);
+      expect(await adapter.zmscore("z", "a", "missing")).toEqual(["1.5", null]);
+    });
+  });
+
+  // =============================================
+  // GEO OPERATIONS
+  // =============================================
+
+  describe("geo operations", () => {
+    beforeEach(async () => {
+      await adapter.geoadd("sicily", [
+        { longitude: 13.361389, latitude: 38.115556, member: "Palermo" },
+        { longitude: 15.087269, latitude: 37.502669, member: "Catania" },
+      ]);
+    });
+
+    it("should geoadd and geopos", async () => {
+      const [palermo, missing] = await adapter.geopos(
+        "sicily",
+        "Palermo",
+        "Rome",
+      );
+      expect(palermo!.longitude).toBeCloseTo(13.361389, 5);
+      expect(palermo!.latitude).toBeCloseTo(38.115556, 5);
+      expect(missing).toBeNull();
+      expect(await adapter.zcard("sicily")).toBe(2);
+    });
+
+    it("should honor geoadd NX, XX and CH", async () => {
+      const moved = { longitude: 13.5, latitude: 38, member: "Palermo" };
+      expect(await adapter.geoadd("sicily", [moved], { nx: true })).toBe(0);
+      expect(await adapter.geoadd("sicily", [moved], { xx: true })).toBe(0);
+      expect(
+        await adapter.geoadd("sicily", [{ ...moved, longitude: 13.6 }], {
+          ch: true,
+        }),
+      ).toBe(1);
+      expect(
+        await adapter.geoadd(
+          "empty",
+          [{ longitude: 1, latitude: 1, member: "a" }],
+          { xx: true },
+        ),
+      ).toBe(0);
+      expect(await adapter.exists("empty")).toBe(0);
+    });
+
+    it("should reject invalid coordinates", async () => {
+      await expect(
+        adapter.geoadd("sicily", [{ longitude: 0, latitude: 86, member: "x" }]),
+      ).rejects.toThrow("invalid longitude,latitude pair");
+    });
+
+    it("should geodist in different units", async () => {
+      expect(await adapter.geodist("sicily", "Palermo", "Catania")).toBe(
+        166274.1516,
+      );
+      expect(await adapter.geodist("sicily", "Palermo", "Catania", "km")).toBe(
+        166.2742,
+      );
+      expect(await adapter.geodist("sicily", "Palermo", "Rome")).toBeNull();
+    });
+
+    it("should geohash members", async () => {
+      expect(
+        await adapter.geohash("sicily", "Palermo", "Catania", "Rome"),
+      ).toEqual(["sqc8b49rny0", "sqdtr74hyu0", null]);
+    });
+
+    it("should geosearch by radius with distances", async () => {
+      expect(
+        await adapter.geosearch("sicily", {
+          from: { longitude: 15, latitude: 37 },
+          by: { radius: 200, unit: "km" },
+          order: "ASC",
+          withDist: true,
+        }),
+      ).toEqual([
+        { member: "Catania", distance: 56.4413 },
+        { member: "Palermo", distance: 190.4424 },
+      ]);
+
+      const near = await adapter.geosearch("sicily", {
+        from: { longitude: 15, latitude: 37 },
+        by: { radius: 100, unit: "km" },
+      });
+      expect(near).toEqual([{ member: "Catania" }]);
+    });
+
+    it("should geosearch by box from a member", async () => {
+      const results = await adapter.geosearch("sicily", {
+        from: { member: "Catania" },
+        by: { width: 400, height: 150, unit: "km" },
+        withCoord: true,
+        withHash: true,
+      });
+      expect(results.map((r) => r.member).sort()).toEqual([
+        "Catania",
+        "Palermo",
+      ]);
+      const palermo = results.find((r) => r.member === "Palermo")!;
+      expect(String(palermo.hash)).toBe(
+        await adapter.zscore("sicily", "Palermo"),
+      );
+      expect(palermo.coordinates!.longitude).toBeCloseTo(13.361389, 5);
+
+      expect(
+        await adapter.geosearch("sicily", {
+          from: { member: "Catania" },
+          by: { width: 100, height: 100, unit: "km" },
+        }),
+      ).toEqual([{ member: "Catania" }]);
+    });
+
+    it("should keep the nearest members with COUNT", async () => {
+      await adapter.geoadd("sicily", [
+        { longitude: 15.554, latitude: 38.193, member: "Messina" },
+      ]);
+      const results = await adapter.geosearch("sicily", {
+        from: { member: "Palermo" },
+        by: { radius: 500, unit: "km" },
+        count: 2,
+      });
+      expect(results.map((r) => r.member)).toEqual(["Palermo", "Catania"]);
+    });
+
+    it("should validate geosearch arguments", async () => {
+      await expect(
+        adapter.geosearch("sicily", {
+          from: { member: "Rome" },
+          by: { radius: 1 },
+        }),
+      ).rejects.toThrow("could not decode requested zset member");
+      await expect(
+        adapter.geosearch("sicily", {
+          from: { member: "Palermo" },
+          by: { radius: 1 },
+          any: true,
+        }),
+      ).rejects.toThrow("ANY argument requires COUNT");
+    });
+
+    it("should answer raw GEOSEARCH in the Redis reply format", async () => {
+      expect(
+        await adapter.executeRaw("GEOSEARCH", [
+          "sicily",
+          "FROMLONLAT",
+          15,
+          37,
+          "BYRADIUS",
+          200,
+          "km",
+          "ASC",
+          "WITHDIST",
+        ]),
+      ).toEqual([
+        ["Catania", "56.4413"],
+        ["Palermo", "190.4424"],
+      ]);
+    });
   });
 
   // =============================================
@@ -571,6 +1089,13 @@ describe("MemoryAdapter", () => {
       expect(ttl).toBeLessThanOrEqual(100);
     });
 
+    it("should expire with NX only keys without a TTL", async () => {
+      await adapter.set("k", "v");
+      expect(await adapter.executeRaw("EXPIRE", ["k", 100, "NX"])).toBe(1);
+      expect(await adapter.executeRaw("EXPIRE", ["k", 500, "NX"])).toBe(0);
+      expect(await adapter.ttl("k")).toBe(100);
+    });
+
     it("should expire return 0 for missing key", async () => {
       expect(await adapter.expire("nope", 100)).toBe(0);
     });
@@ -701,6 +1226,116 @@ describe("MemoryAdapter", () => {
       expect(small.size()).toBeLessThanOrEqual(3);
       await small.disconnect();
     });
+
+    it("should evict the least recently used key", async () => {
+      const lru = new MemoryAdapter({ maxEntries: 2, checkInterval: 0 });
+      await lru.set("a", "1");
+      await lru.set("b", "2");
+      await lru.get("a");
+      await lru.set("c", "3");
+
+      expect(await lru.keys("*")).toEqual(["a", "c"]);
+    });
+
+    it("should evict the least frequently used key", async () => {
+      const lfu = new MemoryAdapter({
+        maxEntries: 2,
+        checkInterval: 0,
+        evictionPolicy: "lfu",
+      });
+      await lfu.set("a", "1");
+      await lfu.set("b", "2");
+      await lfu.get("a");
+      await lfu.get("a");
+      await lfu.get("b");
+      await lfu.set("c", "3");
+
+      expect(await lfu.exists("a", "b", "c")).toBe(2);
+      expect(await lfu.get("b")).toBeNull();
+    });
+
+    it("should only evict keys with a TTL under the ttl policy", async () => {
+      const volatile = new MemoryAdapter({
+        maxEntries: 3,
+        checkInterval: 0,
+        evictionPolicy: "ttl",
+      });
+      await volatile.set("persistent", "1");
+      await volatile.set("later", "2", { ex: 100 });
+      await volatile.set("sooner", "3", { ex: 10 });
+      await volatile.set("d", "4");
+
+      expect(await volatile.get("sooner")).toBeNull();
+      expect(await volatile.get("persistent")).toBe("1");
+      expect(await volatile.get("later")).toBe("2");
+    });
+
+    it("should reject writes under noeviction", async () => {
+      const strict = new MemoryAdapter({
+        maxEntries: 1,
+        checkInterval: 0,
+        evictionPolicy: "noeviction",
+      });
+      await strict.set("a", "1");
+
+      await expect(strict.set("b", "2")).rejects.toThrow(CacheError);
+      await expect(strict.set("a", "updated")).resolves.toBe("OK");
+    });
+
+    it("should evict by estimated memory size", async () => {
+      const bounded = new MemoryAdapter({
+        maxMemoryBytes: 1000,
+        checkInterval: 0,
+      });
+      for (let i = 0; i < 10; i++) {
+        await bounded.set(`key:${i}`, "x".repeat(100));
+      }
+
+      const stats = await bounded.getStats();
+      expect(bounded.size()).toBeLessThan(10);
+      expect(stats.memoryUsage).toBeLessThanOrEqual(1000 + 300);
+      expect(stats.evictions).toBe(10 - bounded.size());
+    });
+
+    it("should reject only values larger than maxMemoryBytes alone", async () => {
+      const bounded = new MemoryAdapter({
+        maxMemoryBytes: 1000,
+        checkInterval: 0,
+      });
+      await bounded.set("big", "x".repeat(400));
+      await bounded.set("big", "y".repeat(450));
+      expect(await bounded.get("big")).toBe("y".repeat(450));
+
+      await expect(bounded.set("huge", "x".repeat(1000))).rejects.toThrow(
+        /alone is larger than 'maxmemory'/,
+      );
+      expect(await bounded.exists("huge")).toBe(0);
+    });
+
+    it("should keep evicting down to maxEntries with sampling", async () => {
+      const sampled = new MemoryAdapter({
+        maxEntries: 50,
+        evictionSamples: 5,
+        checkInterval: 0,
+      });
+      for (let i = 0; i < 200; i++) {
+        await sampled.set(`key:${i}`, String(i));
+      }
+
+      expect(sampled.size()).toBe(50);
+      expect(await sampled.get("key:199")).toBe("199");
+      expect((await sampled.getStats()).evictions).toBe(150);
+    });
+
+    it("should count evictions in metrics", async () => {
+      const small = new MemoryAdapter({ maxEntries: 1, checkInterval: 0 });
+      await small.set("a", "1");
+      await small.set("b", "2");
+      await small.lpush("c", "x");
+
+      expect(small.getMetrics().operationCounts.EVICTED).toBe(2);
+      expect((await small.getStats()).evictions).toBe(2);
+    });
   });
 
   // =============================================
@@ -738,7 +1373,7 @@ describe("MemoryAdapter", () => {
   // HYPERLOGLOG
   // =============================================
 
-  describe("HyperLogLog (simulated)", () => {
+  describe("HyperLogLog", () => {
     it("should pfadd", async () => {
       expect(await adapter.pfadd("hll", "a", "b", "c")).toBe(1);
       expect(await adapter.pfadd("hll", "a", "b")).toBe(0);
@@ -761,6 +1396,381 @@ describe("MemoryAdapter", () => {
       await adapter.pfmerge("dest", "h1", "h2");
       expect(await adapter.pfcount("dest")).toBe(3);
     });
+
+    it("should include the destination's own elements in pfmerge", async () => {
+      await adapter.pfadd("dest", "a");
+      await adapter.pfadd("h1", "b");
+      await adapter.pfmerge("dest", "h1");
+      expect(await adapter.pfcount("dest")).toBe(2);
+    });
+
+    it("should create the key on pfadd without elements", async () => {
+      expect(await adapter.pfadd("hll")).toBe(1);
+      expect(await adapter.pfadd("hll")).toBe(0);
+      expect(await adapter.pfcount("hll")).toBe(0);
+    });
+
+    it("should estimate large cardinalities within the standard error", async () => {
+      const elements = Array.from({ length: 50_000 }, (_, i) => `user:${i}`);
+      await adapter.pfadd("visitors", ...elements);
+      await adapter.pfadd("visitors", ...elements.slice(0, 10_000));
+
+      const count = await adapter.pfcount("visitors");
+      // 0.81% standard error; allow three standard deviations
+      expect(Math.abs(count - 50_000) / 50_000).toBeLessThan(0.025);
+    });
+
+    it("should keep memory bounded for high cardinalities", async () => {
+      const bounded = new MemoryAdapter({
+        checkInterval: 0,
+        maxMemoryBytes: 1024 * 1024,
+      });
+      await bounded.pfadd("small", "a", "b");
+      const small = (await bounded.getStats()).memoryUsage!;
+
+      for (let i = 0; i < 20; i++) {
+        await bounded.pfadd(
+          "big",
+          ...Array.from({ length: 1000 }, (_, j) => `${i}:${j}`),
+        );
+      }
+      const big = (await bounded.getStats()).memoryUsage! - small;
+      expect(big).toBeLessThan(20 * 1024);
+    });
+
+    it("should be a string type, not a set", async () => {
+      await adapter.pfadd("hll", "a");
+      expect(await adapter.type("hll")).toBe("string");
+      expect(await adapter.smembers("hll")).toEqual([]);
+    });
+
+    it("should round-trip the Redis sparse encoding", async () => {
+      await adapter.pfadd("hll", "a", "b", "c");
+      const data = (await adapter.exportHyperLogLog("hll"))!;
+
+      expect(data.subarray(0, 4).toString()).toBe("HYLL");
+      expect(data[4]).toBe(1);
+      await adapter.importHyperLogLog("copy", data);
+      expect(await adapter.pfcount("copy")).toBe(3);
+    });
+
+    it("should round-trip the Redis dense encoding", async () => {
+      await adapter.pfadd(
+        "hll",
+        ...Array.from({ length: 5000 }, (_, i) => `item:${i}`),
+      );
+      const data = (await adapter.exportHyperLogLog("hll"))!;
+
+      expect(data[4]).toBe(0);
+      expect(data.length).toBe(16 + 12288);
+      await adapter.importHyperLogLog("copy", data);
+      expect(await adapter.pfcount("copy")).toBe(await adapter.pfcount("hll"));
+    });
+
+    it("should reject invalid HyperLogLog data", async () => {
+      await expect(
+        adapter.importHyperLogLog("hll", Buffer.from("not an hll")),
+      ).rejects.toThrow(CacheError);
+      expect(await adapter.exportHyperLogLog("missing")).toBeNull();
+    });
+  });
+
+  // =============================================
+  // STREAMS
+  // =============================================
+
+  describe("streams", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should generate ms-seq IDs", async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1000);
+
+      expect(await adapter.xadd("s", "*", { a: "1" })).toBe("1000-0");
+      expect(await adapter.xadd("s", "*", { a: "2" })).toBe("1000-1");
+      vi.setSystemTime(2000);
+      expect(await adapter.xadd("s", "*", { a: "3" })).toBe("2000-0");
+      expect(await adapter.type("s")).toBe("stream");
+    });
+
+    it("should accept explicit IDs greater than the last one", async () => {
+      expect(await adapter.xadd("s", "5-1", { a: "1" })).toBe("5-1");
+      expect(await adapter.xadd("s", "5-*", { a: "2" })).toBe("5-2");
+      expect(await adapter.xadd("s", "7", { a: "3" })).toBe("7-0");
+
+      await expect(adapter.xadd("s", "6-0", { a: "4" })).rejects.toThrow(
+        CacheError,
+      );
+      await expect(adapter.xadd("t", "0-0", { a: "1" })).rejects.toThrow(
+        "greater than 0-0",
+      );
+    });
+
+    it("should return ranges in both directions", async () => {
+      for (const id of ["1-0", "2-0", "3-0", "4-0"]) {
+        await adapter.xadd("s", id, { n: id });
+      }
+
+      const all = await adapter.xrange("s", "-", "+");
+      expect(all.map((m) => m.id)).toEqual(["1-0", "2-0", "3-0", "4-0"]);
+      expect(all[0]!.fields).toEqual({ n: "1-0" });
+
+      const middle = await adapter.xrange("s", "(1-0", "3");
+      expect(middle.map((m) => m.id)).toEqual(["2-0", "3-0"]);
+
+      const latest = await adapter.xrevrange("s", "+", "-", 2);
+      expect(latest.map((m) => m.id)).toEqual(["4-0", "3-0"]);
+    });
+
+    it("should delete and trim entries", async () => {
+      for (const id of ["1-0", "2-0", "3-0", "4-0", "5-0"]) {
+        await adapter.xadd("s", id, { n: id });
+      }
+
+      expect(await adapter.xdel("s", "2-0", "9-0")).toBe(1);
+      expect(await adapter.xlen("s")).toBe(4);
+
+      expect(await adapter.xtrim("s", "MAXLEN", 3)).toBe(1);
+      expect((await adapter.xrange("s", "-", "+"))[0]!.id).toBe("3-0");
+
+      expect(await adapter.xtrim("s", "MINID", "5")).toBe(2);
+      expect(await adapter.xlen("s")).toBe(1);
+
+      // IDs keep increasing after entries are removed
+      await expect(adapter.xadd("s", "4-0", { n: "x" })).rejects.toThrow(
+        CacheError,
+      );
+    });
+
+    it("should read entries after the given IDs", async () => {
+      await adapter.xadd("a", "1-0", { n: "1" });
+      await adapter.xadd("a", "2-0", { n: "2" });
+      await adapter.xadd("b", "1-0", { n: "3" });
+
+      const result = await adapter.xread({
+        streams: ["a", "b"],
+        ids: ["1-0", "0"],
+      });
+      expect(result).toEqual([
+        { stream: "a", messages: [{ id: "2-0", fields: { n: "2" } }] },
+        { stream: "b", messages: [{ id: "1-0", fields: { n: "3" } }] },
+      ]);
+
+      expect(await adapter.xread({ streams: ["a"], ids: ["$"] })).toBeNull();
+    });
+
+    it("should block xread until an entry is added", async () => {
+      await adapter.xadd("s", "1-0", { n: "old" });
+
+      const pending = adapter.xread({ streams: ["s"], ids: ["$"], block: 0 });
+      await adapter.xadd("s", "2-0", { n: "new" });
+
+      expect(await pending).toEqual([
+        { stream: "s", messages: [{ id: "2-0", fields: { n: "new" } }] },
+      ]);
+    });
+
+    it("should return null when a blocking xread times out", async () => {
+      vi.useFakeTimers();
+      const pending = adapter.xread({ streams: ["s"], ids: ["$"], block: 100 });
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(await pending).toBeNull();
+    });
+  });
+
+  // =============================================
+  // CONSUMER GROUPS
+  // =============================================
+
+  describe("consumer groups", () => {
+    beforeEach(async () => {
+      for (const id of ["1-0", "2-0", "3-0"]) {
+        await adapter.xadd("jobs", id, { job: id });
+      }
+      await adapter.xgroupCreate("jobs", "workers", "0");
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const readNew = (consumer: string, count?: number) =>
+      adapter.xreadgroup({
+        group: "workers",
+        consumer,
+        streams: ["jobs"],
+        ids: [">"],
+        count,
+      });
+
+    it("should require the stream unless mkstream is set", async () => {
+      await expect(adapter.xgroupCreate("missing", "g", "$")).rejects.toThrow(
+        CacheError,
+      );
+      expect(
+        await adapter.xgroupCreate("missing", "g", "$", { mkstream: true }),
+      ).toBe("OK");
+      expect(await adapter.xlen("missing")).toBe(0);
+      await expect(adapter.xgroupCreate("missing", "g", "$")).rejects.toThrow(
+        "BUSYGROUP",
+      );
+    });
+
+    it("should deliver each entry to one consumer", async () => {
+      const first = await readNew("alice", 2);
+      const second = await readNew("bob");
+
+      expect(first![0]!.messages.map((m) => m.id)).toEqual(["1-0", "2-0"]);
+      expect(second![0]!.messages.map((m) => m.id)).toEqual(["3-0"]);
+      expect(await readNew("bob")).toBeNull();
+    });
+
+    it("should only deliver entries added after a $ group was created", async () => {
+      await adapter.xgroupCreate("jobs", "latest", "$");
+      await adapter.xadd("jobs", "4-0", { job: "4-0" });
+
+      const result = await adapter.xreadgroup({
+        group: "latest",
+        consumer: "c",
+        streams: ["jobs"],
+        ids: [">"],
+      });
+      expect(result![0]!.messages.map((m) => m.id)).toEqual(["4-0"]);
+    });
+
+    it("should track and acknowledge pending entries", async () => {
+      await readNew("alice", 2);
+      await readNew("bob");
+
+      expect(await adapter.xpending("jobs", "workers")).toEqual({
+        count: 3,
+        minId: "1-0",
+        maxId: "3-0",
+        consumers: [
+          { name: "alice", pending: 2 },
+          { name: "bob", pending: 1 },
+        ],
+      });
+
+      expect(await adapter.xack("jobs", "workers", "1-0", "9-0")).toBe(1);
+      expect((await adapter.xpending("jobs", "workers")).count).toBe(2);
+    });
+
+    it("should not track entries read with noAck", async () => {
+      await adapter.xreadgroup({
+        group: "workers",
+        consumer: "alice",
+        streams: ["jobs"],
+        ids: [">"],
+        noAck: true,
+      });
+      expect((await adapter.xpending("jobs", "workers")).count).toBe(0);
+    });
+
+    it("should re-read a consumer's pending entries", async () => {
+      await readNew("alice", 2);
+      await adapter.xack("jobs", "workers", "1-0");
+
+      const history = await adapter.xreadgroup({
+        group: "workers",
+        consumer: "alice",
+        streams: ["jobs"],
+        ids: ["0"],
+      });
+      expect(history).toEqual([
+        { stream: "jobs", messages: [{ id: "2-0", fields: { job: "2-0" } }] },
+      ]);
+
+      const [entry] = await adapter.xpendingRange(
+        "jobs",
+        "workers",
+        "-",
+        "+",
+        10,
+      );
+      expect(entry).toMatchObject({
+        id: "2-0",
+        consumer: "alice",
+        deliveries: 2,
+      });
+    });
+
+    it("should claim entries idle for long enough", async () => {
+      vi.useFakeTimers();
+      await readNew("alice");
+
+      expect(
+        await adapter.xclaim("jobs", "workers", "bob", 1000, ["1-0"]),
+      ).toEqual([]);
+
+      vi.advanceTimersByTime(1000);
+      const idle = await adapter.xpendingRange(
+        "jobs",
+        "workers",
+        "-",
+        "+",
+        10,
+        {
+          consumer: "alice",
+          minIdleTime: 1000,
+        },
+      );
+      expect(idle.map((e) => e.id)).toEqual(["1-0", "2-0", "3-0"]);
+
+      const claimed = await adapter.xclaim("jobs", "workers", "bob", 1000, [
+        "1-0",
+        "2-0",
+      ]);
+      expect(claimed.map((m) => m.id)).toEqual(["1-0", "2-0"]);
+
+      const summary = await adapter.xpending("jobs", "workers");
+      expect(summary.consumers).toEqual([
+        { name: "alice", pending: 1 },
+        { name: "bob", pending: 2 },
+      ]);
+    });
+
+    it("should drop deleted entries when claiming", async () => {
+      vi.useFakeTimers();
+      await readNew("alice");
+      await adapter.xdel("jobs", "1-0");
+      vi.advanceTimersByTime(10);
+
+      expect(
+        await adapter.xclaim("jobs", "workers", "bob", 0, ["1-0"]),
+      ).toEqual([]);
+      expect((await adapter.xpending("jobs", "workers")).count).toBe(2);
+    });
+
+    it("should block xreadgroup until an entry is added", async () => {
+      await readNew("alice");
+
+      const pending = adapter.xreadgroup({
+        group: "workers",
+        consumer: "bob",
+        streams: ["jobs"],
+        ids: [">"],
+        block: 0,
+      });
+      await adapter.xadd("jobs", "4-0", { job: "4-0" });
+
+      expect((await pending)![0]!.messages.map((m) => m.id)).toEqual(["4-0"]);
+    });
+
+    it("should remove consumers and destroy groups", async () => {
+      await readNew("alice", 2);
+
+      expect(await adapter.xgroupDelConsumer("jobs", "workers", "alice")).toBe(
+        2,
+      );
+      expect((await adapter.xpending("jobs", "workers")).count).toBe(0);
+
+      expect(await adapter.xgroupDestroy("jobs", "workers")).toBe(1);
+      await expect(readNew("alice")).rejects.toThrow("NOGROUP");
+    });
   });
 
   // =============================================
@@ -805,6 +1815,367 @@ describe("MemoryAdapter", () => {
     });
   });
 
+  // =============================================
+  // SCRIPTING
+  // =============================================
+
+  describe("scripting", () => {
+    const incrIfBelow = defineScript({
+      script: "-- incr if below",
+      language: "lua",
+      keys: ["counter"] as const,
+      args: ["max"] as const,
+      parseResult: (result) => result as number,
+      jsImpl: async (a, keys, args) => {
+        const current = Number((await a.get(keys[0]!)) ?? 0);
+        if (current >= Number(args[0])) return current;
+        return a.incr(keys[0]!);
+      },
+    });
+
+    it("should run the script's JavaScript implementation", async () => {
+      expect(await adapter.executeScript(incrIfBelow, ["c"], [2])).toBe(1);
+      expect(await adapter.executeScript(incrIfBelow, ["c"], [2])).toBe(2);
+      expect(await adapter.executeScript(incrIfBelow, ["c"], [2])).toBe(2);
+    });
+
+    it("should not interleave concurrent scripts", async () => {
+      const results = await Promise.all(
+        Array.from({ length: 10 }, () =>
+          adapter.executeScript(incrIfBelow, ["c"], [5]),
+        ),
+      );
+      expect(results).toEqual([1, 2, 3, 4, 5, 5, 5, 5, 5, 5]);
+    });
+
+    it("should run implementations registered by script source", async () => {
+      const script = defineScript({
+        script: "return redis.call('GET', KEYS[1])",
+        language: "lua",
+        keys: ["key"] as const,
+        args: [] as const,
+      });
+      const sha = adapter.registerScript(script.script, async (a, keys) =>
+        a.get(keys[0]!),
+      );
+
+      await adapter.set("k", "v");
+      expect(await adapter.executeScript(script, ["k"], [])).toBe("v");
+      expect(await adapter.loadScript(script.script)).toBe(sha);
+    });
+
+    it("should hash scripts like Redis", async () => {
+      expect(await adapter.loadScript("return 1")).toBe(
+        "e0e1f9fabfc9d4800c877a703b823ac0578ff8db",
+      );
+    });
+
+    it("should throw for scripts without an implementation", async () => {
+      const script = defineScript({
+        script: "return 1",
+        language: "lua",
+        keys: [] as const,
+        args: [] as const,
+      });
+      await expect(adapter.executeScript(script, [], [])).rejects.toThrow(
+        CacheError,
+      );
+    });
+
+    it("should keep running scripts after one fails", async () => {
+      const failing = defineScript({
+        script: "-- fail",
+        language: "lua",
+        keys: [] as const,
+        args: [] as const,
+        jsImpl: async () => {
+          throw new Error("boom");
+        },
+      });
+      await expect(adapter.executeScript(failing, [], [])).rejects.toThrow(
+        "boom",
+      );
+      expect(await adapter.executeScript(incrIfBelow, ["c"], [1])).toBe(1);
+    });
+  });
+
+  // =============================================
+  // PROBABILISTIC STRUCTURES
+  // =============================================
+
+  describe("bloom filters", () => {
+    it("should report added items and never give false negatives", async () => {
+      await adapter.bfReserve("bf", 0.01, 1000);
+      const items = Array.from({ length: 1000 }, (_, i) => `item:${i}`);
+      const added = await adapter.bfMAdd("bf", ...items);
+
+      expect(added.filter((a) => a === 1).length).toBeGreaterThan(990);
+      expect(await adapter.bfMExists("bf", ...items)).toEqual(
+        items.map(() => 1),
+      );
+      expect(await adapter.bfAdd("bf", "item:0")).toBe(0);
+    });
+
+    it("should stay close to the configured error rate", async () => {
+      await adapter.bfReserve("bf", 0.01, 1000);
+      for (let i = 0; i < 1000; i++) {
+        await adapter.bfAdd("bf", `member:${i}`);
+      }
+
+      let falsePositives = 0;
+      for (let i = 0; i < 10_000; i++) {
+        falsePositives += await adapter.bfExists("bf", `other:${i}`);
+      }
+      expect(falsePositives / 10_000).toBeLessThan(0.01);
+    });
+
+    it("should keep the error rate when growing past capacity", async () => {
+      await adapter.bfReserve("bf", 0.01, 100);
+      for (let i = 0; i < 1000; i++) {
+        await adapter.bfAdd("bf", `member:${i}`);
+      }
+
+      let falsePositives = 0;
+      for (let i = 0; i < 10_000; i++) {
+        falsePositives += await adapter.bfExists("bf", `other:${i}`);
+      }
+      expect(falsePositives / 10_000).toBeLessThan(0.01);
+      expect(await adapter.bfExists("bf", "member:999")).toBe(1);
+    });
+
+    it("should create a filter on first add", async () => {
+      expect(await adapter.bfExists("bf", "a")).toBe(0);
+      expect(await adapter.bfAdd("bf", "a")).toBe(1);
+      expect(await adapter.bfExists("bf", "a")).toBe(1);
+    });
+
+    it("should reject invalid or duplicate reservations", async () => {
+      await expect(adapter.bfReserve("bf", 1.5, 100)).rejects.toThrow(
+        CacheError,
+      );
+      await expect(adapter.bfReserve("bf", 0.01, 0)).rejects.toThrow(
+        CacheError,
+      );
+      await adapter.bfReserve("bf", 0.01, 100);
+      await expect(adapter.bfReserve("bf", 0.01, 100)).rejects.toThrow(
+        "item exists",
+      );
+    });
+  });
+
+  describe("cuckoo filters", () => {
+    it("should add, check and delete items", async () => {
+      expect(await adapter.cfAdd("cf", "a")).toBe(1);
+      expect(await adapter.cfExists("cf", "a")).toBe(1);
+      expect(await adapter.cfExists("cf", "b")).toBe(0);
+
+      expect(await adapter.cfDel("cf", "a")).toBe(1);
+      expect(await adapter.cfExists("cf", "a")).toBe(0);
+      expect(await adapter.cfDel("cf", "a")).toBe(0);
+    });
+
+    it("should count duplicates separately", async () => {
+      await adapter.cfAdd("cf", "a");
+      await adapter.cfAdd("cf", "a");
+      await adapter.cfDel("cf", "a");
+      expect(await adapter.cfExists("cf", "a")).toBe(1);
+    });
+
+    it("should keep every item when filled past capacity", async () => {
+      await adapter.cfReserve("cf", 64);
+      const items = Array.from({ length: 500 }, (_, i) => `item:${i}`);
+      for (const item of items) {
+        await adapter.cfAdd("cf", item);
+      }
+      for (const item of items) {
+        expect(await adapter.cfExists("cf", item)).toBe(1);
+      }
+    });
+
+    it("should fail to delete from a missing filter", async () => {
+      await expect(adapter.cfDel("missing", "a")).rejects.toThrow(CacheError);
+    });
+  });
+
+  describe("count-min sketch", () => {
+    it("should count increments without undercounting", async () => {
+      await adapter.cmsInitByProb("cms", 0.001, 0.01);
+      expect(await adapter.cmsIncrBy("cms", { a: 3, b: 1 })).toEqual([3, 1]);
+      expect(await adapter.cmsIncrBy("cms", { a: 2 })).toEqual([5]);
+
+      expect(await adapter.cmsQuery("cms", "a", "b", "c")).toEqual([5, 1, 0]);
+    });
+
+    it("should bound overcounting by the sketch width", async () => {
+      await adapter.cmsInitByDim("cms", 200, 5);
+      const increments: Record<string, number> = {};
+      for (let i = 0; i < 1000; i++) increments[`item:${i}`] = 1;
+      await adapter.cmsIncrBy("cms", increments);
+
+      const counts = await adapter.cmsQuery("cms", ...Object.keys(increments));
+      // Error bound is 2 / width of the total count (1000) with high probability
+      expect(counts.every((c) => c >= 1 && c <= 11)).toBe(true);
+    });
+
+    it("should require initialization", async () => {
+      await expect(adapter.cmsIncrBy("cms", { a: 1 })).rejects.toThrow(
+        "CMS: key does not exist",
+      );
+      await adapter.cmsInitByDim("cms", 10, 2);
+      await expect(adapter.cmsInitByDim("cms", 10, 2)).rejects.toThrow(
+        "CMS: key already exists",
+      );
+    });
+
+    it("should run through executeRaw", async () => {
+      await adapter.executeRaw("CMS.INITBYDIM", ["cms", 100, 3]);
+      await adapter.executeRaw("CMS.INCRBY", ["cms", "a", 2, "b", 4]);
+      expect(await adapter.executeRaw("CMS.QUERY", ["cms", "a", "b"])).toEqual([
+        2, 4,
+      ]);
+      expect(await adapter.executeRaw("BF.ADD", ["bf", "x"])).toBe(1);
+      expect(await adapter.executeRaw("CF.EXISTS", ["cf", "x"])).toBe(0);
+    });
+  });
+
+  // =============================================
+  // PUB/SUB
+  // =============================================
+
+  describe("pub/sub", () => {
+    it("should deliver messages to channel subscribers", async () => {
+      const first = vi.fn();
+      const second = vi.fn();
+      await adapter.subscribe("news", first);
+      await adapter.subscribe("news", second);
+
+      expect(await adapter.publish("news", "hello")).toBe(1);
+      expect(await adapter.publish("other", "ignored")).toBe(0);
+      expect(first).toHaveBeenCalledWith("hello", "news");
+      expect(second).toHaveBeenCalledWith("hello", "news");
+    });
+
+    it("should stop delivering after unsubscribe", async () => {
+      const callback = vi.fn();
+      await adapter.subscribe("news", callback);
+      await adapter.unsubscribe("news");
+
+      expect(await adapter.publish("news", "hello")).toBe(0);
+      expect(callback).not.toHaveBeenCalled();
+    });
+
+    it("should match pattern subscriptions with glob syntax", async () => {
+      const callback = vi.fn();
+      await adapter.psubscribe("user:?:*", callback);
+
+      expect(await adapter.publish("user:1:created", "a")).toBe(1);
+      expect(await adapter.publish("user:12:created", "b")).toBe(0);
+      expect(callback).toHaveBeenCalledWith("a", "user:1:created", "user:?:*");
+
+      await adapter.punsubscribe("user:?:*");
+      expect(await adapter.publish("user:1:created", "c")).toBe(0);
+    });
+
+    it("should count channel and pattern receivers", async () => {
+      await adapter.subscribe("user:1", () => {});
+      await adapter.psubscribe("user:*", () => {});
+      expect(await adapter.publish("user:1", "msg")).toBe(2);
+    });
+
+    it("should share a bus between adapters", async () => {
+      const bus = new MemoryPubSub();
+      const publisher = new MemoryAdapter({ checkInterval: 0, pubsub: bus });
+      const subscriber = new MemoryAdapter({ checkInterval: 0, pubsub: bus });
+      const callback = vi.fn();
+
+      await subscriber.subscribe("events", callback);
+      expect(await publisher.publish("events", "hi")).toBe(1);
+      expect(callback).toHaveBeenCalledWith("hi", "events");
+      expect(await adapter.publish("events", "isolated")).toBe(0);
+
+      await subscriber.disconnect();
+      expect(bus.numsub("events")).toBe(0);
+      expect(await publisher.publish("events", "gone")).toBe(0);
+    });
+
+    it("should keep delivering when a callback throws", async () => {
+      const callback = vi.fn();
+      await adapter.subscribe("news", () => {
+        throw new Error("boom");
+      });
+      await adapter.subscribe("news", callback);
+
+      await adapter.publish("news", "hello");
+      expect(callback).toHaveBeenCalledOnce();
+    });
+  });
+
+  // =============================================
+  // KEYSPACE EVENTS
+  // =============================================
+
+  describe("keyspace events", () => {
+    it("should emit set and del events", async () => {
+      const events: string[] = [];
+      await adapter.on("set", (key, event) => events.push(`${event}:${key}`));
+      await adapter.on("del", (key, event) => events.push(`${event}:${key}`));
+
+      await adapter.set("a", "1");
+      await adapter.mset({ b: "2" });
+      await adapter.del("a", "missing");
+
+      expect(events).toEqual(["set:a", "set:b", "del:a"]);
+    });
+
+    it("should emit set events only for SET and MSET, as Redis", async () => {
+      const events: string[] = [];
+      await adapter.on("set", (key) => events.push(key));
+
+      await adapter.hset("h", "f", "v");
+      await adapter.lpush("l", "x");
+      await adapter.incrby("n", 1);
+
+      expect(events).toEqual([]);
+    });
+
+    it("should emit expired events on lazy and active expiry", async () => {
+      const expired: string[] = [];
+      await adapter.on("expired", (key) => expired.push(key));
+
+      await adapter.set("lazy", "1", { px: 1 });
+      await adapter.set("active", "1", { px: 1 });
+      await new Promise((r) => setTimeout(r, 10));
+
+      expect(await adapter.get("lazy")).toBeNull();
+      (adapter as any).cleanExpired();
+      expect(expired).toEqual(["lazy", "active"]);
+    });
+
+    it("should emit evicted events", async () => {
+      const small = new MemoryAdapter({ maxEntries: 1, checkInterval: 0 });
+      const evicted: string[] = [];
+      await small.on("evicted", (key) => evicted.push(key));
+
+      await small.set("a", "1");
+      await small.set("b", "2");
+      expect(evicted).toEqual(["a"]);
+    });
+
+    it("should stop emitting after off and survive failing handlers", async () => {
+      const handler = vi.fn();
+      await adapter.on("set", () => {
+        throw new Error("boom");
+      });
+      await adapter.on("set", handler);
+
+      await adapter.set("a", "1");
+      await adapter.off("set", handler);
+      await adapter.set("b", "2");
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+
   // =============================================
   // UTILITY METHODS
   // =============================================
@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { MemoryAdapter } from "../src/adapters/memory/memory.adapter";
+import { QueueService } from "../src/services/queue.service";
+import { CacheError } from "../src/types/core.types";
+
+describe("QueueService", () => {
+  let adapter: MemoryAdapter;
+  let service: QueueService;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    adapter = new MemoryAdapter({ checkInterval: 0 });
+    await adapter.connect();
+    service = new QueueService(adapter, {
+      defaultVisibilityTimeoutMs: 1000,
+      backoffMs: 100,
+      maxBackoffMs: 250,
+    });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await adapter.disconnect();
+  });
+
+  // =============================================
+  // ENQUEUE / DEQUEUE / ACK
+  // =============================================
+
+  describe("enqueue(), dequeue() and ack()", () => {
+    it("should deliver jobs in FIFO order", async () => {
+      await service.enqueue("emails", { to: "a" });
+      await service.enqueue("emails", { to: "b" });
+
+      const first = await service.dequeue<{ to: string }>("emails");
+      const second = await service.dequeue<{ to: string }>("emails");
+      expect(first?.data).toEqual({ to: "a" });
+      expect(second?.data).toEqual({ to: "b" });
+      expect(first?.attempts).toBe(1);
+      expect(await service.dequeue("emails")).toBeNull();
+    });
+
+    it("should keep payloads intact", async () => {
+      const data = { tags: [], nested: { list: [1, "/x"] }, n: null };
+      await service.enqueue("q", data);
+      expect((await service.dequeue("q"))?.data).toEqual(data);
+    });
+
+    it("should delete a job once acked", async () => {
+      const id = await service.enqueue("q", "work");
+      await service.dequeue("q");
+
+      expect(await service.ack("q", id)).toBe(true);
+      expect(await service.ack("q", id)).toBe(false);
+      expect(await service.getJob("q", id)).toBeNull();
+      expect(await service.getStats("q")).toEqual({
+        waiting: 0,
+        active: 0,
+        delayed: 0,
+        dead: 0,
+      });
+    });
+
+    it("should run queue commands through scripts", async () => {
+      const spy = vi.spyOn(adapter, "executeScript");
+      await service.enqueue("q", 1);
+      await service.dequeue("q");
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject adapters without script support", async () => {
+      Object.assign(adapter, { executeScript: undefined });
+      await expect(service.enqueue("q", 1)).rejects.toThrow(CacheError);
+    });
+  });
+
+  // =============================================
+  // VISIBILITY TIMEOUT
+  // =============================================
+
+  describe("visibility timeout", () => {
+    it("should redeliver a job that was not acked in time", async () => {
+      const id = await service.enqueue("q", "work");
+      await service.dequeue("q");
+      expect(await service.dequeue("q")).toBeNull();
+
+      vi.advanceTimersByTime(1000);
+      const retried = await service.dequeue("q");
+      expect(retried?.id).toBe(id);
+      expect(retried?.attempts).toBe(2);
+      expect(retried?.lastError).toBe("Visibility timeout expired");
+    });
+
+    it("should honour a per-dequeue visibility timeout", async () => {
+      await service.enqueue("q", "work");
+      await service.dequeue("q", { visibilityTimeoutMs: 5000 });
+
+      vi.advanceTimersByTime(1000);
+      expect(await service.dequeue("q")).toBeNull();
+    });
+
+    it("should dead-letter a job that times out on its last attempt", async () => {
+      const id = await service.enqueue("q", "work", { maxAttempts: 1 });
+      await service.dequeue("q");
+
+      vi.advanceTimersByTime(1000);
+      expect(await service.dequeue("q")).toBeNull();
+      expect(await service.ack("q", id)).toBe(false);
+      expect((await service.getStats("q")).dead).toBe(1);
+    });
+  });
+
+  // =============================================
+  // NACK / RETRY
+  // =============================================
+
+  describe("nack()", () => {
+    it("should retry with exponential backoff", async () => {
+      const id = await service.enqueue("q", "work", { maxAttempts: 5 });
+
+      await service.dequeue("q");
+      expect(await service.nack("q", id, { error: "boom" })).toBe("retry");
+      expect(await adapter.zscore("queue:q:delayed", id)).toBe(
+        String(Date.now() + 100),
+      );
+
+      vi.advanceTimersByTime(100);
+      const retried = await service.dequeue("q");
+      expect(retried?.lastError).toBe("boom");
+
+      await service.nack("q", id);
+      expect(await adapter.zscore("queue:q:delayed", id)).toBe(
+        String(Date.now() + 200),
+      );
+
+      vi.advanceTimersByTime(200);
+      await service.dequeue("q");
+      await service.nack("q", id);
+      expect(await adapter.zscore("queue:q:delayed", id)).toBe(
+        String(Date.now() + 250),
+      );
+    });
+
+    it("should use an explicit retry delay", async () => {
+      const id = await service.enqueue("q", "work");
+      await service.dequeue("q");
+      await service.nack("q", id, { delayMs: 0 });
+      expect((await service.dequeue("q"))?.id).toBe(id);
+    });
+
+    it("should dead-letter a job after its last attempt", async () => {
+      const id = await service.enqueue("q", "work", { maxAttempts: 2 });
+
+      await service.dequeue("q");
+      await service.nack("q", id);
+      vi.advanceTimersByTime(100);
+      await service.dequeue("q");
+
+      expect(await service.nack("q", id, { error: "still broken" })).toBe(
+        "dead",
+      );
+      expect(await service.getStats("q")).toEqual({
+        waiting: 0,
+        active: 0,
+        delayed: 0,
+        dead: 1,
+      });
+    });
+
+    it("should dead-letter on request", async () => {
+      const id = await service.enqueue("q", "work");
+      await service.dequeue("q");
+      expect(await service.nack("q", id, { deadLetter: true })).toBe("dead");
+    });
+
+    it("should ignore jobs that are not active", async () => {
+      const id = await service.enqueue("q", "work");
+      expect(await service.nack("q", id)).toBeNull();
+    });
+  });
+
+  // =============================================
+  // DELAYED JOBS
+  // =============================================
+
+  describe("delayed jobs", () => {
+    it("should hold a job until its delay has passed", async () => {
+      await service.enqueue("q", "later", { delayMs: 500 });
+      expect(await service.getStats("q")).toMatchObject({
+        waiting: 0,
+        delayed: 1,
+      });
+      expect(await service.dequeue("q")).toBeNull();
+
+      vi.advanceTimersByTime(500);
+      expect((await service.dequeue("q"))?.data).toBe("later");
+    });
+  });
+
+  // =============================================
+  // DEAD-LETTER QUEUE
+  // =============================================
+
+  describe("dead-letter queue", () => {
+    let id: string;
+
+    beforeEach(async () => {
+      id = await service.enqueue("q", "work", { maxAttempts: 1 });
+      await service.dequeue("q");
+      await service.nack("q", id, { error: "boom" });
+    });
+
+    it("should list dead-lettered jobs", async () => {
+      const [job] = await service.getDeadLetters("q");
+      expect(job).toMatchObject({
+        id,
+        queue: "q",
+        data: "work",
+        attempts: 1,
+        lastError: "boom",
+      });
+    });
+
+    it("should requeue a dead-lettered job with its attempts reset", async () => {
+      expect(await service.retryDeadLetter("q", id)).toBe(true);
+      expect(await service.retryDeadLetter("q", id)).toBe(false);
+
+      const job = await service.dequeue("q");
+      expect(job?.attempts).toBe(1);
+      expect(job?.lastError).toBeUndefined();
+    });
+
+    it("should purge dead-lettered jobs", async () => {
+      expect(await service.purgeDeadLetters("q")).toBe(1);
+      expect(await service.getJob("q", id)).toBeNull();
+      expect((await service.getStats("q")).dead).toBe(0);
+    });
+  });
+});
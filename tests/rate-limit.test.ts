@@ -4,6 +4,13 @@ import {
   RateLimitService,
   DefaultRateLimitConfigs,
 } from "../src/services/rate-limit.service";
+import {
+  buildMultiTierParams,
+  buildQuotaParams,
+  buildSlidingWindowParams,
+  buildTokenBucketParams,
+  RateLimitScripts,
+} from "../src/services/rate-limit-scripts";
 
 describe("RateLimitService", () => {
   let adapter: MemoryAdapter;
@@ -133,7 +140,6 @@ describe("RateLimitService", () => {
       await svc.checkSlidingWindow("user1", "default");
       await svc.checkSlidingWindow("user1", "default");
       const result = await svc.checkSlidingWindow("user1", "default");
-      // MemoryAdapter falls back to basic check since it has no executeScript
       expect(result.allowed).toBe(false);
     });
 
@@ -260,6 +266,105 @@ describe("RateLimitService", () => {
     });
   });
 
+  // =============================================
+  // ADVANCED SCRIPTS
+  // =============================================
+
+  describe("advanced scripts", () => {
+    it("should run the token bucket script", async () => {
+      const { keys, args } = buildTokenBucketParams("bucket", 2, 1);
+
+      const first = await adapter.executeScript(
+        RateLimitScripts.tokenBucket,
+        keys,
+        args,
+      );
+      expect(first.allowed).toBe(true);
+      expect(first.tokens).toBe(1);
+
+      await adapter.executeScript(RateLimitScripts.tokenBucket, keys, args);
+      const third = await adapter.executeScript(
+        RateLimitScripts.tokenBucket,
+        keys,
+        args,
+      );
+      expect(third.allowed).toBe(false);
+      expect(third.tokens).toBe(0);
+      expect(third.resetAt).toBeGreaterThan(Date.now());
+    });
+
+    it("should run the sliding window script", async () => {
+      const run = () => {
+        const { keys, args } = buildSlidingWindowParams("window", 2, 1000);
+        return adapter.executeScript(
+          RateLimitScripts.slidingWindow,
+          keys,
+          args,
+        );
+      };
+
+      expect((await run()).count).toBe(1);
+      expect((await run()).allowed).toBe(true);
+      const blocked = await run();
+      expect(blocked.allowed).toBe(false);
+      expect(blocked.count).toBe(2);
+      expect(await adapter.zcard("window")).toBe(2);
+    });
+
+    it("should run the multi-tier script", async () => {
+      const { keys, args } = buildMultiTierParams("user1", [
+        { name: "second", maxRequests: 1, windowSeconds: 1 },
+        { name: "minute", maxRequests: 10, windowSeconds: 60 },
+      ]);
+
+      const first = await adapter.executeScript(
+        RateLimitScripts.multiTier,
+        keys,
+        args,
+      );
+      expect(first.allowed).toBe(true);
+
+      const second = await adapter.executeScript(
+        RateLimitScripts.multiTier,
+        keys,
+        args,
+      );
+      expect(second.allowed).toBe(false);
+      expect(second.limits[0]).toMatchObject({ count: 1, allowed: false });
+      expect(second.limits[1]).toMatchObject({ count: 2, max: 10, allowed: true });
+    });
+
+    it("should run the quota script", async () => {
+      const { keys, args } = buildQuotaParams("quota", 5, Date.now() + 60_000, 3);
+
+      const first = await adapter.executeScript(
+        RateLimitScripts.quota,
+        keys,
+        args,
+      );
+      expect(first).toMatchObject({ allowed: true, used: 3, remaining: 2 });
+
+      const second = await adapter.executeScript(
+        RateLimitScripts.quota,
+        keys,
+        args,
+      );
+      expect(second).toMatchObject({ allowed: false, used: 3, remaining: 2 });
+    });
+
+    it("should enforce limits under concurrent checks", async () => {
+      const svc = new RateLimitService(adapter, {
+        defaultConfig: { maxRequests: 3, windowSeconds: 60 },
+      });
+
+      const results = await Promise.all(
+        Array.from({ length: 6 }, () => svc.check("user1", "default")),
+      );
+      expect(results.filter((r) => r.allowed)).toHaveLength(3);
+      expect((await svc.getStatus("user1", "default")).count).toBe(3);
+    });
+  });
+
   // =============================================
   // DEFAULT CONFIGS
   // =============================================
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Redis } from "ioredis";
+import { RedisAdapter } from "../src/adapters/redis/redis.adapter";
+import { pipelineEntry } from "../src/types/operation.types";
+
+describe("RedisAdapter", () => {
+  // Fake client recording the commands queued on a pipeline or MULTI.
+  // Like ioredis, it has no methods for module commands such as BF.ADD.
+  let queued: Array<[string, unknown[]]>;
+  let adapter: RedisAdapter;
+
+  beforeEach(() => {
+    queued = [];
+    const pipeline = {
+      expire: (...args: unknown[]) => {
+        queued.push(["EXPIRE", args]);
+        return pipeline;
+      },
+      call: (command: string, ...args: unknown[]) => {
+        queued.push([command, args]);
+        return pipeline;
+      },
+      exec: async () =>
+        queued.map(([command]) => [null, command === "EXPIRE" ? 1 : [1]]),
+    };
+    const client = { multi: () => pipeline, pipeline: () => pipeline };
+    adapter = new RedisAdapter({ client: client as unknown as Redis });
+  });
+
+  // =============================================
+  // PIPELINE & TRANSACTIONS
+  // =============================================
+
+  describe("pipeline and transactions", () => {
+    const entries = () => [
+      pipelineEntry(
+        { command: "BF.ADD", buildArgs: () => ["bloom", "item"] },
+        {},
+      ),
+      pipelineEntry({ command: "EXPIRE", buildArgs: () => ["bloom", 60] }, {}),
+    ];
+
+    it("should queue module commands chained with a follow-up", async () => {
+      const result = await adapter.executePipeline(entries(), {
+        atomic: true,
+      });
+
+      expect(queued).toEqual([
+        ["BF.ADD", ["bloom", "item"]],
+        ["EXPIRE", ["bloom", 60]],
+      ]);
+      expect(result.results.map((entry) => entry.data)).toEqual([[1], 1]);
+    });
+
+    it("should queue module commands in transactions", async () => {
+      const result = await adapter.executeTransaction(entries());
+
+      expect(queued.map(([command]) => command)).toEqual(["BF.ADD", "EXPIRE"]);
+      expect(result.results).toEqual([[1], 1]);
+    });
+  });
+});
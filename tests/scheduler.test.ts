@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { MemoryAdapter } from "../src/adapters/memory/memory.adapter";
+import { SchedulerService } from "../src/services/scheduler.service";
+
+describe("SchedulerService", () => {
+  let adapter: MemoryAdapter;
+  let service: SchedulerService;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2030, 0, 1, 8, 0));
+    adapter = new MemoryAdapter({ checkInterval: 0 });
+    await adapter.connect();
+    service = new SchedulerService(adapter);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await adapter.disconnect();
+  });
+
+  // =============================================
+  // SCHEDULE / CLAIM / COMPLETE
+  // =============================================
+
+  describe("schedule() and claimDue()", () => {
+    it("should only claim jobs that are due", async () => {
+      await service.schedule("reminders", { user: 1 }, { delayMs: 1000 });
+      expect(await service.claimDue("reminders")).toEqual([]);
+
+      vi.advanceTimersByTime(1000);
+      const [job] = await service.claimDue<{ user: number }>("reminders");
+      expect(job?.data).toEqual({ user: 1 });
+      expect(await service.claimDue("reminders")).toEqual([]);
+      expect(await service.getStats("reminders")).toEqual({
+        scheduled: 0,
+        processing: 1,
+      });
+    });
+
+    it("should claim the earliest jobs first, up to the limit", async () => {
+      const now = Date.now();
+      await service.schedule("posts", "b", { at: now - 1000 });
+      await service.schedule("posts", "a", { at: new Date(now - 2000) });
+      await service.schedule("posts", "c", { at: now });
+
+      const jobs = await service.claimDue("posts", 2);
+      expect(jobs.map((job) => job.data)).toEqual(["a", "b"]);
+    });
+
+    it("should delete one-off jobs on completion", async () => {
+      const { id } = await service.schedule("posts", "publish");
+      await service.claimDue("posts");
+
+      expect(await service.complete("posts", id)).toBe(true);
+      expect(await service.complete("posts", id)).toBe(false);
+      expect(await service.getJob("posts", id)).toBeNull();
+    });
+
+    it("should reject conflicting recurrences", async () => {
+      await expect(
+        service.schedule("q", 1, { cron: "* * * * *", everyMs: 1000 }),
+      ).rejects.toThrow();
+      await expect(
+        service.schedule("q", 1, { cron: "61 * * * *" }),
+      ).rejects.toThrow();
+    });
+  });
+
+  // =============================================
+  // DE-DUPLICATION
+  // =============================================
+
+  describe("de-duplication", () => {
+    it("should ignore a job id that is already scheduled", async () => {
+      const first = await service.schedule("posts", "v1", { id: "post:1" });
+      const second = await service.schedule("posts", "v2", {
+        id: "post:1",
+        delayMs: 5000,
+      });
+
+      expect(first.scheduled).toBe(true);
+      expect(second.scheduled).toBe(false);
+      expect((await service.getJob("posts", "post:1"))?.data).toBe("v1");
+      expect((await service.getStats("posts")).scheduled).toBe(1);
+    });
+
+    it("should replace a job on request", async () => {
+      await service.schedule("posts", "v1", { id: "post:1" });
+      const result = await service.schedule("posts", "v2", {
+        id: "post:1",
+        delayMs: 5000,
+        replace: true,
+      });
+
+      expect(result.scheduled).toBe(true);
+      const job = await service.getJob("posts", "post:1");
+      expect(job).toMatchObject({ data: "v2", dueAt: Date.now() + 5000 });
+    });
+  });
+
+  // =============================================
+  // RECURRING JOBS
+  // =============================================
+
+  describe("recurring jobs", () => {
+    it("should reschedule cron jobs at their next occurrence", async () => {
+      const { id, dueAt } = await service.schedule("digest", null, {
+        cron: "30 9 * * *",
+      });
+      expect(dueAt).toBe(Date.UTC(2030, 0, 1, 9, 30));
+
+      vi.setSystemTime(dueAt);
+      await service.claimDue("digest");
+      await service.complete("digest", id);
+
+      const job = await service.getJob("digest", id);
+      expect(job?.dueAt).toBe(Date.UTC(2030, 0, 2, 9, 30));
+      expect((await service.getStats("digest")).scheduled).toBe(1);
+    });
+
+    it("should keep interval jobs on their cadence", async () => {
+      const { id } = await service.schedule("sync", null, { everyMs: 1000 });
+
+      vi.advanceTimersByTime(3500);
+      await service.claimDue("sync");
+      await service.complete("sync", id);
+
+      const job = await service.getJob("sync", id);
+      expect(job?.dueAt).toBe(Date.UTC(2030, 0, 1, 8, 0) + 4000);
+    });
+  });
+
+  // =============================================
+  // CANCEL / RELEASE / RECOVER
+  // =============================================
+
+  describe("cancel(), release() and recoverProcessing()", () => {
+    it("should cancel scheduled and claimed jobs", async () => {
+      const { id } = await service.schedule("q", 1, { delayMs: 1000 });
+      expect(await service.cancel("q", id)).toBe(true);
+      expect(await service.cancel("q", id)).toBe(false);
+
+      const claimed = await service.schedule("q", 2, { everyMs: 1000 });
+      vi.advanceTimersByTime(1000);
+      await service.claimDue("q");
+      await service.cancel("q", claimed.id);
+
+      expect(await service.complete("q", claimed.id)).toBe(false);
+      expect(await service.getStats("q")).toEqual({
+        scheduled: 0,
+        processing: 0,
+      });
+    });
+
+    it("should release a claimed job back to the schedule", async () => {
+      const { id } = await service.schedule("q", 1);
+      await service.claimDue("q");
+
+      expect(await service.release("q", id, 500)).toBe(true);
+      expect(await service.claimDue("q")).toEqual([]);
+      vi.advanceTimersByTime(500);
+      expect(await service.claimDue("q")).toHaveLength(1);
+    });
+
+    it("should recover every claimed job", async () => {
+      await service.schedule("q", 1);
+      await service.schedule("q", 2);
+      await service.claimDue("q");
+
+      expect(await service.recoverProcessing("q")).toBe(2);
+      expect(await service.claimDue("q")).toHaveLength(2);
+    });
+
+    it("should list upcoming jobs soonest first", async () => {
+      await service.schedule("q", "later", { delayMs: 2000 });
+      await service.schedule("q", "soon", { delayMs: 1000 });
+
+      const upcoming = await service.getUpcoming("q");
+      expect(upcoming.map((job) => job.data)).toEqual(["soon", "later"]);
+    });
+  });
+});
@@ -7,7 +7,9 @@ import {
   createSetSchema,
   createSortedSetSchema,
   createTypedSchema,
+  setTrimScript,
 } from "../src/schemas/schema-builder";
+import type { CacheOperation } from "../src/types/operation.types";
 import { createKeyBuilder } from "../src/utils/key-patterns";
 
 type TestKeyParams = { userId: string };
@@ -66,6 +68,23 @@ describe("TypedSchemaBuilder", () => {
 
       expect(schema.key({ userId: "123" })).toBe("user:123:data");
     });
+
+    it("should add a version segment to keys", () => {
+      const schema = createTypedSchema<TestKeyParams>()
+        .name("test")
+        .keyPattern("user:{userId}:data")
+        .structure("STRING")
+        .ttl(100)
+        .version(3)
+        .operations((ops) => ops.addGet())
+        .build();
+
+      expect(schema.key({ userId: "123" })).toBe("user:123:data:v3");
+      expect(schema.keyPattern).toBe("user:{userId}:data");
+      expect(schema.operations.get.buildArgs({ userId: "123" })).toEqual([
+        "user:123:data:v3",
+      ]);
+    });
   });
 
   // =============================================
@@ -118,6 +137,134 @@ describe("TypedSchemaBuilder", () => {
     });
   });
 
+  // =============================================
+  // SIZE LIMITS
+  // =============================================
+
+  describe("maxSize", () => {
+    const params = { userId: "1", member: "a", score: 1, value: "a" };
+
+    it("should chain trims after list and sorted-set writes", () => {
+      const schema = createTypedSchema<TestKeyParams>()
+        .name("recent")
+        .keyPattern("recent:{userId}")
+        .structure("LIST")
+        .ttl(100)
+        .maxSize(10)
+        .operations((ops) => ops.addListPush().addSortedSetAdd().addGet())
+        .build();
+
+      const { listPush, sortedSetAdd, get } = schema.operations;
+      const listTrim = listPush.trim as { operation: CacheOperation<any> };
+      expect(listTrim.operation.command).toBe("LTRIM");
+      expect(listTrim.operation.buildArgs(params)).toEqual(["recent:1", 0, 9]);
+
+      const setTrim = sortedSetAdd.trim as { operation: CacheOperation<any> };
+      expect(setTrim.operation.command).toBe("ZREMRANGEBYRANK");
+      expect(setTrim.operation.buildArgs(params)).toEqual(["recent:1", 0, -11]);
+      expect(get.trim).toBeUndefined();
+    });
+
+    it("should evict the highest scores", () => {
+      const schema = createTypedSchema<TestKeyParams>()
+        .name("cheapest")
+        .keyPattern("cheapest:{userId}")
+        .structure("SORTED_SET")
+        .ttl(100)
+        .maxSize(10, "highestScore")
+        .operations((ops) => ops.addSortedSetAdd())
+        .build();
+
+      const trim = schema.operations.sortedSetAdd.trim as {
+        operation: CacheOperation<any>;
+      };
+      expect(trim.operation.buildArgs(params)).toEqual(["cheapest:1", 10, -1]);
+      expect(schema.eviction).toBe("highestScore");
+    });
+
+    it("should trim sets with a script", () => {
+      const schema = createTypedSchema<TestKeyParams>()
+        .name("tags")
+        .keyPattern("tags:{userId}")
+        .structure("SET")
+        .ttl(100)
+        .maxSize(10)
+        .operations((ops) => ops.addSetAdd())
+        .build();
+
+      const trim = schema.operations.setAdd.trim!;
+      expect(trim.operation).toMatchObject({
+        command: "EVAL",
+        script: setTrimScript,
+      });
+      expect(trim.operation.buildArgs({ userId: "1" })).toEqual([
+        setTrimScript.script,
+        1,
+        "tags:1",
+        10,
+      ]);
+    });
+
+    it("should not trim without maxSize", () => {
+      const ops = new TypedOperationBuilder(
+        createKeyBuilder<TestKeyParams>("user:{userId}"),
+      )
+        .addListPush()
+        .getOperations();
+      expect(ops.listPush.trim).toBeUndefined();
+    });
+  });
+
+  // =============================================
+  // TTL POLICIES
+  // =============================================
+
+  describe("ttl policies", () => {
+    const withPolicy = (policy: "fixed" | "write" | "sliding") =>
+      createTypedSchema<TestKeyParams>()
+        .name("session")
+        .keyPattern("session:{userId}")
+        .structure("HASH")
+        .ttl(100, policy)
+        .operations((ops) =>
+          ops
+            .addHashSet()
+            .addHashGetAll()
+            .addDelete()
+            .addCustomOperation("touch", {
+              command: "EXPIRE",
+              buildArgs: (params: { key: string }) => [params.key, 5],
+            }),
+        )
+        .build();
+
+    it("should chain EXPIRE after writes", () => {
+      const { operations, ttlPolicy } = withPolicy("write");
+      expect(ttlPolicy).toBe("write");
+      expect(operations.hashSet.expire?.buildArgs({ userId: "1" })).toEqual([
+        "session:1",
+        100,
+      ]);
+      expect(operations.hashGetAll.expire).toBeUndefined();
+      expect(operations.delete.expire).toBeUndefined();
+      expect(operations.touch.expire).toBeUndefined();
+    });
+
+    it("should only set a fixed TTL on new keys", () => {
+      const { operations } = withPolicy("fixed");
+      expect(operations.hashSet.expire?.buildArgs({ userId: "1" })).toEqual([
+        "session:1",
+        100,
+        "NX",
+      ]);
+    });
+
+    it("should refresh a sliding TTL on reads", () => {
+      const { operations } = withPolicy("sliding");
+      expect(operations.hashGetAll.expire?.command).toBe("EXPIRE");
+    });
+  });
+
   // =============================================
   // TYPED OPERATION BUILDER
   // =============================================
@@ -380,6 +527,97 @@ describe("TypedSchemaBuilder", () => {
           }),
         ).toEqual(["user:1", 0, 100]);
       });
+
+      it("should addSortedSetUnionStore and InterStore", () => {
+        const builder = new TypedOperationBuilder<TestKeyParams>(keyBuilder);
+        const ops = builder
+          .addSortedSetUnionStore()
+          .addSortedSetInterStore()
+          .getOperations();
+        expect(ops.sortedSetUnionStore.command).toBe("ZUNIONSTORE");
+        expect(
+          ops.sortedSetUnionStore.buildArgs({
+            userId: "1",
+            sourceKeys: ["a", "b"],
+            weights: [1, 2],
+            aggregate: "MAX",
+          }),
+        ).toEqual(["user:1", 2, "a", "b", "WEIGHTS", 1, 2, "AGGREGATE", "MAX"]);
+        expect(ops.sortedSetInterStore.command).toBe("ZINTERSTORE");
+        expect(
+          ops.sortedSetInterStore.buildArgs({ userId: "1", sourceKeys: ["a"] }),
+        ).toEqual(["user:1", 1, "a"]);
+      });
+
+      it("should addSortedSetDiff", () => {
+        const builder = new TypedOperationBuilder<TestKeyParams>(keyBuilder);
+        const ops = builder.addSortedSetDiff().getOperations();
+        expect(ops.sortedSetDiff.command).toBe("ZDIFF");
+        expect(
+          ops.sortedSetDiff.buildArgs({ userId: "1", sourceKeys: ["seen"] }),
+        ).toEqual([2, "user:1", "seen"]);
+      });
+
+      it("should addSortedSetRangeByLex", () => {
+        const builder = new TypedOperationBuilder<TestKeyParams>(keyBuilder);
+        const ops = builder.addSortedSetRangeByLex().getOperations();
+        expect(
+          ops.sortedSetRangeByLex.buildArgs({
+            userId: "1",
+            min: "[a",
+            max: "+",
+          }),
+        ).toEqual(["user:1", "[a", "+"]);
+        expect(
+          ops.sortedSetRangeByLex.buildArgs({
+            userId: "1",
+            min: "-",
+            max: "(c",
+            count: 10,
+          }),
+        ).toEqual(["user:1", "-", "(c", "LIMIT", 0, 10]);
+      });
+
+      it("should addSortedSetPopMin, PopMax and BlockingPopMin", () => {
+        const builder = new TypedOperationBuilder<TestKeyParams>(keyBuilder);
+        const ops = builder
+          .addSortedSetPopMin()
+          .addSortedSetPopMax()
+          .addSortedSetBlockingPopMin()
+          .getOperations();
+        expect(ops.sortedSetPopMin.buildArgs({ userId: "1" })).toEqual([
+          "user:1",
+          1,
+        ]);
+        expect(ops.sortedSetPopMax.command).toBe("ZPOPMAX");
+        expect(ops.sortedSetPopMax.parseResult!(["a", "3", "b", "2"])).toEqual([
+          { member: "a", score: 3 },
+          { member: "b", score: 2 },
+        ]);
+        expect(
+          ops.sortedSetBlockingPopMin.buildArgs({ userId: "1", timeout: 5 }),
+        ).toEqual(["user:1", 5]);
+        expect(
+          ops.sortedSetBlockingPopMin.parseResult!(["user:1", "a", "1.5"]),
+        ).toEqual({ member: "a", score: 1.5 });
+        expect(ops.sortedSetBlockingPopMin.parseResult!(null)).toBeNull();
+      });
+
+      it("should addSortedSetRandomMembers and GetScores", () => {
+        const builder = new TypedOperationBuilder<TestKeyParams>(keyBuilder);
+        const ops = builder
+          .addSortedSetRandomMembers()
+          .addSortedSetGetScores()
+          .getOperations();
+        expect(
+          ops.sortedSetRandomMembers.buildArgs({ userId: "1", count: 3 }),
+        ).toEqual(["user:1", 3]);
+        expect(ops.sortedSetGetScores.command).toBe("ZMSCORE");
+        expect(ops.sortedSetGetScores.parseResult!(["1.5", null])).toEqual([
+          1.5,
+          null,
+        ]);
+      });
     });
 
     describe("set operations", () => {
@@ -515,6 +753,118 @@ describe("TypedSchemaBuilder", () => {
       });
     });
 
+    describe("geo operations", () => {
+      it("should addGeoAdd", () => {
+        const builder = new TypedOperationBuilder<TestKeyParams>(keyBuilder);
+        const ops = builder.addGeoAdd().getOperations();
+        expect(ops.geoAdd.command).toBe("GEOADD");
+        expect(
+          ops.geoAdd.buildArgs({
+            userId: "1",
+            members: [{ longitude: 13.4, latitude: 52.5, member: "home" }],
+          }),
+        ).toEqual(["user:1", 13.4, 52.5, "home"]);
+      });
+
+      it("should addGeoSearch", () => {
+        const builder = new TypedOperationBuilder<TestKeyParams>(keyBuilder);
+        const ops = builder.addGeoSearch().getOperations();
+        expect(ops.geoSearch.command).toBe("GEOSEARCH");
+        expect(
+          ops.geoSearch.buildArgs({
+            userId: "1",
+            from: { member: "home" },
+            by: { width: 2, height: 1, unit: "km" },
+            count: 5,
+            withDist: true,
+            withCoord: true,
+          }),
+        ).toEqual([
+          "user:1",
+          "FROMMEMBER",
+          "home",
+          "BYBOX",
+          2,
+          1,
+          "km",
+          "COUNT",
+          5,
+          "WITHCOORD",
+          "WITHDIST",
+        ]);
+        expect(
+          ops.geoSearch.parseResult!([["a", "0.5000", ["13.4", "52.5"]], "b"]),
+        ).toEqual([
+          {
+            member: "a",
+            distance: 0.5,
+            coordinates: { longitude: 13.4, latitude: 52.5 },
+          },
+          { member: "b" },
+        ]);
+      });
+    });
+
+    describe("probabilistic operations", () => {
+      it("should addCuckooFilterAdd, Delete and Exists", () => {
+        const builder = new TypedOperationBuilder<TestKeyParams>(keyBuilder);
+        const ops = builder
+          .addCuckooFilterAdd()
+          .addCuckooFilterDelete()
+          .addCuckooFilterExists()
+          .getOperations();
+        expect(ops.cuckooFilterAdd.command).toBe("CF.ADD");
+        expect(ops.cuckooFilterDelete.command).toBe("CF.DEL");
+        expect(ops.cuckooFilterExists.command).toBe("CF.EXISTS");
+        expect(
+          ops.cuckooFilterExists.buildArgs({ userId: "1", item: "a" }),
+        ).toEqual(["user:1", "a"]);
+        expect(ops.cuckooFilterDelete.parseResult!(0)).toBe(false);
+      });
+
+      it("should addCuckooFilterReserve", () => {
+        const builder = new TypedOperationBuilder<TestKeyParams>(keyBuilder);
+        const ops = builder.addCuckooFilterReserve().getOperations();
+        expect(ops.cuckooFilterReserve.command).toBe("CF.RESERVE");
+        expect(
+          ops.cuckooFilterReserve.buildArgs({ userId: "1", capacity: 1000 }),
+        ).toEqual(["user:1", 1000]);
+      });
+
+      it("should addCountMinSketchIncrementBy", () => {
+        const builder = new TypedOperationBuilder<TestKeyParams>(keyBuilder);
+        const ops = builder.addCountMinSketchIncrementBy().getOperations();
+        expect(ops.countMinSketchIncrementBy.command).toBe("CMS.INCRBY");
+        expect(
+          ops.countMinSketchIncrementBy.buildArgs({
+            userId: "1",
+            increments: { a: 2, b: 1 },
+          }),
+        ).toEqual(["user:1", "a", 2, "b", 1]);
+      });
+
+      it("should addCountMinSketchQuery and init operations", () => {
+        const builder = new TypedOperationBuilder<TestKeyParams>(keyBuilder);
+        const ops = builder
+          .addCountMinSketchInitByDim()
+          .addCountMinSketchInitByProb()
+          .addCountMinSketchQuery()
+          .getOperations();
+        expect(
+          ops.countMinSketchInitByDim.buildArgs({
+            userId: "1",
+            width: 2000,
+            depth: 5,
+          }),
+        ).toEqual(["user:1", 2000, 5]);
+        expect(ops.countMinSketchInitByProb.command).toBe("CMS.INITBYPROB");
+        expect(
+          ops.countMinSketchQuery.buildArgs({ userId: "1", items: ["a", "b"] }),
+        ).toEqual(["user:1", "a", "b"]);
+        expect(ops.countMinSketchQuery.parseResult!([3, "1"])).toEqual([3, 1]);
+      });
+    });
+
     describe("custom operations", () => {
       it("should addCustomOperation", () => {
         const builder = new TypedOperationBuilder<TestKeyParams>(keyBuilder);
@@ -0,0 +1,221 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  MemoryAdapter,
+  MemoryPubSub,
+} from "../src/adapters/memory/memory.adapter";
+import { TieredAdapter } from "../src/adapters/tiered/tiered.adapter";
+import { CacheError } from "../src/types/core.types";
+
+describe("TieredAdapter", () => {
+  let bus: MemoryPubSub;
+  let l2: MemoryAdapter;
+  let adapter: TieredAdapter;
+
+  const createNode = () =>
+    new TieredAdapter({
+      l2,
+      subscriber: new MemoryAdapter({ checkInterval: 0, pubsub: bus }),
+      l1Ttl: 5,
+    });
+
+  beforeEach(async () => {
+    bus = new MemoryPubSub();
+    l2 = new MemoryAdapter({ checkInterval: 0, pubsub: bus });
+    adapter = createNode();
+    await adapter.connect();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // =============================================
+  // READS
+  // =============================================
+
+  describe("reads", () => {
+    it("should serve repeated reads from L1", async () => {
+      await l2.set("k", "v");
+      const spy = vi.spyOn(l2, "get");
+
+      expect(await adapter.get("k")).toBe("v");
+      expect(await adapter.get("k")).toBe("v");
+      expect(spy).toHaveBeenCalledTimes(1);
+
+      const counts = adapter.getMetrics().operationCounts;
+      expect(counts["L1:HIT"]).toBe(1);
+      expect(counts["L1:MISS"]).toBe(1);
+    });
+
+    it("should serve hashes from L1", async () => {
+      await l2.hmset("h", { a: "1", b: "2" });
+      const spy = vi.spyOn(l2, "hgetall");
+
+      expect(await adapter.hgetall("h")).toEqual({ a: "1", b: "2" });
+      expect(await adapter.hget("h", "b")).toBe("2");
+      expect(await adapter.hgetall("h")).toEqual({ a: "1", b: "2" });
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+
+    it("should combine L1 and L2 values in mget", async () => {
+      await adapter.set("a", "1");
+      await l2.set("b", "2");
+      const spy = vi.spyOn(l2, "mget");
+
+      expect(await adapter.mget(["a", "b", "c"])).toEqual(["1", "2", null]);
+      expect(spy).toHaveBeenCalledWith(["b", "c"]);
+    });
+
+    it("should expire L1 entries after l1Ttl", async () => {
+      vi.useFakeTimers();
+      await l2.set("k", "v1");
+      expect(await adapter.get("k")).toBe("v1");
+
+      await l2.set("k", "v2");
+      expect(await adapter.get("k")).toBe("v1");
+
+      vi.advanceTimersByTime(5001);
+      expect(await adapter.get("k")).toBe("v2");
+    });
+  });
+
+  // =============================================
+  // WRITES
+  // =============================================
+
+  describe("writes", () => {
+    it("should write through to L2 and populate L1", async () => {
+      await adapter.set("k", "v");
+      const spy = vi.spyOn(l2, "get");
+
+      expect(await l2.get("k")).toBe("v");
+      spy.mockClear();
+      expect(await adapter.get("k")).toBe("v");
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it("should invalidate L1 on writes", async () => {
+      await l2.hmset("h", { a: "1" });
+      await adapter.hgetall("h");
+
+      await adapter.hset("h", "a", "2");
+      expect(await adapter.hget("h", "a")).toBe("2");
+
+      await adapter.del("h");
+      expect(await adapter.hgetall("h")).toEqual({});
+    });
+
+    it("should not fill L1 with values read before a concurrent write", async () => {
+      await l2.set("k", "old");
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+      vi.spyOn(l2, "get").mockImplementationOnce(async () => {
+        await gate;
+        return "old";
+      });
+
+      const pending = adapter.get("k");
+      await adapter.set("k", "new");
+      release();
+
+      expect(await pending).toBe("old");
+      expect(await adapter.get("k")).toBe("new");
+    });
+
+    it("should invalidate L1 when a key's expiry is removed", async () => {
+      await adapter.set("k", "v", { ex: 60 });
+      await adapter.persist("k");
+      const spy = vi.spyOn(l2, "get");
+
+      expect(await adapter.get("k")).toBe("v");
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep L1 and not publish when a TTL is refreshed", async () => {
+      await adapter.set("k", "v");
+      const get = vi.spyOn(l2, "get");
+      const publish = vi.spyOn(l2, "publish");
+
+      await adapter.executePipeline([
+        {
+          operation: { command: "GET", buildArgs: () => ["k"] },
+          params: {},
+        },
+        {
+          operation: { command: "EXPIRE", buildArgs: () => ["k", 60] },
+          params: {},
+        },
+      ]);
+      await adapter.executeRaw("EXPIRE", ["k", 60]);
+      await adapter.expire("k", 60);
+
+      expect(await adapter.get("k")).toBe("v");
+      expect(get).toHaveBeenCalledTimes(1);
+      expect(publish).not.toHaveBeenCalled();
+    });
+
+    it("should shorten L1 entries that outlive a new expiry", async () => {
+      vi.useFakeTimers();
+      await adapter.set("k", "v");
+      await adapter.expire("k", 2);
+
+      vi.advanceTimersByTime(2001);
+      expect(await adapter.get("k")).toBeNull();
+    });
+
+    it("should forward the NX mode of expire", async () => {
+      await adapter.set("k", "v", { ex: 60 });
+
+      expect(await adapter.expire("k", 10, "NX")).toBe(0);
+      expect(await adapter.ttl("k")).toBe(60);
+    });
+
+    it("should invalidate L1 for raw write commands", async () => {
+      await adapter.set("k", "v");
+      await adapter.executeRaw("DEL", ["k"]);
+      expect(await adapter.executeRaw("GET", ["k"])).toBeNull();
+    });
+  });
+
+  // =============================================
+  // CROSS-PROCESS INVALIDATION
+  // =============================================
+
+  describe("invalidation", () => {
+    it("should drop L1 entries on other nodes after a write", async () => {
+      const other = createNode();
+      await other.connect();
+
+      await l2.set("flag", "off");
+      expect(await adapter.get("flag")).toBe("off");
+
+      await other.set("flag", "on");
+      expect(await adapter.get("flag")).toBe("on");
+    });
+
+    it("should stop receiving invalidations after disconnect", async () => {
+      await adapter.disconnect();
+      expect(bus.numsub("cachyer:invalidate")).toBe(0);
+    });
+  });
+
+  // =============================================
+  // UNSUPPORTED OPERATIONS
+  // =============================================
+
+  describe("unsupported operations", () => {
+    it("should throw when L2 lacks an optional method", async () => {
+      const bare = new MemoryAdapter({ checkInterval: 0 });
+      Object.assign(bare, { executeScript: undefined });
+      const node = new TieredAdapter({ l2: bare });
+
+      await expect(
+        node.executeScript(
+          { script: "", language: "lua", keys: [], args: [] },
+          [],
+          [],
+        ),
+      ).rejects.toThrow(CacheError);
+    });
+  });
+});
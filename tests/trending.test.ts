@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { MemoryAdapter } from "../src/adapters/memory/memory.adapter";
+import { TrendingService } from "../src/services/trending.service";
+
+describe("TrendingService", () => {
+  let adapter: MemoryAdapter;
+  let service: TrendingService;
+
+  const HOUR = 3600000;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2030, 0, 1, 12, 30));
+    adapter = new MemoryAdapter({ checkInterval: 0 });
+    await adapter.connect();
+    service = new TrendingService(adapter);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await adapter.disconnect();
+  });
+
+  // =============================================
+  // RECORDING
+  // =============================================
+
+  describe("record()", () => {
+    it("should add weighted scores", async () => {
+      expect(await service.record("posts", "p1", "share")).toBe(5);
+      expect(await service.record("posts", "p1", { like: 2, view: 10 })).toBe(
+        5,
+      );
+      expect(await service.getScore("posts", "p1", "1h")).toBe(10);
+    });
+
+    it("should reject unknown events", async () => {
+      await expect(service.record("posts", "p1", "bookmark")).rejects.toThrow(
+        "Unknown trending event",
+      );
+    });
+
+    it("should expire buckets after the longest window", async () => {
+      await service.record("posts", "p1", "like");
+      const bucket = Math.floor(Date.now() / HOUR);
+      expect(await adapter.ttl(`trending:posts:bucket:${bucket}`)).toBe(
+        30 * 60 + 7 * 24 * 3600,
+      );
+    });
+  });
+
+  // =============================================
+  // DECAY AND WINDOWS
+  // =============================================
+
+  describe("getTrending()", () => {
+    it("should rank recent engagement above older engagement", async () => {
+      await service.record("posts", "old", { like: 10 });
+      vi.advanceTimersByTime(10 * HOUR);
+      await service.record("posts", "new", { like: 7 });
+
+      const page = await service.getTrending("posts", "24h");
+      expect(page.items.map((entry) => entry.item)).toEqual(["new", "old"]);
+      // 20 points decayed by 10 hours at 0.1 per hour
+      expect(page.items[1]!.score).toBeCloseTo(10);
+    });
+
+    it("should only count events inside the window", async () => {
+      await service.record("posts", "old", "share");
+      vi.advanceTimersByTime(2 * HOUR);
+      await service.record("posts", "new", "like");
+
+      const page = await service.getTrending("posts", "1h");
+      expect(page.items.map((entry) => entry.item)).toEqual(["new"]);
+    });
+
+    it("should serve the cached ranking until it is refreshed", async () => {
+      await service.record("posts", "a", "like");
+      await service.getTrending("posts", "1h");
+      await service.record("posts", "b", "share");
+
+      let page = await service.getTrending("posts", "1h");
+      expect(page.items.map((entry) => entry.item)).toEqual(["a"]);
+
+      vi.advanceTimersByTime(61000);
+      page = await service.getTrending("posts", "1h");
+      expect(page.items.map((entry) => entry.item)).toEqual(["b", "a"]);
+
+      await service.record("posts", "c", { share: 2 });
+      expect(await service.refresh("posts", "1h")).toBe(3);
+      expect((await service.getTrending("posts", "1h")).items[0]!.item).toBe(
+        "c",
+      );
+    });
+
+    it("should paginate with cursors", async () => {
+      for (let i = 1; i <= 5; i++) {
+        await service.record("posts", `p${i}`, { like: i });
+      }
+
+      const first = await service.getTrending("posts", "24h", { limit: 3 });
+      expect(first.items.map((entry) => entry.item)).toEqual([
+        "p5",
+        "p4",
+        "p3",
+      ]);
+
+      const second = await service.getTrending("posts", "24h", {
+        limit: 3,
+        cursor: first.nextCursor,
+      });
+      expect(second.items.map((entry) => entry.position)).toEqual([4, 5]);
+      expect(second.hasMore).toBe(false);
+    });
+
+    it("should continue after the last item when the ranking is rescored", async () => {
+      for (let i = 1; i <= 5; i++) {
+        await service.record("posts", `p${i}`, { like: i });
+      }
+      await service.record("posts", "tie", { like: 3 });
+
+      const first = await service.getTrending("posts", "24h", { limit: 3 });
+      expect(first.items.map((entry) => entry.item)).toEqual([
+        "p5",
+        "p4",
+        "tie",
+      ]);
+
+      // A new item enters above the cursor, which an offset would repeat
+      await service.record("posts", "new", { like: 10 });
+      await service.refresh("posts", "24h");
+
+      const second = await service.getTrending("posts", "24h", {
+        limit: 3,
+        cursor: first.nextCursor,
+      });
+      expect(
+        second.items.map(({ item, position }) => [item, position]),
+      ).toEqual([
+        ["p3", 5],
+        ["p2", 6],
+        ["p1", 7],
+      ]);
+      expect(second.hasMore).toBe(false);
+    });
+
+    it("should reject unknown windows", async () => {
+      await expect(service.getTrending("posts", "1y")).rejects.toThrow(
+        "Unknown trending window",
+      );
+    });
+  });
+
+  // =============================================
+  // REMOVAL
+  // =============================================
+
+  describe("remove()", () => {
+    it("should drop an item from buckets and rankings", async () => {
+      await service.record("posts", "p1", "like");
+      await service.record("posts", "p2", "like");
+      await service.getTrending("posts", "1h");
+
+      await service.remove("posts", "p1");
+      expect(await service.getScore("posts", "p1", "1h")).toBeNull();
+
+      await service.refresh("posts", "24h");
+      expect(await service.getScore("posts", "p1", "24h")).toBeNull();
+    });
+  });
+});